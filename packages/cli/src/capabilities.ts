@@ -4,8 +4,16 @@ import * as os from "os";
 import * as path from "path";
 import * as crypto from "crypto";
 import { execSync } from "child_process";
+import { detectSandboxSupport } from "./sandbox.js";
 
-export type Capability = "ssh" | "local_cmd" | "perf_metrics";
+export type Capability =
+  | "ssh"
+  | "local_cmd"
+  | "perf_metrics"
+  | "run_as_user" // Local commands can run as another user
+  | "rlimits" // Local commands can get CPU, memory and open file limits
+  | "unshare" // Local commands can run in their own namespaces
+  | "systemd_run"; // Local commands can run in a transient systemd scope
 
 export interface CapabilityInfo {
   capabilities: Capability[];
@@ -35,6 +43,13 @@ export async function detectCapabilities(): Promise<CapabilityInfo> {
     capabilities.push("perf_metrics");
   }
 
+  // Execution profile features this machine can enforce
+  const sandbox = await detectSandboxSupport();
+  if (sandbox.runAsUser) capabilities.push("run_as_user");
+  if (sandbox.rlimits) capabilities.push("rlimits");
+  if (sandbox.unshare) capabilities.push("unshare");
+  if (sandbox.systemdRun) capabilities.push("systemd_run");
+
   logger.info("Detected capabilities", { capabilities });
 
   return {
@@ -2,7 +2,13 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
-import { CredentialManager, type Credential, type CredentialType, type StorageMode } from "./credentials";
+import {
+  CredentialManager,
+  parseSshCredential,
+  type Credential,
+  type CredentialType,
+  type StorageMode,
+} from "./credentials";
 
 // Mock logger
 vi.mock("./logger", () => ({
@@ -432,3 +438,39 @@ describe("CredentialManager", () => {
     });
   });
 });
+
+describe("parseSshCredential", () => {
+  const credential = (type: CredentialType, value: string): Credential => ({
+    name: "cred",
+    type,
+    value,
+    storageMode: "relay_only",
+    createdAt: 0,
+    updatedAt: 0,
+  });
+
+  it("reads private keys with an optional passphrase", () => {
+    expect(
+      parseSshCredential(
+        credential("ssh_key", JSON.stringify({ username: "deploy", privateKey: "KEY", passphrase: "pw" }))
+      )
+    ).toEqual({ username: "deploy", privateKey: "KEY", passphrase: "pw" });
+    expect(parseSshCredential(credential("ssh_key", "KEY"))).toEqual({ privateKey: "KEY" });
+  });
+
+  it("reads passwords and enables keyboard-interactive by default", () => {
+    expect(parseSshCredential(credential("password", "hunter2"))).toEqual({
+      password: "hunter2",
+      keyboardInteractive: true,
+    });
+    expect(
+      parseSshCredential(
+        credential("password", JSON.stringify({ username: "admin", password: "hunter2", keyboardInteractive: false }))
+      )
+    ).toEqual({ username: "admin", password: "hunter2", keyboardInteractive: false });
+  });
+
+  it("ignores credentials that can't be used for SSH", () => {
+    expect(parseSshCredential(credential("api_key", "sk_123"))).toBeNull();
+  });
+});
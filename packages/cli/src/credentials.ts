@@ -17,6 +17,15 @@ export interface Credential {
   updatedAt: number;
 }
 
+// SSH authentication material from an ssh_key or password credential
+export interface SshCredential {
+  username?: string; // Overrides the command's username when set
+  privateKey?: string;
+  passphrase?: string; // For encrypted private keys
+  password?: string;
+  keyboardInteractive?: boolean; // Answer keyboard-interactive prompts with the password
+}
+
 export interface CredentialMetadata {
   credentialName: string;
   credentialType: CredentialType;
@@ -25,13 +34,63 @@ export interface CredentialMetadata {
   lastUpdatedAt: number;
 }
 
+export interface KnownHost {
+  host: string;
+  port: number;
+  keyType: string; // e.g. "ssh-ed25519"
+  fingerprint: string; // OpenSSH SHA256 fingerprint ("SHA256:...")
+  source: "tofu" | "pinned"; // Learned on first use or pinned from the center
+  firstSeenAt: number;
+  lastSeenAt: number;
+  rejectedFingerprint?: string; // Last key presented that didn't match
+  rejectedAt?: number;
+}
+
 interface CredentialStore {
   version: number;
   salt: string;
   credentials: Credential[];
+  knownHosts?: KnownHost[]; // Absent in stores written before host key verification
+}
+
+/**
+ * Extract SSH authentication from a credential.
+ * Values are either JSON ({ username?, privateKey, passphrase? } for ssh_key,
+ * { username?, password, keyboardInteractive? } for password) or the bare key/password.
+ * Returns null for credentials that can't be used for SSH.
+ */
+export function parseSshCredential(cred: Credential): SshCredential | null {
+  let parsed: Record<string, unknown> | null = null;
+  try {
+    const value = JSON.parse(cred.value);
+    if (value && typeof value === "object") parsed = value as Record<string, unknown>;
+  } catch {
+    // Not JSON - the value is the bare key or password
+  }
+  const str = (field: string) => (typeof parsed?.[field] === "string" ? (parsed[field] as string) : undefined);
+
+  if (cred.type === "ssh_key") {
+    if (!parsed) return { privateKey: cred.value };
+    return { username: str("username"), privateKey: str("privateKey"), passphrase: str("passphrase") };
+  }
+
+  if (cred.type === "password") {
+    if (!parsed) return { password: cred.value, keyboardInteractive: true };
+    return {
+      username: str("username"),
+      password: str("password"),
+      keyboardInteractive: parsed.keyboardInteractive !== false,
+    };
+  }
+
+  return null;
 }
 
 const STORE_VERSION = 1;
+
+function knownHostKey(host: string, port: number): string {
+  return `${host.toLowerCase()}:${port}`;
+}
 const ALGORITHM = "aes-256-gcm";
 const KEY_LENGTH = 32;
 const IV_LENGTH = 16;
@@ -42,6 +101,7 @@ export class CredentialManager {
   private storePath: string;
   private encryptionKey: Buffer | null = null;
   private credentials: Map<string, Credential> = new Map();
+  private knownHosts: Map<string, KnownHost> = new Map(); // By "host:port"
   private salt: string = "";
 
   constructor(storeDir?: string) {
@@ -173,6 +233,11 @@ export class CredentialManager {
       this.credentials.set(cred.name, cred);
     }
 
+    this.knownHosts.clear();
+    for (const known of store.knownHosts ?? []) {
+      this.knownHosts.set(knownHostKey(known.host, known.port), known);
+    }
+
     logger.info(`Loaded ${this.credentials.size} credentials from store`);
   }
 
@@ -188,6 +253,7 @@ export class CredentialManager {
       version: STORE_VERSION,
       salt: this.salt,
       credentials: Array.from(this.credentials.values()),
+      knownHosts: Array.from(this.knownHosts.values()),
     };
 
     const encrypted = this.encrypt(JSON.stringify(store));
@@ -308,6 +374,39 @@ export class CredentialManager {
     return imported;
   }
 
+  /**
+   * Get the recorded host key for an SSH target
+   */
+  getKnownHost(host: string, port: number): KnownHost | undefined {
+    return this.knownHosts.get(knownHostKey(host, port));
+  }
+
+  /**
+   * Record or replace the host key for an SSH target
+   */
+  async setKnownHost(known: KnownHost): Promise<void> {
+    this.knownHosts.set(knownHostKey(known.host, known.port), known);
+    await this.save();
+  }
+
+  /**
+   * Forget the host key for an SSH target
+   */
+  async deleteKnownHost(host: string, port: number): Promise<boolean> {
+    const deleted = this.knownHosts.delete(knownHostKey(host, port));
+    if (deleted) {
+      await this.save();
+    }
+    return deleted;
+  }
+
+  /**
+   * List all recorded host keys
+   */
+  listKnownHosts(): KnownHost[] {
+    return Array.from(this.knownHosts.values());
+  }
+
   /**
    * Check if credential store has been initialized
    */
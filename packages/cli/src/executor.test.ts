@@ -1,5 +1,24 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { executeLocal, type ExecutionResult } from "./executor.js";
+import { readFileSync, realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { connect, type AddressInfo } from "node:net";
+import { Server, utils, type AuthContext } from "ssh2";
+import { executeLocal, executeSSH, remoteCommandLine, type ExecutionResult } from "./executor.js";
+import { detectSandboxSupport } from "./sandbox.js";
+
+// A killed process can linger as a zombie until init reaps it - that counts as stopped
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  try {
+    return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, "utf-8"));
+  } catch {
+    return true;
+  }
+}
 
 describe("executeLocal", () => {
   beforeEach(() => {
@@ -44,6 +63,18 @@ describe("executeLocal", () => {
       expect(result.exitCode).toBe(1);
     });
 
+    it("should report processes killed by a signal as failed", async () => {
+      const result = await executeLocal({
+        command: "kill -TERM $$",
+        timeoutMs: 5000,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.signal).toBe("SIGTERM");
+      expect(result.exitCode).toBe(-1);
+      expect(result.error).toBe("Command killed by SIGTERM");
+    });
+
     it("should handle command errors", async () => {
       const result = await executeLocal({
         command: "nonexistent_command_12345",
@@ -55,6 +86,97 @@ describe("executeLocal", () => {
     });
   });
 
+  describe("stdin", () => {
+    it("should pipe stdin to the command and close it", async () => {
+      const result = await executeLocal({
+        command: "tr a-z A-Z; echo done",
+        stdin: "it's \"quoted\" $HOME\n",
+        timeoutMs: 5000,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe("IT'S \"QUOTED\" $HOME\ndone\n");
+    });
+
+    it("should give commands end of input when there is no stdin", async () => {
+      const result = await executeLocal({
+        command: "cat; echo eof",
+        timeoutMs: 5000,
+      });
+
+      expect(result.output).toBe("eof\n");
+    });
+
+    it("should not fail when the command exits without reading stdin", async () => {
+      const result = await executeLocal({
+        command: "exit 0",
+        stdin: Buffer.alloc(1024 * 1024),
+        timeoutMs: 5000,
+      });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("structured invocation", () => {
+    it("should run argv without a shell", async () => {
+      const result = await executeLocal({
+        command: "printf",
+        argv: ["printf", "%s|", "a b", "$HOME;", "it's", "*"],
+        timeoutMs: 5000,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe("a b|$HOME;|it's|*|");
+    });
+
+    it("should run in the working directory with the extra environment", async () => {
+      const result = await executeLocal({
+        command: 'pwd; echo "$GREETING"; command -v sh >/dev/null && echo path',
+        cwd: "/tmp",
+        env: { GREETING: "hello there" },
+        timeoutMs: 5000,
+      });
+
+      expect(result.output).toBe("/tmp\nhello there\npath\n");
+    });
+
+    it("should fail when the working directory is missing", async () => {
+      const result = await executeLocal({
+        command: "pwd",
+        cwd: "/nonexistent/dir",
+        timeoutMs: 5000,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Working directory not found: /nonexistent/dir");
+    });
+
+    it("should run the command string with the chosen shell", async () => {
+      const result = await executeLocal({
+        command: 'echo "${BASH_VERSION:+bash}"',
+        shell: "bash",
+        timeoutMs: 5000,
+      });
+
+      expect(result.output).toBe("bash\n");
+    });
+
+    it("should build SSH command lines that a POSIX shell runs as given", async () => {
+      const result = await executeLocal({
+        command: remoteCommandLine({
+          command: "printf",
+          argv: ["printf", "%s|%s|%s", "it's", "$GREETING", "$PWD"],
+          cwd: "/tmp",
+          env: { GREETING: "a 'quoted' value" },
+        }),
+        timeoutMs: 5000,
+      });
+
+      expect(result.output).toBe("it's|$GREETING|$PWD");
+    });
+  });
+
   describe("streaming callbacks", () => {
     it("should call onOutput callback for each stdout chunk", async () => {
       const chunks: string[] = [];
@@ -156,6 +278,46 @@ describe("executeLocal", () => {
       expect(result.success).toBe(false);
       expect(result.error).toBe("Command timed out");
       expect(result.exitCode).toBe(-1);
+      expect(result.timedOut).toBe(true);
+    });
+
+    it("should stop the whole process group on timeout", async () => {
+      const result = await executeLocal({
+        command: "sleep 30 | cat & echo \"child $!\"; wait",
+        timeoutMs: 300,
+      });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.signal).toBe("SIGTERM");
+      expect(result.durationMs).toBeLessThan(5000);
+
+      // The pipeline under the shell must be gone too
+      const grandchildPid = Number(result.output.match(/child (\d+)/)![1]);
+      expect(isRunning(grandchildPid)).toBe(false);
+    });
+
+    it("should kill commands that ignore SIGTERM after the grace period", async () => {
+      const result = await executeLocal({
+        command: "trap '' TERM; echo ready; sleep 30 & wait",
+        timeoutMs: 300,
+        killGraceMs: 200,
+      });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.error).toBe("Command timed out");
+      expect(result.signal).toBe("SIGKILL");
+      expect(result.output).toBe("ready\n");
+      expect(result.durationMs).toBeGreaterThanOrEqual(500);
+      expect(result.durationMs).toBeLessThan(5000);
+    });
+
+    it("should not flag commands that finish in time", async () => {
+      const result = await executeLocal({
+        command: "true",
+        timeoutMs: 5000,
+      });
+
+      expect(result.timedOut).toBeUndefined();
     });
 
     it("should still call callbacks before timeout", async () => {
@@ -176,6 +338,145 @@ describe("executeLocal", () => {
       expect(chunks.join("")).toContain("before sleep");
     });
   });
+
+  describe("output limit", () => {
+    it("should keep the head and tail of output over the cap and count every byte", async () => {
+      const streamed: string[] = [];
+      const result = await executeLocal({
+        command: "printf 'aaaaaaaaaa0123456789bbbbbbbbbb'",
+        timeoutMs: 5000,
+        outputLimit: { maxBytes: 20, keep: "head_tail", onLimit: "truncate" },
+        onOutput: (chunk) => streamed.push(chunk),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe("aaaaaaaaaa\n[... 10 bytes truncated ...]\nbbbbbbbbbb");
+      expect(result.outputBytes).toBe(30);
+      expect(result.outputTruncated).toBe(true);
+      expect(result.stderrBytes).toBe(0);
+      expect(result.stderrTruncated).toBeUndefined();
+      // Only the first maxBytes are streamed
+      expect(streamed.join("")).toBe("aaaaaaaaaa0123456789");
+    });
+
+    it("should kill commands that go over the cap when asked to", async () => {
+      const result = await executeLocal({
+        command: "yes",
+        timeoutMs: 10000,
+        outputLimit: { maxBytes: 1024, keep: "head", onLimit: "kill" },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Output exceeded 1024 bytes - command killed");
+      expect(result.outputTruncated).toBe(true);
+      expect(result.output.startsWith("y\ny\n")).toBe(true);
+      expect(result.durationMs).toBeLessThan(5000);
+    });
+  });
+
+  describe("cancellation", () => {
+    it("should kill the process tree and return partial output when aborted", async () => {
+      const controller = new AbortController();
+      let output = "";
+
+      const result = await executeLocal({
+        command: "sleep 30 & echo \"child $!\"; wait",
+        timeoutMs: 10000,
+        signal: controller.signal,
+        onOutput: (chunk) => {
+          output += chunk;
+          if (output.includes("child")) controller.abort();
+        },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+      expect(result.error).toBe("Command cancelled");
+      expect(result.timedOut).toBeUndefined();
+      expect(result.output).toContain("child");
+
+      // The backgrounded grandchild must be gone too
+      const grandchildPid = Number(result.output.match(/child (\d+)/)![1]);
+      expect(isRunning(grandchildPid)).toBe(false);
+    });
+
+    it("should stop immediately when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await executeLocal({
+        command: "sleep 30",
+        timeoutMs: 10000,
+        signal: controller.signal,
+      });
+
+      expect(result.cancelled).toBe(true);
+      expect(result.durationMs).toBeLessThan(5000);
+    });
+  });
+
+  describe("execution profile", () => {
+    it("applies resource limits", async () => {
+      const result = await executeLocal({
+        command: "ulimit -t; ulimit -n",
+        timeoutMs: 5000,
+        profile: { cpuSeconds: 5, openFiles: 64 },
+      });
+
+      expect(result.output).toBe("5\n64\n");
+    });
+
+    it("kills commands that use up their CPU time", async () => {
+      const result = await executeLocal({
+        command: "while :; do :; done",
+        timeoutMs: 10000,
+        profile: { cpuSeconds: 1 },
+      });
+
+      expect(result.success).toBe(false);
+      expect(["SIGXCPU", "SIGKILL"]).toContain(result.signal);
+      expect(result.timedOut).toBeUndefined();
+    });
+
+    it("starts commands in the base directory with a scrubbed environment", async () => {
+      const baseDir = realpathSync(tmpdir());
+      process.env.RELAY_PROFILE_TEST = "secret";
+      const result = await executeLocal({
+        command: 'pwd; echo "[$RELAY_PROFILE_TEST]"',
+        timeoutMs: 5000,
+        profile: { baseDir, scrubEnv: true },
+      }).finally(() => delete process.env.RELAY_PROFILE_TEST);
+
+      expect(result.output).toBe(`${baseDir}\n[]\n`);
+
+      const escaped = await executeLocal({ command: "pwd", cwd: "/", timeoutMs: 5000, profile: { baseDir } });
+      expect(escaped).toMatchObject({ success: false, error: "Working directory is outside the base directory: /" });
+    });
+
+    it("runs commands in their own PID namespace under unshare", async () => {
+      if (!(await detectSandboxSupport()).unshare) return;
+
+      const result = await executeLocal({
+        command: "echo $$",
+        timeoutMs: 5000,
+        profile: { isolation: "unshare" },
+      });
+
+      expect(result.output).toBe("1\n");
+    });
+
+    it("runs commands as another user when the relay is root", async () => {
+      if (process.getuid?.() !== 0) return;
+
+      const result = await executeLocal({
+        command: "id -u; id -G",
+        timeoutMs: 5000,
+        profile: { user: "65534" },
+      });
+
+      expect(result.output).toBe("65534\n65534\n");
+    });
+  });
 });
 
 describe("executeSSH", () => {
@@ -200,3 +501,265 @@ describe("executeSSH", () => {
     expect(options.onStderr).toBeDefined();
   });
 });
+
+describe("executeSSH authentication", () => {
+  const hostKey = utils.generateKeyPairSync("ed25519");
+  const clientKey = utils.generateKeyPairSync("ed25519", { passphrase: "key-pass", cipher: "aes256-cbc" });
+  const plainKey = utils.generateKeyPairSync("ed25519");
+  const otherKey = utils.generateKeyPairSync("ed25519");
+  const allowedKeys = [utils.parseKey(clientKey.public), utils.parseKey(plainKey.public)];
+  let server: Server;
+  let port: number;
+  let allowedMethods: string[];
+
+  // Accepts user "legacy" with password "secret" (directly or via keyboard-interactive), clientKey or plainKey
+  const authenticate = (ctx: AuthContext) => {
+    if (ctx.username !== "legacy" || !allowedMethods.includes(ctx.method)) {
+      return ctx.reject(allowedMethods);
+    }
+    switch (ctx.method) {
+      case "password":
+        return ctx.password === "secret" ? ctx.accept() : ctx.reject(allowedMethods);
+      case "keyboard-interactive":
+        return ctx.prompt([{ prompt: "Password: ", echo: false }], (answers) =>
+          answers[0] === "secret" ? ctx.accept() : ctx.reject(allowedMethods)
+        );
+      case "publickey": {
+        const allowedKey = allowedKeys.find(
+          (key) =>
+            !(key instanceof Error) &&
+            !Array.isArray(key) &&
+            key.type === ctx.key.algo &&
+            ctx.key.data.equals(key.getPublicSSH())
+        );
+        if (!allowedKey || allowedKey instanceof Error || Array.isArray(allowedKey)) return ctx.reject(allowedMethods);
+        if (ctx.signature && allowedKey.verify(ctx.blob!, ctx.signature, ctx.hashAlgo) !== true) {
+          return ctx.reject(allowedMethods);
+        }
+        return ctx.accept();
+      }
+      default:
+        return ctx.reject(allowedMethods);
+    }
+  };
+
+  beforeEach(async () => {
+    allowedMethods = ["password", "keyboard-interactive", "publickey"];
+    server = new Server({ hostKeys: [hostKey.private] }, (client) => {
+      client.on("authentication", authenticate).on("ready", () => {
+        client.on("session", (accept) => {
+          accept().on("exec", (acceptExec, _reject, info) => {
+            const stream = acceptExec();
+            if (info.command === "cat") {
+              // Echo the input back once the client closes it
+              const input: Buffer[] = [];
+              stream.on("data", (data: Buffer) => input.push(data));
+              stream.on("end", () => {
+                stream.write(Buffer.concat(input));
+                stream.exit(0);
+                stream.end();
+              });
+              return;
+            }
+            stream.write(`ran: ${info.command}`);
+            stream.exit(0);
+            stream.end();
+          });
+        });
+      });
+      client.on("error", () => {});
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const run = (auth: Partial<Parameters<typeof executeSSH>[0]>) =>
+    executeSSH({ command: "uptime", host: "127.0.0.1", port, username: "legacy", timeoutMs: 10000, ...auth });
+
+  it("pipes stdin to the command and closes it", async () => {
+    const result = await run({ command: "cat", password: "secret", stdin: '{"name":"app"}' });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('{"name":"app"}');
+  });
+
+  it("sends the working directory, environment and argv in the command line", async () => {
+    const result = await run({
+      command: "grep it's",
+      argv: ["grep", "it's"],
+      cwd: "/srv/app",
+      env: { LC_ALL: "C" },
+      password: "secret",
+    });
+
+    expect(result.output).toBe(`ran: cd '/srv/app' || exit 1; export LC_ALL='C'; exec 'grep' 'it'\\''s'`);
+  });
+
+  it("stops the command once its output goes over the cap when asked to", async () => {
+    const result = await run({
+      password: "secret",
+      outputLimit: { maxBytes: 5, keep: "head", onLimit: "kill" },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Output exceeded 5 bytes - command killed");
+    expect(result.output).toBe("ran: \n[... 6 bytes truncated ...]\n");
+    expect(result).toMatchObject({ outputBytes: 11, outputTruncated: true });
+  });
+
+  it("runs the command string with the chosen shell", async () => {
+    const result = await run({ command: "echo $0", shell: "bash", password: "secret" });
+
+    expect(result.output).toBe(`ran: exec bash -c 'echo $0'`);
+  });
+
+  it("authenticates with a password", async () => {
+    allowedMethods = ["password"];
+
+    const result = await run({ password: "secret" });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe("ran: uptime");
+    expect(result.authMethod).toBe("password");
+  });
+
+  it("answers keyboard-interactive prompts with the password", async () => {
+    allowedMethods = ["keyboard-interactive"];
+
+    const result = await run({ password: "secret", keyboardInteractive: true });
+    expect(result.success).toBe(true);
+    expect(result.authMethod).toBe("keyboard-interactive");
+    expect((await run({ password: "secret" })).success).toBe(false);
+  });
+
+  it("authenticates with an encrypted private key and its passphrase", async () => {
+    allowedMethods = ["publickey"];
+
+    const result = await run({ privateKey: clientKey.private, passphrase: "key-pass" });
+
+    expect(result.success).toBe(true);
+    expect(result.authMethod).toBe("publickey");
+  });
+
+  it("tries identity files in order and reports the one that worked", async () => {
+    allowedMethods = ["publickey"];
+
+    const result = await run({
+      identityFiles: [
+        { path: "~/.ssh/id_ed25519", privateKey: otherKey.private },
+        { path: "~/.ssh/id_rsa", privateKey: plainKey.private },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.authMethod).toBe("publickey:~/.ssh/id_rsa");
+  });
+
+  it("falls back to identity files when the password is rejected", async () => {
+    const result = await run({
+      password: "wrong",
+      identityFiles: [{ path: "/etc/relay/key", privateKey: plainKey.private }],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.authMethod).toBe("publickey:/etc/relay/key");
+  });
+
+  it("fails when no configured method is accepted", async () => {
+    allowedMethods = ["publickey"];
+
+    const result = await run({ identityFiles: [{ path: "~/.ssh/id_ed25519", privateKey: otherKey.private }] });
+
+    expect(result.success).toBe(false);
+    expect(result.authMethod).toBeUndefined();
+  });
+
+  it("reports a missing passphrase as an error instead of throwing", async () => {
+    const result = await run({ privateKey: clientKey.private });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/passphrase/i);
+  });
+
+  it("fails with the host key rejection reason", async () => {
+    const result = await run({
+      password: "secret",
+      verifyHostKey: async () => ({ ok: false, reason: "Host key verification failed for test" }),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Host key verification failed for test");
+    expect(result.errorCode).toBe("host_key_rejected");
+  });
+
+  describe("through jump hosts", () => {
+    let bastion: Server;
+    let bastionPort: number;
+    let forwarded: string[];
+
+    // Accepts user "jump" with password "hop" and forwards channels to 127.0.0.1
+    beforeEach(async () => {
+      forwarded = [];
+      bastion = new Server({ hostKeys: [hostKey.private] }, (client) => {
+        client
+          .on("authentication", (ctx) =>
+            ctx.method === "password" && ctx.username === "jump" && ctx.password === "hop"
+              ? ctx.accept()
+              : ctx.reject(["password"])
+          )
+          .on("ready", () => {
+            client.on("tcpip", (accept, _reject, info) => {
+              forwarded.push(`${info.destIP}:${info.destPort}`);
+              const stream = accept();
+              const socket = connect(info.destPort, "127.0.0.1");
+              stream.pipe(socket).pipe(stream);
+              socket.on("error", () => stream.close());
+            });
+          });
+        client.on("error", () => {});
+      });
+      await new Promise<void>((resolve) => bastion.listen(0, "127.0.0.1", resolve));
+      bastionPort = (bastion.address() as AddressInfo).port;
+    });
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) => bastion.close(() => resolve()));
+    });
+
+    const hop = (password: string) => ({ host: "127.0.0.1", port: bastionPort, username: "jump", password });
+
+    it("tunnels through each jump host to the target", async () => {
+      const result = await run({ password: "secret", jumpHosts: [hop("hop"), hop("hop")] });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe("ran: uptime");
+      expect(result.authMethod).toBe("password");
+      expect(forwarded).toEqual([`127.0.0.1:${bastionPort}`, `127.0.0.1:${port}`]);
+    });
+
+    it("names the jump host that failed", async () => {
+      const result = await run({ password: "secret", jumpHosts: [hop("wrong")] });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        `Jump host 127.0.0.1:${bastionPort}: All configured authentication methods failed`
+      );
+      expect(forwarded).toEqual([]);
+    });
+
+    it("verifies the host key of each jump host", async () => {
+      const result = await run({
+        password: "secret",
+        jumpHosts: [{ ...hop("hop"), verifyHostKey: async () => ({ ok: false, reason: "bastion key changed" }) }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(`Jump host 127.0.0.1:${bastionPort}: bastion key changed`);
+      expect(result.errorCode).toBe("host_key_rejected");
+    });
+  });
+});
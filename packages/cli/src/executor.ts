@@ -1,6 +1,26 @@
-import { spawn } from "node:child_process";
-import { Client } from "ssh2";
+import { spawn, type ChildProcess } from "node:child_process";
+import {
+  Client,
+  type AnyAuthMethod,
+  type AuthHandlerMiddleware,
+  type ClientChannel,
+  type ConnectConfig,
+  type KeyboardInteractiveCallback,
+  type Prompt,
+  utils,
+} from "ssh2";
 import { logger } from "./logger.js";
+import { HOST_KEY_REJECTED_ERROR_CODE, type HostKeyDecision } from "./hostKeys.js";
+import type { SshConnectionPool, SshConnectionLease } from "./sshPool.js";
+import type { PulledFile } from "./fileTransfer.js";
+import { prepareSandbox, type ExecutionProfile } from "./sandbox.js";
+import {
+  DEFAULT_OUTPUT_LIMIT,
+  OutputBuffer,
+  collectedOutput,
+  outputLimitError,
+  type OutputLimit,
+} from "./outputBuffer.js";
 
 export interface ExecutionResult {
   success: boolean;
@@ -9,24 +29,238 @@ export interface ExecutionResult {
   exitCode: number;
   error?: string;
   durationMs: number;
+  timedOut?: boolean; // Command was killed after exceeding timeoutMs
+  cancelled?: boolean; // Command was stopped through its abort signal
+  signal?: string; // Signal that ended the process, e.g. "SIGTERM" - exitCode is -1 then
+  errorCode?: string; // Machine-readable reason when the relay refused to run the command
+  authMethod?: string; // SSH authentication that succeeded, e.g. "agent" or "publickey:~/.ssh/id_ed25519"
+  file?: PulledFile; // Contents a file_pull stored on the center
+  outputFile?: StoredOutput; // Whole stdout, when output only holds a preview
+  stderrFile?: StoredOutput; // Whole stderr, when stderr only holds a preview
+  outputBytes?: number; // Bytes of stdout the command produced, kept or not
+  stderrBytes?: number; // Bytes of stderr the command produced, kept or not
+  outputTruncated?: boolean; // stdout went over the output limit - output is what was kept
+  stderrTruncated?: boolean; // stderr went over the output limit - stderr is what was kept
 }
 
-export interface LocalExecuteOptions {
-  command: string;
+// Output too large to submit inline, stored on the center
+export interface StoredOutput {
+  storageId: string;
+  size: number; // Bytes of UTF-8 output
+  sha256: string; // Base64 SHA-256, as Convex file storage records it
+}
+
+// What to run: a shell command string, or a program and its arguments
+export interface CommandInvocation {
+  command: string; // Shell command (for argv, the quoted command line - used for logging)
+  argv?: string[]; // Program and arguments, run without a shell
+  cwd?: string; // Working directory
+  env?: Record<string, string>; // Extra environment variables
+  shell?: "sh" | "bash"; // Shell for command (default: sh locally, the login shell over SSH)
+}
+
+export interface LocalExecuteOptions extends CommandInvocation {
+  stdin?: string | Buffer; // Input written to the command, then closed
+  outputLimit?: OutputLimit; // Cap on the output kept per stream (default: DEFAULT_OUTPUT_LIMIT)
   timeoutMs: number;
+  killGraceMs?: number; // How long a stopped command gets between SIGTERM and SIGKILL (default: DEFAULT_KILL_GRACE_MS)
+  profile?: ExecutionProfile; // User, base directory, environment, limits and isolation to run the command with
   onOutput?: (data: string) => void; // Callback for streaming stdout
   onStderr?: (data: string) => void; // Callback for streaming stderr
+  signal?: AbortSignal; // Abort to cancel the command
 }
 
-export interface SSHExecuteOptions {
-  command: string;
+// Where and how to connect - used for the target and for each jump host
+export interface SSHConnectionOptions {
   host: string;
   port: number;
   username: string;
-  privateKey: string;
+  privateKey?: string; // Private key (PEM or OpenSSH format)
+  passphrase?: string; // Passphrase for an encrypted privateKey
+  password?: string; // Password for password authentication
+  keyboardInteractive?: boolean; // Also answer keyboard-interactive prompts with the password
+  agent?: string; // ssh-agent socket to authenticate with (e.g. SSH_AUTH_SOCK)
+  identityFiles?: Array<{ path: string; privateKey: string }>; // More keys to try after the agent
+  verifyHostKey?: (key: Buffer) => Promise<HostKeyDecision>; // Accept or reject the server's host key
+}
+
+// Connection to a command's target, including how it is reached
+export interface SSHTargetOptions extends SSHConnectionOptions {
+  jumpHosts?: SSHConnectionOptions[]; // Hosts to tunnel through, in order, to reach the target
+  agentForward?: boolean; // Forward the agent to the target (requires agent)
+}
+
+export interface SSHExecuteOptions extends SSHTargetOptions, CommandInvocation {
+  stdin?: string | Buffer; // Input written to the command, then closed
+  pool?: SshConnectionPool; // Reuse connections across commands instead of connecting for each one
+  outputLimit?: OutputLimit; // Cap on the output kept per stream (default: DEFAULT_OUTPUT_LIMIT)
   timeoutMs: number;
   onOutput?: (data: string) => void; // Callback for streaming stdout
   onStderr?: (data: string) => void; // Callback for streaming stderr
+  signal?: AbortSignal; // Abort to cancel the command
+}
+
+// How long an SSH handshake and authentication may take
+const SSH_READY_TIMEOUT_MS = 10000;
+
+// How long a stopped local command gets to exit after SIGTERM before the group is killed
+export const DEFAULT_KILL_GRACE_MS = 5000;
+
+// How long to wait for the output pipes to close once a stopped command's group was killed
+const PIPE_CLOSE_WAIT_MS = 1000;
+
+/**
+ * Authentication attempts for an SSH connection, in the order they are tried:
+ * the credential (key, password, keyboard-interactive), then the agent, then identity files
+ */
+function buildAuthAttempts(options: SSHConnectionOptions): Array<{ label: string; method: AnyAuthMethod }> {
+  const username = options.username;
+  const attempts: Array<{ label: string; method: AnyAuthMethod }> = [];
+
+  if (options.privateKey) {
+    attempts.push({
+      label: "publickey",
+      method: { type: "publickey", username, key: options.privateKey, passphrase: options.passphrase },
+    });
+  }
+  if (options.password !== undefined) {
+    const password = options.password;
+    attempts.push({ label: "password", method: { type: "password", username, password } });
+    if (options.keyboardInteractive) {
+      attempts.push({
+        label: "keyboard-interactive",
+        method: {
+          type: "keyboard-interactive",
+          username,
+          // Legacy devices ask for the password through keyboard-interactive prompts
+          prompt: (_name: string, _instructions: string, _lang: string, prompts: Prompt[], finish: KeyboardInteractiveCallback) => {
+            logger.debug(`Answering ${prompts.length} keyboard-interactive prompt(s)`, {
+              prompts: prompts.map((p) => p.prompt),
+            });
+            finish(prompts.map(() => password));
+          },
+        },
+      });
+    }
+  }
+  if (options.agent) {
+    attempts.push({ label: "agent", method: { type: "agent", username, agent: options.agent } });
+  }
+  for (const identity of options.identityFiles ?? []) {
+    attempts.push({
+      label: `publickey:${identity.path}`,
+      method: { type: "publickey", username, key: identity.privateKey },
+    });
+  }
+
+  return attempts;
+}
+
+/**
+ * ssh2 silently skips keys it can't parse - report a bad key or missing passphrase instead
+ */
+function checkPrivateKey(options: SSHConnectionOptions): string | null {
+  if (!options.privateKey) return null;
+  const parsed = utils.parseKey(options.privateKey, options.passphrase);
+  return parsed instanceof Error ? `Invalid SSH private key: ${parsed.message}` : null;
+}
+
+/**
+ * ssh2 connection settings for a host: tries each authentication attempt the server
+ * still accepts and verifies the host key. `state` tracks the last method tried and
+ * why the host key was rejected, for error reporting.
+ */
+function buildConnectConfig(options: SSHConnectionOptions): {
+  config: ConnectConfig;
+  state: { authMethod?: string; hostKeyRejection?: string };
+} {
+  const state: { authMethod?: string; hostKeyRejection?: string } = {};
+  const attempts = buildAuthAttempts(options);
+
+  const authHandler: AuthHandlerMiddleware = (authsLeft, _partialSuccess, next) => {
+    while (attempts.length > 0) {
+      const attempt = attempts.shift()!;
+      if (!authsLeft || authsLeft.includes(attempt.method.type)) {
+        state.authMethod = attempt.label;
+        logger.debug(`Trying SSH authentication to ${options.host}: ${attempt.label}`);
+        next(attempt.method);
+        return;
+      }
+    }
+    // false tells ssh2 there is nothing left to try (missing from the type definitions)
+    state.authMethod = undefined;
+    next(false as unknown as AnyAuthMethod);
+  };
+
+  const config: ConnectConfig = {
+    host: options.host,
+    port: options.port,
+    username: options.username,
+    authHandler,
+    agent: options.agent, // Needed for agent forwarding
+    readyTimeout: SSH_READY_TIMEOUT_MS,
+    hostVerifier: options.verifyHostKey
+      ? (key: Buffer, verify: (valid: boolean) => void) => {
+          options.verifyHostKey!(key)
+            .then((decision) => {
+              if (!decision.ok) state.hostKeyRejection = decision.reason;
+              verify(decision.ok);
+            })
+            .catch((err) => {
+              state.hostKeyRejection = `Host key verification failed for ${options.host}: ${err instanceof Error ? err.message : String(err)}`;
+              verify(false);
+            });
+        }
+      : undefined,
+  };
+
+  return { config, state };
+}
+
+/**
+ * Quote a string for a POSIX shell
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Command line that runs an invocation through the login shell of an SSH
+ * target: changes directory and exports the environment first, and runs argv
+ * or the chosen shell in place of the login shell
+ */
+export function remoteCommandLine(invocation: CommandInvocation): string {
+  let program = invocation.command;
+  if (invocation.argv) {
+    program = `exec ${invocation.argv.map(shellQuote).join(" ")}`;
+  } else if (invocation.shell) {
+    program = `exec ${invocation.shell} -c ${shellQuote(invocation.command)}`;
+  }
+
+  const setup: string[] = [];
+  if (invocation.cwd !== undefined) {
+    setup.push(`cd ${shellQuote(invocation.cwd)} || exit 1`);
+  }
+  const env = Object.entries(invocation.env ?? {});
+  if (env.length > 0) {
+    setup.push(`export ${env.map(([name, value]) => `${name}=${shellQuote(value)}`).join(" ")}`);
+  }
+  return [...setup, program].join("; ");
+}
+
+/**
+ * Kill a detached child and everything it spawned by signalling its process group
+ */
+export function killProcessTree(proc: ChildProcess, signal: NodeJS.Signals = "SIGKILL"): void {
+  try {
+    if (proc.pid !== undefined) {
+      process.kill(-proc.pid, signal);
+      return;
+    }
+  } catch {
+    // Process group already gone - fall back to the direct child
+  }
+  proc.kill(signal);
 }
 
 /**
@@ -36,81 +270,238 @@ export async function executeLocal(options: LocalExecuteOptions): Promise<Execut
   const startTime = Date.now();
   
   logger.debug(`Executing local command: ${options.command}`);
-  
+
+  const sandbox = await prepareSandbox(options, options.profile);
+  if (!sandbox.ok) {
+    const error = sandbox.error;
+    return { success: false, output: "", stderr: error, exitCode: -1, error, durationMs: Date.now() - startTime };
+  }
+  const { program, args, cwd, env, uid, gid } = sandbox.spawn;
+
+  const limit = options.outputLimit ?? DEFAULT_OUTPUT_LIMIT;
+  const killGraceMs = options.killGraceMs ?? DEFAULT_KILL_GRACE_MS;
+
   return new Promise((resolve) => {
-    let stdout = "";
-    let stderr = "";
+    const stdout = new OutputBuffer(limit);
+    const stderr = new OutputBuffer(limit);
     let resolved = false;
+    let stopReason: "cancelled" | "timedOut" | "overLimit" | null = null; // Why the relay stopped the command
+    let stopTimer: Timer | null = null;
 
-    const proc = spawn("sh", ["-c", options.command], {
-      stdio: ["ignore", "pipe", "pipe"],
+    const proc = spawn(program, args, {
+      stdio: ["pipe", "pipe", "pipe"],
+      detached: true, // Own process group so stopping the command reaches the whole tree
+      cwd,
+      env,
+      uid,
+      gid,
     });
 
-    const timeout = setTimeout(() => {
-      if (!resolved) {
-        resolved = true;
-        proc.kill();
-        resolve({
-          success: false,
-          output: stdout,
-          stderr: stderr,
-          exitCode: -1,
-          error: "Command timed out",
-          durationMs: Date.now() - startTime,
-        });
+    // Write the input, if any, and close stdin so the command sees end of input.
+    // Commands that exit without reading it close the pipe early - not an error.
+    proc.stdin.on("error", (err) => logger.debug(`Command stdin closed: ${err.message}`));
+    proc.stdin.end(options.stdin);
+
+    const settle = (result: ExecutionResult) => {
+      if (resolved) return;
+      resolved = true;
+      clearTimeout(timeout);
+      if (stopTimer) clearTimeout(stopTimer);
+      options.signal?.removeEventListener("abort", onAbort);
+      resolve(result);
+    };
+
+    // Report how the command ended: stopped by the relay, killed by a signal or exited
+    const finish = (code: number | null, signal: NodeJS.Signals | null) => {
+      const result = {
+        ...collectedOutput(stdout, stderr),
+        exitCode: code ?? -1,
+        signal: signal ?? undefined,
+        durationMs: Date.now() - startTime,
+      };
+      switch (stopReason) {
+        case "cancelled":
+          logger.debug("Local command cancelled");
+          return settle({ ...result, success: false, error: "Command cancelled", cancelled: true });
+        case "timedOut":
+          logger.debug("Local command timed out", { signal });
+          return settle({ ...result, success: false, error: "Command timed out", timedOut: true });
+        case "overLimit":
+          logger.debug("Local command killed at its output limit");
+          return settle({ ...result, success: false, error: outputLimitError(limit) });
+      }
+      if (signal) {
+        logger.debug(`Command killed by ${signal}`, { durationMs: result.durationMs });
+        return settle({ ...result, success: false, error: `Command killed by ${signal}` });
+      }
+      logger.debug(`Command completed with exit code ${result.exitCode}`, { durationMs: result.durationMs });
+      settle({ ...result, success: code === 0 });
+    };
+
+    // Stop the whole tree: SIGTERM first, then SIGKILL for whatever outlived the grace period.
+    // A process that left the group can still hold the output pipes open, so stop waiting for them soon after.
+    const stop = (reason: NonNullable<typeof stopReason>) => {
+      if (resolved || stopReason) return;
+      stopReason = reason;
+      killProcessTree(proc, "SIGTERM");
+      stopTimer = setTimeout(() => {
+        killProcessTree(proc, "SIGKILL");
+        stopTimer = setTimeout(() => finish(proc.exitCode, proc.signalCode), PIPE_CLOSE_WAIT_MS);
+      }, killGraceMs);
+    };
+
+    const onAbort = () => stop("cancelled");
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    const timeout = setTimeout(() => stop("timedOut"), options.timeoutMs);
+
+    // Stop the tree once a stream goes over the cap, if the limit says so
+    const checkLimit = () => {
+      if (limit.onLimit === "kill" && (stdout.truncated || stderr.truncated)) {
+        stop("overLimit");
       }
-    }, options.timeoutMs);
+    };
 
     proc.stdout.on("data", (data: Buffer) => {
-      const chunk = data.toString();
-      stdout += chunk;
-      if (options.onOutput) {
+      const chunk = stdout.write(data);
+      if (chunk && options.onOutput) {
         options.onOutput(chunk);
       }
+      checkLimit();
     });
 
     proc.stderr.on("data", (data: Buffer) => {
-      const chunk = data.toString();
-      stderr += chunk;
-      if (options.onStderr) {
+      const chunk = stderr.write(data);
+      if (chunk && options.onStderr) {
         options.onStderr(chunk);
       }
+      checkLimit();
     });
 
-    proc.on("close", (code) => {
-      if (!resolved) {
-        clearTimeout(timeout);
-        resolved = true;
-        const exitCode = code ?? 0;
-        const durationMs = Date.now() - startTime;
-        logger.debug(`Command completed with exit code ${exitCode}`, { durationMs });
-        resolve({
-          success: exitCode === 0,
-          output: stdout,
-          stderr: stderr,
-          exitCode,
-          durationMs,
-        });
-      }
-    });
+    proc.on("close", (code, signal) => finish(code, signal));
 
     proc.on("error", (err) => {
-      if (!resolved) {
-        clearTimeout(timeout);
-        resolved = true;
-        const errorMessage = err.message;
-        logger.error(`Local command failed: ${errorMessage}`);
+      logger.error(`Local command failed: ${err.message}`);
+      settle({
+        success: false,
+        ...collectedOutput(stdout, stderr),
+        exitCode: -1,
+        error: err.message,
+        durationMs: Date.now() - startTime,
+      });
+    });
+  });
+}
+
+// An authenticated connection to a command's target
+export interface SSHConnection {
+  client: Client;
+  authMethod?: string; // Authentication that succeeded on the target
+  close(): void; // Close the connection and the jump host connections under it
+}
+
+export type SSHConnectResult =
+  | { ok: true; connection: SSHConnection }
+  | { ok: false; error: string; errorCode?: string; authFailed?: boolean };
+
+/**
+ * Connect and authenticate to one host, optionally over a channel forwarded by a jump host
+ */
+function connectHost(
+  options: SSHConnectionOptions,
+  extra: Partial<ConnectConfig> = {}
+): Promise<{ ok: true; client: Client; authMethod?: string } | Extract<SSHConnectResult, { ok: false }>> {
+  const keyError = checkPrivateKey(options);
+  if (keyError) {
+    return Promise.resolve({ ok: false, error: keyError });
+  }
+
+  const client = new Client();
+  const { config, state } = buildConnectConfig(options);
+  return new Promise((resolve) => {
+    client
+      .once("ready", () => {
+        client.removeAllListeners("error");
+        // Errors after the handshake surface as "close" to whoever uses the connection
+        client.on("error", (err) => logger.debug(`SSH connection to ${options.host} failed: ${err.message}`));
+        logger.debug(`SSH authenticated to ${options.host}`, { authMethod: state.authMethod });
+        resolve({ ok: true, client, authMethod: state.authMethod });
+      })
+      .once("error", (err: Error & { level?: string }) => {
         resolve({
-          success: false,
-          output: stdout,
-          stderr: stderr,
-          exitCode: -1,
-          error: errorMessage,
-          durationMs: Date.now() - startTime,
+          ok: false,
+          error: state.hostKeyRejection ?? err.message,
+          errorCode: state.hostKeyRejection ? HOST_KEY_REJECTED_ERROR_CODE : undefined,
+          authFailed: err.level === "client-authentication",
         });
-      }
+      });
+
+    // Key parsing errors (e.g. an encrypted key without passphrase) are thrown synchronously
+    try {
+      client.connect({ ...config, ...extra });
+    } catch (err) {
+      resolve({ ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+}
+
+/**
+ * Open an authenticated connection to a command's target, tunnelling through
+ * its jump hosts if it has any. Each jump host is reached through a channel
+ * forwarded by the previous one.
+ */
+export async function connectSSH(
+  options: SSHTargetOptions,
+  extra: Pick<ConnectConfig, "readyTimeout" | "keepaliveInterval" | "keepaliveCountMax"> = {}
+): Promise<SSHConnectResult> {
+  const clients: Client[] = [];
+  const closeAll = () => [...clients].reverse().forEach((client) => client.end());
+  let sock: ClientChannel | undefined;
+
+  const jumpHosts = options.jumpHosts ?? [];
+  for (let i = 0; i < jumpHosts.length; i++) {
+    const hop = jumpHosts[i];
+    const label = `Jump host ${hop.host}:${hop.port}`;
+
+    const connected = await connectHost(hop, { ...extra, sock });
+    if (!connected.ok) {
+      closeAll();
+      return { ...connected, error: `${label}: ${connected.error}` };
+    }
+    clients.push(connected.client);
+
+    const next = i + 1 < jumpHosts.length ? jumpHosts[i + 1] : options;
+    const forwarded = await new Promise<ClientChannel | string>((resolve) => {
+      connected.client.forwardOut("127.0.0.1", 0, next.host, next.port, (err, stream) =>
+        resolve(err ? err.message : stream)
+      );
     });
+    if (typeof forwarded === "string") {
+      closeAll();
+      return { ok: false, error: `${label}: cannot reach ${next.host}:${next.port}: ${forwarded}` };
+    }
+    sock = forwarded;
+  }
+
+  const connected = await connectHost(options, {
+    ...extra,
+    sock,
+    agentForward: options.agentForward === true && options.agent !== undefined,
   });
+  if (!connected.ok) {
+    closeAll();
+    return connected;
+  }
+  clients.push(connected.client);
+
+  return {
+    ok: true,
+    connection: { client: connected.client, authMethod: connected.authMethod, close: closeAll },
+  };
 }
 
 /**
@@ -120,100 +511,213 @@ export async function executeSSH(options: SSHExecuteOptions): Promise<ExecutionR
   const startTime = Date.now();
   
   logger.debug(`Executing SSH command on ${options.host}: ${options.command}`);
-  
+
+  for (let attempt = 1; ; attempt++) {
+    const acquired = options.pool
+      ? await options.pool.acquire(options, { fresh: attempt > 1 })
+      : await connectOnce(options);
+    if (!acquired.ok) {
+      logger.error(`SSH connection error: ${acquired.error}`);
+      return {
+        success: false,
+        output: "",
+        stderr: acquired.error,
+        exitCode: -1,
+        error: acquired.error,
+        errorCode: acquired.errorCode,
+        durationMs: Date.now() - startTime,
+      };
+    }
+
+    const { lease } = acquired;
+    const run = await runOnConnection(lease.connection, options, startTime);
+    if (run.channelFailed && lease.reused && attempt === 1) {
+      // A pooled connection can go stale between commands - retry once on a fresh one
+      logger.debug(`Pooled SSH connection to ${options.host} failed, reconnecting`, { error: run.result.error });
+      lease.discard();
+      continue;
+    }
+    if (run.connectionLost) {
+      lease.discard();
+    } else {
+      lease.release();
+    }
+    return run.result;
+  }
+}
+
+/**
+ * Connect for a single command, closing the connection once it is released
+ */
+export async function connectOnce(
+  options: SSHTargetOptions
+): Promise<{ ok: true; lease: SshConnectionLease } | Extract<SSHConnectResult, { ok: false }>> {
+  const connected = await connectSSH(options, { readyTimeout: SSH_READY_TIMEOUT_MS });
+  if (!connected.ok) return connected;
+  const close = () => connected.connection.close();
+  return { ok: true, lease: { connection: connected.connection, reused: false, release: close, discard: close } };
+}
+
+/**
+ * Run a command on an open connection. Cancelling or timing out closes the
+ * command's channel but leaves the connection open.
+ */
+function runOnConnection(
+  connection: SSHConnection,
+  options: SSHExecuteOptions,
+  startTime: number
+): Promise<{ result: ExecutionResult; channelFailed?: boolean; connectionLost?: boolean }> {
+  const conn = connection.client;
+  const authMethod = connection.authMethod;
+
+  const limit = options.outputLimit ?? DEFAULT_OUTPUT_LIMIT;
+
   return new Promise((resolve) => {
-    const conn = new Client();
-    let stdout = "";
-    let stderr = "";
+    const stdout = new OutputBuffer(limit);
+    const stderr = new OutputBuffer(limit);
     let resolved = false;
+    let channel: ClientChannel | null = null;
 
-    const timeout = setTimeout(() => {
-      if (!resolved) {
-        resolved = true;
-        conn.end();
-        resolve({
+    const finish = (
+      result: Omit<ExecutionResult, "durationMs" | "authMethod">,
+      flags: { channelFailed?: boolean; connectionLost?: boolean } = {}
+    ) => {
+      if (resolved) return;
+      resolved = true;
+      clearTimeout(timeout);
+      options.signal?.removeEventListener("abort", onAbort);
+      conn.removeListener("close", onConnectionClose);
+      resolve({ result: { ...result, durationMs: Date.now() - startTime, authMethod }, ...flags });
+    };
+
+    // Stop the command's channel and report what was received so far
+    const stopChannel = () => {
+      if (channel) {
+        channel.signal("KILL");
+        channel.close();
+      }
+    };
+
+    const onAbort = () => {
+      stopChannel();
+      logger.debug("SSH command cancelled");
+      finish({
+        success: false,
+        ...collectedOutput(stdout, stderr),
+        exitCode: -1,
+        error: "Command cancelled",
+        cancelled: true,
+      });
+    };
+
+    // Stop the channel once a stream goes over the cap, if the limit says so
+    const checkLimit = () => {
+      if (limit.onLimit === "kill" && (stdout.truncated || stderr.truncated)) {
+        stopChannel();
+        logger.debug("SSH command killed at its output limit");
+        finish({
           success: false,
-          output: stdout,
-          stderr: stderr,
+          ...collectedOutput(stdout, stderr),
           exitCode: -1,
-          error: "Command timed out",
-          durationMs: Date.now() - startTime,
+          error: outputLimitError(limit),
         });
       }
-    }, options.timeoutMs);
-
-    conn
-      .on("ready", () => {
-        conn.exec(options.command, (err, stream) => {
-          if (err) {
-            clearTimeout(timeout);
-            resolved = true;
-            conn.end();
-            resolve({
-              success: false,
-              output: "",
-              stderr: err.message,
-              exitCode: -1,
-              error: err.message,
-              durationMs: Date.now() - startTime,
-            });
-            return;
-          }
+    };
 
-          stream
-            .on("close", (code: number) => {
-              if (!resolved) {
-                clearTimeout(timeout);
-                resolved = true;
-                conn.end();
-                const durationMs = Date.now() - startTime;
-                logger.debug(`SSH command completed with exit code ${code}`, { durationMs });
-                resolve({
-                  success: code === 0,
-                  output: stdout,
-                  stderr: stderr,
-                  exitCode: code ?? 0,
-                  durationMs,
-                });
-              }
-            })
-            .on("data", (data: Buffer) => {
-              const chunk = data.toString();
-              stdout += chunk;
-              if (options.onOutput) {
-                options.onOutput(chunk);
-              }
-            })
-            .stderr.on("data", (data: Buffer) => {
-              const chunk = data.toString();
-              stderr += chunk;
-              if (options.onStderr) {
-                options.onStderr(chunk);
-              }
-            });
-        });
-      })
-      .on("error", (err) => {
-        if (!resolved) {
-          clearTimeout(timeout);
-          resolved = true;
-          logger.error(`SSH connection error: ${err.message}`);
-          resolve({
+    const onConnectionClose = () => {
+      const collected = collectedOutput(stdout, stderr);
+      finish(
+        {
+          success: false,
+          ...collected,
+          stderr: collected.stderr || "SSH connection closed",
+          exitCode: -1,
+          error: "SSH connection closed",
+        },
+        { channelFailed: channel === null, connectionLost: true }
+      );
+    };
+
+    // The timeout covers connecting too
+    const timeout = setTimeout(() => {
+      stopChannel();
+      finish({
+        success: false,
+        ...collectedOutput(stdout, stderr),
+        exitCode: -1,
+        error: "Command timed out",
+        timedOut: true,
+      });
+    }, Math.max(0, options.timeoutMs - (Date.now() - startTime)));
+
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    conn.once("close", onConnectionClose);
+
+    conn.exec(remoteCommandLine(options), (err, stream) => {
+      if (err) {
+        finish(
+          {
             success: false,
             output: "",
             stderr: err.message,
             exitCode: -1,
             error: err.message,
-            durationMs: Date.now() - startTime,
+          },
+          { channelFailed: true }
+        );
+        return;
+      }
+
+      if (resolved) {
+        // Cancelled or timed out while the channel was opening
+        stream.close();
+        return;
+      }
+
+      channel = stream;
+      if (options.stdin !== undefined) {
+        stream.end(options.stdin);
+      }
+      stream
+        .on("close", (code: number | null, signal?: string) => {
+          if (signal) {
+            logger.debug(`SSH command killed by ${signal}`, { durationMs: Date.now() - startTime });
+            finish({
+              success: false,
+              ...collectedOutput(stdout, stderr),
+              exitCode: -1,
+              signal,
+              error: `Command killed by ${signal}`,
+            });
+            return;
+          }
+          logger.debug(`SSH command completed with exit code ${code}`, { durationMs: Date.now() - startTime });
+          finish({
+            success: code === 0,
+            ...collectedOutput(stdout, stderr),
+            exitCode: code ?? 0,
           });
-        }
-      })
-      .connect({
-        host: options.host,
-        port: options.port,
-        username: options.username,
-        privateKey: options.privateKey,
-        readyTimeout: 10000,
-      });
+        })
+        .on("data", (data: Buffer) => {
+          if (resolved) return;
+          const chunk = stdout.write(data);
+          if (chunk && options.onOutput) {
+            options.onOutput(chunk);
+          }
+          checkLimit();
+        })
+        .stderr.on("data", (data: Buffer) => {
+          if (resolved) return;
+          const chunk = stderr.write(data);
+          if (chunk && options.onStderr) {
+            options.onStderr(chunk);
+          }
+          checkLimit();
+        });
+    });
   });
 }
@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { createHash } from "crypto";
+import { createServer, type Server as HttpServer } from "http";
+import type { AddressInfo } from "net";
+import { Server, utils } from "ssh2";
+import { transferLocal, transferSFTP, type FileTransferOptions } from "./fileTransfer";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const sha256 = (data: string | Buffer, encoding: "hex" | "base64") =>
+  createHash("sha256").update(data).digest(encoding);
+
+describe("file transfers", () => {
+  let storage: HttpServer;
+  let storageUrl: string;
+  let dir: string;
+
+  // Serves /<contents> as the stored chunk <contents>, standing in for Convex file storage
+  beforeAll(async () => {
+    storage = createServer((req, res) => res.end(decodeURIComponent(req.url!.slice(1))));
+    await new Promise<void>((resolve) => storage.listen(0, "127.0.0.1", resolve));
+    storageUrl = `http://127.0.0.1:${(storage.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => storage.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "relay-transfer-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const chunk = (contents: string) => ({
+    url: `${storageUrl}/${encodeURIComponent(contents)}`,
+    size: Buffer.byteLength(contents),
+    sha256: sha256(contents, "base64"),
+  });
+
+  const push = (file: Partial<FileTransferOptions["file"]>): FileTransferOptions => ({
+    kind: "file_push",
+    file: { path: path.join(dir, "app.conf"), maxBytes: 1024, ...file },
+    timeoutMs: 10000,
+    uploadChunk: async () => {
+      throw new Error("push does not upload");
+    },
+  });
+
+  const pull = (uploaded: Buffer[], file: Partial<FileTransferOptions["file"]> = {}): FileTransferOptions => ({
+    kind: "file_pull",
+    file: { path: path.join(dir, "app.log"), maxBytes: 1024, ...file },
+    timeoutMs: 10000,
+    chunkBytes: 4,
+    uploadChunk: async (data) => {
+      uploaded.push(Buffer.from(data));
+      return `storage-${uploaded.length}`;
+    },
+  });
+
+  describe("transferLocal", () => {
+    it("writes pushed chunks into place with the requested mode", async () => {
+      const result = await transferLocal(
+        push({ chunks: [chunk("port="), chunk("8080\n")], mode: 0o600, sha256: sha256("port=8080\n", "hex") })
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe(`Wrote 10 bytes to ${path.join(dir, "app.conf")} (sha256 ${sha256("port=8080\n", "hex")})`);
+      expect(fs.readFileSync(path.join(dir, "app.conf"), "utf8")).toBe("port=8080\n");
+      expect(fs.statSync(path.join(dir, "app.conf")).mode & 0o777).toBe(0o600);
+      expect(fs.readdirSync(dir)).toEqual(["app.conf"]);
+    });
+
+    it("keeps the existing file's mode when replacing it", async () => {
+      fs.writeFileSync(path.join(dir, "app.conf"), "old", { mode: 0o640 });
+      fs.chmodSync(path.join(dir, "app.conf"), 0o640);
+
+      const result = await transferLocal(push({ chunks: [chunk("new")] }));
+
+      expect(result.success).toBe(true);
+      expect(fs.readFileSync(path.join(dir, "app.conf"), "utf8")).toBe("new");
+      expect(fs.statSync(path.join(dir, "app.conf")).mode & 0o777).toBe(0o640);
+    });
+
+    it("leaves the destination untouched when a chunk fails its checksum", async () => {
+      fs.writeFileSync(path.join(dir, "app.conf"), "old");
+
+      const result = await transferLocal(push({ chunks: [{ ...chunk("new"), sha256: sha256("other", "base64") }] }));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Chunk 1/1 failed its checksum");
+      expect(fs.readFileSync(path.join(dir, "app.conf"), "utf8")).toBe("old");
+      expect(fs.readdirSync(dir)).toEqual(["app.conf"]);
+    });
+
+    it("refuses pushes over the size limit", async () => {
+      const result = await transferLocal(push({ chunks: [chunk("0123456789")], maxBytes: 5 }));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("File is 10 bytes, over the 5 byte limit");
+      expect(fs.existsSync(path.join(dir, "app.conf"))).toBe(false);
+    });
+
+    it("uploads a pulled file in chunks", async () => {
+      fs.writeFileSync(path.join(dir, "app.log"), "line one\n");
+      const uploaded: Buffer[] = [];
+
+      const result = await transferLocal(pull(uploaded));
+
+      expect(result.success).toBe(true);
+      expect(uploaded.map((b) => b.toString())).toEqual(["line", " one", "\n"]);
+      expect(result.file).toEqual({
+        chunks: [
+          { storageId: "storage-1", size: 4, sha256: sha256("line", "base64") },
+          { storageId: "storage-2", size: 4, sha256: sha256(" one", "base64") },
+          { storageId: "storage-3", size: 1, sha256: sha256("\n", "base64") },
+        ],
+        size: 9,
+        sha256: sha256("line one\n", "hex"),
+      });
+    });
+
+    it("refuses pulls over the size limit and of missing files", async () => {
+      fs.writeFileSync(path.join(dir, "app.log"), "0123456789");
+      const uploaded: Buffer[] = [];
+
+      const tooBig = await transferLocal(pull(uploaded, { maxBytes: 5 }));
+      const missing = await transferLocal(pull(uploaded, { path: path.join(dir, "missing.log") }));
+
+      expect(tooBig.error).toBe("File is 10 bytes, over the 5 byte limit");
+      expect(missing.error).toBe(`${path.join(dir, "missing.log")} does not exist`);
+      expect(uploaded).toHaveLength(0);
+    });
+
+    it("stops when cancelled", async () => {
+      fs.writeFileSync(path.join(dir, "app.log"), "0123456789");
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await transferLocal({ ...pull([]), signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+      expect(result.error).toBe("Command cancelled");
+    });
+  });
+
+  describe("transferSFTP", () => {
+    const hostKey = utils.generateKeyPairSync("ed25519");
+    const { OPEN_MODE, STATUS_CODE } = utils.sftp;
+    let server: Server;
+    let port: number;
+
+    // Minimal SFTP server working on the local filesystem
+    beforeEach(async () => {
+      server = new Server({ hostKeys: [hostKey.private] }, (client) => {
+        client
+          .on("authentication", (ctx) => (ctx.method === "password" ? ctx.accept() : ctx.reject(["password"])))
+          .on("ready", () => {
+            client.on("session", (accept) => {
+              accept().on("sftp", (acceptSftp) => {
+                const sftp = acceptSftp();
+                const handles = new Map<number, number>();
+                let nextHandle = 0;
+                const fd = (handle: Buffer) => handles.get(handle.readUInt32BE(0))!;
+                const reply = (reqid: number, fn: () => void) => {
+                  try {
+                    fn();
+                    sftp.status(reqid, STATUS_CODE.OK);
+                  } catch (err) {
+                    const missing = (err as NodeJS.ErrnoException).code === "ENOENT";
+                    sftp.status(reqid, missing ? STATUS_CODE.NO_SUCH_FILE : STATUS_CODE.FAILURE);
+                  }
+                };
+
+                sftp
+                  .on("OPEN", (reqid, filename, flags, attrs) => {
+                    try {
+                      const mode = flags & OPEN_MODE.WRITE ? "wx" : "r";
+                      const handle = Buffer.alloc(4);
+                      handle.writeUInt32BE(nextHandle, 0);
+                      handles.set(nextHandle++, fs.openSync(filename, mode, attrs.mode));
+                      sftp.handle(reqid, handle);
+                    } catch {
+                      sftp.status(reqid, STATUS_CODE.FAILURE);
+                    }
+                  })
+                  .on("READ", (reqid, handle, offset, length) => {
+                    const buffer = Buffer.alloc(length);
+                    const bytesRead = fs.readSync(fd(handle), buffer, 0, length, offset);
+                    if (bytesRead === 0) return sftp.status(reqid, STATUS_CODE.EOF);
+                    sftp.data(reqid, buffer.subarray(0, bytesRead));
+                  })
+                  .on("WRITE", (reqid, handle, offset, data) =>
+                    reply(reqid, () => fs.writeSync(fd(handle), data, 0, data.length, offset))
+                  )
+                  .on("CLOSE", (reqid, handle) => reply(reqid, () => fs.closeSync(fd(handle))))
+                  .on("STAT", (reqid, filename) => {
+                    try {
+                      const stats = fs.statSync(filename);
+                      sftp.attrs(reqid, {
+                        mode: stats.mode,
+                        uid: stats.uid,
+                        gid: stats.gid,
+                        size: stats.size,
+                        atime: 0,
+                        mtime: 0,
+                      });
+                    } catch {
+                      sftp.status(reqid, STATUS_CODE.NO_SUCH_FILE);
+                    }
+                  })
+                  .on("SETSTAT", (reqid, filename, attrs) =>
+                    reply(reqid, () => attrs.mode !== undefined && fs.chmodSync(filename, attrs.mode))
+                  )
+                  .on("RENAME", (reqid, from, to) =>
+                    reply(reqid, () => {
+                      if (fs.existsSync(to)) throw new Error("destination exists");
+                      fs.renameSync(from, to);
+                    })
+                  )
+                  .on("REMOVE", (reqid, filename) => reply(reqid, () => fs.unlinkSync(filename)));
+              });
+            });
+          });
+        client.on("error", () => {});
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    const target = () => ({ host: "127.0.0.1", port, username: "ops", password: "secret" });
+
+    it("replaces a file on the target over SFTP", async () => {
+      fs.writeFileSync(path.join(dir, "app.conf"), "old");
+
+      const result = await transferSFTP({ ...target(), ...push({ chunks: [chunk("port="), chunk("9090\n")], mode: 0o600 }) });
+
+      expect(result.success).toBe(true);
+      expect(result.authMethod).toBe("password");
+      expect(fs.readFileSync(path.join(dir, "app.conf"), "utf8")).toBe("port=9090\n");
+      expect(fs.statSync(path.join(dir, "app.conf")).mode & 0o777).toBe(0o600);
+      expect(fs.readdirSync(dir)).toEqual(["app.conf"]);
+    });
+
+    it("pulls a file from the target over SFTP", async () => {
+      fs.writeFileSync(path.join(dir, "app.log"), "line one\n");
+      const uploaded: Buffer[] = [];
+
+      const result = await transferSFTP({ ...target(), ...pull(uploaded) });
+
+      expect(result.success).toBe(true);
+      expect(Buffer.concat(uploaded).toString()).toBe("line one\n");
+      expect(result.file?.size).toBe(9);
+      expect(result.file?.sha256).toBe(sha256("line one\n", "hex"));
+    });
+  });
+});
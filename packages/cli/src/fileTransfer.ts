@@ -0,0 +1,418 @@
+import { createHash, randomBytes } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { SFTPWrapper } from "ssh2";
+import { logger } from "./logger.js";
+import { connectOnce, type ExecutionResult, type SSHTargetOptions } from "./executor.js";
+import type { SshConnectionPool } from "./sshPool.js";
+
+// Size of the pieces a pulled file is uploaded to the center in
+export const FILE_CHUNK_BYTES = 8 * 1024 * 1024;
+
+// Permissions of pushed files that don't replace an existing file and set no mode
+const DEFAULT_FILE_MODE = 0o644;
+
+// SFTP status code for a missing file
+const SFTP_NO_SUCH_FILE = 2;
+
+export type FileTransferKind = "file_push" | "file_pull";
+
+// Pushed contents as the center hands them out
+export interface FileChunkSource {
+  url: string;
+  size: number;
+  sha256: string; // Base64 SHA-256, as Convex file storage records it
+}
+
+// File a file_push or file_pull command moves
+export interface FileTransferSpec {
+  path: string;
+  maxBytes: number;
+  mode?: number; // Permission bits of the written file
+  uid?: number; // Owner of the written file
+  gid?: number; // Group of the written file
+  sha256?: string; // Expected hex SHA-256 of the pushed file
+  chunks?: FileChunkSource[]; // Contents to push, in order
+}
+
+// Contents a file_pull uploaded to the center
+export interface PulledFile {
+  chunks: Array<{ storageId: string; size: number; sha256: string }>;
+  size: number;
+  sha256: string; // Hex SHA-256 of the whole file
+}
+
+export interface FileTransferOptions {
+  kind: FileTransferKind;
+  file: FileTransferSpec;
+  timeoutMs: number;
+  uploadChunk: (data: Buffer, signal: AbortSignal) => Promise<string>; // Store a pulled chunk, returning its storageId
+  chunkBytes?: number; // Upload chunk size for pulls (default: FILE_CHUNK_BYTES)
+  signal?: AbortSignal; // Abort to cancel the transfer
+}
+
+export interface SFTPTransferOptions extends FileTransferOptions, SSHTargetOptions {
+  pool?: SshConnectionPool; // Reuse connections across commands instead of connecting for each one
+}
+
+interface FileStats {
+  size: number;
+  mode: number;
+  uid: number;
+  gid: number;
+  isFile: boolean;
+}
+
+interface FileHandle {
+  read(buffer: Buffer, offset: number, length: number, position: number): Promise<number>;
+  write(data: Buffer, position: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+// The file operations a transfer needs, on the relay host or over SFTP
+interface TransferFileSystem {
+  paths: typeof path.posix; // Path rules of the filesystem, e.g. posix over SFTP
+  stat(filePath: string): Promise<FileStats | null>; // null if the file doesn't exist
+  openRead(filePath: string): Promise<FileHandle>;
+  createExclusive(filePath: string): Promise<FileHandle>; // Owner-only until chmod
+  chmod(filePath: string, mode: number): Promise<void>;
+  chown(filePath: string, uid: number, gid: number): Promise<void>;
+  rename(from: string, to: string): Promise<void>; // Replaces an existing destination
+  unlink(filePath: string): Promise<void>;
+}
+
+function localFileSystem(): TransferFileSystem {
+  const wrap = (handle: fs.FileHandle): FileHandle => ({
+    read: async (buffer, offset, length, position) =>
+      (await handle.read(buffer, offset, length, position)).bytesRead,
+    write: async (data, position) => {
+      await handle.write(data, 0, data.length, position);
+    },
+    close: () => handle.close(),
+  });
+
+  return {
+    paths: path,
+    stat: async (filePath) => {
+      try {
+        const stats = await fs.stat(filePath);
+        return { size: stats.size, mode: stats.mode, uid: stats.uid, gid: stats.gid, isFile: stats.isFile() };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+    openRead: async (filePath) => wrap(await fs.open(filePath, "r")),
+    createExclusive: async (filePath) => wrap(await fs.open(filePath, "wx", 0o600)),
+    chmod: (filePath, mode) => fs.chmod(filePath, mode),
+    chown: (filePath, uid, gid) => fs.chown(filePath, uid, gid),
+    rename: (from, to) => fs.rename(from, to),
+    unlink: (filePath) => fs.unlink(filePath),
+  };
+}
+
+function sftpFileSystem(sftp: SFTPWrapper): TransferFileSystem {
+  const call = <T = void>(fn: (cb: (err: Error | undefined | null, value?: T) => void) => void) =>
+    new Promise<T>((resolve, reject) => fn((err, value) => (err ? reject(err) : resolve(value as T))));
+
+  const wrap = (handle: Buffer): FileHandle => ({
+    read: (buffer, offset, length, position) =>
+      call<number>((cb) => sftp.read(handle, buffer, offset, length, position, (err, bytesRead) => cb(err, bytesRead))),
+    write: (data, position) => call((cb) => sftp.write(handle, data, 0, data.length, position, cb)),
+    close: () => call((cb) => sftp.close(handle, cb)),
+  });
+
+  return {
+    paths: path.posix,
+    stat: (filePath) =>
+      new Promise((resolve, reject) =>
+        sftp.stat(filePath, (err, stats) => {
+          if (err) {
+            return (err as Error & { code?: number }).code === SFTP_NO_SUCH_FILE ? resolve(null) : reject(err);
+          }
+          resolve({ size: stats.size, mode: stats.mode, uid: stats.uid, gid: stats.gid, isFile: stats.isFile() });
+        })
+      ),
+    openRead: async (filePath) => wrap(await call<Buffer>((cb) => sftp.open(filePath, "r", cb))),
+    createExclusive: async (filePath) =>
+      wrap(await call<Buffer>((cb) => sftp.open(filePath, "wx", { mode: 0o600 }, cb))),
+    chmod: (filePath, mode) => call((cb) => sftp.chmod(filePath, mode, cb)),
+    chown: (filePath, uid, gid) => call((cb) => sftp.chown(filePath, uid, gid, cb)),
+    rename: async (from, to) => {
+      try {
+        // Atomic replace where the server supports it (OpenSSH does)
+        await call((cb) => sftp.ext_openssh_rename(from, to, cb));
+        return;
+      } catch (err) {
+        if (!(err instanceof Error) || !err.message.includes("does not support")) throw err;
+      }
+      // Plain SFTP rename refuses to replace an existing file
+      await call((cb) => sftp.unlink(to, cb)).catch(() => {});
+      await call((cb) => sftp.rename(from, to, cb));
+    },
+    unlink: (filePath) => call((cb) => sftp.unlink(filePath, cb)),
+  };
+}
+
+/**
+ * Write pushed contents next to the destination, verify them, apply mode and
+ * owner and move the file into place, so the destination is never half-written
+ */
+async function pushFile(
+  files: TransferFileSystem,
+  file: FileTransferSpec,
+  signal: AbortSignal
+): Promise<{ size: number; sha256: string }> {
+  const chunks = file.chunks ?? [];
+  const total = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+  if (total > file.maxBytes) {
+    throw new Error(`File is ${total} bytes, over the ${file.maxBytes} byte limit`);
+  }
+
+  const existing = await files.stat(file.path);
+  if (existing && !existing.isFile) {
+    throw new Error(`${file.path} exists and is not a regular file`);
+  }
+
+  const tempPath = files.paths.join(
+    files.paths.dirname(file.path),
+    `.${files.paths.basename(file.path)}.${randomBytes(6).toString("hex")}.tmp`
+  );
+  const handle = await files.createExclusive(tempPath);
+  const hash = createHash("sha256");
+  let position = 0;
+
+  try {
+    try {
+      for (const [i, chunk] of chunks.entries()) {
+        const label = `Chunk ${i + 1}/${chunks.length}`;
+        if (!chunk.url) {
+          throw new Error(`${label} is no longer in file storage`);
+        }
+        const response = await fetch(chunk.url, { signal });
+        if (!response.ok || !response.body) {
+          throw new Error(`${label} download failed: HTTP ${response.status}`);
+        }
+
+        const chunkHash = createHash("sha256");
+        const start = position;
+        const reader = response.body.getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          const data = Buffer.from(value);
+          if (position - start + data.length > chunk.size) {
+            throw new Error(`${label} is larger than ${chunk.size} bytes`);
+          }
+          chunkHash.update(data);
+          hash.update(data);
+          await handle.write(data, position);
+          position += data.length;
+        }
+        if (position - start !== chunk.size || chunkHash.digest("base64") !== chunk.sha256) {
+          throw new Error(`${label} failed its checksum`);
+        }
+      }
+    } finally {
+      await handle.close();
+    }
+
+    const sha256 = hash.digest("hex");
+    if (file.sha256 && file.sha256.toLowerCase() !== sha256) {
+      throw new Error(`Checksum mismatch: expected ${file.sha256}, got ${sha256}`);
+    }
+
+    signal.throwIfAborted();
+    await files.chmod(tempPath, file.mode ?? (existing ? existing.mode & 0o7777 : DEFAULT_FILE_MODE));
+    if (file.uid !== undefined || file.gid !== undefined) {
+      const written = await files.stat(tempPath);
+      await files.chown(tempPath, file.uid ?? written!.uid, file.gid ?? written!.gid);
+    }
+    await files.rename(tempPath, file.path);
+    return { size: position, sha256 };
+  } catch (err) {
+    await files.unlink(tempPath).catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Read a file in chunkBytes pieces and upload each one to the center
+ */
+async function pullFile(
+  files: TransferFileSystem,
+  file: FileTransferSpec,
+  options: FileTransferOptions,
+  signal: AbortSignal
+): Promise<PulledFile> {
+  const stats = await files.stat(file.path);
+  if (!stats) {
+    throw new Error(`${file.path} does not exist`);
+  }
+  if (!stats.isFile) {
+    throw new Error(`${file.path} is not a regular file`);
+  }
+  if (stats.size > file.maxBytes) {
+    throw new Error(`File is ${stats.size} bytes, over the ${file.maxBytes} byte limit`);
+  }
+
+  const chunkBytes = options.chunkBytes ?? FILE_CHUNK_BYTES;
+  const handle = await files.openRead(file.path);
+  const hash = createHash("sha256");
+  const chunks: PulledFile["chunks"] = [];
+  let position = 0;
+
+  try {
+    for (;;) {
+      const buffer = Buffer.alloc(chunkBytes);
+      let length = 0;
+      while (length < chunkBytes) {
+        const bytesRead = await handle.read(buffer, length, chunkBytes - length, position + length);
+        if (bytesRead === 0) break;
+        length += bytesRead;
+      }
+      if (length === 0) break;
+
+      position += length;
+      if (position > file.maxBytes) {
+        // The file grew while it was being read
+        throw new Error(`File is over the ${file.maxBytes} byte limit`);
+      }
+
+      const data = buffer.subarray(0, length);
+      hash.update(data);
+      signal.throwIfAborted();
+      const storageId = await options.uploadChunk(data, signal);
+      chunks.push({ storageId, size: length, sha256: createHash("sha256").update(data).digest("base64") });
+      if (length < chunkBytes) break;
+    }
+  } finally {
+    await handle.close();
+  }
+
+  return { chunks, size: position, sha256: hash.digest("hex") };
+}
+
+/**
+ * Run a push or pull, stopping it on timeout or cancellation
+ */
+async function runTransfer(
+  files: TransferFileSystem,
+  options: FileTransferOptions,
+  startTime: number,
+  authMethod?: string
+): Promise<ExecutionResult> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new Error("Command timed out"));
+  }, Math.max(0, options.timeoutMs - (Date.now() - startTime)));
+  const onAbort = () => controller.abort(new Error("Command cancelled"));
+  if (options.signal?.aborted) onAbort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  // File operations can't be interrupted - stop waiting for them instead
+  const stopped = new Promise<never>((_, reject) => {
+    if (controller.signal.aborted) reject(controller.signal.reason);
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+  });
+
+  try {
+    const { file } = options;
+    let output: string;
+    let pulled: PulledFile | undefined;
+    if (options.kind === "file_push") {
+      const written = await Promise.race([pushFile(files, file, controller.signal), stopped]);
+      output = `Wrote ${written.size} bytes to ${file.path} (sha256 ${written.sha256})`;
+    } else {
+      pulled = await Promise.race([pullFile(files, file, options, controller.signal), stopped]);
+      output = `Read ${pulled.size} bytes from ${file.path} (sha256 ${pulled.sha256})`;
+    }
+
+    logger.debug(output);
+    return {
+      success: true,
+      output,
+      stderr: "",
+      exitCode: 0,
+      durationMs: Date.now() - startTime,
+      authMethod,
+      file: pulled,
+    };
+  } catch (err) {
+    const error = controller.signal.aborted
+      ? (controller.signal.reason as Error).message
+      : err instanceof Error ? err.message : String(err);
+    return {
+      success: false,
+      output: "",
+      stderr: error,
+      exitCode: -1,
+      error,
+      durationMs: Date.now() - startTime,
+      timedOut: timedOut || undefined,
+      cancelled: (controller.signal.aborted && !timedOut) || undefined,
+      authMethod,
+    };
+  } finally {
+    clearTimeout(timeout);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Push or pull a file on the relay host
+ */
+export async function transferLocal(options: FileTransferOptions): Promise<ExecutionResult> {
+  logger.debug(`Running local ${options.kind} for ${options.file.path}`);
+  return runTransfer(localFileSystem(), options, Date.now());
+}
+
+/**
+ * Push or pull a file on an SSH target over SFTP
+ */
+export async function transferSFTP(options: SFTPTransferOptions): Promise<ExecutionResult> {
+  const startTime = Date.now();
+  logger.debug(`Running SFTP ${options.kind} for ${options.file.path} on ${options.host}`);
+
+  const acquired = options.pool ? await options.pool.acquire(options) : await connectOnce(options);
+  if (!acquired.ok) {
+    logger.error(`SSH connection error: ${acquired.error}`);
+    return {
+      success: false,
+      output: "",
+      stderr: acquired.error,
+      exitCode: -1,
+      error: acquired.error,
+      errorCode: acquired.errorCode,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  const { lease } = acquired;
+  const authMethod = lease.connection.authMethod;
+  const sftp = await new Promise<SFTPWrapper | Error>((resolve) =>
+    lease.connection.client.sftp((err, wrapper) => resolve(err ?? wrapper))
+  );
+  if (sftp instanceof Error) {
+    lease.discard();
+    return {
+      success: false,
+      output: "",
+      stderr: sftp.message,
+      exitCode: -1,
+      error: `SFTP unavailable: ${sftp.message}`,
+      durationMs: Date.now() - startTime,
+      authMethod,
+    };
+  }
+
+  try {
+    return await runTransfer(sftpFileSystem(sftp), options, startTime, authMethod);
+  } finally {
+    // Ending the SFTP channel also fails operations a timeout stopped waiting for
+    sftp.end();
+    lease.release();
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { createHash } from "crypto";
+import { CredentialManager } from "./credentials";
+import { HostKeyVerifier, hostKeyFingerprint, hostKeyType } from "./hostKeys";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+// Host key in SSH wire format: string key type followed by key data
+function makeHostKey(type: string, data: string): Buffer {
+  const typeBuf = Buffer.from(type);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(typeBuf.length);
+  return Buffer.concat([length, typeBuf, Buffer.from(data)]);
+}
+
+describe("host key helpers", () => {
+  it("formats keys like OpenSSH SHA256 fingerprints", () => {
+    const key = makeHostKey("ssh-ed25519", "key-data");
+    const expected = createHash("sha256").update(key).digest("base64").replace(/=+$/, "");
+
+    expect(hostKeyFingerprint(key)).toBe(`SHA256:${expected}`);
+  });
+
+  it("reads the key type from the wire encoding", () => {
+    expect(hostKeyType(makeHostKey("ssh-ed25519", "key-data"))).toBe("ssh-ed25519");
+    expect(hostKeyType(Buffer.from([0, 0]))).toBe("unknown");
+  });
+});
+
+describe("HostKeyVerifier", () => {
+  let testDir: string;
+  let credentials: CredentialManager;
+  const keyA = makeHostKey("ssh-ed25519", "key-a");
+  const keyB = makeHostKey("ssh-ed25519", "key-b");
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `relay-hostkeys-test-${Date.now()}`);
+    fs.mkdirSync(testDir, { recursive: true });
+    credentials = new CredentialManager(testDir);
+    await credentials.initialize("test-api-key", "test-machine-id");
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe("tofu", () => {
+    it("trusts and records an unknown host on first use", async () => {
+      const verifier = new HostKeyVerifier(credentials, "tofu");
+
+      expect(await verifier.verify("db1", 22, keyA)).toEqual({ ok: true });
+      expect(credentials.getKnownHost("db1", 22)).toMatchObject({
+        keyType: "ssh-ed25519",
+        fingerprint: hostKeyFingerprint(keyA),
+        source: "tofu",
+      });
+    });
+
+    it("rejects a changed key and records what was presented", async () => {
+      const verifier = new HostKeyVerifier(credentials, "tofu");
+      await verifier.verify("db1", 22, keyA);
+
+      const decision = await verifier.verify("db1", 22, keyB);
+
+      expect(decision.ok).toBe(false);
+      expect(!decision.ok && decision.reason).toContain(`expected ${hostKeyFingerprint(keyA)}`);
+      expect(credentials.getKnownHost("db1", 22)).toMatchObject({
+        fingerprint: hostKeyFingerprint(keyA),
+        rejectedFingerprint: hostKeyFingerprint(keyB),
+      });
+    });
+
+    it("keeps known hosts in the encrypted store across restarts", async () => {
+      await new HostKeyVerifier(credentials, "tofu").verify("db1", 22, keyA);
+
+      const restarted = new CredentialManager(testDir);
+      await restarted.initialize("test-api-key", "test-machine-id");
+
+      expect(restarted.getKnownHost("db1", 22)?.fingerprint).toBe(hostKeyFingerprint(keyA));
+      expect(fs.readFileSync(path.join(testDir, "credentials.enc"), "utf8")).not.toContain(
+        hostKeyFingerprint(keyA)
+      );
+    });
+  });
+
+  describe("strict", () => {
+    it("rejects hosts without a pinned key", async () => {
+      const verifier = new HostKeyVerifier(credentials, "strict");
+
+      const decision = await verifier.verify("db1", 22, keyA);
+
+      expect(decision.ok).toBe(false);
+      expect(!decision.ok && decision.reason).toContain("no pinned host key");
+      expect(credentials.getKnownHost("db1", 22)).toBeUndefined();
+    });
+
+    it("accepts a key matching the expected fingerprint and pins it", async () => {
+      const verifier = new HostKeyVerifier(credentials, "strict");
+
+      const decision = await verifier.verify("db1", 22, keyA, hostKeyFingerprint(keyA));
+
+      expect(decision).toEqual({ ok: true });
+      expect(credentials.getKnownHost("db1", 22)?.source).toBe("pinned");
+    });
+  });
+
+  describe("applyPush", () => {
+    it("pins a rotated key so the new host key is accepted", async () => {
+      const verifier = new HostKeyVerifier(credentials, "tofu");
+      await verifier.verify("db1", 22, keyA);
+      await verifier.verify("db1", 22, keyB);
+
+      await verifier.applyPush({ pin: [{ host: "db1", port: 22, fingerprint: hostKeyFingerprint(keyB) }] });
+
+      expect(await verifier.verify("db1", 22, keyB)).toEqual({ ok: true });
+      expect(credentials.getKnownHost("db1", 22)).toMatchObject({
+        keyType: "ssh-ed25519",
+        source: "pinned",
+      });
+      expect(credentials.getKnownHost("db1", 22)?.rejectedFingerprint).toBeUndefined();
+    });
+
+    it("forgets a key so it is learned again", async () => {
+      const verifier = new HostKeyVerifier(credentials, "tofu");
+      await verifier.verify("db1", 22, keyA);
+
+      await verifier.applyPush({ forget: [{ host: "db1", port: 22 }] });
+
+      expect(verifier.list()).toEqual([]);
+      expect(await verifier.verify("db1", 22, keyB)).toEqual({ ok: true });
+    });
+
+    it("rejects invalid payloads without applying anything", async () => {
+      const verifier = new HostKeyVerifier(credentials, "tofu");
+
+      await expect(verifier.applyPush({})).rejects.toThrow("requires pin or forget");
+      await expect(
+        verifier.applyPush({
+          pin: [
+            { host: "db1", port: 22, fingerprint: hostKeyFingerprint(keyA) },
+            { host: "db2", port: 22, fingerprint: "md5:aa" },
+          ],
+        })
+      ).rejects.toThrow("fingerprint must be a SHA256 fingerprint");
+      expect(verifier.list()).toEqual([]);
+    });
+  });
+});
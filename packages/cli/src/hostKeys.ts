@@ -0,0 +1,185 @@
+import { createHash } from "node:crypto";
+import { logger } from "./logger.js";
+import type { CredentialManager, KnownHost } from "./credentials.js";
+
+// "tofu": trust and record unknown hosts on first connection.
+// "strict": only connect to hosts whose key was pinned.
+export type HostKeyPolicy = "tofu" | "strict";
+
+export type HostKeyDecision = { ok: true } | { ok: false; reason: string };
+
+// Error code reported with results of SSH commands whose host key was rejected
+export const HOST_KEY_REJECTED_ERROR_CODE = "host_key_rejected";
+
+// Avoid rewriting the encrypted store on every connection just to bump lastSeenAt
+const LAST_SEEN_RESOLUTION_MS = 60000;
+
+/**
+ * OpenSSH-style SHA256 fingerprint of a raw host key
+ */
+export function hostKeyFingerprint(key: Buffer): string {
+  return `SHA256:${createHash("sha256").update(key).digest("base64").replace(/=+$/, "")}`;
+}
+
+/**
+ * Key type ("ssh-ed25519", "ssh-rsa", ...) from the SSH wire encoding of a host key
+ */
+export function hostKeyType(key: Buffer): string {
+  if (key.length < 4) return "unknown";
+  const length = key.readUInt32BE(0);
+  if (length === 0 || 4 + length > key.length) return "unknown";
+  return key.subarray(4, 4 + length).toString("ascii");
+}
+
+/**
+ * Verifies SSH host keys against the known hosts kept in the encrypted credential store
+ */
+export class HostKeyVerifier {
+  private credentials: CredentialManager;
+  private policy: HostKeyPolicy;
+
+  constructor(credentials: CredentialManager, policy: HostKeyPolicy = "tofu") {
+    this.credentials = credentials;
+    this.policy = policy;
+  }
+
+  /**
+   * Check the key a server presented.
+   * `expectedFingerprint` (e.g. from the SSH target registry) takes precedence over the known hosts.
+   */
+  async verify(
+    host: string,
+    port: number,
+    key: Buffer,
+    expectedFingerprint?: string
+  ): Promise<HostKeyDecision> {
+    const fingerprint = hostKeyFingerprint(key);
+    const keyType = hostKeyType(key);
+    const known = this.credentials.getKnownHost(host, port);
+    const now = Date.now();
+
+    const expected = expectedFingerprint ?? known?.fingerprint;
+    if (expected === undefined) {
+      if (this.policy === "strict") {
+        logger.warn(`Rejected unknown host key for ${host}:${port}`, { fingerprint });
+        return {
+          ok: false,
+          reason: `Host key verification failed for ${host}:${port}: no pinned host key (server presented ${keyType} ${fingerprint})`,
+        };
+      }
+
+      await this.credentials.setKnownHost({
+        host,
+        port,
+        keyType,
+        fingerprint,
+        source: "tofu",
+        firstSeenAt: now,
+        lastSeenAt: now,
+      });
+      logger.info(`Trusted new host key for ${host}:${port} on first use`, { keyType, fingerprint });
+      return { ok: true };
+    }
+
+    if (fingerprint !== expected) {
+      await this.credentials.setKnownHost({
+        ...(known ?? {
+          host,
+          port,
+          keyType,
+          fingerprint: expected,
+          source: "pinned" as const,
+          firstSeenAt: now,
+          lastSeenAt: now,
+        }),
+        rejectedFingerprint: fingerprint,
+        rejectedAt: now,
+      });
+      logger.error(`Host key mismatch for ${host}:${port}`, { expected, fingerprint });
+      return {
+        ok: false,
+        reason:
+          `Host key verification failed for ${host}:${port}: expected ${expected}, server presented ${keyType} ${fingerprint}. ` +
+          `If the host key was changed on purpose, rotate it from the center.`,
+      };
+    }
+
+    if (!known || known.fingerprint !== fingerprint) {
+      // Registry pin seen for the first time (or replacing a stale learned key)
+      await this.credentials.setKnownHost({
+        host,
+        port,
+        keyType,
+        fingerprint,
+        source: "pinned",
+        firstSeenAt: now,
+        lastSeenAt: now,
+      });
+    } else if (known.keyType !== keyType || now - known.lastSeenAt >= LAST_SEEN_RESOLUTION_MS) {
+      await this.credentials.setKnownHost({ ...known, keyType, lastSeenAt: now });
+    }
+    return { ok: true };
+  }
+
+  /**
+   * Apply a host_keys push from the center: pin new fingerprints or forget keys so they are re-learned
+   */
+  async applyPush(payload: unknown): Promise<void> {
+    const raw = payload as {
+      pin?: Array<{ host?: unknown; port?: unknown; fingerprint?: unknown; keyType?: unknown }>;
+      forget?: Array<{ host?: unknown; port?: unknown }>;
+    } | null;
+    if (!raw || typeof raw !== "object" || (!Array.isArray(raw.pin) && !Array.isArray(raw.forget))) {
+      throw new Error("Host keys payload requires pin or forget entries");
+    }
+
+    const pins = (raw.pin ?? []).map((entry, i) => {
+      if (typeof entry.host !== "string" || typeof entry.port !== "number") {
+        throw new Error(`Pin ${i}: host and port are required`);
+      }
+      if (typeof entry.fingerprint !== "string" || !entry.fingerprint.startsWith("SHA256:")) {
+        throw new Error(`Pin ${i}: fingerprint must be a SHA256 fingerprint`);
+      }
+      return {
+        host: entry.host,
+        port: entry.port,
+        fingerprint: entry.fingerprint,
+        keyType: typeof entry.keyType === "string" ? entry.keyType : undefined,
+      };
+    });
+    const forgets = (raw.forget ?? []).map((entry, i) => {
+      if (typeof entry.host !== "string" || typeof entry.port !== "number") {
+        throw new Error(`Forget ${i}: host and port are required`);
+      }
+      return { host: entry.host, port: entry.port };
+    });
+
+    const now = Date.now();
+    for (const pin of pins) {
+      const known = this.credentials.getKnownHost(pin.host, pin.port);
+      // The key type of a key the relay hasn't accepted yet is filled in on the next connection
+      const keyType = pin.keyType ?? (known?.fingerprint === pin.fingerprint ? known.keyType : "unknown");
+      await this.credentials.setKnownHost({
+        host: pin.host,
+        port: pin.port,
+        keyType,
+        fingerprint: pin.fingerprint,
+        source: "pinned",
+        firstSeenAt: known?.firstSeenAt ?? now,
+        lastSeenAt: known?.lastSeenAt ?? now,
+      });
+      logger.info(`Pinned host key for ${pin.host}:${pin.port}`, { fingerprint: pin.fingerprint });
+    }
+    for (const forget of forgets) {
+      await this.credentials.deleteKnownHost(forget.host, forget.port);
+      logger.info(`Forgot host key for ${forget.host}:${forget.port}`);
+    }
+  }
+
+  /**
+   * Known host keys, for status reports
+   */
+  list(): KnownHost[] {
+    return this.credentials.listKnownHosts();
+  }
+}
@@ -2,6 +2,7 @@
 
 import { Relay } from "./relay.js";
 import { logger, setLogLevel } from "./logger.js";
+import type { ExecutionProfile, Isolation } from "./sandbox.js";
 
 const VERSION = "2.0.2";
 
@@ -23,6 +24,25 @@ Options:
   --deployment-url <url>    Convex deployment URL for subscription mode (enables real-time command pickup)
   --component-name <name>   Convex component name (default: remoteCmdRelay)
   --public-api-module <name> App-level module exposing component functions (default: relayPublic)
+  --lease-duration <ms>     How long a command claim stays valid without renewal (default: 60000)
+  --max-concurrency <n>     Max commands executing at once (default: 4)
+  --max-per-host <n>        Max commands executing at once against one SSH target (default: 2)
+  --host-key-policy <mode>  SSH host keys: tofu (trust on first use) or strict (pinned only) (default: tofu)
+  --ssh-idle-timeout <ms>   Close pooled SSH connections idle this long, 0 disables pooling (default: 60000)
+  --ssh-max-channels <n>    Max commands sharing one pooled SSH connection (default: 4)
+  --max-file-size <bytes>   Largest file a file push or pull may move (default: 104857600)
+  --max-inline-output <bytes> Larger stdout / stderr is uploaded to file storage, 0 keeps it inline (default: 262144)
+  --max-output <bytes>      Most stdout / stderr kept per command, the rest is truncated (default: 33554432)
+  --kill-grace <ms>         How long a stopped local command gets between SIGTERM and SIGKILL (default: 5000)
+  --max-sessions <n>        Max terminal sessions open at once (default: 8)
+  --run-as <user[:group]>   Run local commands and terminals as this user (relay must run as root)
+  --base-dir <dir>          Start local commands in this directory and keep their cwd inside it
+  --scrub-env               Give local commands a minimal environment instead of the relay's
+  --keep-env <names>        Comma-separated relay environment variables kept with --scrub-env
+  --cpu-limit <seconds>     CPU time limit of local commands
+  --memory-limit <bytes>    Memory limit of local commands
+  --open-files <n>          Open file limit of local commands
+  --isolation <mode>        Isolate local commands: none, unshare or systemd-run (default: none)
   --help, -h                Show this help message
   --version, -v             Show version
 
@@ -52,6 +72,18 @@ function parseArgs(args: string[]): {
   convexDeploymentUrl?: string;
   componentName?: string;
   publicApiModule?: string;
+  leaseDurationMs?: number;
+  maxConcurrency?: number;
+  maxPerHost?: number;
+  hostKeyPolicy?: "tofu" | "strict";
+  sshIdleTimeoutMs?: number;
+  sshMaxChannels?: number;
+  maxFileBytes?: number;
+  maxInlineOutputBytes?: number;
+  maxOutputBytes?: number;
+  killGraceMs?: number;
+  maxSessions?: number;
+  executionProfile: ExecutionProfile;
 } | null {
   const result = {
     apiKey: "",
@@ -63,6 +95,18 @@ function parseArgs(args: string[]): {
     convexDeploymentUrl: undefined as string | undefined,
     componentName: undefined as string | undefined,
     publicApiModule: undefined as string | undefined,
+    leaseDurationMs: undefined as number | undefined,
+    maxConcurrency: undefined as number | undefined,
+    maxPerHost: undefined as number | undefined,
+    hostKeyPolicy: undefined as "tofu" | "strict" | undefined,
+    sshIdleTimeoutMs: undefined as number | undefined,
+    sshMaxChannels: undefined as number | undefined,
+    maxFileBytes: undefined as number | undefined,
+    maxInlineOutputBytes: undefined as number | undefined,
+    maxOutputBytes: undefined as number | undefined,
+    killGraceMs: undefined as number | undefined,
+    maxSessions: undefined as number | undefined,
+    executionProfile: {} as ExecutionProfile,
   };
 
   let i = 0;
@@ -135,6 +179,152 @@ function parseArgs(args: string[]): {
         return null;
       }
       result.publicApiModule = val;
+    } else if (arg === "--lease-duration") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 5000) {
+        console.error("Error: --lease-duration must be a number >= 5000");
+        return null;
+      }
+      result.leaseDurationMs = val;
+    } else if (arg === "--max-concurrency") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 1) {
+        console.error("Error: --max-concurrency must be a number >= 1");
+        return null;
+      }
+      result.maxConcurrency = val;
+    } else if (arg === "--max-per-host") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 1) {
+        console.error("Error: --max-per-host must be a number >= 1");
+        return null;
+      }
+      result.maxPerHost = val;
+    } else if (arg === "--host-key-policy") {
+      i++;
+      const val = args[i] as "tofu" | "strict";
+      if (!["tofu", "strict"].includes(val)) {
+        console.error("Error: --host-key-policy must be one of: tofu, strict");
+        return null;
+      }
+      result.hostKeyPolicy = val;
+    } else if (arg === "--ssh-idle-timeout") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 0) {
+        console.error("Error: --ssh-idle-timeout must be a number >= 0");
+        return null;
+      }
+      result.sshIdleTimeoutMs = val;
+    } else if (arg === "--ssh-max-channels") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 1) {
+        console.error("Error: --ssh-max-channels must be a number >= 1");
+        return null;
+      }
+      result.sshMaxChannels = val;
+    } else if (arg === "--max-file-size") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 0) {
+        console.error("Error: --max-file-size must be a number >= 0");
+        return null;
+      }
+      result.maxFileBytes = val;
+    } else if (arg === "--max-inline-output") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 0) {
+        console.error("Error: --max-inline-output must be a number >= 0");
+        return null;
+      }
+      result.maxInlineOutputBytes = val;
+    } else if (arg === "--max-output") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 1) {
+        console.error("Error: --max-output must be a number >= 1");
+        return null;
+      }
+      result.maxOutputBytes = val;
+    } else if (arg === "--kill-grace") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 0) {
+        console.error("Error: --kill-grace must be a number >= 0");
+        return null;
+      }
+      result.killGraceMs = val;
+    } else if (arg === "--max-sessions") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 1) {
+        console.error("Error: --max-sessions must be a number >= 1");
+        return null;
+      }
+      result.maxSessions = val;
+    } else if (arg === "--run-as") {
+      i++;
+      const [user, group] = (args[i] ?? "").split(":");
+      if (!user || group === "") {
+        console.error("Error: --run-as must be <user> or <user>:<group>");
+        return null;
+      }
+      result.executionProfile.user = user;
+      result.executionProfile.group = group;
+    } else if (arg === "--base-dir") {
+      i++;
+      if (!args[i]) {
+        console.error("Error: --base-dir requires a directory");
+        return null;
+      }
+      result.executionProfile.baseDir = args[i];
+    } else if (arg === "--scrub-env") {
+      result.executionProfile.scrubEnv = true;
+    } else if (arg === "--keep-env") {
+      i++;
+      const names = (args[i] ?? "").split(",").filter(Boolean);
+      if (names.length === 0) {
+        console.error("Error: --keep-env requires comma-separated variable names");
+        return null;
+      }
+      result.executionProfile.keepEnv = names;
+    } else if (arg === "--cpu-limit") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 1) {
+        console.error("Error: --cpu-limit must be a number >= 1");
+        return null;
+      }
+      result.executionProfile.cpuSeconds = val;
+    } else if (arg === "--memory-limit") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 1) {
+        console.error("Error: --memory-limit must be a number >= 1");
+        return null;
+      }
+      result.executionProfile.memoryBytes = val;
+    } else if (arg === "--open-files") {
+      i++;
+      const val = parseInt(args[i], 10);
+      if (isNaN(val) || val < 1) {
+        console.error("Error: --open-files must be a number >= 1");
+        return null;
+      }
+      result.executionProfile.openFiles = val;
+    } else if (arg === "--isolation") {
+      i++;
+      const val = args[i] as Isolation;
+      if (!["none", "unshare", "systemd-run"].includes(val)) {
+        console.error("Error: --isolation must be one of: none, unshare, systemd-run");
+        return null;
+      }
+      result.executionProfile.isolation = val;
     } else if (!arg.startsWith("--")) {
       // Positional arguments
       if (!result.apiKey) {
@@ -203,6 +393,18 @@ async function main(): Promise<void> {
     convexDeploymentUrl: config.convexDeploymentUrl,
     componentName: config.componentName,
     publicApiModule: config.publicApiModule,
+    leaseDurationMs: config.leaseDurationMs,
+    maxConcurrency: config.maxConcurrency,
+    maxPerHost: config.maxPerHost,
+    hostKeyPolicy: config.hostKeyPolicy,
+    sshIdleTimeoutMs: config.sshIdleTimeoutMs,
+    sshMaxChannels: config.sshMaxChannels,
+    maxFileBytes: config.maxFileBytes,
+    maxInlineOutputBytes: config.maxInlineOutputBytes,
+    maxOutputBytes: config.maxOutputBytes,
+    killGraceMs: config.killGraceMs,
+    maxSessions: config.maxSessions,
+    executionProfile: config.executionProfile,
   });
 
   // Handle graceful shutdown
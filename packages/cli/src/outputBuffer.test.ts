@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { OutputBuffer } from "./outputBuffer.js";
+
+describe("OutputBuffer", () => {
+  const fill = (buffer: OutputBuffer, chunks: string[]) => chunks.map((chunk) => buffer.write(Buffer.from(chunk)));
+
+  it("keeps everything within the cap", () => {
+    const buffer = new OutputBuffer({ maxBytes: 10, keep: "head_tail" });
+
+    expect(fill(buffer, ["abc", "defghij"])).toEqual(["abc", "defghij"]);
+    expect(buffer.toString()).toBe("abcdefghij");
+    expect(buffer.truncated).toBe(false);
+  });
+
+  it("keeps the head, the tail or both once over the cap", () => {
+    const chunks = ["0123", "4567", "89ab", "cdef"];
+    const kept = (keep: "head" | "tail" | "head_tail") => {
+      const buffer = new OutputBuffer({ maxBytes: 6, keep });
+      fill(buffer, chunks);
+      return buffer.toString();
+    };
+
+    expect(kept("head")).toBe("012345\n[... 10 bytes truncated ...]\n");
+    expect(kept("tail")).toBe("\n[... 10 bytes truncated ...]\nabcdef");
+    expect(kept("head_tail")).toBe("012\n[... 10 bytes truncated ...]\ndef");
+  });
+
+  it("passes on only the first maxBytes as they arrive", () => {
+    const buffer = new OutputBuffer({ maxBytes: 5, keep: "tail" });
+
+    expect(fill(buffer, ["abc", "defg", "hij"])).toEqual(["abc", "de", ""]);
+    expect(buffer.bytes).toBe(10);
+  });
+
+  it("doesn't show characters cut at the edges of what it kept", () => {
+    const buffer = new OutputBuffer({ maxBytes: 6, keep: "head_tail" });
+    fill(buffer, ["ééé", "xx", "ééé"]); // 2 bytes per é
+
+    expect(buffer.toString()).toBe("é\n[... 8 bytes truncated ...]\né");
+  });
+});
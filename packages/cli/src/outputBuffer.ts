@@ -0,0 +1,136 @@
+// Output a relay keeps per stream of a command unless configured otherwise
+export const DEFAULT_MAX_OUTPUT_BYTES = 32 * 1024 * 1024;
+
+// Which part of a stream is kept once it went over the cap
+export type OutputRetention = "head" | "tail" | "head_tail";
+
+// Cap on the output kept of a command, per stream
+export interface OutputLimit {
+  maxBytes: number;
+  keep: OutputRetention;
+  onLimit: "truncate" | "kill"; // kill stops the command once a stream goes over the cap
+}
+
+export const DEFAULT_OUTPUT_LIMIT: OutputLimit = {
+  maxBytes: DEFAULT_MAX_OUTPUT_BYTES,
+  keep: "head_tail",
+  onLimit: "truncate",
+};
+
+/**
+ * Collects one stream of a command's output within a byte cap. Past the cap
+ * it keeps the head, the tail or both, and counts everything it was given.
+ */
+export class OutputBuffer {
+  private head: Buffer[] = [];
+  private headBytes = 0;
+  private tail: Buffer[] = [];
+  private tailBytes = 0;
+  private readonly headLimit: number;
+  private readonly tailLimit: number;
+  bytes = 0; // Everything written, kept or not
+
+  constructor(private readonly limit: Pick<OutputLimit, "maxBytes" | "keep">) {
+    this.headLimit =
+      limit.keep === "head" ? limit.maxBytes : limit.keep === "tail" ? 0 : Math.ceil(limit.maxBytes / 2);
+    this.tailLimit = limit.maxBytes - this.headLimit;
+  }
+
+  get truncated(): boolean {
+    return this.bytes > this.limit.maxBytes;
+  }
+
+  /**
+   * Add output. Returns the part of it within the first maxBytes of the
+   * stream, which is safe to pass on as it arrives.
+   */
+  write(data: Buffer): string {
+    const live = data.subarray(0, Math.max(0, this.limit.maxBytes - this.bytes));
+    this.bytes += data.length;
+
+    const toHead = Math.min(data.length, this.headLimit - this.headBytes);
+    if (toHead > 0) {
+      this.head.push(data.subarray(0, toHead));
+      this.headBytes += toHead;
+    }
+    if (toHead < data.length && this.tailLimit > 0) {
+      this.tail.push(data.subarray(toHead));
+      this.tailBytes += data.length - toHead;
+      // Drop what fell out of the tail
+      while (this.tailBytes - this.tail[0].length >= this.tailLimit) {
+        this.tailBytes -= this.tail.shift()!.length;
+      }
+      if (this.tailBytes > this.tailLimit) {
+        this.tail[0] = this.tail[0].subarray(this.tailBytes - this.tailLimit);
+        this.tailBytes = this.tailLimit;
+      }
+    }
+
+    return live.toString();
+  }
+
+  /**
+   * The kept output. When the stream went over the cap, a marker with the
+   * number of bytes left out stands where they were.
+   */
+  toString(): string {
+    const head = Buffer.concat(this.head);
+    const tail = Buffer.concat(this.tail);
+    if (!this.truncated) {
+      return Buffer.concat([head, tail]).toString();
+    }
+
+    // Don't show the halves of characters cut at the edges
+    const marker = `\n[... ${this.bytes - head.length - tail.length} bytes truncated ...]\n`;
+    return (
+      (head.length > 0 ? head.subarray(0, completeLength(head)).toString() : "") +
+      marker +
+      tail.subarray(continuationBytes(tail)).toString()
+    );
+  }
+}
+
+/**
+ * Length of buf without a UTF-8 character cut off at its end
+ */
+function completeLength(buf: Buffer): number {
+  let start = buf.length - 1;
+  while (start > 0 && buf.length - start < 4 && (buf[start] & 0xc0) === 0x80) {
+    start--;
+  }
+  const lead = buf[start];
+  const needed = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+  return buf.length - start < needed ? start : buf.length;
+}
+
+/**
+ * Number of bytes at the start of buf that continue a character cut off before it
+ */
+function continuationBytes(buf: Buffer): number {
+  let i = 0;
+  while (i < buf.length && i < 3 && (buf[i] & 0xc0) === 0x80) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Error reported for a command stopped because its output went over the cap
+ */
+export function outputLimitError(limit: Pick<OutputLimit, "maxBytes">): string {
+  return `Output exceeded ${limit.maxBytes} bytes - command killed`;
+}
+
+/**
+ * Result fields for the output collected of a command
+ */
+export function collectedOutput(stdout: OutputBuffer, stderr: OutputBuffer) {
+  return {
+    output: stdout.toString(),
+    stderr: stderr.toString(),
+    outputBytes: stdout.bytes,
+    stderrBytes: stderr.bytes,
+    outputTruncated: stdout.truncated || undefined,
+    stderrTruncated: stderr.truncated || undefined,
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHash } from "node:crypto";
+import { offloadLargeOutput, OUTPUT_PREVIEW_CHARS } from "./outputOffload.js";
+import type { ExecutionResult } from "./executor.js";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("offloadLargeOutput", () => {
+  const result = (output: string, stderr = ""): ExecutionResult => ({
+    success: true,
+    output,
+    stderr,
+    exitCode: 0,
+    durationMs: 5,
+  });
+
+  it("keeps output within the limit inline", async () => {
+    const upload = vi.fn();
+
+    const offloaded = await offloadLargeOutput(result("small", "warn"), { maxInlineBytes: 16, upload });
+
+    expect(offloaded).toEqual(result("small", "warn"));
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it("uploads larger streams and keeps a preview", async () => {
+    const output = "x".repeat(OUTPUT_PREVIEW_CHARS * 2);
+    const uploads: Buffer[] = [];
+    const upload = vi.fn(async (data: Buffer) => {
+      uploads.push(data);
+      return "storage-1";
+    });
+
+    const offloaded = await offloadLargeOutput(result(output, "warn"), { maxInlineBytes: 1024, upload });
+
+    expect(offloaded.output).toBe("x".repeat(1024));
+    expect(offloaded.stderr).toBe("warn");
+    expect(offloaded.outputFile).toEqual({
+      storageId: "storage-1",
+      size: output.length,
+      sha256: createHash("sha256").update(output).digest("base64"),
+    });
+    expect(offloaded.stderrFile).toBeUndefined();
+    expect(uploads.map((data) => data.toString())).toEqual([output]);
+  });
+
+  it("measures the limit in UTF-8 bytes and never splits a surrogate pair", async () => {
+    const output = "😀".repeat(40); // 80 UTF-16 units, 160 bytes
+    const upload = vi.fn(async () => "storage-1");
+
+    const offloaded = await offloadLargeOutput(result(output), { maxInlineBytes: 25, upload });
+
+    expect(offloaded.output).toBe("😀".repeat(12));
+    expect(offloaded.outputFile?.size).toBe(160);
+  });
+
+  it("submits the preview with an error when the upload fails", async () => {
+    const upload = vi.fn(async () => {
+      throw new Error("Output upload refused: Command is not claimed");
+    });
+
+    const offloaded = await offloadLargeOutput(result("ok", "e".repeat(100)), { maxInlineBytes: 10, upload });
+
+    expect(offloaded.success).toBe(true);
+    expect(offloaded.stderr).toBe("e".repeat(10));
+    expect(offloaded.stderrFile).toBeUndefined();
+    expect(offloaded.error).toBe(
+      "stderr truncated to a preview - storing it failed: Output upload refused: Command is not claimed"
+    );
+  });
+
+  it("keeps everything inline when offloading is off", async () => {
+    const upload = vi.fn();
+    const big = result("x".repeat(10000));
+
+    expect(await offloadLargeOutput(big, { maxInlineBytes: 0, upload })).toBe(big);
+    expect(upload).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import { createHash } from "node:crypto";
+import { logger } from "./logger.js";
+import { splitOutput } from "./outputStream.js";
+import type { ExecutionResult } from "./executor.js";
+
+// Characters of offloaded output kept in the result as a preview
+export const OUTPUT_PREVIEW_CHARS = 16 * 1024;
+
+export interface OffloadOutputOptions {
+  maxInlineBytes: number; // Streams larger than this go to file storage, 0 keeps everything inline
+  upload: (data: Buffer) => Promise<string>; // Stores data on the center, returning its storageId
+}
+
+/**
+ * Move stdout and stderr that are too large to submit inline to the center's
+ * file storage. The result keeps the start of each as a preview next to a
+ * pointer to the stored copy; when an upload fails only the preview remains.
+ */
+export async function offloadLargeOutput(
+  result: ExecutionResult,
+  options: OffloadOutputOptions
+): Promise<ExecutionResult> {
+  if (options.maxInlineBytes <= 0) return result;
+
+  const offloaded = { ...result };
+  const streams = [
+    { name: "stdout", text: "output", file: "outputFile" },
+    { name: "stderr", text: "stderr", file: "stderrFile" },
+  ] as const;
+  for (const stream of streams) {
+    const data = Buffer.from(result[stream.text], "utf8");
+    if (data.length <= options.maxInlineBytes) continue;
+
+    // Only the start is split - one character past the preview tells whether it ends mid-pair
+    const previewChars = Math.min(OUTPUT_PREVIEW_CHARS, options.maxInlineBytes);
+    offloaded[stream.text] = splitOutput(result[stream.text].slice(0, previewChars + 1), previewChars)[0];
+    try {
+      const storageId = await options.upload(data);
+      offloaded[stream.file] = {
+        storageId,
+        size: data.length,
+        sha256: createHash("sha256").update(data).digest("base64"),
+      };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      logger.warn(`Failed to store ${stream.name} in file storage, submitting a preview only`, { error });
+      offloaded.error ??= `${stream.name} truncated to a preview - storing it failed: ${error}`;
+    }
+  }
+  return offloaded;
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  CommandOutputStream,
+  MAX_OUTPUT_CHUNK_CHARS,
+  splitOutput,
+  type OutputAppendResult,
+  type OutputChunk,
+} from "./outputStream.js";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("CommandOutputStream", () => {
+  let sends: OutputChunk[][];
+  let stored: { stdout: number; stderr: number };
+  let failNext: Error | null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sends = [];
+    stored = { stdout: 0, stderr: 0 };
+    failNext = null;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Center that stores chunks in order, like appendOutput
+  const createStream = (send?: (chunks: OutputChunk[]) => Promise<OutputAppendResult>) =>
+    new CommandOutputStream({
+      commandId: "cmd-1",
+      intervalMs: 500,
+      send:
+        send ??
+        (async (chunks) => {
+          sends.push(chunks);
+          if (failNext) {
+            const error = failNext;
+            failNext = null;
+            throw error;
+          }
+          for (const chunk of chunks) {
+            if (chunk.seq === stored[chunk.stream] + 1) stored[chunk.stream] = chunk.seq;
+          }
+          return { success: true, stdoutSeq: stored.stdout, stderrSeq: stored.stderr };
+        }),
+    });
+
+  it("batches output for the interval and numbers chunks per stream", async () => {
+    const stream = createStream();
+
+    stream.write("stdout", "a");
+    stream.write("stderr", "warn");
+    stream.write("stdout", "b");
+    await vi.advanceTimersByTimeAsync(499);
+    expect(sends).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    stream.write("stdout", "c");
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(sends).toEqual([
+      [
+        { stream: "stdout", seq: 1, data: "ab" },
+        { stream: "stderr", seq: 1, data: "warn" },
+      ],
+      [{ stream: "stdout", seq: 2, data: "c" }],
+    ]);
+  });
+
+  it("resends unconfirmed chunks before new output", async () => {
+    const stream = createStream();
+
+    failNext = new Error("network down");
+    stream.write("stdout", "first");
+    await vi.advanceTimersByTimeAsync(500);
+    stream.write("stdout", "second");
+    await stream.close();
+
+    expect(sends).toEqual([
+      [{ stream: "stdout", seq: 1, data: "first" }],
+      [
+        { stream: "stdout", seq: 1, data: "first" },
+        { stream: "stdout", seq: 2, data: "second" },
+      ],
+    ]);
+    expect(stored.stdout).toBe(2);
+  });
+
+  it("sends the rest right away on close", async () => {
+    const stream = createStream();
+
+    stream.write("stdout", "x".repeat(MAX_OUTPUT_CHUNK_CHARS + 1));
+    await stream.close();
+
+    expect(sends.flat().map((c) => [c.seq, c.data.length])).toEqual([
+      [1, MAX_OUTPUT_CHUNK_CHARS],
+      [2, 1],
+    ]);
+  });
+
+  it("stops sending once the center refuses the output", async () => {
+    const send = vi.fn(async (): Promise<OutputAppendResult> => ({ success: false, error: "Command is not running" }));
+    const stream = createStream(send);
+
+    stream.write("stdout", "late");
+    await stream.close();
+    stream.write("stdout", "later");
+    await stream.close();
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("splitOutput", () => {
+  it("splits text into pieces of at most the given size, keeping surrogate pairs together", () => {
+    expect(splitOutput("abcdefg", 3)).toEqual(["abc", "def", "g"]);
+    expect(splitOutput("", 3)).toEqual([]);
+    expect(splitOutput("ab😀cd", 3)).toEqual(["ab", "😀c", "d"]);
+  });
+});
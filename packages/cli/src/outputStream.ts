@@ -0,0 +1,129 @@
+import { logger } from "./logger.js";
+
+// Largest piece of output sent as one chunk
+export const MAX_OUTPUT_CHUNK_CHARS = 64 * 1024;
+
+// Most chunks sent to the center at once
+const MAX_CHUNKS_PER_SEND = 8;
+
+export type OutputStreamName = "stdout" | "stderr";
+
+export interface OutputChunk {
+  stream: OutputStreamName;
+  seq: number;
+  data: string;
+}
+
+// The center's answer to a send: the last chunk it stored for each stream
+export type OutputAppendResult =
+  | { success: true; stdoutSeq: number; stderrSeq: number }
+  | { success: false; error: string };
+
+export interface CommandOutputStreamConfig {
+  commandId: string;
+  intervalMs: number; // How long output is batched before it is sent
+  send: (chunks: OutputChunk[]) => Promise<OutputAppendResult>;
+}
+
+/**
+ * Streams a running command's output to the center as numbered chunks, each
+ * sent once: output is batched for intervalMs, cut into chunks numbered per
+ * stream, and kept until the center confirms it stored them. A failed send is
+ * retried with the same chunks, which the center skips if it already has them.
+ */
+export class CommandOutputStream {
+  private config: CommandOutputStreamConfig;
+  private unsent: Record<OutputStreamName, string> = { stdout: "", stderr: "" };
+  private lastSeq: Record<OutputStreamName, number> = { stdout: 0, stderr: 0 };
+  private pending: OutputChunk[] = []; // Numbered, not yet confirmed by the center
+  private sending: Promise<void> = Promise.resolve();
+  private timer: Timer | null = null;
+  private refused = false; // The center stopped taking output for this command
+
+  constructor(config: CommandOutputStreamConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Add output from the command; it is sent within intervalMs
+   */
+  write(stream: OutputStreamName, data: string): void {
+    if (this.refused || !data) return;
+    this.unsent[stream] += data;
+    this.timer ??= setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.config.intervalMs);
+  }
+
+  /**
+   * Send everything written so far, after any send already under way
+   */
+  flush(): Promise<void> {
+    this.sending = this.sending.then(() => this.sendPending());
+    return this.sending;
+  }
+
+  /**
+   * Final flush once the command has finished, so the last chunks reach the
+   * center before the result does
+   */
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+
+  private async sendPending(): Promise<void> {
+    for (const stream of ["stdout", "stderr"] as const) {
+      for (const data of splitOutput(this.unsent[stream])) {
+        this.pending.push({ stream, seq: ++this.lastSeq[stream], data });
+      }
+      this.unsent[stream] = "";
+    }
+
+    while (this.pending.length > 0 && !this.refused) {
+      let result: OutputAppendResult;
+      try {
+        result = await this.config.send(this.pending.slice(0, MAX_CHUNKS_PER_SEND));
+      } catch (err) {
+        // Keep the chunks for the next flush
+        logger.debug(`Failed to send output of command ${this.config.commandId}`, { error: err });
+        return;
+      }
+
+      if (!result.success) {
+        logger.debug(`Center stopped taking output of command ${this.config.commandId}`, { error: result.error });
+        this.refused = true;
+        this.pending = [];
+        return;
+      }
+
+      const stored = { stdout: result.stdoutSeq, stderr: result.stderrSeq };
+      const before = this.pending.length;
+      this.pending = this.pending.filter((chunk) => chunk.seq > stored[chunk.stream]);
+      if (this.pending.length === before) return; // Nothing stored - try again on the next flush
+    }
+  }
+}
+
+/**
+ * Split text into pieces of at most maxChars, never between the two halves
+ * of a surrogate pair
+ */
+export function splitOutput(text: string, maxChars: number = MAX_OUTPUT_CHUNK_CHARS): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    const last = text.charCodeAt(end - 1);
+    if (end < text.length && end - start > 1 && last >= 0xd800 && last <= 0xdbff) {
+      end--;
+    }
+    pieces.push(text.slice(start, end));
+    start = end;
+  }
+  return pieces;
+}
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  CommandPolicyStore,
+  evaluateCommandEnv,
+  evaluateCommandPolicy,
+  parseCommandPolicy,
+  type CommandPolicy,
+} from "./policy";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("evaluateCommandPolicy", () => {
+  const policy: CommandPolicy = {
+    version: "1",
+    rules: [
+      { action: "allow", match: "exact", pattern: "uptime" },
+      { action: "allow", match: "prefix", pattern: "systemctl status " },
+      { action: "allow", match: "glob", pattern: "cat /var/log/*.log" },
+      { action: "allow", match: "regex", pattern: "^df( -h)?$", target: "ssh" },
+      { action: "deny", match: "regex", pattern: "[;&|`$]" },
+    ],
+  };
+
+  it("allows commands matching an allow rule of each match type", () => {
+    expect(evaluateCommandPolicy(policy, "uptime", "local").allowed).toBe(true);
+    expect(evaluateCommandPolicy(policy, "systemctl status nginx", "local").allowed).toBe(true);
+    expect(evaluateCommandPolicy(policy, "cat /var/log/app.log", "local").allowed).toBe(true);
+    expect(evaluateCommandPolicy(policy, "df -h", "ssh").allowed).toBe(true);
+  });
+
+  it("denies commands that match no allow rule", () => {
+    const decision = evaluateCommandPolicy(policy, "rm -rf /", "local");
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toBe("no allow rule matches local command");
+  });
+
+  it("applies target-scoped rules only to their target", () => {
+    expect(evaluateCommandPolicy(policy, "df -h", "local").allowed).toBe(false);
+  });
+
+  it("lets deny rules win over allow rules", () => {
+    const decision = evaluateCommandPolicy(policy, "systemctl status nginx; rm -rf /", "local");
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain("deny rule");
+  });
+
+  it("anchors globs to the whole command", () => {
+    expect(evaluateCommandPolicy(policy, "cat /var/log/app.log /etc/shadow", "local").allowed).toBe(
+      false
+    );
+  });
+
+  it("anchors allow regexes to the whole command", () => {
+    expect(evaluateCommandPolicy(policy, "df -h /", "ssh").allowed).toBe(false);
+    const unanchored: CommandPolicy = {
+      version: "4",
+      rules: [{ action: "allow", match: "regex", pattern: "uptime" }],
+    };
+    expect(evaluateCommandPolicy(unanchored, "uptime", "local").allowed).toBe(true);
+    expect(evaluateCommandPolicy(unanchored, "reboot # uptime", "local").allowed).toBe(false);
+  });
+
+  it("refuses shell metacharacters unless an exact rule allows the command", () => {
+    const noDenyRules: CommandPolicy = {
+      version: "5",
+      rules: [
+        { action: "allow", match: "prefix", pattern: "systemctl status " },
+        { action: "allow", match: "glob", pattern: "cat /var/log/*" },
+        { action: "allow", match: "exact", pattern: "ps aux | grep nginx" },
+      ],
+    };
+
+    for (const command of [
+      "systemctl status nginx; reboot",
+      "systemctl status $(reboot)",
+      "systemctl status nginx\nreboot",
+      "cat /var/log/app.log && reboot",
+    ]) {
+      const decision = evaluateCommandPolicy(noDenyRules, command, "local");
+      expect(decision.allowed).toBe(false);
+      expect(decision.reason).toBe("shell metacharacters are only allowed by exact rules");
+    }
+    expect(evaluateCommandPolicy(noDenyRules, "ps aux | grep nginx", "local").allowed).toBe(true);
+
+    // Without a shell the characters are plain arguments
+    expect(evaluateCommandPolicy(noDenyRules, "systemctl status 'a;b'", "local", false).allowed).toBe(true);
+  });
+
+  it("allows by default when only deny rules apply", () => {
+    const denyOnly: CommandPolicy = {
+      version: "2",
+      rules: [{ action: "deny", match: "prefix", pattern: "rm " }],
+    };
+
+    expect(evaluateCommandPolicy(denyOnly, "ls", "local").allowed).toBe(true);
+    expect(evaluateCommandPolicy(denyOnly, "rm -rf /tmp/x", "local").allowed).toBe(false);
+  });
+
+  it("honours an explicit default action", () => {
+    const denyAll: CommandPolicy = { version: "3", rules: [], defaultAction: "deny" };
+    expect(evaluateCommandPolicy(denyAll, "ls", "ssh").allowed).toBe(false);
+  });
+});
+
+describe("evaluateCommandEnv", () => {
+  const policy: CommandPolicy = { version: "1", rules: [], allowedEnv: ["PATH"] };
+
+  it("denies guarded variables the policy does not list", () => {
+    for (const name of ["LD_PRELOAD", "DYLD_INSERT_LIBRARIES", "BASH_ENV", "ENV"]) {
+      expect(evaluateCommandEnv(policy, { [name]: "/tmp/x" })).toEqual({
+        allowed: false,
+        reason: `environment variable ${name} is not in allowedEnv`,
+      });
+    }
+  });
+
+  it("allows listed guarded variables and ordinary ones", () => {
+    expect(evaluateCommandEnv(policy, { PATH: "/opt/bin:/usr/bin", VERSION: "1.4.2" }).allowed).toBe(true);
+    expect(evaluateCommandEnv({ version: "2", rules: [] }, { PATH: "/tmp" }).allowed).toBe(false);
+  });
+});
+
+describe("parseCommandPolicy", () => {
+  it("converts the legacy commands list to exact allow rules", () => {
+    const policy = parseCommandPolicy({ commands: ["ls", "uptime"] });
+
+    expect(policy.rules).toEqual([
+      { action: "allow", match: "exact", pattern: "ls" },
+      { action: "allow", match: "exact", pattern: "uptime" },
+    ]);
+    expect(policy.version).toMatch(/^[0-9a-f]{12}$/);
+  });
+
+  it("keeps an explicit version", () => {
+    const policy = parseCommandPolicy({ version: 7, rules: [] });
+    expect(policy.version).toBe("7");
+  });
+
+  it("derives the same version from the same content", () => {
+    const payload = { rules: [{ action: "allow", match: "exact", pattern: "ls" }] };
+    expect(parseCommandPolicy(payload).version).toBe(parseCommandPolicy(payload).version);
+  });
+
+  it("rejects invalid rules", () => {
+    expect(() => parseCommandPolicy({ rules: [{ action: "maybe", match: "exact", pattern: "ls" }] })).toThrow(
+      "action must be"
+    );
+    expect(() => parseCommandPolicy({ rules: [{ action: "allow", match: "fuzzy", pattern: "ls" }] })).toThrow(
+      "match must be one of"
+    );
+    expect(() => parseCommandPolicy({ rules: [{ action: "allow", match: "regex", pattern: "(" }] })).toThrow(
+      "invalid regex"
+    );
+    expect(() => parseCommandPolicy({})).toThrow("requires rules or commands");
+    expect(() => parseCommandPolicy({ rules: [], allowedEnv: "PATH" })).toThrow("allowedEnv must be");
+  });
+});
+
+describe("CommandPolicyStore", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = path.join(os.tmpdir(), `relay-policy-test-${Date.now()}`);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("allows everything until a policy is pushed", () => {
+    const store = new CommandPolicyStore(testDir);
+    store.load();
+
+    expect(store.getVersion()).toBeNull();
+    expect(store.evaluate("anything", "local").allowed).toBe(true);
+  });
+
+  it("persists the policy across restarts", () => {
+    const store = new CommandPolicyStore(testDir);
+    store.update({ version: "v1", rules: [{ action: "allow", match: "exact", pattern: "uptime" }] });
+
+    const restarted = new CommandPolicyStore(testDir);
+    restarted.load();
+
+    expect(restarted.getVersion()).toBe("v1");
+    expect(restarted.evaluate("uptime", "local").allowed).toBe(true);
+    expect(restarted.evaluate("reboot", "local").allowed).toBe(false);
+  });
+
+  it("keeps the current policy when an update is invalid", () => {
+    const store = new CommandPolicyStore(testDir);
+    store.update({ version: "v1", rules: [] });
+
+    expect(() => store.update({ version: "v2", rules: [{ action: "allow" }] })).toThrow();
+    expect(store.getVersion()).toBe("v1");
+  });
+
+  it("denies everything if the persisted policy is corrupt", () => {
+    fs.writeFileSync(path.join(testDir, "command-policy.json"), "{not json");
+
+    const store = new CommandPolicyStore(testDir);
+    store.load();
+
+    expect(store.getVersion()).toBe("invalid");
+    expect(store.evaluate("ls", "local").allowed).toBe(false);
+  });
+});
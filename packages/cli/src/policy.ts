@@ -0,0 +1,280 @@
+import { logger } from "./logger.js";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+export type PolicyAction = "allow" | "deny";
+export type PolicyMatchType = "exact" | "prefix" | "glob" | "regex";
+export type PolicyTarget = "local" | "ssh" | "any";
+
+export interface PolicyRule {
+  action: PolicyAction;
+  match: PolicyMatchType;
+  pattern: string;
+  target?: PolicyTarget; // Which commands the rule applies to (default: any)
+}
+
+export interface CommandPolicy {
+  version: string;
+  rules: PolicyRule[];
+  // Decision when no rule matches. Defaults to "deny" if any allow rule
+  // applies to the command's target, otherwise "allow".
+  defaultAction?: PolicyAction;
+  allowedEnv?: string[]; // Guarded environment variables commands may still set
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+// Error code reported with results of commands the policy rejected
+export const POLICY_DENIED_ERROR_CODE = "policy_denied";
+
+const MATCH_TYPES: PolicyMatchType[] = ["exact", "prefix", "glob", "regex"];
+const TARGETS: PolicyTarget[] = ["local", "ssh", "any"];
+
+/**
+ * Convert a glob ("*" any characters, "?" one character) to an anchored regex
+ */
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "s");
+}
+
+// Characters that let a shell string run more than the command a rule allowed:
+// separators, pipes, substitutions, redirections, subshells and line breaks
+const SHELL_METACHARACTERS = /[;&|`$<>()\n\r]/;
+
+// Environment variables that change which program runs or what it loads, so
+// rules on the command line alone can't vouch for them
+const GUARDED_ENV = /^(LD_.*|DYLD_.*|BASH_ENV|ENV|PATH)$/;
+
+/**
+ * Whether a rule matches a command. Allow regexes must match the whole
+ * command; deny regexes match anywhere in it.
+ */
+function ruleMatches(rule: PolicyRule, command: string): boolean {
+  switch (rule.match) {
+    case "exact":
+      return command === rule.pattern;
+    case "prefix":
+      return command.startsWith(rule.pattern);
+    case "glob":
+      return globToRegExp(rule.pattern).test(command);
+    case "regex":
+      return new RegExp(rule.action === "allow" ? `^(?:${rule.pattern})$` : rule.pattern).test(command);
+  }
+}
+
+/**
+ * Evaluate a command against a policy.
+ * Deny rules win over allow rules; without a match the default action applies.
+ * A command run through a shell (viaShell) that contains shell metacharacters
+ * is only allowed by an exact rule - a prefix, glob or regex could otherwise
+ * let a chained command ride along.
+ */
+export function evaluateCommandPolicy(
+  policy: CommandPolicy,
+  command: string,
+  targetType: "local" | "ssh",
+  viaShell: boolean = true
+): PolicyDecision {
+  const trimmed = command.trim();
+  const rules = policy.rules.filter(
+    (rule) => !rule.target || rule.target === "any" || rule.target === targetType
+  );
+
+  const denied = rules.find((rule) => rule.action === "deny" && ruleMatches(rule, trimmed));
+  if (denied) {
+    return { allowed: false, reason: `matches deny rule (${denied.match}: ${denied.pattern})` };
+  }
+
+  const allowedBy = rules.filter((rule) => rule.action === "allow" && ruleMatches(rule, trimmed));
+  if (allowedBy.length > 0) {
+    if (!viaShell || !SHELL_METACHARACTERS.test(trimmed) || allowedBy.some((rule) => rule.match === "exact")) {
+      return { allowed: true };
+    }
+    return { allowed: false, reason: "shell metacharacters are only allowed by exact rules" };
+  }
+
+  const hasAllowRules = rules.some((rule) => rule.action === "allow");
+  const defaultAction = policy.defaultAction ?? (hasAllowRules ? "deny" : "allow");
+  if (defaultAction === "deny") {
+    return { allowed: false, reason: `no allow rule matches ${targetType} command` };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Check the environment a command sets against a policy. Guarded variables
+ * (LD_*, DYLD_*, BASH_ENV, ENV, PATH) are denied unless listed in allowedEnv.
+ */
+export function evaluateCommandEnv(policy: CommandPolicy, env: Record<string, string>): PolicyDecision {
+  const guarded = Object.keys(env).find(
+    (name) => GUARDED_ENV.test(name) && !(policy.allowedEnv ?? []).includes(name)
+  );
+  if (guarded) {
+    return { allowed: false, reason: `environment variable ${guarded} is not in allowedEnv` };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Validate a pushed policy payload and normalize it to a CommandPolicy.
+ * The legacy `{ commands: string[] }` form becomes an exact-match allowlist.
+ */
+export function parseCommandPolicy(payload: unknown): CommandPolicy {
+  if (!payload || typeof payload !== "object") {
+    throw new Error("Policy payload must be an object");
+  }
+  const raw = payload as {
+    version?: unknown;
+    rules?: unknown;
+    defaultAction?: unknown;
+    allowedEnv?: unknown;
+    commands?: unknown;
+  };
+
+  let rules: PolicyRule[];
+  if (Array.isArray(raw.commands) && raw.rules === undefined) {
+    rules = raw.commands.map((command) => {
+      if (typeof command !== "string") {
+        throw new Error("Policy commands must be strings");
+      }
+      return { action: "allow" as const, match: "exact" as const, pattern: command };
+    });
+  } else if (Array.isArray(raw.rules)) {
+    rules = raw.rules.map((rule, i) => {
+      const r = rule as Partial<PolicyRule>;
+      if (r.action !== "allow" && r.action !== "deny") {
+        throw new Error(`Rule ${i}: action must be "allow" or "deny"`);
+      }
+      if (!r.match || !MATCH_TYPES.includes(r.match)) {
+        throw new Error(`Rule ${i}: match must be one of ${MATCH_TYPES.join(", ")}`);
+      }
+      if (typeof r.pattern !== "string" || r.pattern.length === 0) {
+        throw new Error(`Rule ${i}: pattern is required`);
+      }
+      if (r.target !== undefined && !TARGETS.includes(r.target)) {
+        throw new Error(`Rule ${i}: target must be one of ${TARGETS.join(", ")}`);
+      }
+      if (r.match === "regex") {
+        try {
+          new RegExp(r.pattern);
+        } catch (err) {
+          throw new Error(`Rule ${i}: invalid regex: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+      return { action: r.action, match: r.match, pattern: r.pattern, target: r.target };
+    });
+  } else {
+    throw new Error("Policy payload requires rules or commands");
+  }
+
+  if (raw.defaultAction !== undefined && raw.defaultAction !== "allow" && raw.defaultAction !== "deny") {
+    throw new Error('defaultAction must be "allow" or "deny"');
+  }
+
+  if (
+    raw.allowedEnv !== undefined &&
+    (!Array.isArray(raw.allowedEnv) || raw.allowedEnv.some((name) => typeof name !== "string"))
+  ) {
+    throw new Error("allowedEnv must be an array of variable names");
+  }
+
+  const policy = {
+    rules,
+    defaultAction: raw.defaultAction as PolicyAction | undefined,
+    allowedEnv: raw.allowedEnv as string[] | undefined,
+  };
+
+  // Pushes without an explicit version are identified by their content
+  const version =
+    typeof raw.version === "string" || typeof raw.version === "number"
+      ? String(raw.version)
+      : crypto.createHash("sha256").update(JSON.stringify(policy)).digest("hex").slice(0, 12);
+
+  return { version, ...policy };
+}
+
+/**
+ * Command policy pushed from the center, persisted next to the credential store
+ * so it survives relay restarts
+ */
+export class CommandPolicyStore {
+  private storePath: string;
+  private policy: CommandPolicy | null = null;
+
+  constructor(storeDir?: string) {
+    const dir = storeDir || path.join(os.homedir(), ".remote-cmd-relay");
+    this.storePath = path.join(dir, "command-policy.json");
+  }
+
+  /**
+   * Load the persisted policy, if any
+   */
+  load(): void {
+    if (!fs.existsSync(this.storePath)) return;
+
+    try {
+      const content = fs.readFileSync(this.storePath, "utf8");
+      this.policy = parseCommandPolicy(JSON.parse(content));
+      logger.info("Loaded command policy", {
+        version: this.policy.version,
+        ruleCount: this.policy.rules.length,
+      });
+    } catch (err) {
+      // Fail closed - a corrupt policy file must not silently allow everything
+      this.policy = { version: "invalid", rules: [], defaultAction: "deny" };
+      logger.error("Failed to load command policy, denying all commands", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * Replace the policy with a pushed payload and persist it.
+   * Throws if the payload is invalid; the current policy is kept in that case.
+   */
+  update(payload: unknown): CommandPolicy {
+    const policy = parseCommandPolicy(payload);
+
+    const dir = path.dirname(this.storePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+    fs.writeFileSync(this.storePath, JSON.stringify(policy, null, 2), { mode: 0o600 });
+
+    this.policy = policy;
+    logger.info("Updated command policy", {
+      version: policy.version,
+      ruleCount: policy.rules.length,
+    });
+    return policy;
+  }
+
+  /**
+   * Version of the enforced policy, or null if none was pushed
+   */
+  getVersion(): string | null {
+    return this.policy?.version ?? null;
+  }
+
+  /**
+   * Check whether a command may run. Everything is allowed until a policy is pushed.
+   */
+  evaluate(command: string, targetType: "local" | "ssh", viaShell: boolean = true): PolicyDecision {
+    if (!this.policy) return { allowed: true };
+    return evaluateCommandPolicy(this.policy, command, targetType, viaShell);
+  }
+
+  /**
+   * Check whether a command may set the given environment variables
+   */
+  evaluateEnv(env: Record<string, string>): PolicyDecision {
+    if (!this.policy) return { allowed: true };
+    return evaluateCommandEnv(this.policy, env);
+  }
+}
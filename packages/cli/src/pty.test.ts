@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { AddressInfo } from "node:net";
+import { Server, utils, type PseudoTtyInfo } from "ssh2";
+import { spawnLocalPty, openSSHPty, type PtyExit, type PtyOptions } from "./pty.js";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+// Collects a terminal's output and resolves once it has ended
+function capture(options: Partial<PtyOptions> = {}) {
+  let output = "";
+  let resolveExit!: (exit: PtyExit) => void;
+  const exited = new Promise<PtyExit>((resolve) => (resolveExit = resolve));
+  const waitFor = async (text: string) => {
+    for (let i = 0; i < 200 && !output.includes(text); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 25));
+    }
+    expect(output).toContain(text);
+  };
+  return {
+    options: {
+      cols: 80,
+      rows: 24,
+      ...options,
+      onData: (data: Buffer) => (output += data.toString()),
+      onExit: resolveExit,
+    },
+    output: () => output,
+    waitFor,
+    exited,
+  };
+}
+
+describe("spawnLocalPty", () => {
+  it("runs the command in a terminal of the requested size", async () => {
+    const term = capture({ command: "stty size; test -t 0 && echo tty", cols: 132, rows: 43 });
+
+    await spawnLocalPty(term.options);
+
+    expect(await term.exited).toEqual({ exitCode: 0 });
+    expect(term.output()).toContain("43 132");
+    expect(term.output()).toContain("tty");
+  });
+
+  it("passes input through and reports the exit code", async () => {
+    const term = capture({ command: "read line; echo \"got $line\"; exit 3" });
+
+    const pty = await spawnLocalPty(term.options);
+    pty.write("hello\r");
+
+    expect(await term.exited).toEqual({ exitCode: 3 });
+    expect(term.output()).toContain("got hello");
+  });
+
+  it("runs the terminal under an execution profile", async () => {
+    const term = capture({ command: "ulimit -n", profile: { openFiles: 64 } });
+
+    await spawnLocalPty(term.options);
+
+    expect(await term.exited).toEqual({ exitCode: 0 });
+    expect(term.output()).toContain("64");
+  });
+
+  it("hangs up the terminal on close", async () => {
+    const term = capture({ command: "echo started; sleep 30" });
+
+    const pty = await spawnLocalPty(term.options);
+    await term.waitFor("started");
+    pty.close();
+
+    const exit = await term.exited;
+    expect(exit.exitCode).not.toBe(0);
+    expect(pty.resize(100, 30)).toBe(false);
+  });
+});
+
+describe("openSSHPty", () => {
+  const hostKey = utils.generateKeyPairSync("ed25519");
+  let server: Server;
+  let port: number;
+  let ptyInfo: PseudoTtyInfo | undefined;
+  let windowChanges: Array<{ cols: number; rows: number }>;
+
+  // Shell that echoes input in upper case and exits with 3 on "exit"
+  beforeEach(async () => {
+    ptyInfo = undefined;
+    windowChanges = [];
+    server = new Server({ hostKeys: [hostKey.private] }, (client) => {
+      client
+        .on("authentication", (ctx) => (ctx.method === "password" ? ctx.accept() : ctx.reject(["password"])))
+        .on("ready", () => {
+          client.on("session", (accept) => {
+            const session = accept();
+            session.on("pty", (acceptPty, _reject, info) => {
+              ptyInfo = info;
+              acceptPty?.();
+            });
+            session.on("window-change", (acceptChange, _reject, info) => {
+              windowChanges.push({ cols: info.cols, rows: info.rows });
+              acceptChange?.();
+            });
+            session.on("shell", (acceptShell) => {
+              const stream = acceptShell();
+              stream.write("$ ");
+              stream.on("data", (data: Buffer) => {
+                const input = data.toString();
+                if (input.startsWith("exit")) {
+                  stream.exit(3);
+                  stream.end();
+                } else {
+                  stream.write(input.toUpperCase());
+                }
+              });
+            });
+            session.on("exec", (acceptExec, _reject, info) => {
+              const stream = acceptExec();
+              stream.write(`ran ${info.command} on ${ptyInfo?.term}`);
+              stream.exit(0);
+              stream.end();
+            });
+          });
+        });
+      client.on("error", () => {});
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const target = () => ({ host: "127.0.0.1", port, username: "ops", password: "secret" });
+
+  it("opens a login shell, streams input and output, and resizes", async () => {
+    const term = capture({ cols: 120, rows: 40 });
+
+    const opened = await openSSHPty({ ...target(), ...term.options });
+    expect(opened.ok).toBe(true);
+    if (!opened.ok) return;
+    expect(opened.authMethod).toBe("password");
+    expect(ptyInfo).toMatchObject({ term: "xterm-256color", cols: 120, rows: 40 });
+
+    opened.pty.write("ls\r");
+    await term.waitFor("LS");
+    expect(opened.pty.resize(100, 30)).toBe(true);
+    opened.pty.write("exit\r");
+
+    expect(await term.exited).toEqual({ exitCode: 3 });
+    expect(term.output()).toBe("$ LS\r");
+    expect(windowChanges).toEqual([{ cols: 100, rows: 30 }]);
+  });
+
+  it("runs a command in a terminal", async () => {
+    const term = capture({ command: "top" });
+
+    const opened = await openSSHPty({ ...target(), ...term.options });
+
+    expect(opened.ok).toBe(true);
+    expect(await term.exited).toEqual({ exitCode: 0 });
+    expect(term.output()).toBe("ran top on xterm-256color");
+  });
+
+  it("fails when the connection can't be made", async () => {
+    const term = capture();
+
+    const opened = await openSSHPty({ ...target(), password: undefined, ...term.options });
+
+    expect(opened.ok).toBe(false);
+  });
+});
@@ -0,0 +1,187 @@
+import { spawn } from "node:child_process";
+import type { ClientChannel } from "ssh2";
+import { logger } from "./logger.js";
+import {
+  connectOnce,
+  killProcessTree,
+  shellQuote,
+  type SSHConnectResult,
+  type SSHTargetOptions,
+} from "./executor.js";
+import type { SshConnectionPool } from "./sshPool.js";
+import { prepareSandbox, type ExecutionProfile } from "./sandbox.js";
+
+// Terminal type announced to programs running in a session
+export const PTY_TERM = "xterm-256color";
+
+export interface PtyExit {
+  exitCode: number; // -1 if the terminal ended without an exit status
+  error?: string; // Why the terminal could not run or was lost
+}
+
+export interface PtyOptions {
+  command?: string; // Program to run instead of the login shell
+  profile?: ExecutionProfile; // User, base directory, environment, limits and isolation of a local terminal
+  cols: number;
+  rows: number;
+  onData: (data: Buffer) => void; // Terminal output
+  onExit: (exit: PtyExit) => void; // Called once when the terminal ends
+}
+
+export interface SSHPtyOptions extends PtyOptions, SSHTargetOptions {
+  pool?: SshConnectionPool; // Open the session over a pooled connection
+}
+
+// A running terminal
+export interface PtyProcess {
+  write(data: string): void;
+  resize(cols: number, rows: number): boolean; // false if the terminal can't be resized
+  close(): void; // Hang up; onExit follows
+}
+
+/**
+ * Run a login shell (or a command) in a local pseudo-terminal. The PTY comes
+ * from the system's script(1) utility, so no native module is needed; the
+ * size is set with stty when the terminal starts and can't be changed later.
+ */
+export async function spawnLocalPty(options: PtyOptions): Promise<PtyProcess> {
+  // A login shell of a user the terminal runs as is that user's, not the relay's
+  const shell = options.profile?.user === undefined ? process.env.SHELL || "/bin/sh" : "/bin/sh";
+  const program = options.command ?? `exec ${shellQuote(shell)} -l`;
+  const inner = `stty rows ${options.rows} cols ${options.cols} 2>/dev/null; ${program}`;
+
+  // util-linux script runs -c through $SHELL; BSD/macOS script takes the command as arguments
+  const args =
+    process.platform === "linux"
+      ? ["-q", "-e", "-f", "-c", inner, "/dev/null"]
+      : ["-q", "/dev/null", "/bin/sh", "-c", inner];
+  logger.debug(`Opening local terminal: ${options.command ?? "login shell"}`);
+
+  let exited = false;
+  const exit = (result: PtyExit) => {
+    if (exited) return;
+    exited = true;
+    options.onExit(result);
+  };
+
+  const sandbox = await prepareSandbox(
+    { command: program, argv: ["script", ...args], env: { SHELL: "/bin/sh", TERM: PTY_TERM } },
+    options.profile
+  );
+  if (!sandbox.ok) {
+    exit({ exitCode: -1, error: `Cannot start terminal: ${sandbox.error}` });
+    return { write: () => {}, resize: () => false, close: () => {} };
+  }
+  const { cwd, env, uid, gid } = sandbox.spawn;
+
+  const proc = spawn(sandbox.spawn.program, sandbox.spawn.args, {
+    stdio: ["pipe", "pipe", "pipe"],
+    detached: true, // Own process group so closing reaches the whole session
+    cwd,
+    env,
+    uid,
+    gid,
+  });
+
+  proc.stdout.on("data", options.onData);
+  proc.stderr.on("data", options.onData);
+  proc.stdin.on("error", (err) => logger.debug(`Local terminal input closed: ${err.message}`));
+  proc.on("close", (code) => exit({ exitCode: code ?? -1 }));
+  proc.on("error", (err) => exit({ exitCode: -1, error: `Cannot start terminal: ${err.message}` }));
+
+  return {
+    write: (data) => {
+      if (!exited && proc.stdin.writable) proc.stdin.write(data);
+    },
+    resize: () => false,
+    // script(1) ignores SIGHUP; killing it closes the PTY, which hangs up the shell's session
+    close: () => {
+      if (!exited) killProcessTree(proc);
+    },
+  };
+}
+
+/**
+ * Open a login shell (or a command) in a pseudo-terminal on an SSH target.
+ * Resolves once the terminal is running; the connection goes back to the pool
+ * when it ends.
+ */
+export async function openSSHPty(
+  options: SSHPtyOptions
+): Promise<{ ok: true; pty: PtyProcess; authMethod?: string } | Extract<SSHConnectResult, { ok: false }>> {
+  logger.debug(`Opening SSH terminal on ${options.host}: ${options.command ?? "login shell"}`);
+  const window = { term: PTY_TERM, cols: options.cols, rows: options.rows, width: 0, height: 0 };
+
+  for (let attempt = 1; ; attempt++) {
+    const acquired = options.pool
+      ? await options.pool.acquire(options, { fresh: attempt > 1 })
+      : await connectOnce(options);
+    if (!acquired.ok) return acquired;
+
+    const { lease } = acquired;
+    const conn = lease.connection.client;
+    const opened = await new Promise<ClientChannel | Error>((resolve) => {
+      const done = (err: Error | undefined, stream: ClientChannel) => resolve(err ?? stream);
+      if (options.command) {
+        conn.exec(options.command, { pty: window }, done);
+      } else {
+        conn.shell(window, done);
+      }
+    });
+
+    if (opened instanceof Error) {
+      if (lease.reused && attempt === 1) {
+        // A pooled connection can go stale between commands - retry once on a fresh one
+        logger.debug(`Pooled SSH connection to ${options.host} failed, reconnecting`, { error: opened.message });
+        lease.discard();
+        continue;
+      }
+      lease.release();
+      return { ok: false, error: opened.message };
+    }
+
+    const stream = opened;
+    let exitCode = -1;
+    let exited = false;
+    const exit = (result: PtyExit, connectionLost = false) => {
+      if (exited) return;
+      exited = true;
+      conn.removeListener("close", onConnectionClose);
+      if (connectionLost) {
+        lease.discard();
+      } else {
+        lease.release();
+      }
+      options.onExit(result);
+    };
+    const onConnectionClose = () => exit({ exitCode: -1, error: "SSH connection closed" }, true);
+
+    conn.once("close", onConnectionClose);
+    stream.on("data", options.onData);
+    stream.stderr.on("data", options.onData);
+    stream.on("exit", (code: number | null) => {
+      if (typeof code === "number") exitCode = code;
+    });
+    stream.on("close", () => exit({ exitCode }));
+
+    return {
+      ok: true,
+      authMethod: lease.connection.authMethod,
+      pty: {
+        write: (data) => {
+          if (!exited) stream.write(data);
+        },
+        resize: (cols, rows) => {
+          if (exited) return false;
+          stream.setWindow(rows, cols, 0, 0);
+          return true;
+        },
+        close: () => {
+          if (exited) return;
+          stream.signal("HUP");
+          stream.close();
+        },
+      },
+    };
+  }
+}
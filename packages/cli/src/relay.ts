@@ -1,12 +1,57 @@
-import { readFile } from "node:fs/promises";
 import { ConvexClient } from "convex/browser";
 import { anyApi } from "convex/server";
+import * as path from "path";
 import { logger } from "./logger.js";
-import { executeLocal, executeSSH, type ExecutionResult } from "./executor.js";
-import { CredentialManager, type CredentialMetadata } from "./credentials.js";
+import {
+  DEFAULT_KILL_GRACE_MS,
+  executeLocal,
+  executeSSH,
+  type ExecutionResult,
+  type SSHConnectionOptions,
+  type SSHTargetOptions,
+} from "./executor.js";
+import {
+  CredentialManager,
+  parseSshCredential,
+  type CredentialMetadata,
+  type SshCredential,
+} from "./credentials.js";
 import { detectCapabilities, getMachineId, type Capability } from "./capabilities.js";
 import { collectMetrics, type PerformanceMetrics } from "./metrics.js";
 import { SyncManager } from "./sync.js";
+import { ExecutionScheduler } from "./scheduler.js";
+import { CommandPolicyStore, POLICY_DENIED_ERROR_CODE } from "./policy.js";
+import { SshTargetRegistry, SSH_TARGET_DENIED_ERROR_CODE } from "./sshTargets.js";
+import { HostKeyVerifier, type HostKeyPolicy } from "./hostKeys.js";
+import { loadDefaultSshAuth } from "./sshConfig.js";
+import { SshConnectionPool } from "./sshPool.js";
+import {
+  transferLocal,
+  transferSFTP,
+  type FileTransferKind,
+  type FileTransferOptions,
+  type FileTransferSpec,
+} from "./fileTransfer.js";
+import { spawnLocalPty, openSSHPty } from "./pty.js";
+import {
+  TerminalSession,
+  type PendingSession,
+  type SessionCloseReport,
+  type SessionInputEvent,
+  type SessionSyncResult,
+  type SessionTransport,
+} from "./sessions.js";
+import { CommandOutputStream, type OutputAppendResult, type OutputChunk } from "./outputStream.js";
+import { offloadLargeOutput } from "./outputOffload.js";
+import { DEFAULT_MAX_OUTPUT_BYTES, type OutputLimit, type OutputRetention } from "./outputBuffer.js";
+import {
+  checkLocalTransfer,
+  detectSandboxSupport,
+  mergeProfiles,
+  PROFILE_REJECTED_ERROR_CODE,
+  unsupportedProfile,
+  type ExecutionProfile,
+} from "./sandbox.js";
 
 export interface RelayConfig {
   apiKey: string;
@@ -19,6 +64,19 @@ export interface RelayConfig {
   convexDeploymentUrl?: string; // Convex deployment URL for subscription mode (e.g., https://your-app.convex.cloud)
   componentName?: string; // Convex component name (default: "remoteCmdRelay")
   publicApiModule?: string; // App-level module exposing component functions (default: "relayPublic")
+  leaseDurationMs?: number; // How long a command claim stays valid without renewal (default: 60000)
+  maxConcurrency?: number; // Max commands executing at once (default: 4)
+  maxPerHost?: number; // Max commands executing at once against one SSH target (default: 2)
+  hostKeyPolicy?: HostKeyPolicy; // How unknown SSH host keys are handled (default: "tofu")
+  sshIdleTimeoutMs?: number; // Close pooled SSH connections idle this long, 0 disables pooling (default: 60000)
+  sshMaxChannels?: number; // Max commands sharing one pooled SSH connection (default: 4)
+  maxFileBytes?: number; // Largest file a file push or pull may move (default: 100 MB)
+  maxInlineOutputBytes?: number; // Larger stdout / stderr goes to file storage, 0 keeps it inline (default: 256 KB)
+  maxOutputBytes?: number; // Most stdout / stderr kept per command, the rest is truncated (default: 32 MB)
+  killGraceMs?: number; // How long a stopped local command gets between SIGTERM and SIGKILL (default: 5000)
+  executionProfile?: ExecutionProfile; // How local commands and terminals run; commands can only tighten it
+  maxSessions?: number; // Max terminal sessions open at once (default: 8)
+  sessionSyncIntervalMs?: number; // How often terminal output is sent to the center (default: 250)
 }
 
 export interface RelayAssignment {
@@ -30,15 +88,33 @@ export interface RelayAssignment {
 
 export interface Command {
   _id: string;
-  command: string;
+  kind?: "exec" | FileTransferKind; // Defaults to "exec"
+  command: string; // Shell command, or argv quoted as a command line
+  argv?: string[]; // Program and arguments, run without a shell
+  cwd?: string; // Working directory
+  env?: Record<string, string>; // Extra environment variables
+  shell?: "sh" | "bash"; // Shell for command (default: sh locally, the login shell over SSH)
+  file?: FileTransferSpec; // Set for file_push and file_pull commands
+  stdin?: string; // Input piped to the command
+  stdinUrl?: string; // Download URL of stored input, for inputs too large to inline
+  outputLimit?: { maxBytes?: number; keep?: OutputRetention; onLimit?: "truncate" | "kill" }; // Cap on the output kept
+  executionProfile?: ExecutionProfile; // Tightens the relay's profile for a local command
   targetType: "local" | "ssh";
   targetHost?: string;
   targetPort?: number;
   targetUsername?: string;
+  jumpHosts?: Array<{ host: string; port?: number; username?: string; credentialName?: string }>;
   timeoutMs: number;
   createdAt: number;
 }
 
+// A command this relay claimed and is running
+interface RunningCommand {
+  attempt: number; // Claim attempt returned by the center - quoted on renewals and the result
+  controller: AbortController; // Cancellation handle
+  leaseLost: boolean; // The center handed the command on - its result is dropped
+}
+
 export class Relay {
   private config: RelayConfig;
   private assignment: RelayAssignment | null = null;
@@ -49,9 +125,20 @@ export class Relay {
   private capabilities: Capability[] = [];
   private syncManager: SyncManager | null = null;
   private credentialManager: CredentialManager;
+  private commandPolicy: CommandPolicyStore;
+  private sshTargets: SshTargetRegistry;
+  private hostKeys: HostKeyVerifier;
+  private sshPool: SshConnectionPool | null;
   private convexClient: ConvexClient | null = null;
   private subscriptionUnsubscribe: (() => void) | null = null;
-  private processingCommands: Set<string> = new Set(); // Track commands being processed
+  private scheduler: ExecutionScheduler;
+  private pendingCommands: Command[] = []; // Latest pending commands seen, dispatched as slots free up
+  private leaseRenewals: Map<string, Timer> = new Map(); // Lease renewal timers by command ID
+  private runningCommands: Map<string, RunningCommand> = new Map(); // Claimed commands by command ID
+  private cancelSubscriptionUnsubscribe: (() => void) | null = null;
+  private sessions: Map<string, TerminalSession> = new Map(); // Open terminal sessions by session ID
+  private sessionSubscriptionUnsubscribe: (() => void) | null = null;
+  private sessionInputUnsubscribes: Map<string, () => void> = new Map(); // Input subscriptions by session ID
 
   constructor(config: RelayConfig) {
     this.config = {
@@ -59,8 +146,34 @@ export class Relay {
       statusReportIntervalMs: config.statusReportIntervalMs || 30000, // Default 30s
       componentName: config.componentName || "remoteCmdRelay",
       publicApiModule: config.publicApiModule || "relayPublic",
+      leaseDurationMs: config.leaseDurationMs || 60000,
+      maxConcurrency: config.maxConcurrency || 4,
+      maxPerHost: config.maxPerHost || 2,
+      hostKeyPolicy: config.hostKeyPolicy || "tofu",
+      sshIdleTimeoutMs: config.sshIdleTimeoutMs ?? 60000,
+      sshMaxChannels: config.sshMaxChannels || 4,
+      maxFileBytes: config.maxFileBytes ?? 100 * 1024 * 1024,
+      maxInlineOutputBytes: config.maxInlineOutputBytes ?? 256 * 1024,
+      maxOutputBytes: config.maxOutputBytes || DEFAULT_MAX_OUTPUT_BYTES,
+      killGraceMs: config.killGraceMs ?? DEFAULT_KILL_GRACE_MS,
+      maxSessions: config.maxSessions || 8,
+      sessionSyncIntervalMs: config.sessionSyncIntervalMs || 250,
     };
     this.credentialManager = new CredentialManager(config.storeDir);
+    this.commandPolicy = new CommandPolicyStore(config.storeDir);
+    this.sshTargets = new SshTargetRegistry(config.storeDir);
+    this.hostKeys = new HostKeyVerifier(this.credentialManager, this.config.hostKeyPolicy);
+    this.sshPool =
+      this.config.sshIdleTimeoutMs! > 0
+        ? new SshConnectionPool({
+            idleTimeoutMs: this.config.sshIdleTimeoutMs,
+            maxChannelsPerConnection: this.config.sshMaxChannels,
+          })
+        : null;
+    this.scheduler = new ExecutionScheduler({
+      maxConcurrency: this.config.maxConcurrency!,
+      maxPerHost: this.config.maxPerHost!,
+    });
   }
 
   /**
@@ -73,12 +186,20 @@ export class Relay {
     const capInfo = await detectCapabilities();
     this.capabilities = capInfo.capabilities;
     logger.info("Detected capabilities", { capabilities: this.capabilities });
+    const profileError = unsupportedProfile(this.config.executionProfile ?? {}, await detectSandboxSupport());
+    if (profileError) {
+      logger.warn(`Local commands and terminals will fail: ${profileError}`);
+    }
 
     // Initialize credential manager
     const machineId = getMachineId();
     await this.credentialManager.initialize(this.config.apiKey, machineId);
     logger.info("Credential manager initialized");
 
+    // Load the command policy and SSH targets enforced before the first push of this session
+    this.commandPolicy.load();
+    this.sshTargets.load();
+
     // Verify API key and get assignment
     const verified = await this.verifyApiKey();
     if (!verified) {
@@ -90,6 +211,10 @@ export class Relay {
       convexUrl: this.config.convexUrl,
       apiKey: this.config.apiKey,
       relayId: this.assignment!.assignmentId,
+      commandPolicy: this.commandPolicy,
+      sshTargets: this.sshTargets,
+      hostKeys: this.hostKeys,
+      sshPool: this.sshPool ?? undefined,
     });
     if (this.config.sharedSecretKey) {
       this.syncManager.setSharedSecretKey(this.config.sharedSecretKey);
@@ -108,10 +233,10 @@ export class Relay {
       await this.startSubscriptionMode();
     } else {
       // Fall back to HTTP polling
-      this.pollInterval = setInterval(
-        () => this.pollForCommands(),
-        this.config.pollIntervalMs
-      );
+      this.pollInterval = setInterval(() => {
+        this.pollForCommands();
+        this.pollForSessions();
+      }, this.config.pollIntervalMs);
     }
 
     // Start heartbeat
@@ -129,6 +254,7 @@ export class Relay {
     // Initial poll (only if not using subscription mode)
     if (!this.config.convexDeploymentUrl) {
       await this.pollForCommands();
+      await this.pollForSessions();
     }
 
     logger.info("Relay started successfully", {
@@ -136,6 +262,7 @@ export class Relay {
       name: this.assignment?.name,
       capabilities: this.capabilities,
       mode: this.config.convexDeploymentUrl ? "subscription" : "polling",
+      maxConcurrency: this.config.maxConcurrency,
     });
   }
 
@@ -168,203 +295,37 @@ export class Relay {
       (commands: Command[]) => {
         if (!this.running) return;
 
-        if (commands && commands.length > 0) {
-          logger.debug(`Subscription received ${commands.length} pending command(s)`);
-
-          // Process commands that aren't already being processed
-          for (const cmd of commands) {
-            if (!this.processingCommands.has(cmd._id)) {
-              this.processingCommands.add(cmd._id);
-              this.processCommandViaConvex(cmd).finally(() => {
-                this.processingCommands.delete(cmd._id);
-              });
-            }
-          }
+        this.pendingCommands = commands ?? [];
+        if (this.pendingCommands.length > 0) {
+          logger.debug(`Subscription received ${this.pendingCommands.length} pending command(s)`);
         }
+        this.dispatchPendingCommands();
       }
     );
 
-    logger.info("Subscription mode started");
-  }
-
-  /**
-   * Process a command using direct Convex mutations (subscription mode)
-   */
-  private async processCommandViaConvex(cmd: Command): Promise<void> {
-    if (!this.convexClient || !this.assignment) return;
-
-    logger.info(`Processing command ${cmd._id} via Convex`, {
-      command: cmd.command.substring(0, 50),
-      targetType: cmd.targetType,
-    });
-
-    const publicModule = this.config.publicApiModule!;
-
-    // Claim the command via Convex mutation
-    const claimCommandRef = anyApi[publicModule].claimCommand;
-
-    try {
-      const claimResult = await this.convexClient.mutation(claimCommandRef, {
-        commandId: cmd._id,
-        assignmentId: this.assignment.assignmentId,
-      });
-
-      if (!claimResult.success) {
-        logger.warn(`Failed to claim command ${cmd._id}: ${claimResult.error}`);
-        return;
-      }
-    } catch (err) {
-      const error = err instanceof Error ? err.message : String(err);
-      logger.warn(`Failed to claim command ${cmd._id}`, { error });
-      return;
-    }
-
-    // Execute the command with streaming output
-    let result: ExecutionResult;
-    let accumulatedOutput = "";
-    let accumulatedStderr = "";
-    let lastUpdateTime = 0;
-    const updateIntervalMs = 500; // Send updates every 500ms
-
-    // Helper to send partial output updates
-    const sendPartialUpdate = async () => {
-      if (!this.convexClient) return;
-      const publicModule = this.config.publicApiModule!;
-      const updatePartialOutputRef = anyApi[publicModule].updatePartialOutput;
-      
-      try {
-        await this.convexClient.mutation(updatePartialOutputRef, {
-          commandId: cmd._id,
-          partialOutput: accumulatedOutput,
-          partialStderr: accumulatedStderr,
-        });
-      } catch (err) {
-        // Ignore update errors - non-critical
-        logger.debug("Failed to send partial output update", { error: err });
-      }
-    };
-
-    // Debounced output handler
-    const handleOutput = (chunk: string) => {
-      accumulatedOutput += chunk;
-      const now = Date.now();
-      if (now - lastUpdateTime >= updateIntervalMs) {
-        lastUpdateTime = now;
-        sendPartialUpdate();
-      }
-    };
-
-    const handleStderr = (chunk: string) => {
-      accumulatedStderr += chunk;
-      const now = Date.now();
-      if (now - lastUpdateTime >= updateIntervalMs) {
-        lastUpdateTime = now;
-        sendPartialUpdate();
-      }
-    };
-
-    if (cmd.targetType === "local") {
-      result = await executeLocal({
-        command: cmd.command,
-        timeoutMs: cmd.timeoutMs,
-        onOutput: handleOutput,
-        onStderr: handleStderr,
-      });
-    } else if (cmd.targetType === "ssh") {
-      if (!cmd.targetHost) {
-        result = {
-          success: false,
-          output: "",
-          stderr: "",
-          exitCode: -1,
-          error: "SSH target host missing",
-          durationMs: 0,
-        };
-      } else {
-        // Try to get credentials from local credential store
-        let privateKey = "";
-        let username = cmd.targetUsername || "root";
-
-        const storedCred = this.getCredentialForTarget(cmd.targetHost);
-        if (storedCred) {
-          privateKey = storedCred.privateKey;
-          username = storedCred.username;
-          logger.debug(`Using stored credential for ${cmd.targetHost}`);
-        } else {
-          // Fall back to reading from ~/.ssh/id_rsa
-          try {
-            const homeDir = process.env.HOME || process.env.USERPROFILE || "";
-            privateKey = await readFile(`${homeDir}/.ssh/id_rsa`, "utf-8");
-            logger.debug("Using default SSH key from ~/.ssh/id_rsa");
-          } catch {
-            result = {
-              success: false,
-              output: "",
-              stderr: "",
-              exitCode: -1,
-              error: `No credentials found for ${cmd.targetHost} and failed to read default SSH key`,
-              durationMs: 0,
-            };
-            await this.submitResultViaConvex(cmd._id, result);
-            return;
-          }
+    // Subscribe to cancel requests for commands this relay is running
+    this.cancelSubscriptionUnsubscribe = this.convexClient.onUpdate(
+      anyApi[publicModule].getCancelRequests,
+      { machineId },
+      (requests: { _id: string }[]) => {
+        if (!this.running || !requests) return;
+        for (const request of requests) {
+          this.cancelCommand(request._id);
         }
-
-        result = await executeSSH({
-          command: cmd.command,
-          host: cmd.targetHost,
-          port: cmd.targetPort ?? 22,
-          username,
-          privateKey,
-          timeoutMs: cmd.timeoutMs,
-          onOutput: handleOutput,
-          onStderr: handleStderr,
-        });
       }
-    } else {
-      result = {
-        success: false,
-        output: "",
-        stderr: "",
-        exitCode: -1,
-        error: `Unknown target type: ${cmd.targetType}`,
-        durationMs: 0,
-      };
-    }
-
-    // Submit result via Convex mutation
-    await this.submitResultViaConvex(cmd._id, result);
-
-    logger.info(`Command ${cmd._id} completed`, {
-      success: result.success,
-      exitCode: result.exitCode,
-      durationMs: result.durationMs,
-    });
-  }
-
-  /**
-   * Submit command result via Convex mutation (subscription mode)
-   */
-  private async submitResultViaConvex(commandId: string, result: ExecutionResult): Promise<void> {
-    if (!this.convexClient) return;
+    );
 
-    const publicModule = this.config.publicApiModule!;
-    const submitResultRef = anyApi[publicModule].submitResult;
+    // Subscribe to terminal sessions waiting for a relay
+    this.sessionSubscriptionUnsubscribe = this.convexClient.onUpdate(
+      anyApi[publicModule].getPendingSessions,
+      { machineId },
+      (sessions: PendingSession[]) => {
+        if (!this.running || !sessions) return;
+        this.openPendingSessions(sessions);
+      }
+    );
 
-    try {
-      await this.convexClient.mutation(submitResultRef, {
-        commandId,
-        success: result.success,
-        output: result.output,
-        stderr: result.stderr,
-        exitCode: result.exitCode,
-        error: result.error,
-        durationMs: result.durationMs,
-      });
-    } catch (err) {
-      const error = err instanceof Error ? err.message : String(err);
-      logger.error("Failed to submit result via Convex", { commandId, error });
-    }
+    logger.info("Subscription mode started");
   }
 
   /**
@@ -389,11 +350,36 @@ export class Relay {
       this.statusReportInterval = null;
     }
 
+    // Hang up terminal sessions - each reports its close if the center is still reachable
+    for (const session of this.sessions.values()) {
+      session.close("closed");
+    }
+
+    this.sshPool?.closeAll();
+
+    // Stop renewing leases - unfinished commands are reclaimed once they expire
+    for (const timer of this.leaseRenewals.values()) {
+      clearInterval(timer);
+    }
+    this.leaseRenewals.clear();
+
     // Clean up Convex subscription
     if (this.subscriptionUnsubscribe) {
       this.subscriptionUnsubscribe();
       this.subscriptionUnsubscribe = null;
     }
+    if (this.cancelSubscriptionUnsubscribe) {
+      this.cancelSubscriptionUnsubscribe();
+      this.cancelSubscriptionUnsubscribe = null;
+    }
+    if (this.sessionSubscriptionUnsubscribe) {
+      this.sessionSubscriptionUnsubscribe();
+      this.sessionSubscriptionUnsubscribe = null;
+    }
+    for (const unsubscribe of this.sessionInputUnsubscribes.values()) {
+      unsubscribe();
+    }
+    this.sessionInputUnsubscribes.clear();
 
     // Close Convex client
     if (this.convexClient) {
@@ -472,8 +458,15 @@ export class Relay {
   private async pollForCommands(): Promise<void> {
     if (!this.running || !this.assignment) return;
 
+    // Backpressure - only fetch as many commands as there are free slots
+    const freeSlots = this.scheduler.freeSlots();
+    if (freeSlots === 0) {
+      logger.debug("All execution slots busy, skipping poll");
+      return;
+    }
+
     try {
-      const response = await fetch(`${this.config.convexUrl}/relay/commands`, {
+      const response = await fetch(`${this.config.convexUrl}/relay/commands?limit=${freeSlots}`, {
         method: "GET",
         headers: {
           "X-API-Key": this.config.apiKey,
@@ -486,15 +479,12 @@ export class Relay {
       }
 
       const data = await response.json() as { commands: Command[] };
-      const commands = data.commands;
-
-      if (commands.length > 0) {
-        logger.debug(`Found ${commands.length} pending command(s)`);
+      this.pendingCommands = data.commands;
 
-        for (const cmd of commands) {
-          await this.processCommand(cmd);
-        }
+      if (this.pendingCommands.length > 0) {
+        logger.debug(`Found ${this.pendingCommands.length} pending command(s)`);
       }
+      this.dispatchPendingCommands();
     } catch (err) {
       const error = err instanceof Error ? err.message : String(err);
       logger.error("Error polling for commands", { error });
@@ -502,7 +492,34 @@ export class Relay {
   }
 
   /**
-   * Process a single command
+   * Start pending commands while execution slots are free.
+   * Commands that don't fit stay pending on the center and are picked up
+   * again when a running command finishes.
+   */
+  private dispatchPendingCommands(): void {
+    for (const cmd of this.pendingCommands) {
+      if (this.scheduler.freeSlots() === 0) break;
+
+      // Skip commands already running or whose SSH target is at capacity
+      if (!this.scheduler.tryAcquire(cmd)) continue;
+
+      this.processCommand(cmd)
+        .catch((err) => {
+          const error = err instanceof Error ? err.message : String(err);
+          logger.error(`Error processing command ${cmd._id}`, { error });
+        })
+        .finally(() => {
+          this.scheduler.release(cmd._id);
+          this.pendingCommands = this.pendingCommands.filter((c) => c._id !== cmd._id);
+          if (this.running) {
+            this.dispatchPendingCommands();
+          }
+        });
+    }
+  }
+
+  /**
+   * Claim, execute and report a single command
    */
   private async processCommand(cmd: Command): Promise<void> {
     logger.info(`Processing command ${cmd._id}`, {
@@ -510,71 +527,203 @@ export class Relay {
       targetType: cmd.targetType,
     });
 
-    // Claim the command
-    const claimed = await this.claimCommand(cmd._id);
-    if (!claimed) {
-      logger.warn(`Failed to claim command ${cmd._id}`);
-      return;
+    const attempt = await this.claimCommand(cmd._id);
+    if (attempt === null) return;
+
+    const running: RunningCommand = { attempt, controller: new AbortController(), leaseLost: false };
+    this.runningCommands.set(cmd._id, running);
+    this.startLeaseRenewal(cmd._id);
+    const startTime = Date.now();
+
+    // Stream output to the center while the command runs
+    const output = new CommandOutputStream({
+      commandId: cmd._id,
+      intervalMs: 500,
+      send: (chunks) => this.appendOutput(cmd._id, attempt, chunks),
+    });
+
+    try {
+      const result = await this.executeCommand(cmd, {
+        signal: running.controller.signal,
+        onOutput: (chunk) => output.write("stdout", chunk),
+        onStderr: (chunk) => output.write("stderr", chunk),
+      });
+
+      // The last chunks go out before the result; the center stores anything still missing from it
+      await output.close();
+
+      // Another claim owns the command now - its result must not overwrite theirs
+      if (running.leaseLost) {
+        logger.warn(`Dropping result of command ${cmd._id} after losing its lease`);
+        return;
+      }
+
+      // Output too large for the result document goes to file storage first
+      const submitted = await offloadLargeOutput(result, {
+        maxInlineBytes: this.config.maxInlineOutputBytes!,
+        upload: (data) => this.uploadOutput(cmd._id, data),
+      });
+      await this.submitResult(cmd._id, submitted);
+
+      logger.info(`Command ${cmd._id} completed`, {
+        success: result.success,
+        exitCode: result.exitCode,
+        durationMs: result.durationMs,
+      });
+    } catch (err) {
+      // Report the failure rather than leave the command to its deadline
+      const error = err instanceof Error ? err.message : String(err);
+      logger.error(`Command ${cmd._id} failed on the relay`, { error });
+      await output.close();
+      if (!running.leaseLost) {
+        await this.submitResult(cmd._id, {
+          success: false,
+          output: "",
+          stderr: "",
+          exitCode: -1,
+          error: `Relay error: ${error}`,
+          durationMs: Date.now() - startTime,
+        });
+      }
+    } finally {
+      this.stopLeaseRenewal(cmd._id);
+      this.runningCommands.delete(cmd._id);
     }
+  }
 
-    // Execute the command
-    let result: ExecutionResult;
+  /**
+   * Execute a claimed command locally or on its SSH target
+   */
+  private async executeCommand(
+    cmd: Command,
+    options: {
+      signal: AbortSignal;
+      onOutput: (data: string) => void;
+      onStderr: (data: string) => void;
+    }
+  ): Promise<ExecutionResult> {
+    const isFileTransfer = cmd.kind === "file_push" || cmd.kind === "file_pull";
+    if (isFileTransfer && !cmd.file) {
+      return {
+        success: false,
+        output: "",
+        stderr: "",
+        exitCode: -1,
+        error: "File transfer details missing",
+        durationMs: 0,
+      };
+    }
 
-    if (cmd.targetType === "local") {
-      result = await executeLocal({
-        command: cmd.command,
-        timeoutMs: cmd.timeoutMs,
-      });      } else if (cmd.targetType === "ssh") {
-      if (!cmd.targetHost) {
-        result = {
+    // Transfers use the normalized path, so "." and ".." can't walk around the policy
+    const file = isFileTransfer ? { ...cmd.file!, path: path.posix.normalize(cmd.file!.path) } : undefined;
+
+    // Enforce the pushed command policy before anything runs.
+    // File transfers are checked as "file_push <path>" / "file_pull <path>";
+    // neither they nor argv commands go through a shell.
+    const policyCommand = file ? `${cmd.kind} ${file.path}` : cmd.command;
+    let decision = this.commandPolicy.evaluate(policyCommand, cmd.targetType, !isFileTransfer && !cmd.argv);
+    if (decision.allowed && cmd.env) {
+      decision = this.commandPolicy.evaluateEnv(cmd.env);
+    }
+    if (!decision.allowed) {
+      logger.warn(`Command ${cmd._id} rejected by command policy`, { reason: decision.reason });
+      return {
+        success: false,
+        output: "",
+        stderr: "",
+        exitCode: -1,
+        error: `Command rejected by relay policy: ${decision.reason}`,
+        errorCode: POLICY_DENIED_ERROR_CODE,
+        durationMs: 0,
+      };
+    }
+
+    let stdin: string | Buffer | undefined = cmd.stdin;
+    if (cmd.stdinUrl !== undefined) {
+      try {
+        stdin = await this.downloadStdin(cmd.stdinUrl, options.signal);
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        return {
           success: false,
           output: "",
           stderr: "",
           exitCode: -1,
-          error: "SSH target host missing",
+          error: `Failed to download stdin: ${error}`,
           durationMs: 0,
         };
-      } else {
-        // Try to get credentials from local credential store
-        let privateKey = "";
-        let username = cmd.targetUsername || "root";
-
-        const storedCred = this.getCredentialForTarget(cmd.targetHost);
-        if (storedCred) {
-          privateKey = storedCred.privateKey;
-          username = storedCred.username;
-          logger.debug(`Using stored credential for ${cmd.targetHost}`);
-        } else {
-          // Fall back to reading from ~/.ssh/id_rsa
-          try {
-            const homeDir = process.env.HOME || process.env.USERPROFILE || "";
-            privateKey = await readFile(`${homeDir}/.ssh/id_rsa`, "utf-8");
-            logger.debug("Using default SSH key from ~/.ssh/id_rsa");
-          } catch {
-            result = {
-              success: false,
-              output: "",
-              stderr: "",
-              exitCode: -1,
-              error: `No credentials found for ${cmd.targetHost} and failed to read default SSH key`,
-              durationMs: 0,
-            };
-            await this.submitResult(cmd._id, result);
-            return;
-          }
-        }
+      }
+    }
 
-        result = await executeSSH({
-          command: cmd.command,
-          host: cmd.targetHost,
-          port: cmd.targetPort ?? 22,
-          username,
-          privateKey,
+    const transfer: FileTransferOptions | null = file
+      ? {
+          kind: cmd.kind as FileTransferKind,
+          file: { ...file, maxBytes: Math.min(file.maxBytes, this.config.maxFileBytes!) },
           timeoutMs: cmd.timeoutMs,
-        });
+          signal: options.signal,
+          uploadChunk: (data, signal) => this.uploadFileChunk(cmd._id, data, signal),
+        }
+      : null;
+
+    // The command may lower the relay's output cap, not raise it
+    const outputLimit: OutputLimit = {
+      maxBytes: Math.min(cmd.outputLimit?.maxBytes ?? Infinity, this.config.maxOutputBytes!),
+      keep: cmd.outputLimit?.keep ?? "head_tail",
+      onLimit: cmd.outputLimit?.onLimit ?? "truncate",
+    };
+
+    if (cmd.targetType === "local") {
+      // The command's profile can only tighten the relay's
+      const merged = mergeProfiles(this.config.executionProfile ?? {}, cmd.executionProfile);
+      if (!merged.ok) {
+        logger.warn(`Command ${cmd._id} rejected by execution profile`, { reason: merged.error });
+        return {
+          success: false,
+          output: "",
+          stderr: "",
+          exitCode: -1,
+          error: `Command rejected by relay: ${merged.error}`,
+          errorCode: PROFILE_REJECTED_ERROR_CODE,
+          durationMs: 0,
+        };
       }
-    } else {
-      result = {
+      const profile = merged.profile;
+      const profileError = transfer
+        ? await checkLocalTransfer(profile, transfer.file.path)
+        : unsupportedProfile(profile, await detectSandboxSupport());
+      if (profileError) {
+        return {
+          success: false,
+          output: "",
+          stderr: "",
+          exitCode: -1,
+          error: profileError,
+          errorCode: PROFILE_REJECTED_ERROR_CODE,
+          durationMs: 0,
+        };
+      }
+
+      if (transfer) {
+        return transferLocal(transfer);
+      }
+      outputLimit.maxBytes = Math.min(outputLimit.maxBytes, profile.maxOutputBytes ?? Infinity);
+      return executeLocal({
+        command: cmd.command,
+        argv: cmd.argv,
+        cwd: cmd.cwd,
+        env: cmd.env,
+        shell: cmd.shell,
+        stdin,
+        outputLimit,
+        timeoutMs: cmd.timeoutMs,
+        killGraceMs: this.config.killGraceMs,
+        profile,
+        ...options,
+      });
+    }
+
+    if (cmd.targetType !== "ssh") {
+      return {
         success: false,
         output: "",
         stderr: "",
@@ -584,66 +733,647 @@ export class Relay {
       };
     }
 
-    // Submit result
-    await this.submitResult(cmd._id, result);
+    const resolved = await this.resolveSshTarget(`Command ${cmd._id}`, cmd);
+    if (!resolved.ok) {
+      return {
+        success: false,
+        output: "",
+        stderr: "",
+        exitCode: -1,
+        error: resolved.error,
+        errorCode: resolved.errorCode,
+        durationMs: 0,
+      };
+    }
+
+    const sshTarget = { ...resolved.target, pool: this.sshPool ?? undefined };
+    if (transfer) {
+      return transferSFTP({ ...sshTarget, ...transfer });
+    }
+    return executeSSH({
+      ...sshTarget,
+      command: cmd.command,
+      argv: cmd.argv,
+      cwd: cmd.cwd,
+      env: cmd.env,
+      shell: cmd.shell,
+      stdin,
+      outputLimit,
+      timeoutMs: cmd.timeoutMs,
+      ...options,
+    });
+  }
 
-    logger.info(`Command ${cmd._id} completed`, {
-      success: result.success,
-      exitCode: result.exitCode,
-      durationMs: result.durationMs,
+  /**
+   * Work out how to reach a command's or session's SSH target and its jump hosts.
+   * Only registered SSH targets may be used once a registry was pushed.
+   */
+  private async resolveSshTarget(
+    label: string,
+    spec: Pick<Command, "targetHost" | "targetPort" | "targetUsername" | "jumpHosts">
+  ): Promise<{ ok: true; target: SSHTargetOptions } | { ok: false; error: string; errorCode?: string }> {
+    if (!spec.targetHost) {
+      return { ok: false, error: "SSH target host missing" };
+    }
+
+    const port = spec.targetPort ?? 22;
+    const targetCheck = this.sshTargets.check(spec.targetHost, port);
+    if (!targetCheck.allowed) {
+      logger.warn(`${label} rejected by SSH target registry`, { reason: targetCheck.reason });
+      return {
+        ok: false,
+        error: `SSH target rejected by relay: ${targetCheck.reason}`,
+        errorCode: SSH_TARGET_DENIED_ERROR_CODE,
+      };
+    }
+    const target = targetCheck.target;
+
+    // Jump hosts named by the command or session must be registered targets themselves
+    const jumpHosts = spec.jumpHosts ?? target?.jumpHosts ?? [];
+    const hops: SSHConnectionOptions[] = [];
+    for (const jump of jumpHosts) {
+      const jumpPort = jump.port ?? 22;
+      const jumpCheck = this.sshTargets.check(jump.host, jumpPort);
+      if (spec.jumpHosts && !jumpCheck.allowed) {
+        logger.warn(`${label} rejected by SSH target registry`, { reason: jumpCheck.reason });
+        return {
+          ok: false,
+          error: `SSH jump host rejected by relay: ${jumpCheck.reason}`,
+          errorCode: SSH_TARGET_DENIED_ERROR_CODE,
+        };
+      }
+      const hop = await this.resolveSshConnection(
+        jump.host,
+        jumpPort,
+        jump.username || jumpCheck.target?.username,
+        jump.credentialName ?? jumpCheck.target?.credentialName,
+        jumpCheck.target?.hostKeyFingerprint
+      );
+      if (!hop.ok) {
+        return { ok: false, error: `Jump host ${jump.host}:${jumpPort}: ${hop.error}` };
+      }
+      hops.push(hop.connection);
+    }
+
+    const resolved = await this.resolveSshConnection(
+      spec.targetHost,
+      port,
+      spec.targetUsername || target?.username,
+      target?.credentialName,
+      target?.hostKeyFingerprint
+    );
+    if (!resolved.ok) {
+      return resolved;
+    }
+
+    return {
+      ok: true,
+      target: {
+        ...resolved.connection,
+        jumpHosts: hops,
+        agentForward: target?.forwardAgent ?? resolved.forwardAgent,
+      },
+    };
+  }
+
+  /**
+   * Work out how to connect to an SSH host: a stored credential (by name or
+   * matched by host) plus the ssh-agent, or else the ssh-agent and the key
+   * files an ssh client would use
+   */
+  private async resolveSshConnection(
+    host: string,
+    port: number,
+    username: string | undefined,
+    credentialName: string | undefined,
+    hostKeyFingerprint: string | undefined
+  ): Promise<
+    { ok: true; connection: SSHConnectionOptions; forwardAgent: boolean } | { ok: false; error: string }
+  > {
+    const verifyHostKey = (key: Buffer) => this.hostKeys.verify(host, port, key, hostKeyFingerprint);
+
+    const storedCred = this.getCredentialForTarget(host, credentialName);
+    if (!storedCred && credentialName) {
+      return { ok: false, error: `Credential ${credentialName} registered for ${host} not found` };
+    }
+    if (storedCred) {
+      logger.debug(`Using stored credential for ${host}`, {
+        method: storedCred.privateKey ? "publickey" : "password",
+      });
+      return {
+        ok: true,
+        connection: {
+          host,
+          port,
+          // The command's username wins - the credential's only fills in a missing one
+          username: username || storedCred.username || "root",
+          privateKey: storedCred.privateKey,
+          passphrase: storedCred.passphrase,
+          password: storedCred.password,
+          keyboardInteractive: storedCred.keyboardInteractive,
+          agent: process.env.SSH_AUTH_SOCK || undefined,
+          verifyHostKey,
+        },
+        forwardAgent: false,
+      };
+    }
+
+    const defaults = await loadDefaultSshAuth(host);
+    if (!defaults.agent && defaults.identityFiles.length === 0) {
+      return {
+        ok: false,
+        error: `No credentials found for ${host}: no stored credential, ssh-agent or default SSH key`,
+      };
+    }
+    logger.debug(`Using default SSH authentication for ${host}`, {
+      agent: defaults.agent !== undefined,
+      identityFiles: defaults.identityFiles.map((f) => f.path),
     });
+    return {
+      ok: true,
+      connection: {
+        host,
+        port,
+        username: username || defaults.username || "root",
+        agent: defaults.agent,
+        identityFiles: defaults.identityFiles,
+        verifyHostKey,
+      },
+      forwardAgent: defaults.forwardAgent,
+    };
   }
 
   /**
-   * Claim a command for execution
+   * Claim a command for execution (Convex mutation or HTTP, depending on mode).
+   * Returns the claim attempt, or null if the command could not be claimed.
    */
-  private async claimCommand(commandId: string): Promise<boolean> {
+  private async claimCommand(commandId: string): Promise<number | null> {
     try {
-      const response = await fetch(`${this.config.convexUrl}/relay/commands/claim`, {
+      let result: { success: boolean; attempt?: number; error?: string };
+
+      if (this.convexClient && this.assignment) {
+        const publicModule = this.config.publicApiModule!;
+        result = await this.convexClient.mutation(anyApi[publicModule].claimCommand, {
+          commandId,
+          assignmentId: this.assignment.assignmentId,
+          leaseDurationMs: this.config.leaseDurationMs,
+        });
+      } else {
+        const response = await fetch(`${this.config.convexUrl}/relay/commands/claim`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-API-Key": this.config.apiKey,
+          },
+          body: JSON.stringify({ commandId, leaseDurationMs: this.config.leaseDurationMs }),
+        });
+        result = await response.json() as { success: boolean; attempt?: number; error?: string };
+      }
+
+      if (!result.success) {
+        logger.warn(`Failed to claim command ${commandId}`, { error: result.error });
+        return null;
+      }
+      return result.attempt!;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      logger.error("Failed to claim command", { commandId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Send output chunks of a running command (Convex mutation or HTTP, depending on mode)
+   */
+  private async appendOutput(commandId: string, attempt: number, chunks: OutputChunk[]): Promise<OutputAppendResult> {
+    if (this.convexClient && this.assignment) {
+      const publicModule = this.config.publicApiModule!;
+      return await this.convexClient.mutation(anyApi[publicModule].appendOutput, {
+        commandId,
+        assignmentId: this.assignment.assignmentId,
+        attempt,
+        chunks,
+      });
+    }
+
+    const response = await fetch(`${this.config.convexUrl}/relay/commands/output`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-API-Key": this.config.apiKey,
+      },
+      body: JSON.stringify({ commandId, attempt, chunks }),
+    });
+    // Errors other than a refusal leave the chunks to be resent
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json() as OutputAppendResult;
+  }
+
+  /**
+   * Upload one chunk of a file_pull to the center's file storage, returning its storageId
+   */
+  private async uploadFileChunk(commandId: string, data: Buffer, signal: AbortSignal): Promise<string> {
+    return this.uploadToStorage(commandId, data, {
+      label: "File chunk",
+      mutation: "generateFileUploadUrl",
+      path: "/relay/files/upload-url",
+      signal,
+    });
+  }
+
+  /**
+   * Upload output too large to submit inline to the center's file storage, returning its storageId
+   */
+  private async uploadOutput(commandId: string, data: Buffer): Promise<string> {
+    return this.uploadToStorage(commandId, data, {
+      label: "Output",
+      mutation: "generateOutputUploadUrl",
+      path: "/relay/commands/output-upload-url",
+    });
+  }
+
+  /**
+   * Get an upload URL for a claimed command (Convex mutation or HTTP, depending on mode)
+   * and store data under it
+   */
+  private async uploadToStorage(
+    commandId: string,
+    data: Buffer,
+    options: { label: string; mutation: string; path: string; signal?: AbortSignal }
+  ): Promise<string> {
+    const attempt = this.runningCommands.get(commandId)!.attempt;
+    let result: { success: true; uploadUrl: string } | { success: false; error: string };
+
+    if (this.convexClient && this.assignment) {
+      const publicModule = this.config.publicApiModule!;
+      result = await this.convexClient.mutation(anyApi[publicModule][options.mutation], {
+        commandId,
+        assignmentId: this.assignment.assignmentId,
+        attempt,
+      });
+    } else {
+      const response = await fetch(`${this.config.convexUrl}${options.path}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
           "X-API-Key": this.config.apiKey,
         },
-        body: JSON.stringify({ commandId }),
+        body: JSON.stringify({ commandId, attempt }),
+        signal: options.signal,
       });
+      result = await response.json() as typeof result;
+    }
 
-      const result = await response.json() as { success: boolean };
-      return result.success;
+    if (!result.success) {
+      throw new Error(`${options.label} upload refused: ${result.error}`);
+    }
+
+    const upload = await fetch(result.uploadUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: new Uint8Array(data),
+      signal: options.signal,
+    });
+    if (!upload.ok) {
+      throw new Error(`${options.label} upload failed: HTTP ${upload.status}`);
+    }
+    const { storageId } = await upload.json() as { storageId: string };
+    return storageId;
+  }
+
+  /**
+   * Download a command's stored stdin from the center's file storage
+   */
+  private async downloadStdin(url: string, signal: AbortSignal): Promise<Buffer> {
+    if (!url) {
+      throw new Error("stdin is no longer in file storage");
+    }
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Submit command execution result (Convex mutation or HTTP, depending on mode)
+   */
+  private async submitResult(commandId: string, result: ExecutionResult): Promise<void> {
+    this.stopLeaseRenewal(commandId);
+    const running = this.runningCommands.get(commandId)!;
+
+    const payload = {
+      commandId,
+      assignmentId: this.assignment?.assignmentId,
+      attempt: running.attempt,
+      success: result.success,
+      output: result.output,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      error: result.error,
+      durationMs: result.durationMs,
+      timedOut: result.timedOut,
+      signal: result.signal,
+      errorCode: result.errorCode,
+      authMethod: result.authMethod,
+      file: result.file,
+      outputFile: result.outputFile,
+      stderrFile: result.stderrFile,
+      outputBytes: result.outputBytes,
+      stderrBytes: result.stderrBytes,
+      outputTruncated: result.outputTruncated,
+      stderrTruncated: result.stderrTruncated,
+    };
+
+    try {
+      if (this.convexClient) {
+        const publicModule = this.config.publicApiModule!;
+        await this.convexClient.mutation(anyApi[publicModule].submitResult, payload);
+      } else {
+        await fetch(`${this.config.convexUrl}/relay/commands/result`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-API-Key": this.config.apiKey,
+          },
+          body: JSON.stringify(payload),
+        });
+      }
     } catch (err) {
       const error = err instanceof Error ? err.message : String(err);
-      logger.error("Failed to claim command", { commandId, error });
-      return false;
+      logger.error("Failed to submit result", { commandId, error });
     }
   }
 
   /**
-   * Submit command execution result
+   * Keep renewing the lease on a claimed command until its result is submitted
    */
-  private async submitResult(commandId: string, result: ExecutionResult): Promise<void> {
+  private startLeaseRenewal(commandId: string): void {
+    // Renew well before expiry so a single failed renewal doesn't lose the lease
+    const renewIntervalMs = Math.max(1000, Math.floor(this.config.leaseDurationMs! / 3));
+    const timer = setInterval(() => this.renewLease(commandId), renewIntervalMs);
+    this.leaseRenewals.set(commandId, timer);
+  }
+
+  /**
+   * Stop renewing the lease on a command
+   */
+  private stopLeaseRenewal(commandId: string): void {
+    const timer = this.leaseRenewals.get(commandId);
+    if (timer) {
+      clearInterval(timer);
+      this.leaseRenewals.delete(commandId);
+    }
+  }
+
+  /**
+   * Renew the lease on a claimed command (Convex mutation or HTTP, depending on mode)
+   */
+  private async renewLease(commandId: string): Promise<void> {
+    const running = this.runningCommands.get(commandId);
+    if (!running) return;
+
     try {
-      await fetch(`${this.config.convexUrl}/relay/commands/result`, {
-        method: "POST",
+      let result: { success: boolean; error?: string; cancelRequested?: boolean };
+
+      if (this.convexClient && this.assignment) {
+        const publicModule = this.config.publicApiModule!;
+        result = await this.convexClient.mutation(anyApi[publicModule].renewLease, {
+          commandId,
+          assignmentId: this.assignment.assignmentId,
+          attempt: running.attempt,
+          leaseDurationMs: this.config.leaseDurationMs,
+        });
+      } else {
+        const response = await fetch(`${this.config.convexUrl}/relay/commands/lease`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-API-Key": this.config.apiKey,
+          },
+          body: JSON.stringify({ commandId, attempt: running.attempt, leaseDurationMs: this.config.leaseDurationMs }),
+        });
+        result = await response.json() as { success: boolean; error?: string; cancelRequested?: boolean };
+      }
+
+      if (!result.success) {
+        // The command may already run elsewhere - stop it and drop its result
+        logger.warn(`Lost lease on command ${commandId}`, { error: result.error });
+        this.stopLeaseRenewal(commandId);
+        running.leaseLost = true;
+        running.controller.abort();
+      } else if (result.cancelRequested) {
+        this.cancelCommand(commandId);
+      }
+    } catch (err) {
+      // Transient failure - the next renewal may still succeed before expiry
+      const error = err instanceof Error ? err.message : String(err);
+      logger.warn("Failed to renew command lease", { commandId, error });
+    }
+  }
+
+  /**
+   * Stop a running command after the center requested its cancellation
+   */
+  private cancelCommand(commandId: string): void {
+    const controller = this.runningCommands.get(commandId)?.controller;
+    if (!controller || controller.signal.aborted) return;
+    logger.info(`Cancelling command ${commandId}`);
+    controller.abort();
+  }
+
+  /**
+   * Poll for terminal sessions waiting for a relay
+   */
+  private async pollForSessions(): Promise<void> {
+    if (!this.running || !this.assignment) return;
+    if (this.sessions.size >= this.config.maxSessions!) return;
+
+    try {
+      const response = await fetch(`${this.config.convexUrl}/relay/sessions`, {
+        method: "GET",
         headers: {
-          "Content-Type": "application/json",
           "X-API-Key": this.config.apiKey,
         },
-        body: JSON.stringify({
-          commandId,
-          success: result.success,
-          output: result.output,
-          stderr: result.stderr,
-          exitCode: result.exitCode,
-          error: result.error,
-          durationMs: result.durationMs,
-        }),
       });
+
+      if (!response.ok) {
+        logger.warn("Failed to fetch sessions", { status: response.status });
+        return;
+      }
+
+      const data = await response.json() as { sessions: PendingSession[] };
+      this.openPendingSessions(data.sessions);
     } catch (err) {
       const error = err instanceof Error ? err.message : String(err);
-      logger.error("Failed to submit result", { commandId, error });
+      logger.error("Error polling for sessions", { error });
     }
   }
 
+  /**
+   * Open pending terminal sessions while under the session limit
+   */
+  private openPendingSessions(pending: PendingSession[]): void {
+    for (const info of pending) {
+      if (this.sessions.has(info._id)) continue;
+      if (this.sessions.size >= this.config.maxSessions!) {
+        logger.debug("Session limit reached, leaving sessions pending");
+        break;
+      }
+
+      const session = new TerminalSession({
+        sessionId: info._id,
+        idleTimeoutMs: info.idleTimeoutMs,
+        syncIntervalMs: this.config.sessionSyncIntervalMs!,
+        pollInput: !this.convexClient,
+        transport: this.sessionTransport(info._id),
+      });
+      this.sessions.set(info._id, session);
+
+      this.runSession(info, session)
+        .catch((err) => {
+          const error = err instanceof Error ? err.message : String(err);
+          logger.error(`Error running session ${info._id}`, { error });
+        })
+        .finally(() => {
+          this.sessions.delete(info._id);
+          this.sessionInputUnsubscribes.get(info._id)?.();
+          this.sessionInputUnsubscribes.delete(info._id);
+        });
+    }
+  }
+
+  /**
+   * Claim a terminal session, open its terminal and relay it until it closes
+   */
+  private async runSession(info: PendingSession, session: TerminalSession): Promise<void> {
+    const claimed = await this.claimSession(info._id);
+    if (!claimed) return;
+
+    logger.info(`Opening session ${info._id}`, {
+      targetType: info.targetType,
+      targetHost: info.targetHost,
+    });
+
+    // Sessions are checked against the command policy as "session" or "session <command>"
+    const policyCommand = info.command ? `session ${info.command}` : "session";
+    const decision = this.commandPolicy.evaluate(policyCommand, info.targetType);
+    if (!decision.allowed) {
+      logger.warn(`Session ${info._id} rejected by command policy`, { reason: decision.reason });
+      await session.fail(`Session rejected by relay policy: ${decision.reason}`, POLICY_DENIED_ERROR_CODE);
+      return;
+    }
+
+    if (this.convexClient) {
+      const publicModule = this.config.publicApiModule!;
+      this.sessionInputUnsubscribes.set(
+        info._id,
+        this.convexClient.onUpdate(
+          anyApi[publicModule].getSessionInput,
+          { sessionId: info._id },
+          (input: { events: SessionInputEvent[]; closeRequested: boolean }) => {
+            if (input) session.receiveInput(input.events, input.closeRequested);
+          }
+        )
+      );
+    }
+
+    const ptyOptions = {
+      command: info.command,
+      cols: info.cols,
+      rows: info.rows,
+      onData: session.handleData,
+      onExit: session.handleExit,
+    };
+
+    if (info.targetType === "local") {
+      // Local terminals run under the relay's execution profile
+      const profile = this.config.executionProfile ?? {};
+      const profileError = unsupportedProfile(profile, await detectSandboxSupport());
+      if (profileError) {
+        await session.fail(profileError, PROFILE_REJECTED_ERROR_CODE);
+        return;
+      }
+      await session.attach(await spawnLocalPty({ ...ptyOptions, profile }));
+      return;
+    }
+
+    const resolved = await this.resolveSshTarget(`Session ${info._id}`, info);
+    if (!resolved.ok) {
+      await session.fail(resolved.error, resolved.errorCode);
+      return;
+    }
+
+    const opened = await openSSHPty({ ...resolved.target, ...ptyOptions, pool: this.sshPool ?? undefined });
+    if (!opened.ok) {
+      await session.fail(opened.error, opened.errorCode);
+      return;
+    }
+    await session.attach(opened.pty, opened.authMethod);
+  }
+
+  /**
+   * Claim a terminal session (Convex mutation or HTTP, depending on mode)
+   */
+  private async claimSession(sessionId: string): Promise<boolean> {
+    try {
+      const result = await this.sessionRequest<{ success: boolean; error?: string }>(
+        "claimSession",
+        "/relay/sessions/claim",
+        { sessionId }
+      );
+      if (!result.success) {
+        logger.warn(`Failed to claim session ${sessionId}`, { error: result.error });
+      }
+      return result.success;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      logger.error("Failed to claim session", { sessionId, error });
+      return false;
+    }
+  }
+
+  /**
+   * How a session exchanges output, input and its close with the center
+   */
+  private sessionTransport(sessionId: string): SessionTransport {
+    return {
+      sync: (update) =>
+        this.sessionRequest<SessionSyncResult>("syncSession", "/relay/sessions/sync", { sessionId, ...update }),
+      reportClosed: async (report: SessionCloseReport) => {
+        await this.sessionRequest("reportSessionClosed", "/relay/sessions/closed", { sessionId, ...report });
+      },
+    };
+  }
+
+  /**
+   * Call a session mutation (Convex mutation or HTTP, depending on mode)
+   */
+  private async sessionRequest<T>(mutation: string, path: string, body: Record<string, unknown>): Promise<T> {
+    if (this.convexClient && this.assignment) {
+      const publicModule = this.config.publicApiModule!;
+      return await this.convexClient.mutation(anyApi[publicModule][mutation], {
+        ...body,
+        assignmentId: this.assignment.assignmentId,
+      });
+    }
+
+    const response = await fetch(`${this.config.convexUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-API-Key": this.config.apiKey,
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json() as T;
+  }
+
   /**
    * Send heartbeat to Convex
    */
@@ -694,6 +1424,9 @@ export class Relay {
           hostname: capInfo.hostname,
           platform: capInfo.platform,
           credentials,
+          commandPolicyVersion: this.commandPolicy.getVersion() ?? undefined,
+          sshTargets: this.sshTargets.list() ?? undefined,
+          hostKeys: this.hostKeys.list(),
         }),
       });
 
@@ -723,21 +1456,12 @@ export class Relay {
   }
 
   /**
-   * Get credential for SSH target
+   * Get credential for SSH target, preferring the credential its registry entry names
    */
-  private getCredentialForTarget(targetHost: string): { username: string; privateKey: string } | null {
-    // First try to find credential by target host
-    const cred = this.credentialManager.getForTarget(targetHost);
-    if (cred && cred.type === "ssh_key") {
-      // Parse the value which should contain username and key
-      try {
-        const parsed = JSON.parse(cred.value) as { username: string; privateKey: string };
-        return parsed;
-      } catch {
-        // If not JSON, assume it's just the private key
-        return { username: "root", privateKey: cred.value };
-      }
-    }
-    return null;
+  private getCredentialForTarget(targetHost: string, credentialName?: string): SshCredential | null {
+    const cred = credentialName
+      ? this.credentialManager.get(credentialName)
+      : this.credentialManager.getForTarget(targetHost);
+    return cred ? parseSshCredential(cred) : null;
   }
 }
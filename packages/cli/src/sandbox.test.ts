@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { checkLocalTransfer, mergeProfiles, prepareSandbox, unsupportedProfile } from "./sandbox.js";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("mergeProfiles", () => {
+  it("lets commands fill in what the relay leaves open and lower limits", () => {
+    const merged = mergeProfiles(
+      { baseDir: "/srv/apps", cpuSeconds: 60, openFiles: 256 },
+      { baseDir: "app-1", cpuSeconds: 10, openFiles: 1024, memoryBytes: 1 << 28, isolation: "unshare" }
+    );
+
+    expect(merged).toEqual({
+      ok: true,
+      profile: expect.objectContaining({
+        baseDir: "/srv/apps/app-1",
+        cpuSeconds: 10,
+        openFiles: 256,
+        memoryBytes: 1 << 28,
+        isolation: "unshare",
+      }),
+    });
+  });
+
+  it("refuses commands that change the relay's user or isolation or leave its base directory", () => {
+    expect(mergeProfiles({ user: "app" }, { user: "root" })).toMatchObject({ ok: false });
+    expect(mergeProfiles({ isolation: "unshare" }, { isolation: "none" })).toMatchObject({ ok: false });
+    expect(mergeProfiles({ baseDir: "/srv/apps" }, { baseDir: "../etc" })).toEqual({
+      ok: false,
+      error: "Base directory ../etc is outside the relay's base directory /srv/apps",
+    });
+  });
+
+  it("keeps scrubbing on and only keeps variables the relay keeps", () => {
+    const merged = mergeProfiles({ scrubEnv: true, keepEnv: ["LANG"] }, { scrubEnv: false, keepEnv: ["LANG", "AWS_SECRET"] });
+
+    expect(merged).toMatchObject({ ok: true, profile: { scrubEnv: true, keepEnv: ["LANG"] } });
+  });
+});
+
+describe("prepareSandbox", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "relay-sandbox-")));
+    fs.mkdirSync(path.join(dir, "work"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("starts commands in the base directory and keeps cwd inside it", async () => {
+    const inBaseDir = await prepareSandbox({ command: "pwd", cwd: "work" }, { baseDir: dir });
+    expect(inBaseDir).toMatchObject({ ok: true, spawn: { cwd: path.join(dir, "work") } });
+
+    const escaped = await prepareSandbox({ command: "pwd", cwd: "/tmp" }, { baseDir: dir });
+    expect(escaped).toEqual({ ok: false, error: "Working directory is outside the base directory: /tmp" });
+
+    // A symlink out of the base directory doesn't count as inside it
+    fs.symlinkSync(os.tmpdir(), path.join(dir, "out"));
+    const linked = await prepareSandbox({ command: "pwd", cwd: "out" }, { baseDir: dir });
+    expect(linked).toMatchObject({ ok: false });
+  });
+
+  it("scrubs the environment down to PATH, kept variables and the command's own", async () => {
+    process.env.RELAY_SANDBOX_TEST = "secret";
+    try {
+      const result = await prepareSandbox(
+        { command: "env", env: { APP_MODE: "test" } },
+        { scrubEnv: true, keepEnv: ["HOME"] }
+      );
+
+      expect(result.ok && result.spawn.env).toEqual({
+        PATH: expect.any(String),
+        HOME: process.env.HOME,
+        APP_MODE: "test",
+      });
+    } finally {
+      delete process.env.RELAY_SANDBOX_TEST;
+    }
+  });
+
+  it("wraps the command in its limits and isolation", async () => {
+    const result = await prepareSandbox({ command: "echo hi" }, { cpuSeconds: 5, openFiles: 64, isolation: "unshare" });
+
+    expect(result.ok && result.spawn.program).toBe("unshare");
+    expect(result.ok && result.spawn.args).toEqual(
+      expect.arrayContaining(["--pid", "/bin/sh", "ulimit -t 5 && ulimit -n 64 && exec \"$@\"", "sh", "-c", "echo hi"])
+    );
+  });
+
+  it("rejects unknown users", async () => {
+    const result = await prepareSandbox({ command: "id" }, { user: "no-such-user-here" });
+
+    expect(result).toEqual({ ok: false, error: "Unknown user: no-such-user-here" });
+  });
+
+  it("keeps local file transfers inside the base directory", async () => {
+    expect(await checkLocalTransfer({ baseDir: dir }, "work/upload.bin")).toBeNull();
+    expect(await checkLocalTransfer({ baseDir: dir }, "/etc/passwd")).toBe("File is outside the base directory: /etc/passwd");
+    expect(await checkLocalTransfer({ user: "nobody" }, path.join(dir, "file"))).toMatch(/another user/);
+  });
+});
+
+describe("unsupportedProfile", () => {
+  it("reports isolation the machine can't provide", () => {
+    const support = { runAsUser: false, rlimits: true, unshare: false, systemdRun: false };
+
+    expect(unsupportedProfile({ isolation: "unshare" }, support)).toBe("unshare isolation is not available on this relay");
+    expect(unsupportedProfile({ isolation: "none", cpuSeconds: 1 }, support)).toBeNull();
+  });
+});
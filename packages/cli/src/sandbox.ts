@@ -0,0 +1,324 @@
+import { execFile } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { realpath, stat } from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { logger } from "./logger.js";
+import type { CommandInvocation } from "./executor.js";
+
+// Error code reported with results of local commands their execution profile rejected
+export const PROFILE_REJECTED_ERROR_CODE = "profile_rejected";
+
+// How a local command is isolated from the rest of the machine
+export type Isolation = "none" | "unshare" | "systemd-run";
+
+/**
+ * How local commands run: as whom, where, with which environment and within
+ * which limits. The relay has a default profile; a command's own profile can
+ * only add to it or tighten it.
+ */
+export interface ExecutionProfile {
+  user?: string; // Run as this user, by name or uid - needs the relay to run as root
+  group?: string; // Run with this group, by name or gid (default: the user's primary group)
+  baseDir?: string; // Directory commands start in; cwd must stay inside it, but other paths stay reachable
+  scrubEnv?: boolean; // Start from a minimal environment instead of the relay's
+  keepEnv?: string[]; // Relay environment variables kept when scrubbing
+  cpuSeconds?: number; // CPU time limit (RLIMIT_CPU)
+  memoryBytes?: number; // Address space limit (RLIMIT_AS), and the scope's memory cap under systemd-run
+  openFiles?: number; // Open file limit (RLIMIT_NOFILE)
+  maxOutputBytes?: number; // Most stdout / stderr kept per stream
+  isolation?: Isolation; // Run in new namespaces (unshare) or a transient systemd scope
+}
+
+// Which parts of a profile this machine can enforce
+export interface SandboxSupport {
+  runAsUser: boolean; // The relay runs as root and can switch users
+  rlimits: boolean;
+  unshare: boolean;
+  systemdRun: boolean;
+}
+
+// How to start a command once its profile is applied
+export interface SandboxedSpawn {
+  program: string;
+  args: string[];
+  cwd?: string;
+  env?: NodeJS.ProcessEnv; // Unset inherits the relay's environment
+  uid?: number;
+  gid?: number;
+}
+
+// PATH of commands that run with a scrubbed environment
+const SCRUBBED_PATH = "/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin";
+
+// Namespaces a command gets under unshare: its own PIDs (and /proc), mounts, IPC and hostname
+const UNSHARE_ARGS = ["--pid", "--mount-proc", "--mount", "--ipc", "--uts", "--fork", "--kill-child"];
+
+// How long probing for unshare or systemd-run may take
+const PROBE_TIMEOUT_MS = 5000;
+
+export type ProfileMerge = { ok: true; profile: ExecutionProfile } | { ok: false; error: string };
+
+/**
+ * A command's profile applied on top of the relay's. The command may set what the
+ * relay leaves open and lower limits, but not change the user, group or isolation
+ * the relay sets, nor leave the relay's base directory.
+ */
+export function mergeProfiles(relay: ExecutionProfile, command: ExecutionProfile | undefined): ProfileMerge {
+  if (!command) return { ok: true, profile: relay };
+
+  for (const field of ["user", "group"] as const) {
+    if (relay[field] !== undefined && command[field] !== undefined && command[field] !== relay[field]) {
+      return { ok: false, error: `Command asks to run with ${field} ${command[field]} - the relay runs commands with ${relay[field]}` };
+    }
+  }
+  const relayIsolation = relay.isolation === "none" ? undefined : relay.isolation;
+  if (relayIsolation && command.isolation !== undefined && command.isolation !== relayIsolation) {
+    return { ok: false, error: `Command asks for isolation ${command.isolation} - the relay runs commands under ${relayIsolation}` };
+  }
+
+  let baseDir = relay.baseDir ?? command.baseDir;
+  if (relay.baseDir && command.baseDir) {
+    baseDir = path.resolve(relay.baseDir, command.baseDir);
+    if (!isWithin(path.resolve(relay.baseDir), baseDir)) {
+      return { ok: false, error: `Base directory ${command.baseDir} is outside the relay's base directory ${relay.baseDir}` };
+    }
+  }
+
+  // Scrubbing stays on once the relay asks for it, and the command can't bring back what it drops
+  const keepEnv = relay.scrubEnv
+    ? (command.keepEnv?.filter((name) => relay.keepEnv?.includes(name)) ?? relay.keepEnv)
+    : command.keepEnv;
+
+  return {
+    ok: true,
+    profile: {
+      user: relay.user ?? command.user,
+      group: relay.group ?? command.group,
+      baseDir,
+      scrubEnv: relay.scrubEnv || command.scrubEnv || undefined,
+      keepEnv,
+      cpuSeconds: lowest(relay.cpuSeconds, command.cpuSeconds),
+      memoryBytes: lowest(relay.memoryBytes, command.memoryBytes),
+      openFiles: lowest(relay.openFiles, command.openFiles),
+      maxOutputBytes: lowest(relay.maxOutputBytes, command.maxOutputBytes),
+      isolation: relayIsolation ?? command.isolation,
+    },
+  };
+}
+
+function lowest(a: number | undefined, b: number | undefined): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.min(a, b);
+}
+
+function isWithin(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * Why a profile can't be enforced on this machine, or null if it can
+ */
+export function unsupportedProfile(profile: ExecutionProfile, support: SandboxSupport): string | null {
+  if (profile.isolation === "unshare" && !support.unshare) {
+    return "unshare isolation is not available on this relay";
+  }
+  if (profile.isolation === "systemd-run" && !support.systemdRun) {
+    return "systemd-run isolation is not available on this relay";
+  }
+  const limited = profile.cpuSeconds ?? profile.memoryBytes ?? profile.openFiles;
+  if (limited !== undefined && !support.rlimits) {
+    return "Resource limits are not available on this relay";
+  }
+  return null;
+}
+
+interface Account {
+  name: string;
+  uid: number;
+  gid: number;
+  home?: string;
+}
+
+/**
+ * Entry for a user or group by name or id from /etc/passwd or /etc/group
+ */
+function lookupEntry(file: string, nameOrId: string): string[] | null {
+  let lines: string[];
+  try {
+    lines = readFileSync(file, "utf8").split("\n");
+  } catch {
+    return null;
+  }
+  for (const line of lines) {
+    const fields = line.split(":");
+    if (fields.length >= 3 && (fields[0] === nameOrId || fields[2] === nameOrId)) {
+      return fields;
+    }
+  }
+  return null;
+}
+
+function lookupUser(user: string): Account | null {
+  const entry = lookupEntry("/etc/passwd", user);
+  if (entry) {
+    return { name: entry[0], uid: Number(entry[2]), gid: Number(entry[3]), home: entry[5] || undefined };
+  }
+  // A uid without an account runs with the group of the same id
+  return /^\d+$/.test(user) ? { name: user, uid: Number(user), gid: Number(user) } : null;
+}
+
+function lookupGroup(group: string): number | null {
+  const entry = lookupEntry("/etc/group", group);
+  if (entry) return Number(entry[2]);
+  return /^\d+$/.test(group) ? Number(group) : null;
+}
+
+/**
+ * Work out how to start a command under a profile: the program wrapped in
+ * rlimits and isolation, its working directory, environment and user. Returns
+ * an error when the profile rejects the command or can't be applied.
+ */
+export async function prepareSandbox(
+  invocation: CommandInvocation,
+  profile: ExecutionProfile = {}
+): Promise<{ ok: true; spawn: SandboxedSpawn } | { ok: false; error: string }> {
+  // argv runs the program directly; a command string goes through the shell
+  let [program, args] = invocation.argv
+    ? [invocation.argv[0], invocation.argv.slice(1)]
+    : [invocation.shell ?? "sh", ["-c", invocation.command]];
+
+  let account: Account | null = null;
+  if (profile.user !== undefined) {
+    account = lookupUser(profile.user);
+    if (!account) return { ok: false, error: `Unknown user: ${profile.user}` };
+  }
+  let gid = account?.gid;
+  if (profile.group !== undefined) {
+    const group = lookupGroup(profile.group);
+    if (group === null) return { ok: false, error: `Unknown group: ${profile.group}` };
+    gid = group;
+  }
+  const root = process.getuid?.() === 0;
+  if (!root && ((account && account.uid !== process.getuid?.()) || (gid !== undefined && gid !== process.getgid?.()))) {
+    return { ok: false, error: "Running commands as another user needs the relay to run as root" };
+  }
+
+  // spawn reports a missing cwd as a missing program - check it first
+  let cwd = invocation.cwd;
+  if (profile.baseDir !== undefined) {
+    const baseDir = await realpath(profile.baseDir).catch(() => null);
+    if (!baseDir) return { ok: false, error: `Base directory not found: ${profile.baseDir}` };
+    const resolved = await realpath(path.resolve(baseDir, cwd ?? ".")).catch(() => null);
+    if (!resolved) return { ok: false, error: `Working directory not found: ${cwd}` };
+    if (!isWithin(baseDir, resolved)) {
+      return { ok: false, error: `Working directory is outside the base directory: ${cwd}` };
+    }
+    cwd = resolved;
+  }
+  if (cwd !== undefined) {
+    const isDirectory = await stat(cwd).then((s) => s.isDirectory(), () => false);
+    if (!isDirectory) return { ok: false, error: `Working directory not found: ${cwd}` };
+  }
+
+  let env: NodeJS.ProcessEnv | undefined;
+  if (profile.scrubEnv || account || invocation.env) {
+    env = profile.scrubEnv ? { PATH: SCRUBBED_PATH } : { ...process.env };
+    for (const name of profile.scrubEnv ? (profile.keepEnv ?? []) : []) {
+      if (process.env[name] !== undefined) env[name] = process.env[name];
+    }
+    if (account) {
+      Object.assign(env, { USER: account.name, LOGNAME: account.name, HOME: account.home ?? cwd ?? "/" });
+    }
+    Object.assign(env, invocation.env);
+  }
+
+  // Lower the limits in a shell that then runs the command in its place
+  const ulimits = [
+    profile.cpuSeconds !== undefined ? `ulimit -t ${profile.cpuSeconds}` : null,
+    profile.memoryBytes !== undefined ? `ulimit -v ${Math.max(1, Math.floor(profile.memoryBytes / 1024))}` : null,
+    profile.openFiles !== undefined ? `ulimit -n ${profile.openFiles}` : null,
+  ].filter((line) => line !== null);
+  if (ulimits.length > 0) {
+    args = ["-c", `${ulimits.join(" && ")} && exec "$@"`, "sh", program, ...args];
+    program = "/bin/sh";
+  }
+
+  // The isolation tool switches to the user itself; without one spawn does
+  let uid = account?.uid;
+  switch (profile.isolation) {
+    case "unshare": {
+      const identity = root
+        ? [...(uid !== undefined ? ["--setuid", String(uid)] : []), ...(gid !== undefined ? ["--setgid", String(gid)] : [])]
+        : ["--user"];
+      args = [...identity, ...UNSHARE_ARGS, program, ...args];
+      program = "unshare";
+      uid = gid = undefined;
+      break;
+    }
+    case "systemd-run": {
+      const properties = [
+        ...(uid !== undefined ? [`--uid=${uid}`] : []),
+        ...(gid !== undefined ? [`--gid=${gid}`] : []),
+        ...(profile.memoryBytes !== undefined ? ["-p", `MemoryMax=${profile.memoryBytes}`] : []),
+      ];
+      args = ["--scope", "--quiet", "--collect", ...properties, program, ...args];
+      program = "systemd-run";
+      uid = gid = undefined;
+      break;
+    }
+  }
+
+  return { ok: true, spawn: { program, args, cwd, env, uid, gid } };
+}
+
+/**
+ * Why a local file transfer is not allowed under a profile, or null if it is.
+ * Transfers run as the relay, so they are refused when commands run as another
+ * user, and must stay inside the base directory.
+ */
+export async function checkLocalTransfer(profile: ExecutionProfile, filePath: string): Promise<string | null> {
+  if (profile.user !== undefined || profile.group !== undefined) {
+    return "Local file transfers are not allowed when commands run as another user";
+  }
+  if (profile.baseDir === undefined) return null;
+
+  // The file itself may not exist yet - resolve the directory it goes in
+  const baseDir = await realpath(profile.baseDir).catch(() => null);
+  if (!baseDir) return `Base directory not found: ${profile.baseDir}`;
+  const target = path.resolve(baseDir, filePath);
+  const dir = await realpath(path.dirname(target)).catch(() => null);
+  if (!dir || !isWithin(baseDir, path.join(dir, path.basename(target)))) {
+    return `File is outside the base directory: ${filePath}`;
+  }
+  return null;
+}
+
+let support: Promise<SandboxSupport> | null = null;
+
+/**
+ * Find out which parts of an execution profile this machine can enforce.
+ * unshare and systemd-run are tried once, the way commands would use them.
+ */
+export function detectSandboxSupport(): Promise<SandboxSupport> {
+  support ??= (async () => {
+    const linux = os.platform() === "linux";
+    const root = process.getuid?.() === 0;
+    const result: SandboxSupport = {
+      runAsUser: root,
+      rlimits: os.platform() !== "win32",
+      unshare: linux && (await probe("unshare", [...(root ? [] : ["--user"]), ...UNSHARE_ARGS, "true"])),
+      systemdRun:
+        linux && existsSync("/run/systemd/system") && (await probe("systemd-run", ["--scope", "--quiet", "--collect", "true"])),
+    };
+    logger.debug("Detected sandbox support", { ...result });
+    return result;
+  })();
+  return support;
+}
+
+function probe(program: string, args: string[]): Promise<boolean> {
+  return new Promise((resolve) => {
+    execFile(program, args, { timeout: PROBE_TIMEOUT_MS }, (err) => resolve(!err));
+  });
+}
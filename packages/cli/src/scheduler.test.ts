@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ExecutionScheduler } from "./scheduler";
+
+describe("ExecutionScheduler", () => {
+  let scheduler: ExecutionScheduler;
+
+  beforeEach(() => {
+    scheduler = new ExecutionScheduler({ maxConcurrency: 3, maxPerHost: 2 });
+  });
+
+  describe("tryAcquire", () => {
+    it("should grant slots up to maxConcurrency", () => {
+      expect(scheduler.tryAcquire({ _id: "a", targetType: "local" })).toBe(true);
+      expect(scheduler.tryAcquire({ _id: "b", targetType: "local" })).toBe(true);
+      expect(scheduler.tryAcquire({ _id: "c", targetType: "local" })).toBe(true);
+      expect(scheduler.tryAcquire({ _id: "d", targetType: "local" })).toBe(false);
+
+      expect(scheduler.activeCount).toBe(3);
+      expect(scheduler.freeSlots()).toBe(0);
+    });
+
+    it("should not grant a second slot to the same command", () => {
+      expect(scheduler.tryAcquire({ _id: "a", targetType: "local" })).toBe(true);
+      expect(scheduler.tryAcquire({ _id: "a", targetType: "local" })).toBe(false);
+      expect(scheduler.activeCount).toBe(1);
+    });
+
+    it("should enforce the per-host limit for SSH targets", () => {
+      const ssh = (id: string, host: string) => ({
+        _id: id,
+        targetType: "ssh" as const,
+        targetHost: host,
+      });
+
+      expect(scheduler.tryAcquire(ssh("a", "10.0.0.1"))).toBe(true);
+      expect(scheduler.tryAcquire(ssh("b", "10.0.0.1"))).toBe(true);
+      expect(scheduler.tryAcquire(ssh("c", "10.0.0.1"))).toBe(false);
+      // Other hosts still have room
+      expect(scheduler.tryAcquire(ssh("d", "10.0.0.2"))).toBe(true);
+    });
+
+    it("should treat different ports on the same host as separate targets", () => {
+      scheduler = new ExecutionScheduler({ maxConcurrency: 3, maxPerHost: 1 });
+
+      expect(
+        scheduler.tryAcquire({ _id: "a", targetType: "ssh", targetHost: "h", targetPort: 22 })
+      ).toBe(true);
+      expect(
+        scheduler.tryAcquire({ _id: "b", targetType: "ssh", targetHost: "h", targetPort: 2222 })
+      ).toBe(true);
+      expect(scheduler.tryAcquire({ _id: "c", targetType: "ssh", targetHost: "h" })).toBe(false);
+    });
+  });
+
+  describe("release", () => {
+    it("should free the relay and host slots", () => {
+      scheduler = new ExecutionScheduler({ maxConcurrency: 1, maxPerHost: 1 });
+      const cmd = { _id: "a", targetType: "ssh" as const, targetHost: "10.0.0.1" };
+
+      scheduler.tryAcquire(cmd);
+      scheduler.release("a");
+
+      expect(scheduler.has("a")).toBe(false);
+      expect(scheduler.freeSlots()).toBe(1);
+      expect(scheduler.tryAcquire({ ...cmd, _id: "b" })).toBe(true);
+    });
+
+    it("should ignore unknown commands", () => {
+      scheduler.release("missing");
+      expect(scheduler.freeSlots()).toBe(3);
+    });
+  });
+});
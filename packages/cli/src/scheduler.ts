@@ -0,0 +1,92 @@
+export interface SchedulerConfig {
+  maxConcurrency: number; // Max commands executing at once on this relay
+  maxPerHost: number; // Max commands executing at once against a single SSH target
+}
+
+export interface SchedulableCommand {
+  _id: string;
+  targetType: "local" | "ssh";
+  targetHost?: string;
+  targetPort?: number;
+}
+
+/**
+ * Tracks execution slots for the relay.
+ * A command must acquire a slot before it is claimed and releases it once its
+ * result is submitted, so the relay never claims more than it can run.
+ */
+export class ExecutionScheduler {
+  private config: SchedulerConfig;
+  private active: Map<string, string | null> = new Map(); // Command ID -> host key
+  private perHost: Map<string, number> = new Map(); // Host key -> running commands
+
+  constructor(config: SchedulerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Host key used for per-target limits (null for local commands)
+   */
+  static hostKey(cmd: SchedulableCommand): string | null {
+    if (cmd.targetType !== "ssh" || !cmd.targetHost) return null;
+    return `${cmd.targetHost}:${cmd.targetPort ?? 22}`;
+  }
+
+  /**
+   * Number of commands currently holding a slot
+   */
+  get activeCount(): number {
+    return this.active.size;
+  }
+
+  /**
+   * Number of additional commands the relay can take on right now
+   */
+  freeSlots(): number {
+    return Math.max(0, this.config.maxConcurrency - this.active.size);
+  }
+
+  /**
+   * Whether a command already holds a slot
+   */
+  has(commandId: string): boolean {
+    return this.active.has(commandId);
+  }
+
+  /**
+   * Reserve a slot for a command.
+   * Returns false if the relay or the command's SSH target is at capacity.
+   */
+  tryAcquire(cmd: SchedulableCommand): boolean {
+    if (this.active.has(cmd._id) || this.freeSlots() === 0) return false;
+
+    const hostKey = ExecutionScheduler.hostKey(cmd);
+    if (hostKey !== null) {
+      const running = this.perHost.get(hostKey) ?? 0;
+      if (running >= this.config.maxPerHost) return false;
+      this.perHost.set(hostKey, running + 1);
+    }
+
+    this.active.set(cmd._id, hostKey);
+    return true;
+  }
+
+  /**
+   * Release the slot held by a command
+   */
+  release(commandId: string): void {
+    if (!this.active.has(commandId)) return;
+
+    const hostKey = this.active.get(commandId)!;
+    this.active.delete(commandId);
+
+    if (hostKey !== null) {
+      const running = (this.perHost.get(hostKey) ?? 1) - 1;
+      if (running > 0) {
+        this.perHost.set(hostKey, running);
+      } else {
+        this.perHost.delete(hostKey);
+      }
+    }
+  }
+}
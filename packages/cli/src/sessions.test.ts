@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { PtyProcess } from "./pty.js";
+import {
+  TerminalSession,
+  MAX_SYNC_OUTPUT_CHARS,
+  type SessionCloseReport,
+  type SessionSyncResult,
+  type TerminalSessionConfig,
+} from "./sessions.js";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("TerminalSession", () => {
+  let syncs: Array<{ output?: string; appliedInputSeq?: number; authMethod?: string }>;
+  let reports: SessionCloseReport[];
+  let nextSync: SessionSyncResult;
+  let written: string[];
+  let resized: Array<[number, number]>;
+  let closed: boolean;
+  let pty: PtyProcess;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    syncs = [];
+    reports = [];
+    nextSync = { success: true, events: [], closeRequested: false };
+    written = [];
+    resized = [];
+    closed = false;
+    pty = {
+      write: (data) => written.push(data),
+      resize: (cols, rows) => {
+        resized.push([cols, rows]);
+        return true;
+      },
+      close: () => {
+        closed = true;
+      },
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createSession = (config: Partial<TerminalSessionConfig> = {}) =>
+    new TerminalSession({
+      sessionId: "session-1",
+      idleTimeoutMs: 60000,
+      syncIntervalMs: 250,
+      pollInput: false,
+      transport: {
+        sync: async (update) => {
+          syncs.push(update);
+          const result = nextSync;
+          nextSync = { success: true, events: [], closeRequested: false };
+          return result;
+        },
+        reportClosed: async (report) => {
+          reports.push(report);
+        },
+      },
+      ...config,
+    });
+
+  it("reports the auth method on attach and batches output into syncs", async () => {
+    const session = createSession();
+    session.attach(pty, "agent");
+    await vi.advanceTimersByTimeAsync(0);
+
+    session.handleData(Buffer.from("$ "));
+    session.handleData(Buffer.from([0xe2, 0x82])); // First bytes of "€"
+    await vi.advanceTimersByTimeAsync(250);
+    session.handleData(Buffer.from([0xac]));
+    await vi.advanceTimersByTimeAsync(250);
+
+    expect(syncs).toEqual([
+      { output: undefined, appliedInputSeq: undefined, authMethod: "agent" },
+      { output: "$ ", appliedInputSeq: undefined, authMethod: undefined },
+      { output: "€", appliedInputSeq: undefined, authMethod: undefined },
+    ]);
+  });
+
+  it("only syncs without output when polling for input or as a keepalive", async () => {
+    const session = createSession({ keepaliveMs: 1000 });
+    session.attach(pty);
+    await vi.advanceTimersByTimeAsync(750);
+    expect(syncs).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(250);
+    expect(syncs).toHaveLength(2);
+
+    const polling = createSession({ pollInput: true });
+    syncs = [];
+    polling.attach(pty);
+    await vi.advanceTimersByTimeAsync(750);
+    expect(syncs).toHaveLength(4);
+  });
+
+  it("applies input in order once and acknowledges it", async () => {
+    const session = createSession();
+    session.attach(pty);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const events = [
+      { seq: 1, kind: "data" as const, data: "ls\r" },
+      { seq: 2, kind: "resize" as const, cols: 100, rows: 30 },
+    ];
+    session.receiveInput(events, false);
+    session.receiveInput([...events, { seq: 3, kind: "data" as const, data: "pwd\r" }], false);
+    await vi.advanceTimersByTimeAsync(250);
+
+    expect(written).toEqual(["ls\r", "pwd\r"]);
+    expect(resized).toEqual([[100, 30]]);
+    expect(syncs[1].appliedInputSeq).toBe(3);
+  });
+
+  it("closes the terminal when the center asks and reports the final output", async () => {
+    const session = createSession({ pollInput: true });
+    const finished = session.attach(pty);
+    await vi.advanceTimersByTimeAsync(0);
+
+    nextSync = { success: true, events: [], closeRequested: true };
+    await vi.advanceTimersByTimeAsync(250);
+    expect(closed).toBe(true);
+
+    session.handleData(Buffer.from("logout\r\n"));
+    session.handleExit({ exitCode: 0 });
+    await finished;
+
+    expect(reports).toEqual([{ closeReason: "closed", output: "logout\r\n", exitCode: 0, authMethod: undefined }]);
+  });
+
+  it("closes idle terminals", async () => {
+    const session = createSession({ idleTimeoutMs: 1000 });
+    const finished = session.attach(pty);
+
+    await vi.advanceTimersByTimeAsync(500);
+    session.receiveInput([{ seq: 1, kind: "data", data: "x" }], false);
+    await vi.advanceTimersByTimeAsync(750);
+    expect(closed).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(closed).toBe(true);
+
+    session.handleExit({ exitCode: -1 });
+    await finished;
+    expect(reports[0].closeReason).toBe("idle");
+  });
+
+  it("sends large output in pieces before the close report", async () => {
+    const session = createSession();
+    const finished = session.attach(pty);
+    await vi.advanceTimersByTimeAsync(0);
+
+    session.handleData(Buffer.from("a".repeat(MAX_SYNC_OUTPUT_CHARS + 10)));
+    session.handleExit({ exitCode: 0 });
+    await finished;
+
+    expect(syncs[1].output).toHaveLength(MAX_SYNC_OUTPUT_CHARS);
+    expect(reports).toEqual([{ closeReason: "exited", output: "a".repeat(10), exitCode: 0, authMethod: undefined }]);
+  });
+
+  it("keeps output after a failed sync and hangs up once the center refuses it", async () => {
+    let attempts = 0;
+    const session = createSession({
+      transport: {
+        sync: async (update) => {
+          syncs.push(update);
+          attempts++;
+          if (attempts === 2) throw new Error("network down");
+          return attempts === 1
+            ? { success: true, events: [], closeRequested: false }
+            : { success: false, error: "Session is not open" };
+        },
+        reportClosed: async (report) => {
+          reports.push(report);
+        },
+      },
+    });
+    session.attach(pty);
+    await vi.advanceTimersByTimeAsync(0);
+
+    session.handleData(Buffer.from("hello"));
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(syncs.map((s) => s.output)).toEqual([undefined, "hello", "hello"]);
+    expect(closed).toBe(true);
+  });
+
+  it("reports sessions that never got a terminal", async () => {
+    const session = createSession();
+
+    await session.fail("SSH target rejected by relay: not registered", "ssh_target_denied");
+
+    expect(reports).toEqual([
+      { closeReason: "error", error: "SSH target rejected by relay: not registered", errorCode: "ssh_target_denied" },
+    ]);
+  });
+});
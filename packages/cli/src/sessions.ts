@@ -0,0 +1,277 @@
+import { StringDecoder } from "node:string_decoder";
+import { logger } from "./logger.js";
+import type { PtyExit, PtyProcess } from "./pty.js";
+
+// Largest piece of output sent in one sync
+export const MAX_SYNC_OUTPUT_CHARS = 64 * 1024;
+
+export type SessionCloseReason = "exited" | "closed" | "idle" | "error";
+
+// An open session as relays receive it from the center
+export interface PendingSession {
+  _id: string;
+  targetType: "local" | "ssh";
+  targetHost?: string;
+  targetPort?: number;
+  targetUsername?: string;
+  jumpHosts?: Array<{ host: string; port?: number; username?: string; credentialName?: string }>;
+  command?: string;
+  cols: number;
+  rows: number;
+  idleTimeoutMs: number;
+}
+
+export interface SessionInputEvent {
+  seq: number;
+  kind: "data" | "resize";
+  data?: string;
+  cols?: number;
+  rows?: number;
+}
+
+export type SessionSyncResult =
+  | { success: true; events: SessionInputEvent[]; closeRequested: boolean }
+  | { success: false; error: string };
+
+export interface SessionCloseReport {
+  closeReason: SessionCloseReason;
+  output?: string;
+  exitCode?: number;
+  error?: string;
+  errorCode?: string;
+  authMethod?: string;
+}
+
+// How a session talks to the center (Convex mutations or HTTP, depending on mode)
+export interface SessionTransport {
+  sync(update: { output?: string; appliedInputSeq?: number; authMethod?: string }): Promise<SessionSyncResult>;
+  reportClosed(report: SessionCloseReport): Promise<void>;
+}
+
+export interface TerminalSessionConfig {
+  sessionId: string;
+  idleTimeoutMs: number; // Close after this long without input or output
+  syncIntervalMs: number; // How often output is flushed to the center
+  pollInput: boolean; // Ask for input on every sync, instead of receiving it through receiveInput
+  keepaliveMs?: number; // Sync at least this often so the center knows the relay is there (default: 15000)
+  transport: SessionTransport;
+}
+
+/**
+ * Connects a running terminal to its session on the center: batches terminal
+ * output into syncs, applies input and resize events in order, and closes the
+ * terminal when the center asks to or it sits idle. Input arrives either with
+ * each sync (polling mode) or pushed through receiveInput (subscription mode).
+ */
+export class TerminalSession {
+  readonly sessionId: string;
+  private config: TerminalSessionConfig;
+  private pty: PtyProcess | null = null;
+  private authMethod?: string;
+  private decoder = new StringDecoder("utf8");
+  private output = ""; // Output not yet synced
+  private appliedInputSeq = 0; // Last input event written to the terminal
+  private ackedInputSeq = 0; // Last applied event the center was told about
+  private lastActivityAt = Date.now();
+  private lastSyncAt = Date.now();
+  private syncing: Promise<void> | null = null;
+  private timer: Timer | null = null;
+  private exit: PtyExit | null = null;
+  private closeReason: SessionCloseReason | null = null;
+  private finished: Promise<void>;
+  private resolveFinished!: () => void;
+
+  constructor(config: TerminalSessionConfig) {
+    this.sessionId = config.sessionId;
+    this.config = { ...config, keepaliveMs: config.keepaliveMs ?? 15000 };
+    this.finished = new Promise((resolve) => (this.resolveFinished = resolve));
+  }
+
+  /**
+   * Terminal output handler, to pass as the PTY's onData
+   */
+  readonly handleData = (data: Buffer): void => {
+    this.output += this.decoder.write(data);
+    this.lastActivityAt = Date.now();
+  };
+
+  /**
+   * Terminal exit handler, to pass as the PTY's onExit
+   */
+  readonly handleExit = (exit: PtyExit): void => {
+    if (this.exit) return;
+    this.exit = exit;
+    this.output += this.decoder.end();
+    if (this.pty) {
+      void this.finish();
+    }
+  };
+
+  /**
+   * Start syncing a running terminal. Resolves once the terminal has ended
+   * and the close was reported.
+   */
+  attach(pty: PtyProcess, authMethod?: string): Promise<void> {
+    this.pty = pty;
+    this.authMethod = authMethod;
+    this.lastActivityAt = Date.now();
+    logger.info(`Session ${this.sessionId} opened`, { authMethod });
+
+    if (this.exit) {
+      void this.finish();
+    } else {
+      this.timer = setInterval(() => this.tick(), this.config.syncIntervalMs);
+      // Report the authentication method right away
+      this.startSync(true);
+    }
+    return this.finished;
+  }
+
+  /**
+   * Apply input events pushed by the center (subscription mode)
+   */
+  receiveInput(events: SessionInputEvent[], closeRequested: boolean): void {
+    this.applyInput(events);
+    if (closeRequested) {
+      this.close("closed");
+    }
+  }
+
+  /**
+   * Hang up the terminal; the close is reported once it has ended
+   */
+  close(reason: SessionCloseReason): void {
+    if (this.exit || this.closeReason) return;
+    this.closeReason = reason;
+    logger.info(`Closing session ${this.sessionId}`, { reason });
+    this.pty?.close();
+  }
+
+  /**
+   * Report a session that never got a terminal, e.g. because the relay refused it
+   */
+  async fail(error: string, errorCode?: string): Promise<void> {
+    logger.warn(`Session ${this.sessionId} failed`, { error, errorCode });
+    await this.report({ closeReason: "error", error, errorCode });
+    this.resolveFinished();
+  }
+
+  private tick(): void {
+    if (this.syncing || this.exit) return;
+
+    if (Date.now() - this.lastActivityAt >= this.config.idleTimeoutMs) {
+      this.close("idle");
+      return;
+    }
+
+    const due =
+      this.output.length > 0 ||
+      this.appliedInputSeq > this.ackedInputSeq ||
+      this.config.pollInput ||
+      Date.now() - this.lastSyncAt >= this.config.keepaliveMs!;
+    if (due) {
+      this.startSync(false);
+    }
+  }
+
+  private startSync(includeAuthMethod: boolean): void {
+    this.syncing = this.sync(includeAuthMethod).finally(() => {
+      this.syncing = null;
+    });
+  }
+
+  /**
+   * Send pending output and applied input to the center and apply what it returns
+   */
+  private async sync(includeAuthMethod: boolean): Promise<void> {
+    const output = this.output.slice(0, MAX_SYNC_OUTPUT_CHARS);
+    const appliedInputSeq = this.appliedInputSeq;
+
+    try {
+      const result = await this.config.transport.sync({
+        output: output || undefined,
+        appliedInputSeq: appliedInputSeq > this.ackedInputSeq ? appliedInputSeq : undefined,
+        authMethod: includeAuthMethod ? this.authMethod : undefined,
+      });
+      this.lastSyncAt = Date.now();
+
+      if (!result.success) {
+        // The center closed the session or handed it elsewhere - nobody is reading any more
+        logger.warn(`Session ${this.sessionId} rejected by the center`, { error: result.error });
+        this.close("closed");
+        return;
+      }
+
+      this.output = this.output.slice(output.length);
+      this.ackedInputSeq = Math.max(this.ackedInputSeq, appliedInputSeq);
+      if (!this.exit) {
+        this.receiveInput(result.events, result.closeRequested);
+      }
+    } catch (err) {
+      // Keep the output and try again on the next tick
+      const error = err instanceof Error ? err.message : String(err);
+      logger.warn(`Failed to sync session ${this.sessionId}`, { error });
+    }
+  }
+
+  /**
+   * Write input and resize events to the terminal, skipping ones already applied
+   */
+  private applyInput(events: SessionInputEvent[]): void {
+    for (const event of events) {
+      if (event.seq <= this.appliedInputSeq || !this.pty || this.exit) continue;
+      this.appliedInputSeq = event.seq;
+      this.lastActivityAt = Date.now();
+
+      if (event.kind === "data" && event.data !== undefined) {
+        this.pty.write(event.data);
+      } else if (event.kind === "resize" && event.cols && event.rows) {
+        if (!this.pty.resize(event.cols, event.rows)) {
+          logger.debug(`Session ${this.sessionId} terminal can't be resized`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Flush the remaining output and report how the terminal ended
+   */
+  private async finish(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.syncing;
+
+    // Output beyond one report's worth goes out in regular syncs first
+    while (this.output.length > MAX_SYNC_OUTPUT_CHARS) {
+      const before = this.output.length;
+      await this.sync(false);
+      if (this.output.length === before) break;
+    }
+
+    const exit = this.exit!;
+    await this.report({
+      closeReason: this.closeReason ?? (exit.error ? "error" : "exited"),
+      output: this.output.slice(0, MAX_SYNC_OUTPUT_CHARS) || undefined,
+      exitCode: exit.exitCode,
+      error: exit.error,
+      authMethod: this.authMethod,
+    });
+    logger.info(`Session ${this.sessionId} closed`, {
+      reason: this.closeReason ?? "exited",
+      exitCode: exit.exitCode,
+    });
+    this.resolveFinished();
+  }
+
+  private async report(report: SessionCloseReport): Promise<void> {
+    try {
+      await this.config.transport.reportClosed(report);
+    } catch (err) {
+      // The center closes the session itself once the relay stops syncing
+      const error = err instanceof Error ? err.message : String(err);
+      logger.warn(`Failed to report session ${this.sessionId} closed`, { error });
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { utils } from "ssh2";
+import { loadDefaultSshAuth, parseSshConfig } from "./sshConfig";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("parseSshConfig", () => {
+  const home = "/home/relay";
+
+  it("applies options from matching Host blocks, first value winning", () => {
+    const config = parseSshConfig(
+      [
+        "Host db-*",
+        "  User postgres",
+        "  IdentityFile ~/.ssh/db_key",
+        "",
+        "Host *",
+        "  User admin",
+        "  IdentityFile ~/.ssh/%h.key",
+        "  ForwardAgent yes",
+      ].join("\n"),
+      "db-1",
+      home
+    );
+
+    expect(config).toEqual({
+      user: "postgres",
+      identityFiles: ["/home/relay/.ssh/db_key", "/home/relay/.ssh/db-1.key"],
+      forwardAgent: true,
+    });
+  });
+
+  it("skips Host blocks that don't match or are negated", () => {
+    const config = parseSshConfig(
+      ["Host web-? !web-2", "  User www", "Host bastion", "  User jump"].join("\n"),
+      "web-2",
+      home
+    );
+
+    expect(config.user).toBeUndefined();
+    expect(parseSshConfig("Host web-? !web-2\n  User www", "WEB-1", home).user).toBe("www");
+  });
+
+  it("ignores Match blocks and accepts key=value syntax", () => {
+    const config = parseSshConfig(
+      ["User=everyone", "IdentityFile=keys/relay", "Match host db-1", "  User matched"].join("\n"),
+      "db-1",
+      home
+    );
+
+    expect(config.user).toBe("everyone");
+    expect(config.identityFiles).toEqual(["/home/relay/.ssh/keys/relay"]);
+  });
+
+  it("keeps IdentityAgent none and SSH_AUTH_SOCK verbatim", () => {
+    expect(parseSshConfig("IdentityAgent none", "h", home).identityAgent).toBe("none");
+    expect(parseSshConfig("IdentityAgent SSH_AUTH_SOCK", "h", home).identityAgent).toBe("SSH_AUTH_SOCK");
+    expect(parseSshConfig("IdentityAgent ~/agent.sock", "h", home).identityAgent).toBe("/home/relay/agent.sock");
+  });
+});
+
+describe("loadDefaultSshAuth", () => {
+  let homeDir: string;
+  const originalAgent = process.env.SSH_AUTH_SOCK;
+
+  beforeEach(() => {
+    homeDir = path.join(os.tmpdir(), `relay-sshconfig-test-${Date.now()}`);
+    fs.mkdirSync(path.join(homeDir, ".ssh"), { recursive: true });
+    delete process.env.SSH_AUTH_SOCK;
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(homeDir)) {
+      fs.rmSync(homeDir, { recursive: true, force: true });
+    }
+    if (originalAgent === undefined) {
+      delete process.env.SSH_AUTH_SOCK;
+    } else {
+      process.env.SSH_AUTH_SOCK = originalAgent;
+    }
+  });
+
+  it("returns nothing when there is no agent, config or key file", async () => {
+    expect(await loadDefaultSshAuth("db-1", homeDir)).toEqual({
+      username: undefined,
+      agent: undefined,
+      identityFiles: [],
+      forwardAgent: false,
+    });
+  });
+
+  it("loads configured and standard key files, skipping encrypted ones", async () => {
+    const configured = utils.generateKeyPairSync("ed25519");
+    const standard = utils.generateKeyPairSync("ed25519");
+    const encrypted = utils.generateKeyPairSync("ed25519", { passphrase: "secret", cipher: "aes256-cbc" });
+    fs.writeFileSync(path.join(homeDir, ".ssh", "deploy"), configured.private);
+    fs.writeFileSync(path.join(homeDir, ".ssh", "id_ed25519"), encrypted.private);
+    fs.writeFileSync(path.join(homeDir, ".ssh", "id_rsa"), standard.private);
+    fs.writeFileSync(
+      path.join(homeDir, ".ssh", "config"),
+      "Host db-1\n  User deploy\n  IdentityFile ~/.ssh/deploy\n  ForwardAgent yes\n"
+    );
+
+    const auth = await loadDefaultSshAuth("db-1", homeDir);
+
+    expect(auth.username).toBe("deploy");
+    expect(auth.forwardAgent).toBe(true);
+    expect(auth.identityFiles.map((f) => f.path)).toEqual(["~/.ssh/deploy", "~/.ssh/id_rsa"]);
+    expect(auth.identityFiles[0].privateKey).toBe(configured.private);
+  });
+
+  it("uses SSH_AUTH_SOCK unless IdentityAgent overrides it", async () => {
+    process.env.SSH_AUTH_SOCK = "/tmp/agent.sock";
+    expect((await loadDefaultSshAuth("db-1", homeDir)).agent).toBe("/tmp/agent.sock");
+
+    fs.writeFileSync(path.join(homeDir, ".ssh", "config"), "Host db-1\n  IdentityAgent none\n");
+    expect((await loadDefaultSshAuth("db-1", homeDir)).agent).toBeUndefined();
+    expect((await loadDefaultSshAuth("db-2", homeDir)).agent).toBe("/tmp/agent.sock");
+  });
+});
@@ -0,0 +1,147 @@
+import { readFile } from "node:fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { utils } from "ssh2";
+import { logger } from "./logger.js";
+
+// Key files tried when neither a stored credential nor ~/.ssh/config names one, like OpenSSH
+const DEFAULT_IDENTITY_FILES = ["id_ed25519", "id_ecdsa", "id_rsa"];
+
+export interface SshHostConfig {
+  user?: string;
+  identityFiles: string[];
+  identityAgent?: string;
+  forwardAgent?: boolean;
+}
+
+export interface DefaultSshAuth {
+  username?: string; // User from ~/.ssh/config
+  agent?: string; // ssh-agent socket
+  identityFiles: Array<{ path: string; privateKey: string }>;
+  forwardAgent: boolean;
+}
+
+/**
+ * Match a host against a space-separated ssh_config Host pattern list ("*", "?", "!negation")
+ */
+function hostMatches(patterns: string[], host: string): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith("!");
+    const glob = negated ? pattern.slice(1) : pattern;
+    const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    const regex = new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "i");
+    if (regex.test(host)) {
+      if (negated) return false;
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Expand "~" and the %d/%u/%h tokens OpenSSH allows in IdentityFile and IdentityAgent
+ */
+function expandPath(value: string, host: string, homeDir: string): string {
+  const expanded = value
+    .replace(/^~(?=$|\/)/, homeDir)
+    .replace(/%d/g, homeDir)
+    .replace(/%u/g, os.userInfo().username)
+    .replace(/%h/g, host);
+  return path.isAbsolute(expanded) ? expanded : path.join(homeDir, ".ssh", expanded);
+}
+
+/**
+ * Settings from an ssh_config file that apply to a host.
+ * Only the options the relay uses are read; as in OpenSSH the first value
+ * obtained wins, except IdentityFile which accumulates.
+ */
+export function parseSshConfig(content: string, host: string, homeDir: string = os.homedir()): SshHostConfig {
+  const config: SshHostConfig = { identityFiles: [] };
+  let active = true; // Options before the first Host/Match block apply to every host
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const match = /^(\S+?)(?:\s*=\s*|\s+)(.+)$/.exec(line);
+    if (!match) continue;
+    const keyword = match[1].toLowerCase();
+    const value = match[2].trim().replace(/^"(.*)"$/, "$1");
+
+    if (keyword === "host") {
+      active = hostMatches(value.split(/\s+/), host);
+      continue;
+    }
+    if (keyword === "match") {
+      active = false; // Match blocks are not supported
+      continue;
+    }
+    if (!active) continue;
+
+    switch (keyword) {
+      case "user":
+        config.user ??= value;
+        break;
+      case "identityfile":
+        config.identityFiles.push(expandPath(value, host, homeDir));
+        break;
+      case "identityagent":
+        config.identityAgent ??=
+          value === "SSH_AUTH_SOCK" || value.toLowerCase() === "none" ? value : expandPath(value, host, homeDir);
+        break;
+      case "forwardagent":
+        config.forwardAgent ??= value.toLowerCase() === "yes";
+        break;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * SSH authentication available without a stored credential: the ssh-agent from
+ * SSH_AUTH_SOCK (or IdentityAgent), IdentityFiles from ~/.ssh/config and the
+ * standard key files. Keys that need a passphrase are left to the agent.
+ */
+export async function loadDefaultSshAuth(host: string, homeDir: string = os.homedir()): Promise<DefaultSshAuth> {
+  let hostConfig: SshHostConfig = { identityFiles: [] };
+  try {
+    const content = await readFile(path.join(homeDir, ".ssh", "config"), "utf-8");
+    hostConfig = parseSshConfig(content, host, homeDir);
+  } catch {
+    // No ~/.ssh/config
+  }
+
+  let agent = process.env.SSH_AUTH_SOCK || undefined;
+  if (hostConfig.identityAgent && hostConfig.identityAgent !== "SSH_AUTH_SOCK") {
+    agent = hostConfig.identityAgent.toLowerCase() === "none" ? undefined : hostConfig.identityAgent;
+  }
+
+  const candidates = [
+    ...hostConfig.identityFiles,
+    ...DEFAULT_IDENTITY_FILES.map((name) => path.join(homeDir, ".ssh", name)),
+  ];
+  const identityFiles: DefaultSshAuth["identityFiles"] = [];
+  for (const file of [...new Set(candidates)]) {
+    let privateKey: string;
+    try {
+      privateKey = await readFile(file, "utf-8");
+    } catch {
+      continue;
+    }
+    if (utils.parseKey(privateKey) instanceof Error) {
+      logger.debug(`Skipping SSH key ${file}: encrypted or not a private key`);
+      continue;
+    }
+    const label = file.startsWith(homeDir + path.sep) ? `~${file.slice(homeDir.length)}` : file;
+    identityFiles.push({ path: label, privateKey });
+  }
+
+  return {
+    username: hostConfig.user,
+    agent,
+    identityFiles,
+    forwardAgent: hostConfig.forwardAgent ?? false,
+  };
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { AddressInfo } from "node:net";
+import { Server, utils } from "ssh2";
+import { executeSSH } from "./executor";
+import { SshConnectionPool } from "./sshPool";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("SshConnectionPool", () => {
+  const hostKey = utils.generateKeyPairSync("ed25519");
+  let server: Server;
+  let port: number;
+  let password: string;
+  let connections: number;
+  let execDelayMs: number;
+  let rejectSecondSession: boolean;
+  let pool: SshConnectionPool;
+
+  // Accepts user "ops" with the current password and runs "echo <text>"
+  beforeEach(async () => {
+    password = "secret";
+    connections = 0;
+    execDelayMs = 0;
+    rejectSecondSession = false;
+    server = new Server({ hostKeys: [hostKey.private] }, (client) => {
+      connections++;
+      let sessions = 0;
+      client
+        .on("authentication", (ctx) =>
+          ctx.method === "password" && ctx.username === "ops" && ctx.password === password
+            ? ctx.accept()
+            : ctx.reject(["password"])
+        )
+        .on("ready", () => {
+          client.on("session", (accept, reject) => {
+            if (++sessions > 1 && rejectSecondSession) return reject();
+            accept().on("exec", (acceptExec, _reject, info) => {
+              const stream = acceptExec();
+              setTimeout(() => {
+                stream.write(info.command.replace(/^echo /, ""));
+                stream.exit(0);
+                stream.end();
+              }, execDelayMs);
+            });
+          });
+        });
+      client.on("error", () => {});
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    pool?.closeAll();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const run = (text: string, auth: { password?: string } = {}) =>
+    executeSSH({
+      command: `echo ${text}`,
+      host: "127.0.0.1",
+      port,
+      username: "ops",
+      password: "secret",
+      timeoutMs: 10000,
+      pool,
+      ...auth,
+    });
+
+  it("reuses one connection for consecutive commands", async () => {
+    pool = new SshConnectionPool();
+
+    const first = await run("one");
+    const second = await run("two");
+
+    expect(first.output).toBe("one");
+    expect(second.output).toBe("two");
+    expect(second.authMethod).toBe("password");
+    expect(connections).toBe(1);
+    expect(pool.stats()).toEqual({ connections: 1, activeChannels: 0 });
+  });
+
+  it("opens another connection when every channel is busy", async () => {
+    pool = new SshConnectionPool({ maxChannelsPerConnection: 2 });
+    execDelayMs = 50;
+
+    const results = await Promise.all([run("a"), run("b"), run("c")]);
+
+    expect(results.map((r) => r.output)).toEqual(["a", "b", "c"]);
+    expect(connections).toBe(2);
+  });
+
+  it("keeps connections with different credentials apart", async () => {
+    pool = new SshConnectionPool();
+
+    await run("one");
+    const rejected = await run("two", { password: "wrong" });
+
+    expect(rejected.success).toBe(false);
+    expect(connections).toBe(2);
+    expect(pool.stats().connections).toBe(1);
+  });
+
+  it("closes connections that stay idle", async () => {
+    pool = new SshConnectionPool({ idleTimeoutMs: 20 });
+
+    await run("one");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(pool.stats().connections).toBe(0);
+  });
+
+  it("evicts pooled connections when their credentials stop working", async () => {
+    pool = new SshConnectionPool({ maxChannelsPerConnection: 1 });
+    execDelayMs = 50;
+    const running = run("busy");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    password = "rotated";
+
+    const rejected = await run("next");
+    await running;
+
+    expect(rejected.success).toBe(false);
+    expect(pool.stats().connections).toBe(0);
+  });
+
+  it("opens new connections once every pooled one is retired", async () => {
+    pool = new SshConnectionPool();
+
+    await run("one");
+    pool.retireAll();
+    expect(pool.stats().connections).toBe(0);
+
+    await run("two");
+    expect(connections).toBe(2);
+  });
+
+  it("retries on a fresh connection when a pooled one can't open a channel", async () => {
+    pool = new SshConnectionPool();
+    rejectSecondSession = true;
+
+    await run("one");
+    const second = await run("two");
+
+    expect(second.success).toBe(true);
+    expect(second.output).toBe("two");
+    expect(connections).toBe(2);
+  });
+});
@@ -0,0 +1,248 @@
+import { createHash } from "node:crypto";
+import { logger } from "./logger.js";
+import {
+  connectSSH,
+  type SSHConnection,
+  type SSHConnectionOptions,
+  type SSHConnectResult,
+  type SSHTargetOptions,
+} from "./executor.js";
+
+export interface SshPoolConfig {
+  idleTimeoutMs: number; // Close connections nobody used for this long
+  maxChannelsPerConnection: number; // Commands running at once over one connection
+  keepaliveIntervalMs: number; // SSH keepalive probe interval - 3 missed probes drop the connection
+}
+
+// A connection handed out for one command
+export interface SshConnectionLease {
+  connection: SSHConnection;
+  reused: boolean; // The connection already ran other commands
+  release(): void; // Return the connection to the pool
+  discard(): void; // Drop a connection that failed
+}
+
+interface PoolEntry {
+  key: string;
+  label: string; // user@host:port, for logs
+  ready: Promise<SSHConnectResult>;
+  connection?: SSHConnection;
+  active: number; // Leases handed out, including ones waiting for the connection
+  used: boolean; // A lease was released at least once
+  retired: boolean; // Takes no new leases; closed once the last one is released
+  idleTimer?: Timer;
+}
+
+// Avoid "possible EventEmitter memory leak" warnings when many commands share a connection
+const MAX_CLOSE_LISTENERS = 0;
+
+/**
+ * Identity of a connection: target, user, authentication material and route.
+ * Hashed so credentials aren't kept around as map keys.
+ */
+function poolKey(options: SSHTargetOptions): string {
+  const hostIdentity = (o: SSHConnectionOptions) => [
+    o.host.toLowerCase(),
+    o.port,
+    o.username,
+    o.privateKey ?? null,
+    o.passphrase ?? null,
+    o.password ?? null,
+    o.keyboardInteractive ?? null,
+    o.agent ?? null,
+    (o.identityFiles ?? []).map((f) => [f.path, f.privateKey]),
+  ];
+  const identity = [
+    hostIdentity(options),
+    options.agentForward === true,
+    (options.jumpHosts ?? []).map(hostIdentity),
+  ];
+  return createHash("sha256").update(JSON.stringify(identity)).digest("hex");
+}
+
+/**
+ * Pool of authenticated SSH connections shared by commands to the same target.
+ * Connections are keyed by host, port, user, credential and jump hosts, carry
+ * up to maxChannelsPerConnection commands at once, are kept alive with SSH
+ * keepalives and closed after idleTimeoutMs without commands. A failed
+ * authentication evicts every connection with the same key.
+ */
+export class SshConnectionPool {
+  private config: SshPoolConfig;
+  private entries: Map<string, PoolEntry[]> = new Map();
+
+  constructor(config: Partial<SshPoolConfig> = {}) {
+    this.config = {
+      idleTimeoutMs: config.idleTimeoutMs ?? 60000,
+      maxChannelsPerConnection: config.maxChannelsPerConnection ?? 4,
+      keepaliveIntervalMs: config.keepaliveIntervalMs ?? 15000,
+    };
+  }
+
+  /**
+   * Get a connection for one command, reusing an open one with a free channel if possible.
+   * `fresh` skips open connections, e.g. to retry on a new one after a stale connection failed.
+   */
+  async acquire(
+    options: SSHTargetOptions,
+    { fresh = false }: { fresh?: boolean } = {}
+  ): Promise<{ ok: true; lease: SshConnectionLease } | Extract<SSHConnectResult, { ok: false }>> {
+    const key = poolKey(options);
+    const entries = this.entries.get(key) ?? [];
+    let entry = fresh
+      ? undefined
+      : entries.find((e) => !e.retired && e.active < this.config.maxChannelsPerConnection);
+
+    if (!entry) {
+      entry = this.open(key, options);
+      entries.push(entry);
+      this.entries.set(key, entries);
+    }
+
+    const reused = entry.used || entry.active > 0;
+    entry.active++;
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = undefined;
+    }
+
+    const connected = await entry.ready;
+    if (!connected.ok) {
+      entry.active--;
+      return connected;
+    }
+
+    const lease = entry;
+    let done = false;
+    return {
+      ok: true,
+      lease: {
+        connection: connected.connection,
+        reused,
+        release: () => {
+          if (done) return;
+          done = true;
+          this.release(lease);
+        },
+        discard: () => {
+          if (done) return;
+          done = true;
+          this.remove(lease);
+          lease.active--;
+          lease.connection?.close();
+        },
+      },
+    };
+  }
+
+  /**
+   * Number of open (or opening) connections and of commands using them
+   */
+  stats(): { connections: number; activeChannels: number } {
+    let connections = 0;
+    let activeChannels = 0;
+    for (const entries of this.entries.values()) {
+      connections += entries.length;
+      activeChannels += entries.reduce((sum, e) => sum + e.active, 0);
+    }
+    return { connections, activeChannels };
+  }
+
+  /**
+   * Stop handing out every open connection, e.g. after host keys or SSH targets
+   * changed - their host keys were checked against the old ones. Idle
+   * connections close now, busy ones once their commands finish.
+   */
+  retireAll(): void {
+    for (const key of [...this.entries.keys()]) {
+      this.evict(key);
+    }
+  }
+
+  /**
+   * Close every connection, e.g. when the relay stops
+   */
+  closeAll(): void {
+    for (const entries of this.entries.values()) {
+      for (const entry of entries) {
+        if (entry.idleTimer) clearTimeout(entry.idleTimer);
+        entry.retired = true;
+        entry.connection?.close();
+      }
+    }
+    this.entries.clear();
+  }
+
+  private open(key: string, options: SSHTargetOptions): PoolEntry {
+    const label = `${options.username}@${options.host}:${options.port}`;
+    const ready = connectSSH(options, {
+      keepaliveInterval: this.config.keepaliveIntervalMs,
+      keepaliveCountMax: 3,
+    }).then((result) => {
+      if (!result.ok) {
+        this.remove(entry);
+        if (result.authFailed || result.errorCode) {
+          // Credentials or host key changed - connections opened with the old ones must go too
+          this.evict(key);
+        }
+        return result;
+      }
+
+      entry.connection = result.connection;
+      result.connection.client.setMaxListeners(MAX_CLOSE_LISTENERS);
+      result.connection.client.once("close", () => {
+        // Dropped by the server or after missed keepalives
+        logger.debug(`Pooled SSH connection to ${entry.label} closed`);
+        if (entry.idleTimer) clearTimeout(entry.idleTimer);
+        this.remove(entry);
+      });
+      logger.debug(`Opened pooled SSH connection to ${entry.label}`);
+      return result;
+    });
+
+    const entry: PoolEntry = { key, label, ready, active: 0, used: false, retired: false };
+    return entry;
+  }
+
+  private release(entry: PoolEntry): void {
+    entry.active--;
+    entry.used = true;
+    if (entry.active > 0) return;
+
+    if (entry.retired) {
+      this.remove(entry);
+      entry.connection?.close();
+      return;
+    }
+    entry.idleTimer = setTimeout(() => {
+      logger.debug(`Closing idle SSH connection to ${entry.label}`);
+      this.remove(entry);
+      entry.connection?.close();
+    }, this.config.idleTimeoutMs);
+  }
+
+  /**
+   * Stop handing out connections for a key and close the idle ones
+   */
+  private evict(key: string): void {
+    for (const entry of [...(this.entries.get(key) ?? [])]) {
+      entry.retired = true;
+      if (entry.active === 0) {
+        if (entry.idleTimer) clearTimeout(entry.idleTimer);
+        this.remove(entry);
+        entry.connection?.close();
+      }
+    }
+  }
+
+  private remove(entry: PoolEntry): void {
+    const entries = this.entries.get(entry.key);
+    if (!entries) return;
+    const remaining = entries.filter((e) => e !== entry);
+    if (remaining.length > 0) {
+      this.entries.set(entry.key, remaining);
+    } else {
+      this.entries.delete(entry.key);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { SshTargetRegistry, parseSshTargets } from "./sshTargets";
+
+// Mock logger
+vi.mock("./logger", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("parseSshTargets", () => {
+  it("accepts target objects and fills in the default port", () => {
+    const targets = parseSshTargets({
+      targets: [
+        {
+          host: "db1.internal",
+          username: "ops",
+          credentialName: "db-key",
+          hostKeyFingerprint: "SHA256:abc",
+          forwardAgent: true,
+        },
+      ],
+    });
+
+    expect(targets).toEqual([
+      {
+        host: "db1.internal",
+        port: 22,
+        username: "ops",
+        credentialName: "db-key",
+        hostKeyFingerprint: "SHA256:abc",
+        forwardAgent: true,
+      },
+    ]);
+  });
+
+  it("parses [user@]host[:port] shorthand strings", () => {
+    expect(parseSshTargets({ targets: ["host1", "deploy@host2:2222"] })).toEqual([
+      { host: "host1", port: 22, username: undefined },
+      { host: "host2", port: 2222, username: "deploy" },
+    ]);
+  });
+
+  it("parses jump hosts as shorthand strings or objects", () => {
+    const [target] = parseSshTargets({
+      targets: [
+        {
+          host: "db1.restricted",
+          jumpHosts: ["ops@bastion.dmz", { host: "gw.restricted", port: 2222, credentialName: "gw-key" }],
+        },
+      ],
+    });
+
+    expect(target.jumpHosts).toEqual([
+      { host: "bastion.dmz", port: 22, username: "ops" },
+      { host: "gw.restricted", port: 2222, credentialName: "gw-key" },
+    ]);
+  });
+
+  it("rejects invalid payloads", () => {
+    expect(() => parseSshTargets({ hosts: ["host1"] })).toThrow("requires a targets array");
+    expect(() => parseSshTargets({ targets: [{ port: 22 }] })).toThrow("host is required");
+    expect(() => parseSshTargets({ targets: [{ host: "h", port: 70000 }] })).toThrow(
+      "port must be between"
+    );
+    expect(() => parseSshTargets({ targets: ["host1", "HOST1:22"] })).toThrow("duplicate target");
+    expect(() => parseSshTargets({ targets: [{ host: "h", forwardAgent: "yes" }] })).toThrow(
+      "forwardAgent must be a boolean"
+    );
+    expect(() => parseSshTargets({ targets: [{ host: "h", jumpHosts: "bastion" }] })).toThrow(
+      "jumpHosts must be an array"
+    );
+    expect(() => parseSshTargets({ targets: [{ host: "h", jumpHosts: [{ port: 22 }] }] })).toThrow(
+      "Target 0: jump host 0 requires a host"
+    );
+  });
+});
+
+describe("SshTargetRegistry", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = path.join(os.tmpdir(), `relay-ssh-targets-test-${Date.now()}`);
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("allows every target until a registry is pushed", () => {
+    const registry = new SshTargetRegistry(testDir);
+    registry.load();
+
+    expect(registry.list()).toBeNull();
+    expect(registry.check("anywhere", 22).allowed).toBe(true);
+  });
+
+  it("only allows registered host and port combinations", () => {
+    const registry = new SshTargetRegistry(testDir);
+    registry.update({ targets: [{ host: "db1.internal", port: 2222, username: "ops" }] });
+
+    const check = registry.check("DB1.internal", 2222);
+    expect(check.allowed).toBe(true);
+    expect(check.target?.username).toBe("ops");
+
+    expect(registry.check("db1.internal", 22)).toEqual({
+      allowed: false,
+      reason: "db1.internal:22 is not a registered SSH target",
+    });
+    expect(registry.check("db2.internal", 2222).allowed).toBe(false);
+  });
+
+  it("persists the registry across restarts", () => {
+    const registry = new SshTargetRegistry(testDir);
+    registry.update({ targets: ["ops@db1.internal"] });
+
+    const restarted = new SshTargetRegistry(testDir);
+    restarted.load();
+
+    expect(restarted.list()).toEqual([{ host: "db1.internal", port: 22, username: "ops" }]);
+  });
+
+  it("keeps the current registry when an update is invalid", () => {
+    const registry = new SshTargetRegistry(testDir);
+    registry.update({ targets: ["db1.internal"] });
+
+    expect(() => registry.update({ targets: [{}] })).toThrow();
+    expect(registry.check("db1.internal", 22).allowed).toBe(true);
+  });
+
+  it("refuses every target if the persisted registry is corrupt", () => {
+    fs.writeFileSync(path.join(testDir, "ssh-targets.json"), "{not json");
+
+    const registry = new SshTargetRegistry(testDir);
+    registry.load();
+
+    expect(registry.list()).toEqual([]);
+    expect(registry.check("db1.internal", 22).allowed).toBe(false);
+  });
+});
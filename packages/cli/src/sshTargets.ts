@@ -0,0 +1,202 @@
+import { logger } from "./logger.js";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+// Host an SSH connection is tunnelled through on the way to its target
+export interface SshJumpHost {
+  host: string;
+  port: number;
+  username?: string;
+  credentialName?: string; // Credential for this hop instead of matching by host
+}
+
+export interface SshTarget {
+  host: string;
+  port: number;
+  username?: string; // Default username when the command doesn't name one
+  credentialName?: string; // Credential to authenticate with instead of matching by host
+  hostKeyFingerprint?: string; // Expected host key, OpenSSH format ("SHA256:...")
+  forwardAgent?: boolean; // Forward the relay's ssh-agent to commands on this target
+  jumpHosts?: SshJumpHost[]; // Jump hosts to reach the target through, in order
+}
+
+export interface SshTargetCheck {
+  allowed: boolean;
+  target?: SshTarget; // Registry entry for the target, if any
+  reason?: string;
+}
+
+// Error code reported with results of SSH commands to unregistered targets
+export const SSH_TARGET_DENIED_ERROR_CODE = "ssh_target_denied";
+
+/**
+ * Parse a "[user@]host[:port]" shorthand target
+ */
+function parseTargetString(value: string): SshTarget {
+  const match = /^(?:([^@\s]+)@)?([^@:\s]+)(?::(\d+))?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid SSH target: ${value}`);
+  }
+  return {
+    host: match[2],
+    port: match[3] ? Number(match[3]) : 22,
+    username: match[1],
+  };
+}
+
+/**
+ * Validate a jump host list. Jump hosts are either "[user@]host[:port]" strings
+ * or objects with the SshJumpHost fields.
+ */
+export function parseJumpHosts(value: unknown, label: string): SshJumpHost[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${label}: jumpHosts must be an array`);
+  }
+  return value.map((entry, i) => {
+    if (typeof entry === "string") {
+      return parseTargetString(entry);
+    }
+    const hop = (entry ?? {}) as Partial<SshJumpHost>;
+    if (typeof hop.host !== "string" || hop.host.length === 0) {
+      throw new Error(`${label}: jump host ${i} requires a host`);
+    }
+    const port = hop.port ?? 22;
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`${label}: jump host ${i} port must be between 1 and 65535`);
+    }
+    for (const field of ["username", "credentialName"] as const) {
+      if (hop[field] !== undefined && typeof hop[field] !== "string") {
+        throw new Error(`${label}: jump host ${i} ${field} must be a string`);
+      }
+    }
+    return { host: hop.host, port, username: hop.username, credentialName: hop.credentialName };
+  });
+}
+
+/**
+ * Validate an ssh_targets push payload.
+ * Targets are either "[user@]host[:port]" strings or objects with the SshTarget fields.
+ */
+export function parseSshTargets(payload: unknown): SshTarget[] {
+  const raw = payload as { targets?: unknown } | null;
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.targets)) {
+    throw new Error("SSH targets payload requires a targets array");
+  }
+
+  const seen = new Set<string>();
+  return raw.targets.map((entry, i) => {
+    let target: SshTarget;
+    if (typeof entry === "string") {
+      target = parseTargetString(entry);
+    } else if (entry && typeof entry === "object") {
+      const t = entry as Partial<SshTarget>;
+      if (typeof t.host !== "string" || t.host.length === 0) {
+        throw new Error(`Target ${i}: host is required`);
+      }
+      const port = t.port ?? 22;
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(`Target ${i}: port must be between 1 and 65535`);
+      }
+      for (const field of ["username", "credentialName", "hostKeyFingerprint"] as const) {
+        if (t[field] !== undefined && typeof t[field] !== "string") {
+          throw new Error(`Target ${i}: ${field} must be a string`);
+        }
+      }
+      if (t.forwardAgent !== undefined && typeof t.forwardAgent !== "boolean") {
+        throw new Error(`Target ${i}: forwardAgent must be a boolean`);
+      }
+      target = {
+        host: t.host,
+        port,
+        username: t.username,
+        credentialName: t.credentialName,
+        hostKeyFingerprint: t.hostKeyFingerprint,
+        forwardAgent: t.forwardAgent,
+        jumpHosts: t.jumpHosts === undefined ? undefined : parseJumpHosts(t.jumpHosts, `Target ${i}`),
+      };
+    } else {
+      throw new Error(`Target ${i}: must be a string or an object`);
+    }
+
+    const key = `${target.host.toLowerCase()}:${target.port}`;
+    if (seen.has(key)) {
+      throw new Error(`Target ${i}: duplicate target ${key}`);
+    }
+    seen.add(key);
+    return target;
+  });
+}
+
+/**
+ * Registry of SSH targets this relay accepts, pushed from the center and
+ * persisted next to the credential store so it survives relay restarts
+ */
+export class SshTargetRegistry {
+  private storePath: string;
+  private targets: SshTarget[] | null = null;
+
+  constructor(storeDir?: string) {
+    const dir = storeDir || path.join(os.homedir(), ".remote-cmd-relay");
+    this.storePath = path.join(dir, "ssh-targets.json");
+  }
+
+  /**
+   * Load the persisted registry, if any
+   */
+  load(): void {
+    if (!fs.existsSync(this.storePath)) return;
+
+    try {
+      const content = fs.readFileSync(this.storePath, "utf8");
+      this.targets = parseSshTargets(JSON.parse(content));
+      logger.info("Loaded SSH target registry", { targetCount: this.targets.length });
+    } catch (err) {
+      // Fail closed - a corrupt registry must not silently allow every host
+      this.targets = [];
+      logger.error("Failed to load SSH target registry, refusing all SSH targets", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * Replace the registry with a pushed payload and persist it.
+   * Throws if the payload is invalid; the current registry is kept in that case.
+   */
+  update(payload: unknown): SshTarget[] {
+    const targets = parseSshTargets(payload);
+
+    const dir = path.dirname(this.storePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+    fs.writeFileSync(this.storePath, JSON.stringify({ targets }, null, 2), { mode: 0o600 });
+
+    this.targets = targets;
+    logger.info("Updated SSH target registry", { targetCount: targets.length });
+    return targets;
+  }
+
+  /**
+   * Registered targets, or null if no registry was pushed
+   */
+  list(): SshTarget[] | null {
+    return this.targets ? [...this.targets] : null;
+  }
+
+  /**
+   * Check whether an SSH target may be used. Every target is allowed until a registry is pushed.
+   */
+  check(host: string, port: number): SshTargetCheck {
+    if (!this.targets) return { allowed: true };
+
+    const target = this.targets.find(
+      (t) => t.host.toLowerCase() === host.toLowerCase() && t.port === port
+    );
+    if (!target) {
+      return { allowed: false, reason: `${host}:${port} is not a registered SSH target` };
+    }
+    return { allowed: true, target };
+  }
+}
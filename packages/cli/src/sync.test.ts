@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { SyncManager } from "./sync";
+import type { CommandPolicyStore } from "./policy";
+import type { SshTargetRegistry } from "./sshTargets";
+import type { HostKeyVerifier } from "./hostKeys";
+import type { SshConnectionPool } from "./sshPool";
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -189,6 +193,89 @@ describe("SyncManager", () => {
       expect(result).toBe(true);
     });
 
+    it("stores ssh_targets pushes in the SSH target registry", async () => {
+      const sshTargets = { update: vi.fn() };
+      syncManager = new SyncManager({
+        convexUrl: "https://test.convex.cloud",
+        apiKey: "test-api-key",
+        relayId: "relay-123",
+        sshTargets: sshTargets as unknown as SshTargetRegistry,
+      });
+      const payload = { targets: [{ host: "db1.internal", port: 2222, username: "ops" }] };
+
+      const result = await syncManager.processConfigPush({
+        _id: "push-1",
+        pushType: "ssh_targets",
+        payload: JSON.stringify(payload),
+        createdAt: Date.now(),
+      });
+
+      expect(result).toBe(true);
+      expect(sshTargets.update).toHaveBeenCalledWith(payload);
+    });
+
+    it("fails ssh_targets pushes the registry rejects", async () => {
+      const sshTargets = {
+        update: vi.fn(() => {
+          throw new Error("SSH targets payload requires a targets array");
+        }),
+      };
+      syncManager = new SyncManager({
+        convexUrl: "https://test.convex.cloud",
+        apiKey: "test-api-key",
+        relayId: "relay-123",
+        sshTargets: sshTargets as unknown as SshTargetRegistry,
+      });
+
+      const result = await syncManager.processConfigPush({
+        _id: "push-1",
+        pushType: "ssh_targets",
+        payload: JSON.stringify({ hosts: ["host1"] }),
+        createdAt: Date.now(),
+      });
+
+      expect(result).toBe(false);
+    });
+
+    it("applies host_keys pushes to the host key verifier", async () => {
+      const hostKeys = { applyPush: vi.fn().mockResolvedValue(undefined) };
+      syncManager = new SyncManager({
+        convexUrl: "https://test.convex.cloud",
+        apiKey: "test-api-key",
+        relayId: "relay-123",
+        hostKeys: hostKeys as unknown as HostKeyVerifier,
+      });
+      const payload = { pin: [{ host: "db1.internal", port: 22, fingerprint: "SHA256:abc" }] };
+
+      const result = await syncManager.processConfigPush({
+        _id: "push-1",
+        pushType: "host_keys",
+        payload: JSON.stringify(payload),
+        createdAt: Date.now(),
+      });
+
+      expect(result).toBe(true);
+      expect(hostKeys.applyPush).toHaveBeenCalledWith(payload);
+    });
+
+    it("retires pooled SSH connections once SSH targets or host keys change", async () => {
+      const sshPool = { retireAll: vi.fn() };
+      syncManager = new SyncManager({
+        convexUrl: "https://test.convex.cloud",
+        apiKey: "test-api-key",
+        relayId: "relay-123",
+        sshTargets: { update: vi.fn() } as unknown as SshTargetRegistry,
+        hostKeys: { applyPush: vi.fn().mockResolvedValue(undefined) } as unknown as HostKeyVerifier,
+        sshPool: sshPool as unknown as SshConnectionPool,
+      });
+
+      for (const pushType of ["ssh_targets", "host_keys"]) {
+        await syncManager.processConfigPush({ _id: "push-1", pushType, payload: "{}", createdAt: Date.now() });
+      }
+
+      expect(sshPool.retireAll).toHaveBeenCalledTimes(2);
+    });
+
     it("processes allowed_commands push", async () => {
       const push = {
         _id: "push-1",
@@ -202,6 +289,50 @@ describe("SyncManager", () => {
       expect(result).toBe(true);
     });
 
+    it("stores allowed_commands pushes in the command policy store", async () => {
+      const commandPolicy = { update: vi.fn() };
+      syncManager = new SyncManager({
+        convexUrl: "https://test.convex.cloud",
+        apiKey: "test-api-key",
+        relayId: "relay-123",
+        commandPolicy: commandPolicy as unknown as CommandPolicyStore,
+      });
+      const payload = { version: "v1", rules: [{ action: "allow", match: "exact", pattern: "ls" }] };
+
+      const result = await syncManager.processConfigPush({
+        _id: "push-1",
+        pushType: "allowed_commands",
+        payload: JSON.stringify(payload),
+        createdAt: Date.now(),
+      });
+
+      expect(result).toBe(true);
+      expect(commandPolicy.update).toHaveBeenCalledWith(payload);
+    });
+
+    it("fails allowed_commands pushes the policy store rejects", async () => {
+      const commandPolicy = {
+        update: vi.fn(() => {
+          throw new Error("Rule 0: pattern is required");
+        }),
+      };
+      syncManager = new SyncManager({
+        convexUrl: "https://test.convex.cloud",
+        apiKey: "test-api-key",
+        relayId: "relay-123",
+        commandPolicy: commandPolicy as unknown as CommandPolicyStore,
+      });
+
+      const result = await syncManager.processConfigPush({
+        _id: "push-1",
+        pushType: "allowed_commands",
+        payload: JSON.stringify({ rules: [{ action: "allow", match: "exact" }] }),
+        createdAt: Date.now(),
+      });
+
+      expect(result).toBe(false);
+    });
+
     it("processes metrics_interval push", async () => {
       const push = {
         _id: "push-1",
@@ -1,5 +1,9 @@
 import { logger } from "./logger.js";
 import { credentialManager, type CredentialType } from "./credentials.js";
+import type { CommandPolicyStore } from "./policy.js";
+import type { SshTargetRegistry } from "./sshTargets.js";
+import type { HostKeyVerifier } from "./hostKeys.js";
+import type { SshConnectionPool } from "./sshPool.js";
 
 export interface ConfigPush {
   _id: string;
@@ -20,6 +24,10 @@ export interface SyncConfig {
   convexUrl: string;
   apiKey: string;
   relayId: string;
+  commandPolicy?: CommandPolicyStore; // Store that enforces allowed_commands pushes
+  sshTargets?: SshTargetRegistry; // Registry that enforces ssh_targets pushes
+  hostKeys?: HostKeyVerifier; // Known hosts updated by host_keys pushes
+  sshPool?: SshConnectionPool; // Pooled connections, retired when SSH targets or host keys change
 }
 
 /**
@@ -154,6 +162,8 @@ export class SyncManager {
           return await this.handleAllowedCommandsPush(payload);
         case "metrics_interval":
           return await this.handleMetricsIntervalPush(payload);
+        case "host_keys":
+          return await this.handleHostKeysPush(payload);
         default:
           logger.warn(`Unknown config push type: ${push.pushType}`);
           return false;
@@ -205,28 +215,63 @@ export class SyncManager {
   /**
    * Handle SSH targets configuration push
    */
-  private async handleSshTargetsPush(
-    payload: { targets: string[] }
-  ): Promise<boolean> {
-    // Store SSH targets configuration
-    // This could be stored in a local config file or memory
-    logger.info("Updated SSH targets configuration", {
-      targetCount: payload.targets.length,
-    });
-    return true;
+  private async handleSshTargetsPush(payload: unknown): Promise<boolean> {
+    if (!this.config.sshTargets) {
+      logger.warn("Ignoring SSH targets push: no SSH target registry configured");
+      return true;
+    }
+
+    try {
+      this.config.sshTargets.update(payload);
+      this.config.sshPool?.retireAll();
+      return true;
+    } catch (err) {
+      logger.error("Rejected SSH targets push", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return false;
+    }
   }
 
   /**
    * Handle allowed commands configuration push
    */
-  private async handleAllowedCommandsPush(
-    payload: { commands: string[] }
-  ): Promise<boolean> {
-    // Store allowed commands configuration
-    logger.info("Updated allowed commands configuration", {
-      commandCount: payload.commands.length,
-    });
-    return true;
+  private async handleAllowedCommandsPush(payload: unknown): Promise<boolean> {
+    if (!this.config.commandPolicy) {
+      logger.warn("Ignoring allowed commands push: no command policy store configured");
+      return true;
+    }
+
+    try {
+      this.config.commandPolicy.update(payload);
+      return true;
+    } catch (err) {
+      logger.error("Rejected allowed commands push", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Handle host key pin/rotate push
+   */
+  private async handleHostKeysPush(payload: unknown): Promise<boolean> {
+    if (!this.config.hostKeys) {
+      logger.warn("Ignoring host keys push: no host key verifier configured");
+      return true;
+    }
+
+    try {
+      await this.config.hostKeys.applyPush(payload);
+      this.config.sshPool?.retireAll();
+      return true;
+    } catch (err) {
+      logger.error("Rejected host keys push", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return false;
+    }
   }
 
   /**
@@ -9,6 +9,7 @@ export const create = mutation({
     apiKeyId: v.string(),
     machineId: v.string(),
     name: v.string(),
+    tags: v.optional(v.array(v.string())), // Labels for picking relays in batches, e.g. "web"
     createdBy: v.string(),
   },
   returns: v.id("relayAssignments"),
@@ -30,6 +31,7 @@ export const create = mutation({
       machineId: args.machineId,
       name: args.name,
       enabled: true,
+      tags: args.tags,
       createdBy: args.createdBy,
       createdAt: now,
       updatedAt: now,
@@ -51,6 +53,7 @@ export const getByApiKeyId = query({
       machineId: v.string(),
       name: v.string(),
       enabled: v.boolean(),
+      tags: v.optional(v.array(v.string())),
       lastSeenAt: v.optional(v.number()),
       createdBy: v.string(),
       createdAt: v.number(),
@@ -72,6 +75,7 @@ export const getByApiKeyId = query({
       machineId: assignment.machineId,
       name: assignment.name,
       enabled: assignment.enabled,
+      tags: assignment.tags,
       lastSeenAt: assignment.lastSeenAt,
       createdBy: assignment.createdBy,
       createdAt: assignment.createdAt,
@@ -94,6 +98,7 @@ export const listByMachineId = query({
       machineId: v.string(),
       name: v.string(),
       enabled: v.boolean(),
+      tags: v.optional(v.array(v.string())),
       lastSeenAt: v.optional(v.number()),
       createdBy: v.string(),
       createdAt: v.number(),
@@ -112,6 +117,7 @@ export const listByMachineId = query({
       machineId: a.machineId,
       name: a.name,
       enabled: a.enabled,
+      tags: a.tags,
       lastSeenAt: a.lastSeenAt,
       createdBy: a.createdBy,
       createdAt: a.createdAt,
@@ -128,6 +134,7 @@ export const update = mutation({
     id: v.id("relayAssignments"),
     name: v.optional(v.string()),
     enabled: v.optional(v.boolean()),
+    tags: v.optional(v.array(v.string())), // Replaces the current tags
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -181,6 +188,7 @@ export const listAll = query({
       machineId: v.string(),
       name: v.string(),
       enabled: v.boolean(),
+      tags: v.optional(v.array(v.string())),
       lastSeenAt: v.optional(v.number()),
       createdBy: v.string(),
       createdAt: v.number(),
@@ -199,6 +207,7 @@ export const listAll = query({
       machineId: a.machineId,
       name: a.name,
       enabled: a.enabled,
+      tags: a.tags,
       lastSeenAt: a.lastSeenAt,
       createdBy: a.createdBy,
       createdAt: a.createdAt,
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createRelayTestConvex, RelayTestConvex } from "./test.setup";
+import { api } from "./_generated/api";
+import { createMockRelayAssignment, createMockRelayStatus } from "./test.helpers";
+import type { Id } from "./_generated/dataModel";
+
+describe("batches", () => {
+  let t: RelayTestConvex;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    t = createRelayTestConvex();
+  });
+
+  afterEach(async () => {
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+  });
+
+  const createBatch = (extra: Record<string, unknown> = {}) =>
+    t.mutation(api.batches.create, {
+      machineIds: ["machine-1", "machine-2", "machine-3"],
+      command: "systemctl reload nginx",
+      targetType: "local",
+      createdBy: "user-1",
+      ...extra,
+    });
+
+  const getBatch = async (id: Id<"commandBatches">) => (await t.query(api.batches.get, { id }))!;
+
+  // Finish a machine's command and let the batch react to it
+  const finish = async (id: Id<"commandBatches">, machineId: string, exitCode: number, success = exitCode === 0) => {
+    const result = (await getBatch(id)).results.find((r) => r.machineId === machineId)!;
+    await t.mutation(api.commands.complete, {
+      id: result.commandId!,
+      success,
+      output: `done on ${machineId}`,
+      exitCode,
+    });
+    vi.advanceTimersByTime(0);
+    await t.finishInProgressScheduledFunctions();
+  };
+
+  it("queues the command on every machine and completes once all succeed", async () => {
+    const batchId = await createBatch({ machineIds: ["machine-1", "machine-2", "machine-1"] });
+
+    let batch = await getBatch(batchId);
+    expect(batch.status).toBe("running");
+    expect(batch.results.map((r) => [r.machineId, r.status])).toEqual([
+      ["machine-1", "pending"],
+      ["machine-2", "pending"],
+    ]);
+
+    await finish(batchId, "machine-1", 0);
+    await finish(batchId, "machine-2", 0);
+
+    batch = await getBatch(batchId);
+    expect(batch.status).toBe("completed");
+    expect(batch.results[1]).toMatchObject({ status: "completed", success: true, exitCode: 0 });
+    expect(batch.results[1]).not.toHaveProperty("output");
+    const machine2 = await t.query(api.rpc.getCommandResult, { commandId: batch.results[1].commandId! });
+    expect(machine2).toMatchObject({ found: true, output: "done on machine-2" });
+    expect(batch.summary).toEqual({ total: 2, succeeded: 2, failed: 0, running: 0, waiting: 0, skipped: 0 });
+  });
+
+  it("rolls out to the next machine as each one finishes", async () => {
+    const batchId = await createBatch({ maxConcurrency: 2 });
+
+    let batch = await getBatch(batchId);
+    expect(batch.results.map((r) => r.status)).toEqual(["pending", "pending", "waiting"]);
+
+    await finish(batchId, "machine-2", 1);
+
+    batch = await getBatch(batchId);
+    expect(batch.results.map((r) => r.status)).toEqual(["pending", "failed", "pending"]);
+
+    await finish(batchId, "machine-1", 0);
+    await finish(batchId, "machine-3", 0);
+
+    batch = await getBatch(batchId);
+    expect(batch.status).toBe("failed");
+    expect(batch.summary).toMatchObject({ succeeded: 2, failed: 1 });
+  });
+
+  it("stops the rollout at the first failure", async () => {
+    const batchId = await createBatch({ maxConcurrency: 1, stopOnFailure: true });
+
+    // A non-zero exit counts as a failure
+    await finish(batchId, "machine-1", 2, true);
+
+    const batch = await getBatch(batchId);
+    expect(batch.status).toBe("stopped");
+    expect(batch.results.map((r) => r.status)).toEqual(["completed", "skipped", "skipped"]);
+    expect(batch.results[0]).toMatchObject({ success: false, exitCode: 2 });
+    expect(batch.summary).toMatchObject({ failed: 1, skipped: 2 });
+  });
+
+  it("targets enabled relays by tag and capability", async () => {
+    const web1 = await createMockRelayAssignment(t, { apiKeyId: "key-1", machineId: "web-1" });
+    const web2 = await createMockRelayAssignment(t, { apiKeyId: "key-2", machineId: "web-2" });
+    const db1 = await createMockRelayAssignment(t, { apiKeyId: "key-3", machineId: "db-1" });
+    const web3 = await createMockRelayAssignment(t, { apiKeyId: "key-4", machineId: "web-3" });
+    await t.mutation(api.assignments.update, { id: web1._id, tags: ["web"] });
+    await t.mutation(api.assignments.update, { id: web2._id, tags: ["web", "eu"] });
+    await t.mutation(api.assignments.update, { id: db1._id, tags: ["db"] });
+    await t.mutation(api.assignments.update, { id: web3._id, tags: ["web"], enabled: false });
+    await createMockRelayStatus(t, { relayId: web1._id, capabilities: ["local_cmd"] });
+    await createMockRelayStatus(t, { relayId: web2._id, capabilities: ["local_cmd", "unshare"] });
+
+    const byTag = await getBatch(await createBatch({ machineIds: undefined, tag: "web" }));
+    expect(byTag.results.map((r) => r.machineId).sort()).toEqual(["web-1", "web-2"]);
+
+    const byBoth = await getBatch(await createBatch({ machineIds: undefined, tag: "web", capability: "unshare" }));
+    expect(byBoth.results.map((r) => r.machineId)).toEqual(["web-2"]);
+
+    await expect(createBatch({ machineIds: undefined, tag: "cache" })).rejects.toThrow(
+      "No enabled relays match the batch's tag / capability"
+    );
+  });
+
+  it("cancels queued commands and skips the machines not reached", async () => {
+    const batchId = await createBatch({ maxConcurrency: 2 });
+
+    const result = await t.mutation(api.batches.cancel, { id: batchId, cancelledBy: "user-2" });
+    expect(result).toEqual({ success: true });
+
+    vi.advanceTimersByTime(0);
+    await t.finishInProgressScheduledFunctions();
+
+    const batch = await getBatch(batchId);
+    expect(batch.status).toBe("cancelled");
+    expect(batch.results.map((r) => r.status)).toEqual(["cancelled", "cancelled", "skipped"]);
+
+    expect(await t.mutation(api.batches.cancel, { id: batchId, cancelledBy: "user-2" })).toEqual({
+      success: false,
+      error: "Batch already finished",
+    });
+  });
+
+  it("rejects invalid batches", async () => {
+    await expect(createBatch({ tag: "web" })).rejects.toThrow(
+      "Pass either machineIds or a tag / capability, not both"
+    );
+    await expect(createBatch({ machineIds: undefined })).rejects.toThrow("Pass machineIds, a tag or a capability");
+    await expect(createBatch({ machineIds: [] })).rejects.toThrow("machineIds must not be empty");
+    await expect(createBatch({ maxConcurrency: 0 })).rejects.toThrow("maxConcurrency must be a positive integer");
+    await expect(createBatch({ command: undefined })).rejects.toThrow("Pass a command or argv");
+  });
+});
@@ -0,0 +1,397 @@
+import { v, type Infer } from "convex/values";
+import { mutation, query, internalMutation, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  batchStatusValidator,
+  capabilityValidator,
+  commandErrorCodeValidator,
+  commandShellValidator,
+  commandStatusValidator,
+  executionProfileValidator,
+  jumpHostValidator,
+  outputLimitValidator,
+  targetTypeValidator,
+} from "./schema";
+import {
+  cancelCommand,
+  commandSucceeded,
+  insertCommand,
+  invocationCommand,
+  isFinishedStatus,
+  validateCommand,
+} from "./commands";
+
+// Most machines a single batch may target
+export const MAX_BATCH_MACHINES = 500;
+
+// Where one machine of a batch is: its command's status, or "waiting" to be
+// queued, or "skipped" because the batch stopped or was cancelled first
+const batchMachineStatusValidator = v.union(
+  commandStatusValidator,
+  v.literal("waiting"),
+  v.literal("skipped")
+);
+
+const batchMachineResultValidator = v.object({
+  machineId: v.string(),
+  status: batchMachineStatusValidator,
+  success: v.boolean(), // Completed with exit code 0
+  commandId: v.optional(v.id("commandQueue")), // Output is in rpc.getCommandResult / rpc.getCommandStream
+  exitCode: v.optional(v.number()),
+  signal: v.optional(v.string()),
+  error: v.optional(v.string()),
+  errorCode: v.optional(commandErrorCodeValidator),
+  durationMs: v.optional(v.number()),
+});
+
+const batchSummaryValidator = v.object({
+  total: v.number(),
+  succeeded: v.number(),
+  failed: v.number(), // Finished without succeeding: failed, non-zero exit, timed out or cancelled
+  running: v.number(), // Queued and not finished yet
+  waiting: v.number(),
+  skipped: v.number(),
+});
+
+type BatchMachineResult = Infer<typeof batchMachineResultValidator>;
+
+/**
+ * Wake a finished command's batch, if it has one, so the batch can queue
+ * its next machines
+ */
+export async function scheduleBatchAdvance(
+  ctx: MutationCtx,
+  cmd: Pick<Doc<"commandQueue">, "batchId">
+): Promise<void> {
+  if (cmd.batchId) {
+    await ctx.scheduler.runAfter(0, internal.batches.advanceBatch, { batchId: cmd.batchId });
+  }
+}
+
+/**
+ * Machines with an enabled relay that has the tag and reports the capability
+ */
+async function selectMachines(
+  ctx: MutationCtx,
+  selector: { tag?: string; capability?: Doc<"relayStatus">["capabilities"][number] }
+): Promise<string[]> {
+  const assignments = await ctx.db
+    .query("relayAssignments")
+    .withIndex("by_enabled", (q) => q.eq("enabled", true))
+    .collect();
+
+  const machineIds: string[] = [];
+  for (const assignment of assignments) {
+    if (selector.tag !== undefined && !assignment.tags?.includes(selector.tag)) continue;
+    if (selector.capability !== undefined) {
+      const status = await ctx.db
+        .query("relayStatus")
+        .withIndex("by_relayId", (q) => q.eq("relayId", assignment._id))
+        .first();
+      if (!status?.capabilities.includes(selector.capability)) continue;
+    }
+    machineIds.push(assignment.machineId);
+  }
+  return machineIds;
+}
+
+/**
+ * Commands of a batch, by machine
+ */
+async function batchCommands(
+  ctx: QueryCtx,
+  batchId: Id<"commandBatches">
+): Promise<Map<string, Doc<"commandQueue">>> {
+  const commands = await ctx.db
+    .query("commandQueue")
+    .withIndex("by_batchId", (q) => q.eq("batchId", batchId))
+    .collect();
+  return new Map(commands.map((cmd) => [cmd.machineId, cmd]));
+}
+
+/**
+ * Queue the batch's command on its next machines, up to its concurrency
+ * limit, or record how it ended once every queued command has finished.
+ * Safe to run any number of times.
+ */
+async function advance(ctx: MutationCtx, batchId: Id<"commandBatches">): Promise<void> {
+  const batch = await ctx.db.get(batchId);
+  if (!batch || batch.status !== "running") return;
+
+  const commands = [...(await batchCommands(ctx, batchId)).values()];
+  const anyFailed = commands.some((cmd) => isFinishedStatus(cmd.status) && !commandSucceeded(cmd));
+  let running = commands.filter((cmd) => !isFinishedStatus(cmd.status)).length;
+  let queuedCount = batch.queuedCount;
+  const now = Date.now();
+
+  if (anyFailed && batch.stopOnFailure) {
+    // Commands a relay hasn't picked up yet are dropped; running ones finish
+    for (const cmd of commands) {
+      if (cmd.status === "pending") {
+        await cancelCommand(ctx, cmd, `batch:${batchId}`);
+        running--;
+      }
+    }
+  } else {
+    const slots = Math.min(
+      (batch.maxConcurrency ?? batch.machineIds.length) - running,
+      batch.machineIds.length - queuedCount
+    );
+    for (let i = 0; i < slots; i++) {
+      await insertCommand(ctx, {
+        machineId: batch.machineIds[queuedCount],
+        command: invocationCommand(batch),
+        argv: batch.argv,
+        cwd: batch.cwd,
+        env: batch.env,
+        shell: batch.shell,
+        stdin: batch.stdin,
+        stdinStorageId: batch.stdinStorageId,
+        outputLimit: batch.outputLimit,
+        executionProfile: batch.executionProfile,
+        targetType: batch.targetType,
+        targetHost: batch.targetHost,
+        targetPort: batch.targetPort,
+        targetUsername: batch.targetUsername,
+        jumpHosts: batch.jumpHosts,
+        timeoutMs: batch.timeoutMs,
+        queueTimeoutMs: batch.queueTimeoutMs,
+        maxAttempts: batch.maxAttempts,
+        priority: batch.priority,
+        batchId,
+        createdBy: batch.createdBy,
+      });
+      queuedCount++;
+      running++;
+    }
+  }
+
+  if (running > 0) {
+    if (queuedCount !== batch.queuedCount) {
+      await ctx.db.patch(batchId, { queuedCount, updatedAt: now });
+    }
+    return;
+  }
+
+  const stopped = queuedCount < batch.machineIds.length;
+  await ctx.db.patch(batchId, {
+    queuedCount,
+    status: stopped ? "stopped" : anyFailed ? "failed" : "completed",
+    completedAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Run one command on many machines: the listed machineIds, or every machine
+ * with an enabled relay that has the tag and/or reports the capability.
+ * At most maxConcurrency machines run at once - the next machine is queued
+ * as each command finishes. With stopOnFailure, the first command that
+ * doesn't complete with exit code 0 stops the rollout.
+ * Poll get for per-machine results.
+ */
+export const create = mutation({
+  args: {
+    name: v.optional(v.string()),
+    machineIds: v.optional(v.array(v.string())), // Target machines - pass these or a tag / capability
+    tag: v.optional(v.string()), // Target relays with this tag
+    capability: v.optional(capabilityValidator), // Target relays that report this capability
+    command: v.optional(v.string()), // Shell command - pass this or argv
+    argv: v.optional(v.array(v.string())), // Program and arguments, run without a shell
+    cwd: v.optional(v.string()),
+    env: v.optional(v.record(v.string(), v.string())),
+    shell: v.optional(commandShellValidator),
+    targetType: targetTypeValidator,
+    targetHost: v.optional(v.string()),
+    targetPort: v.optional(v.number()),
+    targetUsername: v.optional(v.string()),
+    jumpHosts: v.optional(v.array(jumpHostValidator)),
+    stdin: v.optional(v.string()),
+    stdinStorageId: v.optional(v.id("_storage")),
+    outputLimit: v.optional(outputLimitValidator),
+    executionProfile: v.optional(executionProfileValidator),
+    timeoutMs: v.optional(v.number()),
+    queueTimeoutMs: v.optional(v.number()),
+    maxAttempts: v.optional(v.number()),
+    priority: v.optional(v.number()),
+    maxConcurrency: v.optional(v.number()), // Machines running at once (default: all)
+    stopOnFailure: v.optional(v.boolean()), // Default: false
+    createdBy: v.string(),
+  },
+  returns: v.id("commandBatches"),
+  handler: async (ctx, args) => {
+    const { machineIds: listed, tag, capability, stopOnFailure, ...template } = args;
+
+    const error = await validateCommand(ctx, template);
+    if (error) {
+      throw new Error(error);
+    }
+    if (
+      template.maxConcurrency !== undefined &&
+      (!Number.isInteger(template.maxConcurrency) || template.maxConcurrency < 1)
+    ) {
+      throw new Error("maxConcurrency must be a positive integer");
+    }
+
+    if (listed !== undefined && (tag !== undefined || capability !== undefined)) {
+      throw new Error("Pass either machineIds or a tag / capability, not both");
+    }
+    if (listed === undefined && tag === undefined && capability === undefined) {
+      throw new Error("Pass machineIds, a tag or a capability");
+    }
+    const machineIds = [...new Set(listed ?? (await selectMachines(ctx, { tag, capability })))];
+    if (machineIds.length === 0) {
+      throw new Error(listed ? "machineIds must not be empty" : "No enabled relays match the batch's tag / capability");
+    }
+    if (machineIds.length > MAX_BATCH_MACHINES) {
+      throw new Error(`A batch may target at most ${MAX_BATCH_MACHINES} machines`);
+    }
+
+    const now = Date.now();
+    const batchId = await ctx.db.insert("commandBatches", {
+      ...template,
+      targetPort: template.targetPort ?? 22,
+      machineIds,
+      queuedCount: 0,
+      stopOnFailure: stopOnFailure ?? false,
+      status: "running",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await advance(ctx, batchId);
+    return batchId;
+  },
+});
+
+/**
+ * Get a batch with each machine's status and exit code, and a summary.
+ * Poll until status is no longer "running". Output is left out - a batch
+ * spans up to MAX_BATCH_MACHINES commands - so read a machine's output by
+ * its commandId with rpc.getCommandResult or rpc.getCommandStream.
+ */
+export const get = query({
+  args: {
+    id: v.id("commandBatches"),
+  },
+  returns: v.union(
+    v.object({
+      _id: v.id("commandBatches"),
+      name: v.optional(v.string()),
+      command: v.string(),
+      targetType: targetTypeValidator,
+      maxConcurrency: v.optional(v.number()),
+      stopOnFailure: v.boolean(),
+      status: batchStatusValidator,
+      results: v.array(batchMachineResultValidator),
+      summary: batchSummaryValidator,
+      createdBy: v.string(),
+      createdAt: v.number(),
+      updatedAt: v.number(),
+      completedAt: v.optional(v.number()),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const batch = await ctx.db.get(args.id);
+    if (!batch) return null;
+
+    const commands = await batchCommands(ctx, batch._id);
+    const summary = { total: batch.machineIds.length, succeeded: 0, failed: 0, running: 0, waiting: 0, skipped: 0 };
+    const results = batch.machineIds.map((machineId): BatchMachineResult => {
+      const cmd = commands.get(machineId);
+      if (!cmd) {
+        const status = batch.status === "running" ? "waiting" : "skipped";
+        summary[status]++;
+        return { machineId, status, success: false };
+      }
+
+      const success = commandSucceeded(cmd);
+      if (!isFinishedStatus(cmd.status)) summary.running++;
+      else if (success) summary.succeeded++;
+      else summary.failed++;
+
+      return {
+        machineId,
+        status: cmd.status,
+        success,
+        commandId: cmd._id,
+        exitCode: cmd.exitCode,
+        signal: cmd.signal,
+        error: cmd.error,
+        errorCode: cmd.errorCode,
+        durationMs: cmd.durationMs,
+      };
+    });
+
+    return {
+      _id: batch._id,
+      name: batch.name,
+      command: invocationCommand(batch),
+      targetType: batch.targetType,
+      maxConcurrency: batch.maxConcurrency,
+      stopOnFailure: batch.stopOnFailure,
+      status: batch.status,
+      results,
+      summary,
+      createdBy: batch.createdBy,
+      createdAt: batch.createdAt,
+      updatedAt: batch.updatedAt,
+      completedAt: batch.completedAt,
+    };
+  },
+});
+
+/**
+ * Cancel a batch: machines not queued yet are skipped and their queued
+ * commands are cancelled the same way commands.cancel does
+ */
+export const cancel = mutation({
+  args: {
+    id: v.id("commandBatches"),
+    cancelledBy: v.string(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const batch = await ctx.db.get(args.id);
+    if (!batch) {
+      return { success: false, error: "Batch not found" };
+    }
+    if (batch.status !== "running") {
+      return { success: false, error: "Batch already finished" };
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(batch._id, {
+      status: "cancelled",
+      cancelRequestedBy: args.cancelledBy,
+      completedAt: now,
+      updatedAt: now,
+    });
+    for (const cmd of (await batchCommands(ctx, batch._id)).values()) {
+      if (!isFinishedStatus(cmd.status)) {
+        await cancelCommand(ctx, cmd, args.cancelledBy);
+      }
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Scheduled when one of a batch's commands finishes
+ */
+export const advanceBatch = internalMutation({
+  args: {
+    batchId: v.id("commandBatches"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await advance(ctx, args.batchId);
+    return null;
+  },
+});
@@ -75,6 +75,145 @@ describe("command queue", () => {
         })
       ).rejects.toThrow("SSH target requires targetHost and targetUsername");
     });
+
+    it("hands the jump hosts of an SSH command to the relay that claims it", async () => {
+      const jumpHosts = [
+        { host: "bastion.dmz", username: "ops" },
+        { host: "gw.restricted", port: 2222, credentialName: "gw-key" },
+      ];
+      const commandId = await t.mutation(api.commands.queue, {
+        machineId: "machine-1",
+        command: "uptime",
+        targetType: "ssh",
+        targetHost: "db1.restricted",
+        targetUsername: "postgres",
+        jumpHosts,
+        createdBy: "user-1",
+      });
+
+      const claim = await t.mutation(api.public.claimCommand, { commandId, assignmentId: "relay-1" });
+
+      expect(claim.success).toBe(true);
+      if (claim.success) {
+        expect(claim.command.jumpHosts).toEqual(jumpHosts);
+      }
+    });
+
+    it("rejects invalid jump hosts", async () => {
+      const base = { machineId: "machine-1", command: "uptime", createdBy: "user-1" };
+
+      await expect(
+        t.mutation(api.commands.queue, { ...base, targetType: "local", jumpHosts: [{ host: "bastion" }] })
+      ).rejects.toThrow("Jump hosts require an SSH target");
+      await expect(
+        t.mutation(api.commands.queue, {
+          ...base,
+          targetType: "ssh",
+          targetHost: "db1",
+          targetUsername: "ops",
+          jumpHosts: [{ host: "bastion", port: 0 }],
+        })
+      ).rejects.toThrow("Jump host bastion port must be between 1 and 65535");
+    });
+
+    it("hands inline and stored stdin to the relay", async () => {
+      const base = { machineId: "machine-1", command: "jq .name", targetType: "local" as const, createdBy: "user-1" };
+      const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob(['{"name":"big"}'])));
+
+      const inline = await t.mutation(api.commands.queue, { ...base, stdin: '{"name":"app"}' });
+      const stored = await t.mutation(api.commands.queue, { ...base, stdinStorageId: storageId, priority: -1 });
+
+      const [first, second] = await t.query(api.public.getPendingCommands, { machineId: "machine-1" });
+      expect(first).toMatchObject({ _id: inline, stdin: '{"name":"app"}' });
+      expect(first.stdinUrl).toBeUndefined();
+      expect(second._id).toBe(stored);
+      expect(second.stdinUrl).toMatch(/^https:\/\//);
+    });
+
+    it("rejects oversized or ambiguous stdin", async () => {
+      const base = { machineId: "machine-1", command: "psql", targetType: "local" as const, createdBy: "user-1" };
+      const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob(["select 1;"])));
+
+      await expect(
+        t.mutation(api.commands.queue, { ...base, stdin: "x".repeat(64 * 1024 + 1) })
+      ).rejects.toThrow("stdin is over 65536 bytes, upload it and pass stdinStorageId instead");
+      await expect(
+        t.mutation(api.commands.queue, { ...base, stdin: "select 1;", stdinStorageId: storageId })
+      ).rejects.toThrow("Pass either stdin or stdinStorageId, not both");
+    });
+
+    it("stores argv with a quoted command line and hands the invocation to the relay", async () => {
+      const id = await t.mutation(api.commands.queue, {
+        machineId: "machine-1",
+        argv: ["grep", "-r", "it's; rm -rf /", "/var/log/app"],
+        cwd: "/srv/app",
+        env: { LC_ALL: "C", _TRACE: "1" },
+        targetType: "local",
+        createdBy: "user-1",
+      });
+
+      const [pending] = await t.query(api.public.getPendingCommands, { machineId: "machine-1" });
+      expect(pending).toMatchObject({
+        _id: id,
+        command: `grep -r 'it'\\''s; rm -rf /' /var/log/app`,
+        argv: ["grep", "-r", "it's; rm -rf /", "/var/log/app"],
+        cwd: "/srv/app",
+        env: { LC_ALL: "C", _TRACE: "1" },
+      });
+    });
+
+    it("hands the output limit to the relay", async () => {
+      const outputLimit = { maxBytes: 1024 * 1024, keep: "tail" as const, onLimit: "kill" as const };
+      const base = { machineId: "machine-1", command: "journalctl", targetType: "local" as const, createdBy: "user-1" };
+
+      await t.mutation(api.commands.queue, { ...base, outputLimit });
+      await expect(
+        t.mutation(api.commands.queue, { ...base, outputLimit: { maxBytes: 0 } })
+      ).rejects.toThrow("outputLimit.maxBytes must be a positive integer");
+
+      const [pending] = await t.query(api.public.getPendingCommands, { machineId: "machine-1" });
+      expect(pending.outputLimit).toEqual(outputLimit);
+    });
+
+    it("hands the execution profile to the relay for local commands only", async () => {
+      const executionProfile = { user: "app", baseDir: "/srv/app", scrubEnv: true, cpuSeconds: 30, isolation: "unshare" as const };
+      const base = { machineId: "machine-1", command: "make test", createdBy: "user-1" };
+
+      await t.mutation(api.commands.queue, { ...base, targetType: "local", executionProfile });
+      await expect(
+        t.mutation(api.commands.queue, { ...base, targetType: "local", executionProfile: { memoryBytes: 0.5 } })
+      ).rejects.toThrow("executionProfile.memoryBytes must be a positive integer");
+      await expect(
+        t.mutation(api.commands.queue, {
+          ...base,
+          targetType: "ssh",
+          targetHost: "10.0.0.5",
+          targetUsername: "deploy",
+          executionProfile,
+        })
+      ).rejects.toThrow("executionProfile only applies to local commands");
+
+      const [pending] = await t.query(api.public.getPendingCommands, { machineId: "machine-1" });
+      expect(pending.executionProfile).toEqual(executionProfile);
+    });
+
+    it("rejects invalid invocations", async () => {
+      const base = { machineId: "machine-1", targetType: "local" as const, createdBy: "user-1" };
+
+      await expect(t.mutation(api.commands.queue, base)).rejects.toThrow("Pass a command or argv");
+      await expect(
+        t.mutation(api.commands.queue, { ...base, command: "ls", argv: ["ls"] })
+      ).rejects.toThrow("Pass either command or argv, not both");
+      await expect(t.mutation(api.commands.queue, { ...base, argv: [] })).rejects.toThrow(
+        "argv needs a program to run"
+      );
+      await expect(
+        t.mutation(api.commands.queue, { ...base, argv: ["ls"], shell: "bash" })
+      ).rejects.toThrow("shell only applies to command strings - argv runs without a shell");
+      await expect(
+        t.mutation(api.commands.queue, { ...base, command: "env", env: { "A;B": "1" } })
+      ).rejects.toThrow("Invalid environment variable name: A;B");
+    });
   });
 
   describe("listPending", () => {
@@ -233,6 +372,17 @@ describe("command queue", () => {
 
       expect(cmd?.status).toBe("executing");
     });
+
+    it("does not revive a finished command", async () => {
+      const created = await createTestCommand(t, {
+        machineId: "machine-1",
+        status: "timeout",
+      });
+
+      await expect(t.mutation(api.commands.startExecution, { id: created._id })).rejects.toThrow(
+        "Command already finished"
+      );
+    });
   });
 
   describe("complete", () => {
@@ -285,6 +435,83 @@ describe("command queue", () => {
       expect(cmd?.exitCode).toBe(1);
       expect(cmd?.error).toBe("Non-zero exit code");
     });
+
+    it("keeps the result of a finished command", async () => {
+      const created = await createTestCommand(t, {
+        machineId: "machine-1",
+        status: "cancelled",
+      });
+
+      await expect(
+        t.mutation(api.commands.complete, { id: created._id, success: true, output: "late" })
+      ).rejects.toThrow("Command already finished");
+
+      const cmd = await t.run(async (ctx) => ctx.db.get(created._id));
+      expect(cmd?.status).toBe("cancelled");
+      expect(cmd?.output).toBeUndefined();
+    });
+  });
+
+  describe("cancel", () => {
+    it("cancels a pending command immediately", async () => {
+      const created = await createTestCommand(t, {
+        machineId: "machine-1",
+        status: "pending",
+      });
+
+      const result = await t.mutation(api.commands.cancel, {
+        id: created._id,
+        cancelledBy: "user-1",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.status).toBe("cancelled");
+
+      const cmd = await t.run(async (ctx) => {
+        return await ctx.db.get(created._id);
+      });
+
+      expect(cmd?.status).toBe("cancelled");
+      expect(cmd?.cancelRequestedBy).toBe("user-1");
+      expect(cmd?.completedAt).toBeDefined();
+    });
+
+    it("flags an executing command for the relay to stop", async () => {
+      const created = await createTestCommand(t, {
+        machineId: "machine-1",
+        status: "executing",
+      });
+
+      const result = await t.mutation(api.commands.cancel, {
+        id: created._id,
+        cancelledBy: "user-1",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.status).toBe("executing");
+
+      const cmd = await t.run(async (ctx) => {
+        return await ctx.db.get(created._id);
+      });
+
+      expect(cmd?.status).toBe("executing");
+      expect(cmd?.cancelRequestedAt).toBeDefined();
+    });
+
+    it("refuses to cancel a finished command", async () => {
+      const created = await createTestCommand(t, {
+        machineId: "machine-1",
+        status: "completed",
+      });
+
+      const result = await t.mutation(api.commands.cancel, {
+        id: created._id,
+        cancelledBy: "user-1",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Command already finished");
+    });
   });
 
   describe("listRecent", () => {
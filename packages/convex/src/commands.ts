@@ -1,6 +1,366 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import { commandStatusValidator, targetTypeValidator } from "./schema";
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import {
+  commandStatusValidator,
+  targetTypeValidator,
+  timeoutPhaseValidator,
+  commandErrorCodeValidator,
+  jumpHostValidator,
+  commandKindValidator,
+  fileTransferValidator,
+  pulledFileValidator,
+  storedOutputValidator,
+  outputLimitValidator,
+  executionProfileValidator,
+  commandShellValidator,
+} from "./schema";
+import { DEFAULT_LEASE_DURATION_MS, grantLease } from "./leases";
+import { DEFAULT_QUEUE_TIMEOUT_MS, scheduleDeadline } from "./timeouts";
+import { DEFAULT_PRIORITY, listEligiblePending, scheduleRelease } from "./pending";
+import { flushOutputTail } from "./output";
+import { scheduleBatchAdvance } from "./batches";
+import { scheduleJobAdvance } from "./jobs";
+import type { Doc, Id } from "./_generated/dataModel";
+
+export interface InsertCommandArgs {
+  machineId: string;
+  kind?: "exec" | "file_push" | "file_pull";
+  command: string;
+  argv?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  shell?: "sh" | "bash";
+  file?: Doc<"commandQueue">["file"];
+  stdin?: string;
+  stdinStorageId?: Id<"_storage">;
+  outputLimit?: Doc<"commandQueue">["outputLimit"];
+  executionProfile?: Doc<"commandQueue">["executionProfile"];
+  targetType: "local" | "ssh";
+  targetHost?: string;
+  targetPort?: number;
+  targetUsername?: string;
+  jumpHosts?: Array<{ host: string; port?: number; username?: string; credentialName?: string }>;
+  timeoutMs?: number;
+  queueTimeoutMs?: number;
+  maxAttempts?: number;
+  priority?: number;
+  notBefore?: number;
+  batchId?: Id<"commandBatches">;
+  jobId?: Id<"jobs">;
+  jobStep?: number;
+  idempotencyKey?: string;
+  createdBy: string;
+}
+
+// How a command runs: a shell command string, or a program and its arguments
+export interface CommandInvocation {
+  command?: string;
+  argv?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  shell?: "sh" | "bash";
+}
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const UNQUOTED_ARG_PATTERN = /^[A-Za-z0-9_\/.,:=@%+-]+$/;
+
+/**
+ * Why a command's invocation is invalid, or null if it is fine
+ */
+export function validateInvocation(args: CommandInvocation): string | null {
+  if (args.command !== undefined && args.argv !== undefined) {
+    return "Pass either command or argv, not both";
+  }
+  if (args.command === undefined && args.argv === undefined) {
+    return "Pass a command or argv";
+  }
+  if (args.argv !== undefined && !args.argv[0]) {
+    return "argv needs a program to run";
+  }
+  if (args.argv !== undefined && args.shell !== undefined) {
+    return "shell only applies to command strings - argv runs without a shell";
+  }
+  if (args.cwd === "") {
+    return "cwd must not be empty";
+  }
+  for (const name of Object.keys(args.env ?? {})) {
+    if (!ENV_NAME_PATTERN.test(name)) {
+      return `Invalid environment variable name: ${name}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The command line to store and show for an invocation: the command string,
+ * or argv quoted for a POSIX shell
+ */
+export function invocationCommand(args: CommandInvocation): string {
+  if (args.argv === undefined) return args.command ?? "";
+  return args.argv
+    .map((arg) => (UNQUOTED_ARG_PATTERN.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`))
+    .join(" ");
+}
+
+// Largest stdin passed inline - larger inputs go through file storage as stdinStorageId
+export const MAX_INLINE_STDIN_BYTES = 64 * 1024;
+
+/**
+ * Why a command's stdin is invalid, or null if it is fine
+ */
+export async function validateStdin(
+  ctx: MutationCtx,
+  args: Pick<InsertCommandArgs, "stdin" | "stdinStorageId">
+): Promise<string | null> {
+  if (args.stdin !== undefined && args.stdinStorageId !== undefined) {
+    return "Pass either stdin or stdinStorageId, not both";
+  }
+  if (args.stdin !== undefined && new TextEncoder().encode(args.stdin).length > MAX_INLINE_STDIN_BYTES) {
+    return `stdin is over ${MAX_INLINE_STDIN_BYTES} bytes, upload it and pass stdinStorageId instead`;
+  }
+  if (args.stdinStorageId !== undefined && !(await ctx.db.system.get(args.stdinStorageId))) {
+    return `File ${args.stdinStorageId} not found in storage`;
+  }
+  return null;
+}
+
+/**
+ * Why a command's output limit is invalid, or null if it is fine
+ */
+export function validateOutputLimit(args: Pick<InsertCommandArgs, "outputLimit">): string | null {
+  const maxBytes = args.outputLimit?.maxBytes;
+  if (maxBytes !== undefined && (!Number.isInteger(maxBytes) || maxBytes < 1)) {
+    return "outputLimit.maxBytes must be a positive integer";
+  }
+  return null;
+}
+
+/**
+ * Why a command's execution profile is invalid, or null if it is fine
+ */
+export function validateExecutionProfile(
+  args: Pick<InsertCommandArgs, "targetType" | "executionProfile">
+): string | null {
+  const profile = args.executionProfile;
+  if (profile === undefined) return null;
+  if (args.targetType !== "local") {
+    return "executionProfile only applies to local commands";
+  }
+  for (const field of ["user", "group", "baseDir"] as const) {
+    if (profile[field] === "") {
+      return `executionProfile.${field} must not be empty`;
+    }
+  }
+  for (const field of ["cpuSeconds", "memoryBytes", "openFiles", "maxOutputBytes"] as const) {
+    const value = profile[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      return `executionProfile.${field} must be a positive integer`;
+    }
+  }
+  for (const name of profile.keepEnv ?? []) {
+    if (!ENV_NAME_PATTERN.test(name)) {
+      return `Invalid environment variable name: ${name}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Why a command's jump hosts are invalid, or null if they are fine
+ */
+export function validateJumpHosts(args: Pick<InsertCommandArgs, "targetType" | "jumpHosts">): string | null {
+  if (args.jumpHosts === undefined) return null;
+  if (args.targetType !== "ssh") {
+    return "Jump hosts require an SSH target";
+  }
+  for (const hop of args.jumpHosts) {
+    if (!hop.host) {
+      return "Jump hosts require a host";
+    }
+    if (hop.port !== undefined && (!Number.isInteger(hop.port) || hop.port < 1 || hop.port > 65535)) {
+      return `Jump host ${hop.host} port must be between 1 and 65535`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Why a command can't be queued, or null if it can
+ */
+export async function validateCommand(
+  ctx: MutationCtx,
+  args: CommandInvocation &
+    Pick<
+      InsertCommandArgs,
+      | "targetType"
+      | "targetHost"
+      | "targetUsername"
+      | "jumpHosts"
+      | "stdin"
+      | "stdinStorageId"
+      | "outputLimit"
+      | "executionProfile"
+    >
+): Promise<string | null> {
+  if (args.targetType === "ssh" && (!args.targetHost || !args.targetUsername)) {
+    return "SSH target requires targetHost and targetUsername";
+  }
+  return (
+    validateJumpHosts(args) ??
+    validateInvocation(args) ??
+    (await validateStdin(ctx, args)) ??
+    validateOutputLimit(args) ??
+    validateExecutionProfile(args)
+  );
+}
+
+// How long an idempotency key keeps returning the command it first queued
+export const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
+
+/**
+ * Everything that decides what a command runs and where, with insertCommand's defaults applied
+ */
+function invocationFingerprint(cmd: InsertCommandArgs | Doc<"commandQueue">): string {
+  return canonicalJson({
+    machineId: cmd.machineId,
+    kind: cmd.kind ?? "exec",
+    command: cmd.command,
+    argv: cmd.argv,
+    cwd: cmd.cwd,
+    env: cmd.env,
+    shell: cmd.shell,
+    file: cmd.file,
+    stdin: cmd.stdin,
+    stdinStorageId: cmd.stdinStorageId,
+    executionProfile: cmd.executionProfile,
+    targetType: cmd.targetType,
+    targetHost: cmd.targetHost,
+    targetPort: cmd.targetPort ?? 22,
+    targetUsername: cmd.targetUsername,
+    jumpHosts: cmd.jumpHosts,
+  });
+}
+
+/**
+ * The command queued earlier with the same idempotency key, within the
+ * window. Reusing a key for a different invocation or target is an error.
+ */
+export async function findIdempotentCommand(
+  ctx: MutationCtx,
+  args: InsertCommandArgs
+): Promise<{ cmd: Doc<"commandQueue"> } | { error: string } | null> {
+  if (args.idempotencyKey === undefined) return null;
+  if (args.idempotencyKey === "") {
+    return { error: "idempotencyKey must not be empty" };
+  }
+
+  const existing = await ctx.db
+    .query("commandQueue")
+    .withIndex("by_idempotencyKey", (q) => q.eq("idempotencyKey", args.idempotencyKey))
+    .order("desc")
+    .first();
+  if (!existing || existing.createdAt < Date.now() - IDEMPOTENCY_WINDOW_MS) return null;
+
+  if (invocationFingerprint(existing) !== invocationFingerprint(args)) {
+    return { error: `Idempotency key ${args.idempotencyKey} was already used for a different command` };
+  }
+  return { cmd: existing };
+}
+
+/**
+ * Insert a pending command and schedule its deadline (and release, if delayed).
+ * Callers validate the target first.
+ */
+export async function insertCommand(
+  ctx: MutationCtx,
+  args: InsertCommandArgs
+): Promise<Id<"commandQueue">> {
+  const now = Date.now();
+  const timeoutMs = args.timeoutMs ?? 30000;
+  const queueTimeoutMs = args.queueTimeoutMs ?? DEFAULT_QUEUE_TIMEOUT_MS;
+  // Delayed commands start waiting for a relay once they become eligible
+  const eligibleAt = Math.max(now, args.notBefore ?? now);
+  const deadlineAt = eligibleAt + queueTimeoutMs + timeoutMs;
+
+  const commandId = await ctx.db.insert("commandQueue", {
+    machineId: args.machineId,
+    kind: args.kind,
+    command: args.command,
+    argv: args.argv,
+    cwd: args.cwd,
+    env: args.env,
+    shell: args.shell,
+    file: args.file,
+    stdin: args.stdin,
+    stdinStorageId: args.stdinStorageId,
+    outputLimit: args.outputLimit,
+    executionProfile: args.executionProfile,
+    targetType: args.targetType,
+    targetHost: args.targetHost,
+    targetPort: args.targetPort ?? 22,
+    targetUsername: args.targetUsername,
+    jumpHosts: args.jumpHosts,
+    timeoutMs,
+    queueTimeoutMs,
+    deadlineAt,
+    maxAttempts: args.maxAttempts,
+    priority: args.priority ?? DEFAULT_PRIORITY,
+    notBefore: args.notBefore,
+    eligibleAt,
+    batchId: args.batchId,
+    jobId: args.jobId,
+    jobStep: args.jobStep,
+    idempotencyKey: args.idempotencyKey,
+    status: "pending",
+    createdBy: args.createdBy,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await scheduleDeadline(ctx, commandId, deadlineAt);
+  if (eligibleAt > now) {
+    await scheduleRelease(ctx, commandId, eligibleAt);
+  }
+
+  return commandId;
+}
+
+/**
+ * Whether a command status is final
+ */
+export function isFinishedStatus(status: Doc<"commandQueue">["status"]): boolean {
+  return status === "completed" || status === "failed" || status === "timeout" || status === "cancelled";
+}
+
+/**
+ * Whether a command completed with exit code 0
+ */
+export function commandSucceeded(cmd: Doc<"commandQueue">): boolean {
+  return cmd.status === "completed" && (cmd.exitCode === 0 || cmd.exitCode === undefined);
+}
+
+/**
+ * Let the batch or job a command belongs to react to it finishing.
+ * Call after moving a command to a final status.
+ */
+export async function afterCommandFinished(
+  ctx: MutationCtx,
+  cmd: Pick<Doc<"commandQueue">, "batchId" | "jobId">
+): Promise<void> {
+  await scheduleBatchAdvance(ctx, cmd);
+  await scheduleJobAdvance(ctx, cmd);
+}
 
 /**
  * Queue a new command for execution
@@ -8,43 +368,52 @@ import { commandStatusValidator, targetTypeValidator } from "./schema";
 export const queue = mutation({
   args: {
     machineId: v.string(),
-    command: v.string(),
+    command: v.optional(v.string()), // Shell command - pass this or argv
+    argv: v.optional(v.array(v.string())), // Program and arguments, run without a shell
+    cwd: v.optional(v.string()), // Working directory
+    env: v.optional(v.record(v.string(), v.string())), // Extra environment variables
+    shell: v.optional(commandShellValidator), // Shell for command (default: sh locally, the login shell over SSH)
     targetType: targetTypeValidator,
     targetHost: v.optional(v.string()),
     targetPort: v.optional(v.number()),
     targetUsername: v.optional(v.string()),
+    jumpHosts: v.optional(v.array(jumpHostValidator)), // SSH hosts to tunnel through, in order
+    stdin: v.optional(v.string()), // Input piped to the command, then closed (up to 64 KB)
+    stdinStorageId: v.optional(v.id("_storage")), // Uploaded input, for larger inputs
+    outputLimit: v.optional(outputLimitValidator), // Cap on the output the relay keeps, per stream
+    executionProfile: v.optional(executionProfileValidator), // User, base directory, environment, limits and isolation (local only)
     timeoutMs: v.optional(v.number()),
+    queueTimeoutMs: v.optional(v.number()), // Max time to wait for a relay (default: 5 minutes)
+    maxAttempts: v.optional(v.number()), // Claims allowed before an expired lease fails the command
+    priority: v.optional(v.number()), // Higher runs first (default: 0)
+    notBefore: v.optional(v.number()), // Earliest time a relay may pick the command up
+    idempotencyKey: v.optional(v.string()), // Returns the command already queued with this key instead of a new one
     createdBy: v.string(),
   },
   returns: v.id("commandQueue"),
   handler: async (ctx, args) => {
-    const now = Date.now();
+    const error = await validateCommand(ctx, args);
+    if (error) {
+      throw new Error(error);
+    }
 
-    // Validate SSH target details if targetType is ssh
-    if (args.targetType === "ssh") {
-      if (!args.targetHost || !args.targetUsername) {
-        throw new Error("SSH target requires targetHost and targetUsername");
-      }
+    const command = invocationCommand(args);
+    const existing = await findIdempotentCommand(ctx, { ...args, command });
+    if (existing && "error" in existing) {
+      throw new Error(existing.error);
+    }
+    if (existing) {
+      return existing.cmd._id;
     }
 
-    return await ctx.db.insert("commandQueue", {
-      machineId: args.machineId,
-      command: args.command,
-      targetType: args.targetType,
-      targetHost: args.targetHost,
-      targetPort: args.targetPort ?? 22,
-      targetUsername: args.targetUsername,
-      timeoutMs: args.timeoutMs ?? 30000,
-      status: "pending",
-      createdBy: args.createdBy,
-      createdAt: now,
-      updatedAt: now,
-    });
+    return await insertCommand(ctx, { ...args, command });
   },
 });
 
 /**
- * Get pending commands for a machine
+ * Get pending commands for a machine in the order relays pick them up:
+ * highest priority first, in the order they became eligible within a
+ * priority. Delayed commands are left out until their notBefore passes.
  */
 export const listPending = query({
   args: {
@@ -67,13 +436,7 @@ export const listPending = query({
     })
   ),
   handler: async (ctx, args) => {
-    const commands = await ctx.db
-      .query("commandQueue")
-      .withIndex("by_machineId_status", (q) =>
-        q.eq("machineId", args.machineId).eq("status", "pending")
-      )
-      .order("asc")
-      .take(args.limit ?? 10);
+    const commands = await listEligiblePending(ctx, args.machineId, args.limit ?? 10);
 
     return commands.map((c) => ({
       _id: c._id,
@@ -102,21 +465,50 @@ export const get = query({
     v.object({
       _id: v.id("commandQueue"),
       machineId: v.string(),
+      kind: v.optional(commandKindValidator),
       command: v.string(),
+      argv: v.optional(v.array(v.string())),
+      cwd: v.optional(v.string()),
+      env: v.optional(v.record(v.string(), v.string())),
+      shell: v.optional(commandShellValidator),
+      file: v.optional(fileTransferValidator),
+      stdin: v.optional(v.string()),
+      stdinStorageId: v.optional(v.id("_storage")),
+      outputLimit: v.optional(outputLimitValidator),
+      executionProfile: v.optional(executionProfileValidator),
       targetType: targetTypeValidator,
       targetHost: v.optional(v.string()),
       targetPort: v.optional(v.number()),
       targetUsername: v.optional(v.string()),
+      jumpHosts: v.optional(v.array(jumpHostValidator)),
       timeoutMs: v.number(),
       status: commandStatusValidator,
       claimedBy: v.optional(v.string()),
       claimedAt: v.optional(v.number()),
+      leaseExpiresAt: v.optional(v.number()),
+      attempts: v.optional(v.number()),
       output: v.optional(v.string()),
       stderr: v.optional(v.string()),
       exitCode: v.optional(v.number()),
+      signal: v.optional(v.string()),
       error: v.optional(v.string()),
+      errorCode: v.optional(commandErrorCodeValidator),
+      authMethod: v.optional(v.string()),
+      fileResult: v.optional(pulledFileValidator),
+      outputFile: v.optional(storedOutputValidator),
+      stderrFile: v.optional(storedOutputValidator),
+      outputBytes: v.optional(v.number()),
+      stderrBytes: v.optional(v.number()),
+      outputTruncated: v.optional(v.boolean()),
+      stderrTruncated: v.optional(v.boolean()),
       durationMs: v.optional(v.number()),
       completedAt: v.optional(v.number()),
+      deadlineAt: v.optional(v.number()),
+      priority: v.optional(v.number()),
+      notBefore: v.optional(v.number()),
+      timeoutPhase: v.optional(timeoutPhaseValidator),
+      cancelRequestedAt: v.optional(v.number()),
+      cancelRequestedBy: v.optional(v.string()),
       createdBy: v.string(),
       createdAt: v.number(),
       updatedAt: v.number(),
@@ -130,21 +522,50 @@ export const get = query({
     return {
       _id: cmd._id,
       machineId: cmd.machineId,
+      kind: cmd.kind,
       command: cmd.command,
+      argv: cmd.argv,
+      cwd: cmd.cwd,
+      env: cmd.env,
+      shell: cmd.shell,
+      file: cmd.file,
+      stdin: cmd.stdin,
+      stdinStorageId: cmd.stdinStorageId,
+      outputLimit: cmd.outputLimit,
+      executionProfile: cmd.executionProfile,
       targetType: cmd.targetType,
       targetHost: cmd.targetHost,
       targetPort: cmd.targetPort,
       targetUsername: cmd.targetUsername,
+      jumpHosts: cmd.jumpHosts,
       timeoutMs: cmd.timeoutMs,
       status: cmd.status,
       claimedBy: cmd.claimedBy,
       claimedAt: cmd.claimedAt,
+      leaseExpiresAt: cmd.leaseExpiresAt,
+      attempts: cmd.attempts,
       output: cmd.output,
       stderr: cmd.stderr,
       exitCode: cmd.exitCode,
+      signal: cmd.signal,
       error: cmd.error,
+      errorCode: cmd.errorCode,
+      authMethod: cmd.authMethod,
+      fileResult: cmd.fileResult,
+      outputFile: cmd.outputFile,
+      stderrFile: cmd.stderrFile,
+      outputBytes: cmd.outputBytes,
+      stderrBytes: cmd.stderrBytes,
+      outputTruncated: cmd.outputTruncated,
+      stderrTruncated: cmd.stderrTruncated,
       durationMs: cmd.durationMs,
       completedAt: cmd.completedAt,
+      deadlineAt: cmd.deadlineAt,
+      priority: cmd.priority,
+      notBefore: cmd.notBefore,
+      timeoutPhase: cmd.timeoutPhase,
+      cancelRequestedAt: cmd.cancelRequestedAt,
+      cancelRequestedBy: cmd.cancelRequestedBy,
       createdBy: cmd.createdBy,
       createdAt: cmd.createdAt,
       updatedAt: cmd.updatedAt,
@@ -153,12 +574,13 @@ export const get = query({
 });
 
 /**
- * Claim a command for execution
+ * Claim a command for execution under a renewable lease
  */
 export const claim = mutation({
   args: {
     id: v.id("commandQueue"),
     claimedBy: v.string(), // Relay assignment ID
+    leaseDurationMs: v.optional(v.number()),
   },
   returns: v.boolean(),
   handler: async (ctx, args) => {
@@ -167,17 +589,12 @@ export const claim = mutation({
       throw new Error("Command not found");
     }
 
-    // Only claim pending commands
-    if (cmd.status !== "pending") {
+    // Only claim pending commands that are due
+    if (cmd.status !== "pending" || (cmd.notBefore !== undefined && cmd.notBefore > Date.now())) {
       return false;
     }
 
-    await ctx.db.patch(args.id, {
-      status: "claimed",
-      claimedBy: args.claimedBy,
-      claimedAt: Date.now(),
-      updatedAt: Date.now(),
-    });
+    await grantLease(ctx, cmd, args.claimedBy, args.leaseDurationMs ?? DEFAULT_LEASE_DURATION_MS);
 
     return true;
   },
@@ -197,6 +614,11 @@ export const startExecution = mutation({
       throw new Error("Command not found");
     }
 
+    // A timed-out or cancelled command must not come back to life
+    if (isFinishedStatus(cmd.status)) {
+      throw new Error("Command already finished");
+    }
+
     await ctx.db.patch(args.id, {
       status: "executing",
       updatedAt: Date.now(),
@@ -225,10 +647,16 @@ export const complete = mutation({
       throw new Error("Command not found");
     }
 
+    if (isFinishedStatus(cmd.status)) {
+      throw new Error("Command already finished");
+    }
+
     const now = Date.now();
+    await flushOutputTail(ctx, cmd, args);
 
     await ctx.db.patch(args.id, {
       status: args.success ? "completed" : "failed",
+      leaseExpiresAt: undefined,
       output: args.output,
       stderr: args.stderr,
       exitCode: args.exitCode,
@@ -237,10 +665,74 @@ export const complete = mutation({
       completedAt: now,
       updatedAt: now,
     });
+    await afterCommandFinished(ctx, cmd);
     return null;
   },
 });
 
+/**
+ * Cancel a command: pending commands at once, claimed and executing ones by
+ * flagging them for the relay to stop
+ */
+export async function cancelCommand(
+  ctx: MutationCtx,
+  cmd: Doc<"commandQueue">,
+  cancelledBy: string
+): Promise<{ success: boolean; status?: Doc<"commandQueue">["status"]; error?: string }> {
+  const now = Date.now();
+
+  if (cmd.status === "pending") {
+    await ctx.db.patch(cmd._id, {
+      status: "cancelled",
+      cancelRequestedAt: now,
+      cancelRequestedBy: cancelledBy,
+      error: "Command cancelled",
+      completedAt: now,
+      updatedAt: now,
+    });
+    await afterCommandFinished(ctx, cmd);
+    return { success: true, status: "cancelled" };
+  }
+
+  if (cmd.status === "claimed" || cmd.status === "executing") {
+    if (cmd.cancelRequestedAt === undefined) {
+      await ctx.db.patch(cmd._id, {
+        cancelRequestedAt: now,
+        cancelRequestedBy: cancelledBy,
+        updatedAt: now,
+      });
+    }
+    return { success: true, status: cmd.status };
+  }
+
+  return { success: false, status: cmd.status, error: "Command already finished" };
+}
+
+/**
+ * Cancel a command.
+ * Pending commands are cancelled immediately. Claimed and executing commands
+ * are flagged so the relay kills the process and reports its partial output.
+ */
+export const cancel = mutation({
+  args: {
+    id: v.id("commandQueue"),
+    cancelledBy: v.string(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    status: v.optional(commandStatusValidator),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const cmd = await ctx.db.get(args.id);
+    if (!cmd) {
+      return { success: false, error: "Command not found" };
+    }
+
+    return await cancelCommand(ctx, cmd, args.cancelledBy);
+  },
+});
+
 /**
  * List recent commands for a machine
  */
@@ -10,7 +10,26 @@ export * as credentials from "./credentials.js";
 export * as configPush from "./configPush.js";
 export * as publicApi from "./public.js";
 export * as rpc from "./rpc.js";
+export * as leases from "./leases.js";
+export * as timeouts from "./timeouts.js";
+export * as pending from "./pending.js";
+export * as schedules from "./schedules.js";
+export * as sshTargets from "./sshTargets.js";
+export * as hostKeys from "./hostKeys.js";
+export * as files from "./files.js";
+export * as sessions from "./sessions.js";
+export * as batches from "./batches.js";
+export * as jobs from "./jobs.js";
 
 // Export RPC helper functions for use in actions
-export { exec, execAsync, isTransientError } from "./execHelper.js";
-export type { ExecOptions, ExecResult, RelayRpcApi } from "./execHelper.js";
+export { exec, execAsync, execMany, isTransientError } from "./execHelper.js";
+export type {
+  ExecOptions,
+  ExecResult,
+  RelayRpcApi,
+  ExecManyOptions,
+  ExecManyResult,
+  BatchMachineResult,
+  BatchSummary,
+  RelayBatchApi,
+} from "./execHelper.js";
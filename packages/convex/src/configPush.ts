@@ -15,7 +15,7 @@ export const queue = mutation({
   handler: async (ctx, args) => {
     const now = Date.now();
     // Map string pushType to valid enum values
-    const validPushTypes = ["credential", "ssh_targets", "allowed_commands", "metrics_interval"] as const;
+    const validPushTypes = ["credential", "ssh_targets", "allowed_commands", "metrics_interval", "host_keys"] as const;
     const pushType = validPushTypes.includes(args.pushType as typeof validPushTypes[number])
       ? (args.pushType as typeof validPushTypes[number])
       : "credential"; // Default to credential if invalid
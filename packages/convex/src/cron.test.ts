@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { nextCronTime, parseCron } from "./cron";
+
+const at = (iso: string) => new Date(iso).getTime();
+const iso = (ms: number) => new Date(ms).toISOString();
+
+describe("cron", () => {
+  describe("parseCron", () => {
+    it("expands steps, ranges and lists", () => {
+      const schedule = parseCron("*/15 1-3 1,15 * *");
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([1, 2, 3]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+    });
+
+    it("treats 7 as Sunday", () => {
+      expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    });
+
+    it("rejects malformed expressions", () => {
+      expect(() => parseCron("* * * *")).toThrow("must have 5 fields");
+      expect(() => parseCron("60 * * * *")).toThrow("Invalid cron minute field");
+      expect(() => parseCron("*/0 * * * *")).toThrow("Invalid step");
+      expect(() => parseCron("* * * 13 *")).toThrow("Invalid cron month field");
+    });
+  });
+
+  describe("nextCronTime", () => {
+    it("finds the next matching minute", () => {
+      expect(iso(nextCronTime("*/15 * * * *", at("2024-01-01T10:07:30Z")))).toBe(
+        "2024-01-01T10:15:00.000Z"
+      );
+    });
+
+    it("is strictly after the given time", () => {
+      expect(iso(nextCronTime("0 2 * * *", at("2024-01-01T02:00:00Z")))).toBe(
+        "2024-01-02T02:00:00.000Z"
+      );
+    });
+
+    it("rolls over months and years", () => {
+      expect(iso(nextCronTime("30 4 1 1 *", at("2024-03-10T00:00:00Z")))).toBe(
+        "2025-01-01T04:30:00.000Z"
+      );
+    });
+
+    it("matches either day field when both are restricted", () => {
+      // 2024-01-03 is a Wednesday; the 15th comes later than the next Friday
+      expect(iso(nextCronTime("0 0 15 * 5", at("2024-01-03T12:00:00Z")))).toBe(
+        "2024-01-05T00:00:00.000Z"
+      );
+    });
+
+    it("throws for expressions that never match", () => {
+      expect(() => nextCronTime("0 0 31 2 *", at("2024-01-01T00:00:00Z"))).toThrow(
+        "never matches"
+      );
+    });
+  });
+});
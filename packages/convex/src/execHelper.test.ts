@@ -1,6 +1,6 @@
 import { describe, it, expect, vi } from "vitest";
-import { exec, execAsync, isTransientError } from "./execHelper";
-import type { ExecOptions, RelayRpcApi } from "./execHelper";
+import { exec, execAsync, execMany, isTransientError } from "./execHelper";
+import type { ExecOptions, RelayBatchApi, RelayRpcApi } from "./execHelper";
 
 /**
  * Create a mock action context for testing the exec helper.
@@ -152,6 +152,40 @@ describe("execHelper", () => {
       expect(result.durationMs).toBe(150);
     });
 
+    it("downloads output moved to file storage when asked to", async () => {
+      const outputFile = { storageId: "storage-1", url: "https://files.example/1", size: 11, sha256: "abc=" };
+      const ctx = createMockActionCtx({
+        runMutation: vi.fn().mockResolvedValue({ success: true, commandId: "cmd-123" }),
+        runQuery: vi.fn().mockResolvedValue({
+          found: true,
+          status: "completed",
+          output: "Hello",
+          outputFile,
+          exitCode: 0,
+        }),
+      });
+      const fetchMock = vi.fn().mockResolvedValue(new Response("Hello World"));
+      vi.stubGlobal("fetch", fetchMock);
+
+      try {
+        const options: ExecOptions = {
+          machineId: "machine-1",
+          command: "cat big.log",
+          targetType: "local",
+          createdBy: "user-1",
+        };
+        const preview = await exec(ctx, createMockRpcApi(), options);
+        const full = await exec(ctx, createMockRpcApi(), { ...options, downloadStoredOutput: true });
+
+        expect(preview).toMatchObject({ success: true, output: "Hello", outputFile });
+        expect(full).toMatchObject({ success: true, output: "Hello World", outputFile });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock).toHaveBeenCalledWith("https://files.example/1");
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
     it("returns failed result with non-zero exit code as failure", async () => {
       const ctx = createMockActionCtx({
         runMutation: vi.fn().mockResolvedValue({
@@ -236,6 +270,64 @@ describe("execHelper", () => {
       expect(result.timedOut).toBe(true);
     });
 
+    it("returns cancelled commands without retrying", async () => {
+      const runMutation = vi.fn().mockResolvedValue({
+        success: true,
+        commandId: "cmd-123",
+      });
+      const ctx = createMockActionCtx({
+        runMutation,
+        runQuery: vi.fn().mockResolvedValue({
+          found: true,
+          status: "cancelled",
+          output: "partial",
+          error: "Command cancelled",
+        }),
+      });
+      const rpcApi = createMockRpcApi();
+
+      const result = await exec(ctx, rpcApi, {
+        machineId: "machine-1",
+        command: "tail -f /var/log/syslog",
+        targetType: "local",
+        createdBy: "user-1",
+        retries: 2,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+      expect(result.output).toBe("partial");
+      expect(runMutation).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports commands that timed out waiting in the queue", async () => {
+      const ctx = createMockActionCtx({
+        runMutation: vi.fn().mockResolvedValue({
+          success: true,
+          commandId: "cmd-123",
+        }),
+        runQuery: vi.fn().mockResolvedValue({
+          found: true,
+          status: "timeout",
+          timeoutPhase: "queued",
+          error: "Command timed out waiting in the queue for a relay",
+        }),
+      });
+      const rpcApi = createMockRpcApi();
+
+      const result = await exec(ctx, rpcApi, {
+        machineId: "offline-machine",
+        command: "uptime",
+        targetType: "local",
+        createdBy: "user-1",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Command timed out waiting for a relay to claim it");
+      expect(result.timedOut).toBe(true);
+      expect(result.timeoutPhase).toBe("queued");
+    });
+
     it("times out when polling exceeds timeout", async () => {
       vi.useFakeTimers();
       
@@ -346,6 +438,7 @@ describe("execHelper", () => {
         targetHost: "192.168.1.100",
         targetPort: 2222,
         targetUsername: "deploy",
+        stdin: "select now();\n",
         timeoutMs: 60000,
         createdBy: "test-user",
       });
@@ -357,6 +450,7 @@ describe("execHelper", () => {
         targetHost: "192.168.1.100",
         targetPort: 2222,
         targetUsername: "deploy",
+        stdin: "select now();\n",
         timeoutMs: 60000,
         createdBy: "test-user",
       });
@@ -551,6 +645,31 @@ describe("execHelper", () => {
       expect(result.output).toBe("Done");
     });
 
+    it("queues every retry with the same idempotency key", async () => {
+      const runMutation = vi
+        .fn()
+        .mockResolvedValueOnce({ success: false, error: "Service temporarily unavailable" })
+        .mockResolvedValue({ success: true, commandId: "cmd-123" });
+      const ctx = createMockActionCtx({
+        runMutation,
+        runQuery: vi.fn().mockResolvedValue({ found: true, status: "completed", exitCode: 0 }),
+      });
+
+      await exec(ctx, createMockRpcApi(), {
+        machineId: "machine-1",
+        command: "systemctl restart nginx",
+        targetType: "local",
+        createdBy: "user-1",
+        retries: 2,
+        retryDelayMs: 10,
+      });
+
+      const keys = runMutation.mock.calls.map(([, args]) => args.idempotencyKey);
+      expect(keys).toHaveLength(2);
+      expect(keys[0]).toEqual(expect.any(String));
+      expect(keys[1]).toBe(keys[0]);
+    });
+
     it("uses custom shouldRetry function", async () => {
       let callCount = 0;
       const ctx = createMockActionCtx({
@@ -812,4 +931,77 @@ describe("execHelper", () => {
       expect(runQuery).not.toHaveBeenCalled();
     });
   });
+
+  describe("execMany", () => {
+    const batchApi: RelayBatchApi = {
+      create: { _type: "mutation" },
+      get: { _type: "query" },
+    };
+
+    it("creates the batch and polls until it finishes", async () => {
+      vi.useFakeTimers();
+
+      const runMutation = vi.fn().mockResolvedValue("batch-1");
+      const runQuery = vi
+        .fn()
+        .mockResolvedValueOnce({ status: "running", results: [], summary: {} })
+        .mockResolvedValueOnce({
+          status: "stopped",
+          results: [
+            { machineId: "web-1", status: "failed", success: false, exitCode: 1 },
+            { machineId: "web-2", status: "skipped", success: false },
+          ],
+          summary: { total: 2, succeeded: 0, failed: 1, running: 0, waiting: 0, skipped: 1 },
+        });
+      const ctx = createMockActionCtx({ runMutation, runQuery });
+
+      const execPromise = execMany(ctx, batchApi, {
+        tag: "web",
+        command: "nginx -s reload",
+        targetType: "local",
+        maxConcurrency: 1,
+        stopOnFailure: true,
+        createdBy: "user-1",
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+      const result = await execPromise;
+
+      expect(runMutation).toHaveBeenCalledWith(batchApi.create, {
+        tag: "web",
+        command: "nginx -s reload",
+        targetType: "local",
+        maxConcurrency: 1,
+        stopOnFailure: true,
+        createdBy: "user-1",
+      });
+      expect(runQuery).toHaveBeenCalledWith(batchApi.get, { id: "batch-1" });
+      expect(result).toMatchObject({
+        success: false,
+        batchId: "batch-1",
+        status: "stopped",
+        error: "1 of 2 machine(s) failed",
+      });
+      expect(result.results).toHaveLength(2);
+
+      vi.useRealTimers();
+    });
+
+    it("returns the error when the batch can't be created", async () => {
+      const ctx = createMockActionCtx({
+        runMutation: vi.fn().mockRejectedValue(new Error("Pass machineIds, a tag or a capability")),
+      });
+
+      const result = await execMany(ctx, batchApi, {
+        command: "uptime",
+        targetType: "local",
+        createdBy: "user-1",
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: "Pass machineIds, a tag or a capability",
+        results: [],
+      });
+    });
+  });
 });
@@ -6,8 +6,16 @@ import type { GenericActionCtx, GenericDataModel } from "convex/server";
 export interface ExecOptions {
   /** Target machine ID */
   machineId: string;
-  /** Command to execute */
-  command: string;
+  /** Shell command to execute (pass this or argv) */
+  command?: string;
+  /** Program and arguments to run without a shell, so nothing needs quoting */
+  argv?: string[];
+  /** Working directory for the command */
+  cwd?: string;
+  /** Extra environment variables for the command */
+  env?: Record<string, string>;
+  /** Shell that runs command (default: sh locally, the login shell over SSH) */
+  shell?: "sh" | "bash";
   /** Target type: "local" for local execution, "ssh" for SSH */
   targetType: "local" | "ssh";
   /** SSH target host (required for ssh targetType) */
@@ -16,12 +24,62 @@ export interface ExecOptions {
   targetPort?: number;
   /** SSH username (required for ssh targetType) */
   targetUsername?: string;
+  /** SSH jump hosts to tunnel through, in order (default: the relay's registry entry for the target) */
+  jumpHosts?: Array<{ host: string; port?: number; username?: string; credentialName?: string }>;
+  /** Input piped to the command, then closed (up to 64 KB - use stdinStorageId for more) */
+  stdin?: string;
+  /** Storage ID of uploaded input to pipe to the command instead of stdin */
+  stdinStorageId?: string;
+  /** Cap on the output the relay keeps, per stream (default: the relay's --max-output, first and last half kept) */
+  outputLimit?: {
+    /** Bytes kept per stream - the relay's own cap wins if lower */
+    maxBytes?: number;
+    /** Which part to keep: "head", "tail" or "head_tail" (default) */
+    keep?: "head" | "tail" | "head_tail";
+    /** "truncate" (default) keeps running, "kill" stops the command at the cap */
+    onLimit?: "truncate" | "kill";
+  };
+  /** How the relay runs a local command - it can only tighten the relay's own profile */
+  executionProfile?: {
+    /** Run as this user, by name or uid */
+    user?: string;
+    /** Run with this group, by name or gid */
+    group?: string;
+    /** Directory the command starts in; cwd must stay inside it */
+    baseDir?: string;
+    /** Start from a minimal environment instead of the relay's */
+    scrubEnv?: boolean;
+    /** Relay environment variables kept when scrubbing */
+    keepEnv?: string[];
+    /** CPU time limit in seconds */
+    cpuSeconds?: number;
+    /** Memory limit in bytes */
+    memoryBytes?: number;
+    /** Open file limit */
+    openFiles?: number;
+    /** Most stdout / stderr kept per stream */
+    maxOutputBytes?: number;
+    /** Run in new namespaces ("unshare") or a transient systemd scope ("systemd-run") */
+    isolation?: "none" | "unshare" | "systemd-run";
+  };
   /** Command timeout in milliseconds (default: 30000) */
   timeoutMs?: number;
+  /** Max time to wait in the queue for a relay before the command times out (default: 300000) */
+  queueTimeoutMs?: number;
+  /** Queue priority - higher priorities are picked up first (default: 0) */
+  priority?: number;
   /** Who created this command (for auditing) */
   createdBy: string;
+  /**
+   * Queueing again with the same key within 24 hours returns the command
+   * already queued instead of running it twice. exec retries reuse one key,
+   * generated when retries are enabled and none is given.
+   */
+  idempotencyKey?: string;
   /** Poll interval in milliseconds (default: 100) */
   pollIntervalMs?: number;
+  /** Download output moved to file storage into output / stderr in place of its preview (default: false) */
+  downloadStoredOutput?: boolean;
   /** Number of retry attempts for transient failures (default: 0) */
   retries?: number;
   /** Delay between retries in milliseconds (default: 1000) */
@@ -30,24 +88,60 @@ export interface ExecOptions {
   shouldRetry?: (error: Error, attempt: number) => boolean;
 }
 
+/**
+ * Command output too large to keep inline, moved to Convex file storage
+ */
+export interface StoredOutput {
+  /** Storage ID of the whole output */
+  storageId: string;
+  /** Download URL, null once the output was deleted */
+  url: string | null;
+  /** Size in bytes */
+  size: number;
+  /** Base64 SHA-256, as file storage records it */
+  sha256: string;
+}
+
 /**
  * Result of an exec command
  */
 export interface ExecResult {
   /** Whether the command succeeded (completed with exit code 0) */
   success: boolean;
-  /** Command stdout */
+  /** Command stdout (a preview when outputFile is set) */
   output?: string;
-  /** Command stderr */
+  /** Command stderr (a preview when stderrFile is set) */
   stderr?: string;
+  /** Whole stdout, when it was too large to keep inline */
+  outputFile?: StoredOutput;
+  /** Whole stderr, when it was too large to keep inline */
+  stderrFile?: StoredOutput;
+  /** Bytes of stdout the command produced, kept or not */
+  outputBytes?: number;
+  /** Bytes of stderr the command produced, kept or not */
+  stderrBytes?: number;
+  /** Whether stdout went over the output limit - output only holds what was kept */
+  outputTruncated?: boolean;
+  /** Whether stderr went over the output limit - stderr only holds what was kept */
+  stderrTruncated?: boolean;
   /** Exit code */
   exitCode?: number;
+  /** Signal that ended the process (e.g. "SIGKILL") - exitCode is -1 then */
+  signal?: string;
   /** Error message if failed */
   error?: string;
   /** Execution duration in milliseconds */
   durationMs?: number;
   /** Whether the command timed out waiting for relay */
   timedOut?: boolean;
+  /** Where the command was when the server-side deadline hit: "queued" or "executing" */
+  timeoutPhase?: "queued" | "executing";
+  /** Whether the command was cancelled before it finished */
+  cancelled?: boolean;
+  /** Machine-readable reason the relay refused to run the command ("policy_denied", "ssh_target_denied", "host_key_rejected" or "profile_rejected") */
+  errorCode?: string;
+  /** SSH authentication method that succeeded (e.g. "agent", "publickey:~/.ssh/id_ed25519") */
+  authMethod?: string;
   /** Number of retry attempts made */
   attempts?: number;
 }
@@ -120,6 +214,43 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// What exec returns about a finished command's output
+type CommandOutput = Pick<
+  ExecResult,
+  "output" | "stderr" | "outputFile" | "stderrFile" | "outputBytes" | "stderrBytes" | "outputTruncated" | "stderrTruncated"
+>;
+
+/**
+ * Output of a finished command as exec returns it. Output moved to file
+ * storage is downloaded in place of its preview when asked to.
+ */
+async function commandOutput(result: CommandOutput, download: boolean): Promise<CommandOutput> {
+  return {
+    output: download ? await downloadStoredOutput(result.outputFile, result.output) : result.output,
+    stderr: download ? await downloadStoredOutput(result.stderrFile, result.stderr) : result.stderr,
+    outputFile: result.outputFile,
+    stderrFile: result.stderrFile,
+    outputBytes: result.outputBytes,
+    stderrBytes: result.stderrBytes,
+    outputTruncated: result.outputTruncated,
+    stderrTruncated: result.stderrTruncated,
+  };
+}
+
+/**
+ * Download output from file storage. The command already ran, so a failed
+ * download keeps the preview rather than failing or retrying the command.
+ */
+async function downloadStoredOutput(file: StoredOutput | undefined, preview: string | undefined): Promise<string | undefined> {
+  if (!file?.url) return preview;
+  try {
+    const response = await fetch(file.url);
+    return response.ok ? await response.text() : preview;
+  } catch {
+    return preview;
+  }
+}
+
 export async function exec<DataModel extends GenericDataModel>(
   ctx: GenericActionCtx<DataModel>,
   rpcApi: RelayRpcApi,
@@ -128,13 +259,26 @@ export async function exec<DataModel extends GenericDataModel>(
   const {
     machineId,
     command,
+    argv,
+    cwd,
+    env,
+    shell,
     targetType,
     targetHost,
     targetPort,
     targetUsername,
+    jumpHosts,
+    stdin,
+    stdinStorageId,
+    outputLimit,
+    executionProfile,
     timeoutMs = 30000,
+    queueTimeoutMs,
+    priority,
     createdBy,
+    idempotencyKey = options.retries ? crypto.randomUUID() : undefined,
     pollIntervalMs = 100,
+    downloadStoredOutput: download = false,
     retries = 0,
     retryDelayMs = 1000,
     shouldRetry = isTransientError,
@@ -162,11 +306,23 @@ export async function exec<DataModel extends GenericDataModel>(
       const queueResult = await ctx.runMutation(rpcApi.queueRpcCommand, {
         machineId,
         command,
+        argv,
+        cwd,
+        env,
+        shell,
         targetType,
         targetHost,
         targetPort,
         targetUsername,
+        jumpHosts,
+        stdin,
+        stdinStorageId,
+        outputLimit,
+        executionProfile,
         timeoutMs,
+        queueTimeoutMs,
+        priority,
+        idempotencyKey,
         createdBy,
       });
 
@@ -219,10 +375,12 @@ export async function exec<DataModel extends GenericDataModel>(
         if (result.status === "completed" || result.status === "failed") {
           return {
             success: result.status === "completed" && (result.exitCode === 0 || result.exitCode === undefined),
-            output: result.output,
-            stderr: result.stderr,
+            ...(await commandOutput(result, download)),
             exitCode: result.exitCode,
+            signal: result.signal,
             error: result.error,
+            errorCode: result.errorCode,
+            authMethod: result.authMethod,
             durationMs: result.durationMs,
             attempts: attempt,
           };
@@ -232,8 +390,27 @@ export async function exec<DataModel extends GenericDataModel>(
           // Command timeout on relay is not transient - don't retry
           return {
             success: false,
-            error: "Command execution timed out on relay",
+            error:
+              result.timeoutPhase === "queued"
+                ? "Command timed out waiting for a relay to claim it"
+                : "Command execution timed out on relay",
+            ...(await commandOutput(result, download)),
             timedOut: true,
+            timeoutPhase: result.timeoutPhase,
+            attempts: attempt,
+          };
+        }
+
+        if (result.status === "cancelled") {
+          // Cancellation is deliberate - don't retry
+          return {
+            success: false,
+            ...(await commandOutput(result, download)),
+            exitCode: result.exitCode,
+            signal: result.signal,
+            error: "Command was cancelled",
+            durationMs: result.durationMs,
+            cancelled: true,
             attempts: attempt,
           };
         }
@@ -310,16 +487,32 @@ export async function exec<DataModel extends GenericDataModel>(
 export async function execAsync<DataModel extends GenericDataModel>(
   ctx: GenericActionCtx<DataModel>,
   rpcApi: RelayRpcApi,
-  options: Omit<ExecOptions, "pollIntervalMs">
+  options: Omit<ExecOptions, "pollIntervalMs"> & {
+    /** Earliest time a relay may pick the command up (e.g. to run it overnight) */
+    notBefore?: number;
+  }
 ): Promise<{ success: boolean; commandId?: string; error?: string }> {
   const {
     machineId,
     command,
+    argv,
+    cwd,
+    env,
+    shell,
     targetType,
     targetHost,
     targetPort,
     targetUsername,
+    jumpHosts,
+    stdin,
+    stdinStorageId,
+    outputLimit,
+    executionProfile,
     timeoutMs = 30000,
+    queueTimeoutMs,
+    priority,
+    notBefore,
+    idempotencyKey,
     createdBy,
   } = options;
 
@@ -337,11 +530,24 @@ export async function execAsync<DataModel extends GenericDataModel>(
   const queueResult = await ctx.runMutation(rpcApi.queueRpcCommand, {
     machineId,
     command,
+    argv,
+    cwd,
+    env,
+    shell,
     targetType,
     targetHost,
     targetPort,
     targetUsername,
+    jumpHosts,
+    stdin,
+    stdinStorageId,
+    outputLimit,
+    executionProfile,
     timeoutMs,
+    queueTimeoutMs,
+    priority,
+    notBefore,
+    idempotencyKey,
     createdBy,
   });
 
@@ -357,3 +563,173 @@ export async function execAsync<DataModel extends GenericDataModel>(
     commandId: queueResult.commandId as string,
   };
 }
+
+/**
+ * API references for the relay batch component.
+ * Pass the component's batches module: components.remoteCmdRelay.batches
+ */
+export interface RelayBatchApi {
+  create: any;
+  get: any;
+}
+
+/**
+ * Options for running a command on many machines via execMany
+ */
+export interface ExecManyOptions
+  extends Omit<
+    ExecOptions,
+    | "machineId"
+    | "idempotencyKey"
+    | "pollIntervalMs"
+    | "downloadStoredOutput"
+    | "retries"
+    | "retryDelayMs"
+    | "shouldRetry"
+  > {
+  /** Target machines (pass these, or a tag and/or capability) */
+  machineIds?: string[];
+  /** Target every machine whose enabled relay has this tag */
+  tag?: string;
+  /** Target every machine whose enabled relay reports this capability */
+  capability?: "ssh" | "local_cmd" | "perf_metrics" | "run_as_user" | "rlimits" | "unshare" | "systemd_run";
+  /** Name shown for the batch */
+  name?: string;
+  /** Machines running at once - the next is queued as each finishes (default: all) */
+  maxConcurrency?: number;
+  /** Queue no more machines once a command fails (default: false) */
+  stopOnFailure?: boolean;
+  /** Poll interval in milliseconds (default: 1000) */
+  pollIntervalMs?: number;
+  /** How long to wait for the batch before returning the results so far (default: 600000) */
+  waitMs?: number;
+}
+
+/**
+ * One machine's part of a batch
+ */
+export interface BatchMachineResult {
+  machineId: string;
+  /** The command's status, "waiting" to be queued, or "skipped" after the batch stopped */
+  status: string;
+  /** Whether the command completed with exit code 0 */
+  success: boolean;
+  /** The machine's command - read its output with rpc.getCommandResult */
+  commandId?: string;
+  exitCode?: number;
+  signal?: string;
+  error?: string;
+  errorCode?: string;
+  durationMs?: number;
+}
+
+/**
+ * Machine counts of a batch
+ */
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  /** Finished without succeeding - failed, non-zero exit, timed out or cancelled */
+  failed: number;
+  running: number;
+  waiting: number;
+  skipped: number;
+}
+
+/**
+ * Result of execMany
+ */
+export interface ExecManyResult {
+  /** Whether every machine's command completed with exit code 0 */
+  success: boolean;
+  /** Batch ID, for batches.get and batches.cancel */
+  batchId?: string;
+  /** "completed", "failed", "stopped" or "cancelled" - still "running" if waitMs ran out first */
+  status?: "running" | "completed" | "failed" | "stopped" | "cancelled";
+  /** Per-machine results, in the order the machines run */
+  results: BatchMachineResult[];
+  summary?: BatchSummary;
+  /** Why the batch didn't succeed */
+  error?: string;
+}
+
+/**
+ * Why a finished batch didn't succeed, or undefined if it did
+ */
+function batchError(status: ExecManyResult["status"], summary: BatchSummary): string | undefined {
+  if (status === "completed") return undefined;
+  if (status === "cancelled") return "Batch was cancelled";
+  return `${summary.failed} of ${summary.total} machine(s) failed`;
+}
+
+/**
+ * Run a command on many machines and wait for all of them.
+ *
+ * The machines are the listed machineIds, or every machine whose enabled
+ * relay has the tag and/or capability. With maxConcurrency the command rolls
+ * out a few machines at a time; with stopOnFailure the first failure stops
+ * the rollout and the remaining machines are skipped.
+ *
+ * @example
+ * ```typescript
+ * import { execMany } from "@fatagnus/remote-cmd-relay-convex/execHelper";
+ * import { components } from "./_generated/api";
+ *
+ * export const reloadNginx = action({
+ *   handler: async (ctx) => {
+ *     const result = await execMany(ctx, components.remoteCmdRelay.batches, {
+ *       tag: "web",
+ *       argv: ["systemctl", "reload", "nginx"],
+ *       targetType: "local",
+ *       maxConcurrency: 2,
+ *       stopOnFailure: true,
+ *       createdBy: "user-123",
+ *     });
+ *
+ *     for (const machine of result.results) {
+ *       console.log(machine.machineId, machine.status, machine.exitCode);
+ *     }
+ *   },
+ * });
+ * ```
+ */
+export async function execMany<DataModel extends GenericDataModel>(
+  ctx: GenericActionCtx<DataModel>,
+  batchApi: RelayBatchApi,
+  options: ExecManyOptions
+): Promise<ExecManyResult> {
+  const { pollIntervalMs = 1000, waitMs = 600000, ...batch } = options;
+
+  let batchId: string;
+  try {
+    batchId = await ctx.runMutation(batchApi.create, batch);
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+      results: [],
+    };
+  }
+
+  const startTime = Date.now();
+  for (;;) {
+    const result = await ctx.runQuery(batchApi.get, { id: batchId });
+    if (!result) {
+      return { success: false, batchId, error: "Batch not found", results: [] };
+    }
+
+    const finished = result.status !== "running";
+    if (finished || Date.now() - startTime >= waitMs) {
+      return {
+        success: result.status === "completed",
+        batchId,
+        status: result.status,
+        results: result.results,
+        summary: result.summary,
+        error: finished ? batchError(result.status, result.summary) : `Batch did not finish within ${waitMs}ms`,
+      };
+    }
+
+    await sleep(pollIntervalMs);
+  }
+}
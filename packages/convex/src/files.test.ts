@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createRelayTestConvex, RelayTestConvex } from "./test.setup";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+
+describe("files", () => {
+  let t: RelayTestConvex;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    t = createRelayTestConvex();
+  });
+
+  afterEach(async () => {
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+  });
+
+  const store = (contents: string) =>
+    t.run(async (ctx) => await ctx.storage.store(new Blob([contents])));
+
+  const target = {
+    machineId: "machine-1",
+    targetType: "ssh" as const,
+    targetHost: "appliance-1",
+    targetUsername: "admin",
+    createdBy: "test-user",
+  };
+
+  describe("queuePush", () => {
+    it("queues the uploaded parts with their sizes and checksums", async () => {
+      const first = await store("hello ");
+      const second = await store("world");
+
+      const commandId = await t.mutation(api.files.queuePush, {
+        ...target,
+        path: "/etc/app/app.conf",
+        storageIds: [first, second],
+        mode: 0o640,
+        uid: 0,
+        gid: 100,
+      });
+
+      const cmd = await t.query(api.commands.get, { id: commandId });
+      expect(cmd?.kind).toBe("file_push");
+      expect(cmd?.command).toBe("file_push /etc/app/app.conf");
+      expect(cmd?.timeoutMs).toBe(5 * 60 * 1000);
+      expect(cmd?.file).toMatchObject({
+        path: "/etc/app/app.conf",
+        maxBytes: 100 * 1024 * 1024,
+        mode: 0o640,
+        uid: 0,
+        gid: 100,
+        size: 11,
+      });
+      expect(cmd?.file?.chunks?.map((c) => c.size)).toEqual([6, 5]);
+
+      const [pending] = await t.query(api.public.getPendingCommands, { machineId: "machine-1" });
+      expect(pending.kind).toBe("file_push");
+      expect(pending.file?.chunks).toHaveLength(2);
+      expect(pending.file?.chunks?.[0].url).toMatch(/^https:\/\//);
+      expect(pending.file?.chunks?.[0].sha256).toBe(cmd?.file?.chunks?.[0].sha256);
+    });
+
+    it("rejects files over the size limit", async () => {
+      const storageId = await store("0123456789");
+
+      await expect(
+        t.mutation(api.files.queuePush, {
+          ...target,
+          path: "/tmp/big",
+          storageIds: [storageId],
+          maxBytes: 5,
+        })
+      ).rejects.toThrow("File is 10 bytes, over the 5 byte limit");
+    });
+
+    it("rejects relative paths, bad modes and bad checksums", async () => {
+      const storageId = await store("x");
+      const push = (options: { path?: string; mode?: number; sha256?: string }) =>
+        t.mutation(api.files.queuePush, {
+          ...target,
+          path: "/tmp/x",
+          storageIds: [storageId],
+          ...options,
+        });
+
+      await expect(push({ path: "etc/app.conf" })).rejects.toThrow("path must be an absolute file path");
+      await expect(push({ path: "/etc/" })).rejects.toThrow("path must be an absolute file path");
+      await expect(push({ path: "/etc/app/../shadow" })).rejects.toThrow("path must not contain . or .. segments");
+      await expect(push({ path: "/etc/./app.conf" })).rejects.toThrow("path must not contain . or .. segments");
+      await expect(push({ mode: 0o10000 })).rejects.toThrow("mode must be permission bits");
+      await expect(push({ sha256: "abc" })).rejects.toThrow("sha256 must be a hex SHA-256 digest");
+    });
+  });
+
+  describe("queuePull", () => {
+    let assignmentId: string;
+    let commandId: Id<"commandQueue">;
+
+    beforeEach(async () => {
+      assignmentId = await t.run(async (ctx) =>
+        ctx.db.insert("relayAssignments", {
+          apiKeyId: "key-1",
+          machineId: "machine-1",
+          name: "Relay",
+          enabled: true,
+          createdBy: "test-user",
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        })
+      );
+      commandId = await t.mutation(api.files.queuePull, {
+        ...target,
+        path: "/var/log/app.log",
+        maxBytes: 1024,
+      });
+      await t.mutation(api.public.claimCommand, { commandId, assignmentId });
+    });
+
+    it("hands upload URLs only to the relay holding the claim", async () => {
+      const granted = await t.mutation(api.public.generateFileUploadUrl, { commandId, assignmentId, attempt: 1 });
+      const denied = await t.mutation(api.public.generateFileUploadUrl, {
+        commandId,
+        assignmentId: "other-relay",
+        attempt: 1,
+      });
+
+      expect(granted.success).toBe(true);
+      expect(denied).toEqual({ success: false, error: "Lease is held by another claim" });
+    });
+
+    it("stores the pulled file and serves it until deleted", async () => {
+      const storageId = await store("log line\n");
+      const stored = await t.run(async (ctx) => ctx.db.system.get(storageId));
+
+      await t.mutation(api.public.submitResult, {
+        commandId,
+        assignmentId,
+        attempt: 1,
+        success: true,
+        output: "Read 9 bytes from /var/log/app.log",
+        exitCode: 0,
+        file: {
+          chunks: [{ storageId, size: 9, sha256: stored!.sha256 }],
+          size: 9,
+          sha256: "a".repeat(64),
+        },
+      });
+
+      const pulled = await t.query(api.files.getPulledFile, { commandId });
+      expect(pulled).toMatchObject({ path: "/var/log/app.log", size: 9, sha256: "a".repeat(64) });
+      expect(pulled?.chunks[0].url).toMatch(/^https:\/\//);
+
+      expect(await t.mutation(api.files.deletePulledFile, { commandId })).toEqual({ success: true });
+      expect(await t.query(api.files.getPulledFile, { commandId })).toBeNull();
+      expect(await t.run(async (ctx) => ctx.db.system.get(storageId))).toBeNull();
+    });
+
+    it("fails the command when an uploaded chunk doesn't match storage", async () => {
+      const storageId = await store("truncated");
+
+      await t.mutation(api.public.submitResult, {
+        commandId,
+        assignmentId,
+        attempt: 1,
+        success: true,
+        exitCode: 0,
+        file: {
+          chunks: [{ storageId, size: 100, sha256: "bogus" }],
+          size: 100,
+          sha256: "a".repeat(64),
+        },
+      });
+
+      const cmd = await t.query(api.commands.get, { id: commandId });
+      expect(cmd?.status).toBe("failed");
+      expect(cmd?.error).toBe("Chunk 1 of the pulled file does not match file storage");
+      expect(cmd?.fileResult).toBeUndefined();
+      expect(await t.run(async (ctx) => ctx.db.system.get(storageId))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { v } from "convex/values";
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { targetTypeValidator, jumpHostValidator } from "./schema";
+import { insertCommand, validateJumpHosts } from "./commands";
+
+// Largest file a transfer may move unless the caller sets maxBytes
+export const DEFAULT_MAX_FILE_BYTES = 100 * 1024 * 1024;
+
+// File transfers get longer than shell commands by default
+const DEFAULT_FILE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Target and scheduling options shared by file_push and file_pull
+const transferArgs = {
+  machineId: v.string(),
+  targetType: targetTypeValidator,
+  targetHost: v.optional(v.string()),
+  targetPort: v.optional(v.number()),
+  targetUsername: v.optional(v.string()),
+  jumpHosts: v.optional(v.array(jumpHostValidator)), // SSH hosts to tunnel through, in order
+  path: v.string(), // Absolute path on the target
+  maxBytes: v.optional(v.number()), // Largest file to move (default: 100 MB)
+  timeoutMs: v.optional(v.number()), // Transfer timeout (default: 5 minutes)
+  queueTimeoutMs: v.optional(v.number()),
+  maxAttempts: v.optional(v.number()),
+  priority: v.optional(v.number()),
+  notBefore: v.optional(v.number()),
+  createdBy: v.string(),
+};
+
+/**
+ * Why a transfer's target, path or options are invalid, or null if they are fine
+ */
+function validateTransfer(args: {
+  targetType: "local" | "ssh";
+  targetHost?: string;
+  targetUsername?: string;
+  jumpHosts?: Array<{ host: string; port?: number }>;
+  path: string;
+  maxBytes?: number;
+  mode?: number;
+  uid?: number;
+  gid?: number;
+}): string | null {
+  if (args.targetType === "ssh" && (!args.targetHost || !args.targetUsername)) {
+    return "SSH target requires targetHost and targetUsername";
+  }
+  const jumpHostsError = validateJumpHosts(args);
+  if (jumpHostsError) return jumpHostsError;
+
+  if (!args.path.startsWith("/") || args.path.endsWith("/") || args.path.includes("\0")) {
+    return "path must be an absolute file path";
+  }
+  // The relay's policy sees the path as given - "." and ".." would walk around its rules
+  if (args.path.split("/").some((segment) => segment === "." || segment === "..")) {
+    return "path must not contain . or .. segments";
+  }
+  if (args.maxBytes !== undefined && (!Number.isInteger(args.maxBytes) || args.maxBytes < 0)) {
+    return "maxBytes must be a non-negative integer";
+  }
+  if (args.mode !== undefined && (!Number.isInteger(args.mode) || args.mode < 0 || args.mode > 0o7777)) {
+    return "mode must be permission bits between 0 and 0o7777";
+  }
+  for (const [name, id] of [["uid", args.uid], ["gid", args.gid]] as const) {
+    if (id !== undefined && (!Number.isInteger(id) || id < 0)) {
+      return `${name} must be a non-negative integer`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Delete the stored chunks of a file, skipping ones already gone
+ */
+export async function deleteFileChunks(
+  ctx: MutationCtx,
+  chunks: Array<{ storageId: Id<"_storage"> }>
+): Promise<void> {
+  for (const chunk of chunks) {
+    if (await ctx.db.system.get(chunk.storageId)) {
+      await ctx.storage.delete(chunk.storageId);
+    }
+  }
+}
+
+/**
+ * Get a URL to upload file contents for a file_push.
+ * POST the contents to the URL; the response JSON holds the storageId.
+ */
+export const generateUploadUrl = mutation({
+  args: {},
+  returns: v.string(),
+  handler: async (ctx) => {
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Queue a file_push: write uploaded contents to a path on the target.
+ * Large files can be uploaded in several parts, passed in order as storageIds.
+ * The stored contents are left in place so the same upload can be pushed to
+ * many machines; delete them with ctx.storage once every push has finished.
+ */
+export const queuePush = mutation({
+  args: {
+    ...transferArgs,
+    storageIds: v.array(v.id("_storage")), // Uploaded contents, in order
+    sha256: v.optional(v.string()), // Expected hex SHA-256 of the whole file
+    mode: v.optional(v.number()), // Permission bits, e.g. 0o644 (default: keep the existing file's, else 0o644)
+    uid: v.optional(v.number()), // Owner to set on the written file
+    gid: v.optional(v.number()), // Group to set on the written file
+  },
+  returns: v.id("commandQueue"),
+  handler: async (ctx, args) => {
+    const error = validateTransfer(args);
+    if (error) {
+      throw new Error(error);
+    }
+    if (args.sha256 !== undefined && !/^[0-9a-f]{64}$/i.test(args.sha256)) {
+      throw new Error("sha256 must be a hex SHA-256 digest");
+    }
+
+    const chunks = [];
+    for (const storageId of args.storageIds) {
+      const stored = await ctx.db.system.get(storageId);
+      if (!stored) {
+        throw new Error(`File ${storageId} not found in storage`);
+      }
+      chunks.push({ storageId, size: stored.size, sha256: stored.sha256 });
+    }
+
+    const size = chunks.reduce((total, chunk) => total + chunk.size, 0);
+    const maxBytes = args.maxBytes ?? DEFAULT_MAX_FILE_BYTES;
+    if (size > maxBytes) {
+      throw new Error(`File is ${size} bytes, over the ${maxBytes} byte limit`);
+    }
+
+    return await insertCommand(ctx, {
+      ...args,
+      kind: "file_push",
+      command: `file_push ${args.path}`,
+      file: {
+        path: args.path,
+        maxBytes,
+        mode: args.mode,
+        uid: args.uid,
+        gid: args.gid,
+        chunks,
+        size,
+        sha256: args.sha256?.toLowerCase(),
+      },
+      timeoutMs: args.timeoutMs ?? DEFAULT_FILE_TIMEOUT_MS,
+    });
+  },
+});
+
+/**
+ * Queue a file_pull: read a file on the target into file storage.
+ * Once the command completes, getPulledFile returns download URLs for its contents.
+ */
+export const queuePull = mutation({
+  args: transferArgs,
+  returns: v.id("commandQueue"),
+  handler: async (ctx, args) => {
+    const error = validateTransfer(args);
+    if (error) {
+      throw new Error(error);
+    }
+
+    return await insertCommand(ctx, {
+      ...args,
+      kind: "file_pull",
+      command: `file_pull ${args.path}`,
+      file: {
+        path: args.path,
+        maxBytes: args.maxBytes ?? DEFAULT_MAX_FILE_BYTES,
+      },
+      timeoutMs: args.timeoutMs ?? DEFAULT_FILE_TIMEOUT_MS,
+    });
+  },
+});
+
+/**
+ * Contents of a completed file_pull, as download URLs for its chunks in order.
+ * Concatenate the chunks to get the file; sha256 covers the whole file.
+ */
+export const getPulledFile = query({
+  args: {
+    commandId: v.id("commandQueue"),
+  },
+  returns: v.union(
+    v.object({
+      path: v.string(),
+      size: v.number(),
+      sha256: v.string(),
+      chunks: v.array(
+        v.object({
+          url: v.union(v.string(), v.null()),
+          size: v.number(),
+          sha256: v.string(),
+        })
+      ),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const cmd = await ctx.db.get(args.commandId);
+    if (!cmd?.file || !cmd.fileResult) return null;
+
+    const chunks = [];
+    for (const chunk of cmd.fileResult.chunks) {
+      chunks.push({
+        url: await ctx.storage.getUrl(chunk.storageId),
+        size: chunk.size,
+        sha256: chunk.sha256,
+      });
+    }
+
+    return {
+      path: cmd.file.path,
+      size: cmd.fileResult.size,
+      sha256: cmd.fileResult.sha256,
+      chunks,
+    };
+  },
+});
+
+/**
+ * Delete the stored contents of a file_pull once they were downloaded
+ */
+export const deletePulledFile = mutation({
+  args: {
+    commandId: v.id("commandQueue"),
+  },
+  returns: v.object({
+    success: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const cmd = await ctx.db.get(args.commandId);
+    if (!cmd?.fileResult) {
+      return { success: false };
+    }
+
+    await deleteFileChunks(ctx, cmd.fileResult.chunks);
+    await ctx.db.patch(args.commandId, {
+      fileResult: undefined,
+      updatedAt: Date.now(),
+    });
+    return { success: true };
+  },
+});
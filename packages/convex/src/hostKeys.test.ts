@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createRelayTestConvex, RelayTestConvex } from "./test.setup";
+import { api } from "./_generated/api";
+
+describe("hostKeys", () => {
+  let t: RelayTestConvex;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    t = createRelayTestConvex();
+  });
+
+  afterEach(async () => {
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+  });
+
+  const reportHostKeys = (relayId: string, hostKeys?: Array<Record<string, unknown>>) =>
+    t.mutation(api.public.reportFullStatus, {
+      relayId,
+      capabilities: ["ssh"],
+      credentials: [],
+      hostKeys,
+    });
+
+  const knownKey = (extra: Record<string, unknown> = {}) => ({
+    host: "db1.internal",
+    port: 22,
+    keyType: "ssh-ed25519",
+    fingerprint: "SHA256:old",
+    source: "tofu",
+    firstSeenAt: Date.now(),
+    lastSeenAt: Date.now(),
+    ...extra,
+  });
+
+  const getPush = async (pushId: string) => {
+    const push = await t.query(api.configPush.get, { id: pushId });
+    return { pushType: push?.pushType, payload: JSON.parse(push!.payload) };
+  };
+
+  describe("listForRelay", () => {
+    it("returns the host keys from the latest status report", async () => {
+      await reportHostKeys("relay-1", [knownKey({ rejectedFingerprint: "SHA256:new", rejectedAt: Date.now() })]);
+
+      const keys = await t.query(api.hostKeys.listForRelay, { relayId: "relay-1" });
+      expect(keys).toHaveLength(1);
+      expect(keys[0].fingerprint).toBe("SHA256:old");
+      expect(keys[0].rejectedFingerprint).toBe("SHA256:new");
+    });
+
+    it("keeps the previous snapshot when a relay doesn't report host keys", async () => {
+      await reportHostKeys("relay-1", [knownKey()]);
+      await reportHostKeys("relay-1");
+
+      expect(await t.query(api.hostKeys.listForRelay, { relayId: "relay-1" })).toHaveLength(1);
+    });
+  });
+
+  describe("pin", () => {
+    it("pins the key the relay currently trusts", async () => {
+      await reportHostKeys("relay-1", [knownKey()]);
+
+      const pushId = await t.mutation(api.hostKeys.pin, {
+        relayId: "relay-1",
+        host: "db1.internal",
+        createdBy: "admin",
+      });
+
+      expect(await getPush(pushId)).toEqual({
+        pushType: "host_keys",
+        payload: {
+          pin: [{ host: "db1.internal", port: 22, fingerprint: "SHA256:old", keyType: "ssh-ed25519" }],
+        },
+      });
+    });
+
+    it("requires a fingerprint for hosts the relay hasn't seen", async () => {
+      await expect(
+        t.mutation(api.hostKeys.pin, { relayId: "relay-1", host: "db2.internal", createdBy: "admin" })
+      ).rejects.toThrow("No known host key");
+      await expect(
+        t.mutation(api.hostKeys.pin, {
+          relayId: "relay-1",
+          host: "db2.internal",
+          fingerprint: "aa:bb",
+          createdBy: "admin",
+        })
+      ).rejects.toThrow("SHA256 fingerprint");
+    });
+  });
+
+  describe("rotate", () => {
+    it("pins the new fingerprint", async () => {
+      const pushId = await t.mutation(api.hostKeys.rotate, {
+        relayId: "relay-1",
+        host: "db1.internal",
+        port: 2222,
+        fingerprint: "SHA256:new",
+        createdBy: "admin",
+      });
+
+      expect((await getPush(pushId)).payload).toEqual({
+        pin: [{ host: "db1.internal", port: 2222, fingerprint: "SHA256:new" }],
+      });
+    });
+
+    it("forgets the key when no fingerprint is given", async () => {
+      const pushId = await t.mutation(api.hostKeys.rotate, {
+        relayId: "relay-1",
+        host: "db1.internal",
+        createdBy: "admin",
+      });
+
+      expect((await getPush(pushId)).payload).toEqual({
+        forget: [{ host: "db1.internal", port: 22 }],
+      });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { v } from "convex/values";
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { hostKeySourceValidator } from "./schema";
+
+const hostKeyValidator = v.object({
+  _id: v.id("sshHostKeys"),
+  relayId: v.string(),
+  host: v.string(),
+  port: v.number(),
+  keyType: v.string(),
+  fingerprint: v.string(),
+  source: hostKeySourceValidator,
+  firstSeenAt: v.number(),
+  lastSeenAt: v.number(),
+  rejectedFingerprint: v.optional(v.string()),
+  rejectedAt: v.optional(v.number()),
+  reportedAt: v.number(),
+});
+
+/**
+ * Queue a host_keys config push for a relay
+ */
+async function queueHostKeysPush(
+  ctx: MutationCtx,
+  relayId: string,
+  payload: {
+    pin?: Array<{ host: string; port: number; fingerprint: string; keyType?: string }>;
+    forget?: Array<{ host: string; port: number }>;
+  },
+  createdBy: string
+): Promise<Id<"configPushQueue">> {
+  return await ctx.db.insert("configPushQueue", {
+    relayId,
+    pushType: "host_keys",
+    payload: JSON.stringify(payload),
+    status: "pending",
+    createdBy,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Known SSH host keys a relay reported, including keys it rejected
+ */
+export const listForRelay = query({
+  args: {
+    relayId: v.string(),
+  },
+  returns: v.array(hostKeyValidator),
+  handler: async (ctx, args) => {
+    const keys = await ctx.db
+      .query("sshHostKeys")
+      .withIndex("by_relayId", (q) => q.eq("relayId", args.relayId))
+      .collect();
+
+    return keys
+      .map((k) => ({
+        _id: k._id,
+        relayId: k.relayId,
+        host: k.host,
+        port: k.port,
+        keyType: k.keyType,
+        fingerprint: k.fingerprint,
+        source: k.source,
+        firstSeenAt: k.firstSeenAt,
+        lastSeenAt: k.lastSeenAt,
+        rejectedFingerprint: k.rejectedFingerprint,
+        rejectedAt: k.rejectedAt,
+        reportedAt: k.reportedAt,
+      }))
+      .sort((a, b) => a.host.localeCompare(b.host) || a.port - b.port);
+  },
+});
+
+/**
+ * Pin a host key on a relay. Without a fingerprint, the key the relay
+ * currently trusts is pinned. Returns the queued config push.
+ */
+export const pin = mutation({
+  args: {
+    relayId: v.string(),
+    host: v.string(),
+    port: v.optional(v.number()), // Default: 22
+    fingerprint: v.optional(v.string()),
+    createdBy: v.string(),
+  },
+  returns: v.id("configPushQueue"),
+  handler: async (ctx, args) => {
+    const port = args.port ?? 22;
+    const known = await ctx.db
+      .query("sshHostKeys")
+      .withIndex("by_relayId_host_port", (q) =>
+        q.eq("relayId", args.relayId).eq("host", args.host).eq("port", port)
+      )
+      .first();
+
+    const fingerprint = args.fingerprint ?? known?.fingerprint;
+    if (!fingerprint) {
+      throw new Error(`No known host key for ${args.host}:${port} - pass the fingerprint to pin`);
+    }
+    if (!fingerprint.startsWith("SHA256:")) {
+      throw new Error("fingerprint must be a SHA256 fingerprint (\"SHA256:...\")");
+    }
+
+    const keyType = known?.fingerprint === fingerprint ? known.keyType : undefined;
+    return await queueHostKeysPush(
+      ctx,
+      args.relayId,
+      { pin: [{ host: args.host, port, fingerprint, keyType }] },
+      args.createdBy
+    );
+  },
+});
+
+/**
+ * Rotate a host key on a relay after the server's key was changed on purpose.
+ * With a fingerprint (e.g. the rejectedFingerprint the relay reported) the new
+ * key is pinned; without one the relay forgets the key and learns it again on
+ * the next connection (tofu mode only). Returns the queued config push.
+ */
+export const rotate = mutation({
+  args: {
+    relayId: v.string(),
+    host: v.string(),
+    port: v.optional(v.number()), // Default: 22
+    fingerprint: v.optional(v.string()),
+    createdBy: v.string(),
+  },
+  returns: v.id("configPushQueue"),
+  handler: async (ctx, args) => {
+    const port = args.port ?? 22;
+
+    if (args.fingerprint === undefined) {
+      return await queueHostKeysPush(
+        ctx,
+        args.relayId,
+        { forget: [{ host: args.host, port }] },
+        args.createdBy
+      );
+    }
+
+    if (!args.fingerprint.startsWith("SHA256:")) {
+      throw new Error("fingerprint must be a SHA256 fingerprint (\"SHA256:...\")");
+    }
+    return await queueHostKeysPush(
+      ctx,
+      args.relayId,
+      { pin: [{ host: args.host, port, fingerprint: args.fingerprint }] },
+      args.createdBy
+    );
+  },
+});
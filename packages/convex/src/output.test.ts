@@ -0,0 +1,15 @@
+import { describe, it, expect } from "vitest";
+import { splitOutput } from "./output";
+
+describe("output", () => {
+  describe("splitOutput", () => {
+    it("splits text into pieces of at most the given size", () => {
+      expect(splitOutput("abcdefg", 3)).toEqual(["abc", "def", "g"]);
+      expect(splitOutput("", 3)).toEqual([]);
+    });
+
+    it("keeps surrogate pairs together", () => {
+      expect(splitOutput("ab😀cd", 3)).toEqual(["ab", "😀c", "d"]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+
+// Largest piece of output stored in one chunk
+export const MAX_OUTPUT_CHUNK_CHARS = 64 * 1024;
+
+export type OutputStream = "stdout" | "stderr";
+
+export interface OutputChunk {
+  stream: OutputStream;
+  seq: number;
+  data: string;
+}
+
+/**
+ * Split text into pieces of at most maxChars, never between the two halves
+ * of a surrogate pair
+ */
+export function splitOutput(text: string, maxChars: number = MAX_OUTPUT_CHUNK_CHARS): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+    const last = text.charCodeAt(end - 1);
+    if (end < text.length && end - start > 1 && last >= 0xd800 && last <= 0xdbff) {
+      end--;
+    }
+    pieces.push(text.slice(start, end));
+    start = end;
+  }
+  return pieces;
+}
+
+/**
+ * Store chunks the relay numbered, in order. A chunk that is already stored
+ * (the relay retried a send) or that would leave a gap is skipped, so each
+ * stream stays contiguous. Returns the last seq stored for each stream.
+ */
+export async function appendOutputChunks(
+  ctx: MutationCtx,
+  cmd: Doc<"commandQueue">,
+  chunks: OutputChunk[]
+): Promise<{ stdoutSeq: number; stderrSeq: number }> {
+  const now = Date.now();
+  const streams = {
+    stdout: { seq: cmd.stdoutSeq ?? 0, streamed: cmd.stdoutStreamed ?? 0 },
+    stderr: { seq: cmd.stderrSeq ?? 0, streamed: cmd.stderrStreamed ?? 0 },
+  };
+
+  for (const chunk of chunks) {
+    const stream = streams[chunk.stream];
+    if (chunk.seq !== stream.seq + 1) continue;
+    await ctx.db.insert("commandOutput", {
+      commandId: cmd._id,
+      stream: chunk.stream,
+      seq: chunk.seq,
+      data: chunk.data,
+      createdAt: now,
+    });
+    stream.seq = chunk.seq;
+    stream.streamed += chunk.data.length;
+  }
+
+  await ctx.db.patch(cmd._id, {
+    stdoutSeq: streams.stdout.seq,
+    stderrSeq: streams.stderr.seq,
+    stdoutStreamed: streams.stdout.streamed,
+    stderrStreamed: streams.stderr.streamed,
+  });
+  return { stdoutSeq: streams.stdout.seq, stderrSeq: streams.stderr.seq };
+}
+
+/**
+ * Store whatever part of a command's final output never arrived as chunks,
+ * so a finished command's chunks always add up to its whole output
+ */
+export async function flushOutputTail(
+  ctx: MutationCtx,
+  cmd: Doc<"commandQueue">,
+  final: { output?: string; stderr?: string }
+): Promise<void> {
+  const chunks: OutputChunk[] = [];
+  const tails = [
+    { stream: "stdout" as const, text: final.output ?? "", streamed: cmd.stdoutStreamed ?? 0, seq: cmd.stdoutSeq ?? 0 },
+    { stream: "stderr" as const, text: final.stderr ?? "", streamed: cmd.stderrStreamed ?? 0, seq: cmd.stderrSeq ?? 0 },
+  ];
+  for (const tail of tails) {
+    for (const data of splitOutput(tail.text.slice(tail.streamed))) {
+      chunks.push({ stream: tail.stream, seq: ++tail.seq, data });
+    }
+  }
+
+  if (chunks.length > 0) {
+    await appendOutputChunks(ctx, cmd, chunks);
+  }
+}
+
+/**
+ * Delete a command's streamed output, e.g. before it runs again
+ */
+export async function clearOutput(ctx: MutationCtx, commandId: Id<"commandQueue">): Promise<void> {
+  const chunks = await ctx.db
+    .query("commandOutput")
+    .withIndex("by_commandId_stream_seq", (q) => q.eq("commandId", commandId))
+    .collect();
+  for (const chunk of chunks) {
+    await ctx.db.delete(chunk._id);
+  }
+  await ctx.db.patch(commandId, {
+    stdoutSeq: undefined,
+    stderrSeq: undefined,
+    stdoutStreamed: undefined,
+    stderrStreamed: undefined,
+  });
+}
+
+/**
+ * Read up to limit chunks of one stream after afterSeq, and whether more follow
+ */
+export async function readOutputChunks(
+  ctx: QueryCtx,
+  commandId: Id<"commandQueue">,
+  stream: OutputStream,
+  afterSeq: number,
+  limit: number
+): Promise<{ chunks: Array<{ seq: number; data: string }>; more: boolean }> {
+  const chunks = await ctx.db
+    .query("commandOutput")
+    .withIndex("by_commandId_stream_seq", (q) =>
+      q.eq("commandId", commandId).eq("stream", stream).gt("seq", afterSeq)
+    )
+    .order("asc")
+    .take(limit + 1);
+
+  return {
+    chunks: chunks.slice(0, limit).map((c) => ({ seq: c.seq, data: c.data })),
+    more: chunks.length > limit,
+  };
+}
+
+/**
+ * Describe output moved to file storage, with a URL to download it
+ */
+export async function storedOutputResult(
+  ctx: QueryCtx,
+  file: Doc<"commandQueue">["outputFile"]
+): Promise<{ storageId: Id<"_storage">; url: string | null; size: number; sha256: string } | undefined> {
+  if (!file) return undefined;
+  return { ...file, url: await ctx.storage.getUrl(file.storageId) };
+}
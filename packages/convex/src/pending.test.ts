@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createRelayTestConvex, RelayTestConvex } from "./test.setup";
+import { createMockCommand } from "./test.helpers";
+import { api } from "./_generated/api";
+import { DEFAULT_QUEUE_TIMEOUT_MS } from "./timeouts";
+
+describe("pending", () => {
+  let t: RelayTestConvex;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    t = createRelayTestConvex();
+  });
+
+  afterEach(async () => {
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+  });
+
+  const queue = (command: string, extra: { priority?: number; notBefore?: number } = {}) =>
+    t.mutation(api.commands.queue, {
+      machineId: "machine-1",
+      command,
+      targetType: "local",
+      createdBy: "user-1",
+      ...extra,
+    });
+
+  describe("getPendingCommands", () => {
+    it("returns higher priorities first and FIFO within a priority", async () => {
+      await queue("low-1", { priority: -1 });
+      await queue("normal-1");
+      await queue("high-1", { priority: 10 });
+      await queue("normal-2");
+      await queue("high-2", { priority: 10 });
+
+      const commands = await t.query(api.public.getPendingCommands, {
+        machineId: "machine-1",
+      });
+
+      expect(commands.map((c) => c.command)).toEqual([
+        "high-1",
+        "high-2",
+        "normal-1",
+        "normal-2",
+        "low-1",
+      ]);
+    });
+
+    it("stops at the limit across priority levels", async () => {
+      await queue("normal-1");
+      await queue("high-1", { priority: 5 });
+      await queue("normal-2");
+
+      const commands = await t.query(api.public.getPendingCommands, {
+        machineId: "machine-1",
+        limit: 2,
+      });
+
+      expect(commands.map((c) => c.command)).toEqual(["high-1", "normal-1"]);
+    });
+
+    it("still returns commands queued without a priority field", async () => {
+      await createMockCommand(t, { machineId: "machine-1", command: "legacy" });
+      await queue("normal-1");
+
+      const commands = await t.query(api.public.getPendingCommands, {
+        machineId: "machine-1",
+      });
+
+      expect(commands.map((c) => c.command)).toEqual(["normal-1", "legacy"]);
+    });
+
+    it("skips commands until their notBefore time", async () => {
+      await queue("later", { notBefore: Date.now() + 60000, priority: 10 });
+      await queue("now");
+
+      let commands = await t.query(api.public.getPendingCommands, {
+        machineId: "machine-1",
+      });
+      expect(commands.map((c) => c.command)).toEqual(["now"]);
+
+      vi.advanceTimersByTime(60000);
+      await t.finishInProgressScheduledFunctions();
+
+      commands = await t.query(api.public.getPendingCommands, {
+        machineId: "machine-1",
+      });
+      expect(commands.map((c) => c.command)).toEqual(["later", "now"]);
+    });
+
+    it("orders a released command by when it became eligible", async () => {
+      await queue("later", { notBefore: Date.now() + 60000 });
+      await queue("now-1");
+      vi.advanceTimersByTime(60000);
+      await t.finishInProgressScheduledFunctions();
+      await queue("now-2");
+
+      const commands = await t.query(api.public.getPendingCommands, {
+        machineId: "machine-1",
+      });
+      expect(commands.map((c) => c.command)).toEqual(["now-1", "later", "now-2"]);
+    });
+
+    it("fills the limit past many delayed commands", async () => {
+      for (let i = 0; i < 20; i++) {
+        await queue(`later-${i}`, { notBefore: Date.now() + 60000 });
+      }
+      await queue("now-1");
+      await queue("now-2");
+
+      const commands = await t.query(api.public.getPendingCommands, {
+        machineId: "machine-1",
+        limit: 2,
+      });
+      expect(commands.map((c) => c.command)).toEqual(["now-1", "now-2"]);
+    });
+
+    it("refuses to claim a command before its notBefore time", async () => {
+      const commandId = await queue("later", { notBefore: Date.now() + 60000 });
+
+      expect(await t.mutation(api.public.claimCommand, { commandId, assignmentId: "relay-1" })).toEqual({
+        success: false,
+        error: "Command is not due yet",
+      });
+
+      vi.advanceTimersByTime(60000);
+      await t.finishInProgressScheduledFunctions();
+      expect(await t.mutation(api.public.claimCommand, { commandId, assignmentId: "relay-1" })).toMatchObject({
+        success: true,
+      });
+    });
+  });
+
+  describe("listPending", () => {
+    it("follows priority and notBefore like relays do", async () => {
+      await queue("normal-1");
+      await queue("later", { notBefore: Date.now() + 60000, priority: 10 });
+      await queue("high-1", { priority: 5 });
+
+      const commands = await t.query(api.commands.listPending, { machineId: "machine-1" });
+
+      expect(commands.map((c) => c.command)).toEqual(["high-1", "normal-1"]);
+    });
+  });
+
+  describe("queue", () => {
+    it("stores the priority and notBefore", async () => {
+      const notBefore = Date.now() + 60000;
+      const commandId = await queue("nightly", { priority: 3, notBefore });
+
+      const cmd = await t.query(api.commands.get, { id: commandId });
+      expect(cmd?.priority).toBe(3);
+      expect(cmd?.notBefore).toBe(notBefore);
+    });
+
+    it("defaults the priority to 0", async () => {
+      const commandId = await queue("plain");
+
+      const cmd = await t.query(api.commands.get, { id: commandId });
+      expect(cmd?.priority).toBe(0);
+      expect(cmd?.notBefore).toBeUndefined();
+    });
+
+    it("starts the queue timeout at notBefore", async () => {
+      const notBefore = Date.now() + 8 * 60 * 60 * 1000;
+      const result = await t.mutation(api.rpc.queueRpcCommand, {
+        machineId: "machine-1",
+        command: "backup.sh",
+        targetType: "local",
+        timeoutMs: 1000,
+        notBefore,
+        createdBy: "user-1",
+      });
+
+      const cmd = await t.run(async (ctx) => ctx.db.get(result.commandId!));
+      expect(cmd?.deadlineAt).toBe(notBefore + DEFAULT_QUEUE_TIMEOUT_MS + 1000);
+
+      // Waiting for notBefore doesn't count against the queue timeout
+      vi.advanceTimersByTime(notBefore - Date.now() + DEFAULT_QUEUE_TIMEOUT_MS / 2);
+      await t.finishInProgressScheduledFunctions();
+
+      const waiting = await t.run(async (ctx) => ctx.db.get(result.commandId!));
+      expect(waiting?.status).toBe("pending");
+    });
+  });
+});
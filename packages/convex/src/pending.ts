@@ -0,0 +1,85 @@
+import { v } from "convex/values";
+import { internalMutation, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+
+// Priority for commands queued without one - higher priorities are picked up first
+export const DEFAULT_PRIORITY = 0;
+
+/**
+ * Pending commands a relay may pick up now, highest priority first and in
+ * the order they became eligible within a priority. Commands whose notBefore
+ * is in the future are never read: each level is a range up to now.
+ */
+export async function listEligiblePending(
+  ctx: QueryCtx,
+  machineId: string,
+  limit: number
+): Promise<Doc<"commandQueue">[]> {
+  const now = Date.now();
+  const eligible: Doc<"commandQueue">[] = [];
+  let below: number | undefined = undefined;
+  let first = true;
+
+  while (eligible.length < limit) {
+    // Find the highest priority level left below the one just walked
+    const top: Doc<"commandQueue"> | null = await ctx.db
+      .query("commandQueue")
+      .withIndex("by_machineId_status_priority_eligibleAt", (q) => {
+        const pending = q.eq("machineId", machineId).eq("status", "pending");
+        return first ? pending : pending.lt("priority", below);
+      })
+      .order("desc")
+      .first();
+    if (!top) break;
+
+    // Take that level's commands that are already eligible
+    const level = top.priority;
+    const atLevel = await ctx.db
+      .query("commandQueue")
+      .withIndex("by_machineId_status_priority_eligibleAt", (q) =>
+        q.eq("machineId", machineId).eq("status", "pending").eq("priority", level).lte("eligibleAt", now)
+      )
+      .take(limit - eligible.length);
+    eligible.push(...atLevel);
+
+    // Commands without a priority sort below every number - nothing is left after them
+    if (level === undefined) break;
+    below = level;
+    first = false;
+  }
+
+  return eligible;
+}
+
+/**
+ * Schedule the moment a delayed command becomes eligible, so relay
+ * subscriptions to pending commands re-run and pick it up.
+ */
+export async function scheduleRelease(
+  ctx: MutationCtx,
+  commandId: Id<"commandQueue">,
+  notBefore: number
+): Promise<void> {
+  await ctx.scheduler.runAt(notBefore, internal.pending.releaseDelayed, {
+    commandId,
+  });
+}
+
+/**
+ * Scheduled release of a delayed command. Touches the command so queries
+ * that skipped it while it was future-dated are re-evaluated.
+ */
+export const releaseDelayed = internalMutation({
+  args: {
+    commandId: v.id("commandQueue"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const cmd = await ctx.db.get(args.commandId);
+    if (!cmd || cmd.status !== "pending") return null;
+
+    await ctx.db.patch(cmd._id, { updatedAt: Date.now() });
+    return null;
+  },
+});
@@ -5,6 +5,7 @@ import {
   createMockCommand,
   createMockConfigPush,
   createMockSharedCredential,
+  type MockCommand,
 } from "./test.helpers";
 import { api } from "./_generated/api";
 
@@ -122,6 +123,21 @@ describe("public", () => {
       expect(commands[0].targetUsername).toBe("admin");
     });
 
+    it("returns at most limit commands, oldest first", async () => {
+      const machineId = "limited-machine";
+
+      for (const command of ["cmd1", "cmd2", "cmd3"]) {
+        await createMockCommand(t, { machineId, command, status: "pending" });
+      }
+
+      const commands = await t.query(api.public.getPendingCommands, {
+        machineId,
+        limit: 2,
+      });
+
+      expect(commands.map((c) => c.command)).toEqual(["cmd1", "cmd2"]);
+    });
+
     it("returns empty array when no pending commands", async () => {
       const commands = await t.query(api.public.getPendingCommands, {
         machineId: "empty-machine",
@@ -185,74 +201,115 @@ describe("public", () => {
     });
   });
 
-  describe("updatePartialOutput", () => {
-    it("updates partial output for claimed command", async () => {
+  describe("appendOutput", () => {
+    const storedChunks = (commandId: MockCommand["_id"]) =>
+      t.run(async (ctx) =>
+        (await ctx.db.query("commandOutput").collect())
+          .filter((c) => c.commandId === commandId)
+          .map((c) => ({ stream: c.stream, seq: c.seq, data: c.data }))
+      );
+
+    it("stores output chunks for a claimed command and marks it executing", async () => {
       const cmd = await createMockCommand(t, {
         status: "claimed",
         claimedBy: "relay-1",
       });
 
-      const result = await t.mutation(api.public.updatePartialOutput, {
+      const result = await t.mutation(api.public.appendOutput, {
         commandId: cmd._id,
-        partialOutput: "Processing...\n",
-        partialStderr: "",
-      });
-
-      expect(result.success).toBe(true);
-
-      // Verify command was updated
-      const updated = await t.run(async (ctx) => {
-        return await ctx.db.get(cmd._id);
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [
+          { stream: "stdout", seq: 1, data: "Processing...\n" },
+          { stream: "stderr", seq: 1, data: "warning\n" },
+          { stream: "stdout", seq: 2, data: "Done\n" },
+        ],
       });
 
+      expect(result).toEqual({ success: true, stdoutSeq: 2, stderrSeq: 1 });
+      const updated = await t.run(async (ctx) => ctx.db.get(cmd._id));
       expect(updated?.status).toBe("executing");
-      expect(updated?.partialOutput).toBe("Processing...\n");
+      expect(updated?.stdoutStreamed).toBe(19);
+      expect(await storedChunks(cmd._id)).toEqual([
+        { stream: "stdout", seq: 1, data: "Processing...\n" },
+        { stream: "stderr", seq: 1, data: "warning\n" },
+        { stream: "stdout", seq: 2, data: "Done\n" },
+      ]);
     });
 
-    it("updates partial output for executing command", async () => {
-      const cmd = await createMockCommand(t, {
-        status: "executing",
-      });
+    it("skips chunks already stored and chunks after a gap", async () => {
+      const cmd = await createMockCommand(t, { status: "executing", claimedBy: "relay-1" });
 
-      await t.run(async (ctx) => {
-        await ctx.db.patch(cmd._id, {
-          partialOutput: "Line 1\n",
-        });
+      await t.mutation(api.public.appendOutput, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [{ stream: "stdout", seq: 1, data: "a" }],
       });
-
-      const result = await t.mutation(api.public.updatePartialOutput, {
+      const retried = await t.mutation(api.public.appendOutput, {
         commandId: cmd._id,
-        partialOutput: "Line 1\nLine 2\n",
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [
+          { stream: "stdout", seq: 1, data: "a" },
+          { stream: "stdout", seq: 2, data: "b" },
+        ],
       });
-
-      expect(result.success).toBe(true);
-
-      const updated = await t.run(async (ctx) => {
-        return await ctx.db.get(cmd._id);
+      const gap = await t.mutation(api.public.appendOutput, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [{ stream: "stdout", seq: 4, data: "d" }],
       });
 
-      expect(updated?.partialOutput).toBe("Line 1\nLine 2\n");
+      expect(retried).toEqual({ success: true, stdoutSeq: 2, stderrSeq: 0 });
+      expect(gap).toEqual({ success: true, stdoutSeq: 2, stderrSeq: 0 });
+      expect((await storedChunks(cmd._id)).map((c) => c.data)).toEqual(["a", "b"]);
     });
 
-    it("updates both stdout and stderr", async () => {
+    it("rejects output from a relay that no longer holds the command", async () => {
       const cmd = await createMockCommand(t, {
         status: "claimed",
+        claimedBy: "relay-2",
       });
 
-      const result = await t.mutation(api.public.updatePartialOutput, {
+      const result = await t.mutation(api.public.appendOutput, {
         commandId: cmd._id,
-        partialOutput: "stdout content",
-        partialStderr: "stderr content",
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [{ stream: "stdout", seq: 1, data: "stale" }],
       });
 
-      expect(result.success).toBe(true);
+      expect(result).toEqual({ success: false, error: "Lease is held by another claim" });
+      expect(await storedChunks(cmd._id)).toEqual([]);
+    });
 
-      const updated = await t.run(async (ctx) => {
-        return await ctx.db.get(cmd._id);
+    it("rejects output from an earlier claim by the same relay", async () => {
+      const cmd = await createMockCommand(t, { status: "executing", claimedBy: "relay-1" });
+      await t.run(async (ctx) => ctx.db.patch(cmd._id, { attempts: 2 }));
+
+      const result = await t.mutation(api.public.appendOutput, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [{ stream: "stdout", seq: 1, data: "stale" }],
       });
 
-      expect(updated?.partialOutput).toBe("stdout content");
-      expect(updated?.partialStderr).toBe("stderr content");
+      expect(result).toEqual({ success: false, error: "Lease is held by another claim" });
+      expect(await storedChunks(cmd._id)).toEqual([]);
+    });
+
+    it("rejects oversized chunks", async () => {
+      const cmd = await createMockCommand(t, { status: "executing", claimedBy: "relay-1" });
+
+      const result = await t.mutation(api.public.appendOutput, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [{ stream: "stdout", seq: 1, data: "x".repeat(64 * 1024 + 1) }],
+      });
+
+      expect(result).toEqual({ success: false, error: "Output chunks are limited to 65536 characters" });
     });
 
     it("fails for non-existent command", async () => {
@@ -261,62 +318,198 @@ describe("public", () => {
         await ctx.db.delete(cmd._id);
       });
 
-      const result = await t.mutation(api.public.updatePartialOutput, {
+      const result = await t.mutation(api.public.appendOutput, {
         commandId: cmd._id,
-        partialOutput: "test",
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [{ stream: "stdout", seq: 1, data: "test" }],
       });
 
       expect(result.success).toBe(false);
     });
 
-    it("fails for completed command", async () => {
-      const cmd = await createMockCommand(t, {
-        status: "completed",
-      });
+    it("fails for commands that are not running", async () => {
+      for (const status of ["pending", "completed", "failed"] as const) {
+        const cmd = await createMockCommand(t, { status });
 
-      const result = await t.mutation(api.public.updatePartialOutput, {
+        const result = await t.mutation(api.public.appendOutput, {
+          commandId: cmd._id,
+          assignmentId: "relay-1",
+          attempt: 1,
+          chunks: [{ stream: "stdout", seq: 1, data: "test" }],
+        });
+
+        expect(result).toEqual({ success: false, error: "Command is not running" });
+      }
+    });
+  });
+
+  describe("generateOutputUploadUrl", () => {
+    it("hands upload URLs only to the relay holding the claim", async () => {
+      const cmd = await createMockCommand(t, { status: "executing", claimedBy: "relay-1" });
+
+      const granted = await t.mutation(api.public.generateOutputUploadUrl, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+      });
+      const otherRelay = await t.mutation(api.public.generateOutputUploadUrl, {
         commandId: cmd._id,
-        partialOutput: "test",
+        assignmentId: "relay-2",
+        attempt: 1,
+      });
+      const laterClaim = await t.mutation(api.public.generateOutputUploadUrl, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 2,
       });
 
-      expect(result.success).toBe(false);
+      expect(granted.success).toBe(true);
+      expect(otherRelay).toEqual({ success: false, error: "Lease is held by another claim" });
+      expect(laterClaim).toEqual({ success: false, error: "Lease is held by another claim" });
     });
+  });
 
-    it("fails for failed command", async () => {
-      const cmd = await createMockCommand(t, {
+  describe("submitResult", () => {
+    it("stores output that was never streamed as the last chunks", async () => {
+      const cmd = await createMockCommand(t, { status: "executing", claimedBy: "relay-1" });
+      await t.mutation(api.public.appendOutput, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [{ stream: "stdout", seq: 1, data: "line 1\n" }],
+      });
+
+      await t.mutation(api.public.submitResult, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: false,
+        output: "line 1\nline 2\n",
+        stderr: "boom\n",
+        exitCode: 1,
+      });
+
+      const stream = await t.query(api.rpc.getCommandStream, { commandId: cmd._id });
+      expect(stream).toMatchObject({
         status: "failed",
+        stdout: [
+          { seq: 1, data: "line 1\n" },
+          { seq: 2, data: "line 2\n" },
+        ],
+        stderr: [{ seq: 1, data: "boom\n" }],
+        done: true,
       });
+    });
+
+    it("points at output moved to file storage and keeps the preview inline", async () => {
+      const cmd = await createMockCommand(t, { status: "executing", claimedBy: "relay-1" });
+      const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob(["line 1\nline 2\n"])));
+      const stored = await t.run(async (ctx) => ctx.db.system.get(storageId));
 
-      const result = await t.mutation(api.public.updatePartialOutput, {
+      await t.mutation(api.public.submitResult, {
         commandId: cmd._id,
-        partialOutput: "test",
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: true,
+        output: "line 1\n",
+        outputFile: { storageId, size: 14, sha256: stored!.sha256 },
+        exitCode: 0,
       });
 
-      expect(result.success).toBe(false);
+      const updated = await t.query(api.commands.get, { id: cmd._id });
+      expect(updated?.status).toBe("completed");
+      expect(updated?.output).toBe("line 1\n");
+      expect(updated?.outputFile).toEqual({ storageId, size: 14, sha256: stored!.sha256 });
+
+      // The preview is not the tail of the stream
+      const stream = await t.query(api.rpc.getCommandStream, { commandId: cmd._id });
+      expect(stream).toMatchObject({ stdout: [], done: true });
     });
 
-    it("fails for pending command (not yet claimed)", async () => {
-      const cmd = await createMockCommand(t, {
-        status: "pending",
+    it("records truncated output and its size", async () => {
+      const cmd = await createMockCommand(t, { status: "executing", claimedBy: "relay-1" });
+      await t.mutation(api.public.appendOutput, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [{ stream: "stdout", seq: 1, data: "aaaabbbb" }],
       });
 
-      const result = await t.mutation(api.public.updatePartialOutput, {
+      await t.mutation(api.public.submitResult, {
         commandId: cmd._id,
-        partialOutput: "test",
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: true,
+        output: "aaaa\n[... 12 bytes truncated ...]\ncccc",
+        outputBytes: 20,
+        outputTruncated: true,
+        stderr: "warn\n",
+        stderrBytes: 5,
+        exitCode: 0,
       });
 
-      expect(result.success).toBe(false);
+      const updated = await t.query(api.commands.get, { id: cmd._id });
+      expect(updated).toMatchObject({ outputBytes: 20, outputTruncated: true, stderrBytes: 5 });
+      expect(updated?.stderrTruncated).toBeUndefined();
+
+      // Truncated output doesn't continue the streamed chunks; the rest of stderr does
+      const stream = await t.query(api.rpc.getCommandStream, { commandId: cmd._id });
+      expect(stream).toMatchObject({
+        stdout: [{ seq: 1, data: "aaaabbbb" }],
+        stderr: [{ seq: 1, data: "warn\n" }],
+      });
+    });
+
+    it("records the signal that ended a timed-out command", async () => {
+      const cmd = await createMockCommand(t, { status: "executing", claimedBy: "relay-1" });
+
+      await t.mutation(api.public.submitResult, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: false,
+        exitCode: -1,
+        signal: "SIGKILL",
+        error: "Command timed out",
+        timedOut: true,
+      });
+
+      const result = await t.query(api.rpc.getCommandResult, { commandId: cmd._id });
+      expect(result).toMatchObject({ status: "timeout", exitCode: -1, signal: "SIGKILL" });
+    });
+
+    it("fails the command when stored output doesn't match storage", async () => {
+      const cmd = await createMockCommand(t, { status: "executing", claimedBy: "relay-1" });
+      const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob(["trunc"])));
+
+      await t.mutation(api.public.submitResult, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: true,
+        output: "line 1\n",
+        outputFile: { storageId, size: 14, sha256: "bogus" },
+        exitCode: 0,
+      });
+
+      const updated = await t.query(api.commands.get, { id: cmd._id });
+      expect(updated?.status).toBe("failed");
+      expect(updated?.error).toBe("Stored stdout does not match file storage");
+      expect(updated?.outputFile).toBeUndefined();
+      expect(await t.run(async (ctx) => ctx.db.system.get(storageId))).toBeNull();
     });
-  });
 
-  describe("submitResult", () => {
     it("submits successful command result", async () => {
       const cmd = await createMockCommand(t, {
         status: "claimed",
+        claimedBy: "relay-1",
       });
 
       const result = await t.mutation(api.public.submitResult, {
         commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
         success: true,
         output: "Hello, World!",
         exitCode: 0,
@@ -335,13 +528,84 @@ describe("public", () => {
       expect(updated?.exitCode).toBe(0);
     });
 
+    it("records the error code of a command the relay refused to run", async () => {
+      const cmd = await createMockCommand(t, {
+        status: "claimed",
+        claimedBy: "relay-1",
+      });
+
+      await t.mutation(api.public.submitResult, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: false,
+        exitCode: -1,
+        error: "Command rejected by relay policy: no allow rule matches local command",
+        errorCode: "policy_denied",
+      });
+
+      const result = await t.query(api.rpc.getCommandResult, { commandId: cmd._id });
+      expect(result.found).toBe(true);
+      if (result.found) {
+        expect(result.status).toBe("failed");
+        expect(result.errorCode).toBe("policy_denied");
+      }
+    });
+
+    it("records commands their execution profile rejected", async () => {
+      const cmd = await createMockCommand(t, { status: "claimed", claimedBy: "relay-1" });
+
+      await t.mutation(api.public.submitResult, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: false,
+        exitCode: -1,
+        error: "Command rejected by relay: user is set by the relay and can't be changed",
+        errorCode: "profile_rejected",
+      });
+
+      const command = await t.query(api.commands.get, { id: cmd._id });
+      expect(command?.errorCode).toBe("profile_rejected");
+    });
+
+    it("records the SSH authentication method that succeeded", async () => {
+      const cmd = await createMockCommand(t, {
+        status: "claimed",
+        claimedBy: "relay-1",
+        targetType: "ssh",
+        targetHost: "db1.internal",
+      });
+
+      await t.mutation(api.public.submitResult, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: true,
+        output: "ok",
+        exitCode: 0,
+        authMethod: "publickey:~/.ssh/id_ed25519",
+      });
+
+      const result = await t.query(api.rpc.getCommandResult, { commandId: cmd._id });
+      expect(result.found).toBe(true);
+      if (result.found) {
+        expect(result.authMethod).toBe("publickey:~/.ssh/id_ed25519");
+      }
+      const command = await t.query(api.commands.get, { id: cmd._id });
+      expect(command?.authMethod).toBe("publickey:~/.ssh/id_ed25519");
+    });
+
     it("submits failed command result", async () => {
       const cmd = await createMockCommand(t, {
         status: "claimed",
+        claimedBy: "relay-1",
       });
 
       const result = await t.mutation(api.public.submitResult, {
         commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
         success: false,
         stderr: "Permission denied",
         exitCode: 1,
@@ -369,6 +633,8 @@ describe("public", () => {
 
       const result = await t.mutation(api.public.submitResult, {
         commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
         success: true,
       });
 
@@ -376,6 +642,83 @@ describe("public", () => {
     });
   });
 
+  describe("cancellation", () => {
+    it("lists cancel requests for running commands on a machine", async () => {
+      const machineId = "cancel-machine";
+      const running = await createMockCommand(t, {
+        machineId,
+        status: "executing",
+        claimedBy: "relay-1",
+      });
+      await createMockCommand(t, {
+        machineId,
+        status: "executing",
+        claimedBy: "relay-1",
+      });
+
+      await t.mutation(api.commands.cancel, {
+        id: running._id,
+        cancelledBy: "user-1",
+      });
+
+      const requests = await t.query(api.public.getCancelRequests, { machineId });
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]._id).toBe(running._id);
+    });
+
+    it("tells the relay to stop when it renews the lease", async () => {
+      const cmd = await createMockCommand(t, { status: "pending" });
+      await t.mutation(api.public.claimCommand, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+      });
+      await t.mutation(api.commands.cancel, {
+        id: cmd._id,
+        cancelledBy: "user-1",
+      });
+
+      const result = await t.mutation(api.public.renewLease, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.cancelRequested).toBe(true);
+      }
+    });
+
+    it("records partial output of a cancelled command", async () => {
+      const cmd = await createMockCommand(t, {
+        status: "executing",
+        claimedBy: "relay-1",
+      });
+      await t.mutation(api.commands.cancel, {
+        id: cmd._id,
+        cancelledBy: "user-1",
+      });
+
+      await t.mutation(api.public.submitResult, {
+        commandId: cmd._id,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: false,
+        output: "line 1\nline 2\n",
+        exitCode: -1,
+        error: "Command cancelled",
+      });
+
+      const updated = await t.run(async (ctx) => {
+        return await ctx.db.get(cmd._id);
+      });
+
+      expect(updated?.status).toBe("cancelled");
+      expect(updated?.output).toBe("line 1\nline 2\n");
+    });
+  });
+
   describe("sendHeartbeat", () => {
     it("updates lastSeenAt for valid API key", async () => {
       await createMockRelayAssignment(t, {
@@ -461,6 +804,20 @@ describe("public", () => {
       expect(creds[0].credentialName).toBe("ssh-key-1");
     });
 
+    it("records the command policy version the relay enforces", async () => {
+      const relayId = "policy-relay";
+
+      await t.mutation(api.public.reportFullStatus, {
+        relayId,
+        capabilities: ["local_cmd"],
+        credentials: [],
+        commandPolicyVersion: "v3",
+      });
+
+      const status = await t.query(api.status.getByRelayId, { relayId });
+      expect(status?.commandPolicyVersion).toBe("v3");
+    });
+
     it("returns pending config push count", async () => {
       const relayId = "pending-push-relay";
 
@@ -677,6 +1034,8 @@ describe("public", () => {
       // 7. Submit result
       const submitResult = await t.mutation(api.public.submitResult, {
         commandId: commands[0]._id,
+        assignmentId: assignment._id,
+        attempt: claimResult.success ? claimResult.attempt : 0,
         success: true,
         output: "test",
         exitCode: 0,
@@ -1,12 +1,85 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, type QueryCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
 import {
   targetTypeValidator,
   capabilityValidator,
   metricsValidator,
   credentialTypeValidator,
   storageModeValidator,
+  commandErrorCodeValidator,
+  sshTargetValidator,
+  hostKeyReportValidator,
+  jumpHostValidator,
+  commandKindValidator,
+  pulledFileValidator,
+  sessionCloseReasonValidator,
+  commandShellValidator,
+  outputStreamValidator,
+  storedOutputValidator,
+  outputLimitValidator,
+  executionProfileValidator,
 } from "./schema";
+import { DEFAULT_LEASE_DURATION_MS, grantLease, holdsLease } from "./leases";
+import { listEligiblePending } from "./pending";
+import { MAX_OUTPUT_CHUNK_CHARS, appendOutputChunks, flushOutputTail } from "./output";
+import { deleteFileChunks } from "./files";
+import { afterCommandFinished, isFinishedStatus } from "./commands";
+import {
+  SESSION_RELAY_TIMEOUT_MS,
+  closeSessionRecord,
+  listSessionInput,
+  scheduleSessionCheck,
+  sessionInputEventValidator,
+} from "./sessions";
+
+// File transfer details a relay needs, with download URLs for pushed contents
+const relayFileValidator = v.object({
+  path: v.string(),
+  maxBytes: v.number(),
+  mode: v.optional(v.number()),
+  uid: v.optional(v.number()),
+  gid: v.optional(v.number()),
+  sha256: v.optional(v.string()),
+  chunks: v.optional(
+    v.array(
+      v.object({
+        url: v.string(),
+        size: v.number(),
+        sha256: v.string(),
+      })
+    )
+  ),
+});
+
+/**
+ * A command's file transfer as handed to relays.
+ * Chunks whose contents were deleted from storage get no URL, which fails the push on the relay.
+ */
+async function fileForRelay(ctx: QueryCtx, cmd: Doc<"commandQueue">) {
+  if (!cmd.file) return undefined;
+  const { chunks, size: _size, ...file } = cmd.file;
+  if (!chunks) return file;
+
+  const relayChunks = [];
+  for (const chunk of chunks) {
+    relayChunks.push({
+      url: (await ctx.storage.getUrl(chunk.storageId)) ?? "",
+      size: chunk.size,
+      sha256: chunk.sha256,
+    });
+  }
+  return { ...file, chunks: relayChunks };
+}
+
+/**
+ * Download URL of a command's stored stdin. Stdin deleted from storage gets an
+ * empty URL, which fails the command on the relay.
+ */
+async function stdinUrlForRelay(ctx: QueryCtx, cmd: Doc<"commandQueue">) {
+  if (!cmd.stdinStorageId) return undefined;
+  return (await ctx.storage.getUrl(cmd.stdinStorageId)) ?? "";
+}
 
 /**
  * Verify a relay's API key and return its assignment details
@@ -52,64 +125,106 @@ export const verifyRelay = query({
 });
 
 /**
- * Get pending commands for a relay to execute
+ * Get pending commands for a relay to execute, highest priority first.
+ * Commands scheduled for later (notBefore in the future) are left out.
  */
 export const getPendingCommands = query({
   args: {
     machineId: v.string(),
+    limit: v.optional(v.number()), // Max commands to return - relays pass their free execution slots
   },
   returns: v.array(
     v.object({
       _id: v.id("commandQueue"),
+      kind: v.optional(commandKindValidator),
       command: v.string(),
+      argv: v.optional(v.array(v.string())),
+      cwd: v.optional(v.string()),
+      env: v.optional(v.record(v.string(), v.string())),
+      shell: v.optional(commandShellValidator),
+      file: v.optional(relayFileValidator),
+      stdin: v.optional(v.string()),
+      stdinUrl: v.optional(v.string()),
+      outputLimit: v.optional(outputLimitValidator),
+      executionProfile: v.optional(executionProfileValidator),
       targetType: targetTypeValidator,
       targetHost: v.optional(v.string()),
       targetPort: v.optional(v.number()),
       targetUsername: v.optional(v.string()),
+      jumpHosts: v.optional(v.array(jumpHostValidator)),
       timeoutMs: v.number(),
       createdAt: v.number(),
     })
   ),
   handler: async (ctx, args) => {
-    const commands = await ctx.db
-      .query("commandQueue")
-      .withIndex("by_machineId_status", (q) =>
-        q.eq("machineId", args.machineId).eq("status", "pending")
-      )
-      .order("asc")
-      .take(10);
+    const commands = await listEligiblePending(
+      ctx,
+      args.machineId,
+      Math.max(0, Math.min(args.limit ?? 10, 10))
+    );
 
-    return commands.map((c) => ({
-      _id: c._id,
-      command: c.command,
-      targetType: c.targetType,
-      targetHost: c.targetHost,
-      targetPort: c.targetPort,
-      targetUsername: c.targetUsername,
-      timeoutMs: c.timeoutMs,
-      createdAt: c.createdAt,
-    }));
+    const pending = [];
+    for (const c of commands) {
+      pending.push({
+        _id: c._id,
+        kind: c.kind,
+        command: c.command,
+        argv: c.argv,
+        cwd: c.cwd,
+        env: c.env,
+        shell: c.shell,
+        file: await fileForRelay(ctx, c),
+        stdin: c.stdin,
+        stdinUrl: await stdinUrlForRelay(ctx, c),
+        outputLimit: c.outputLimit,
+        executionProfile: c.executionProfile,
+        targetType: c.targetType,
+        targetHost: c.targetHost,
+        targetPort: c.targetPort,
+        targetUsername: c.targetUsername,
+        jumpHosts: c.jumpHosts,
+        timeoutMs: c.timeoutMs,
+        createdAt: c.createdAt,
+      });
+    }
+    return pending;
   },
 });
 
 /**
- * Claim a command for execution (atomic operation)
+ * Claim a command for execution (atomic operation).
+ * The claim is a lease: the relay must call renewLease before
+ * leaseExpiresAt or the command is returned to the queue.
  */
 export const claimCommand = mutation({
   args: {
     commandId: v.id("commandQueue"),
     assignmentId: v.string(),
+    leaseDurationMs: v.optional(v.number()),
   },
   returns: v.union(
     v.object({
       success: v.literal(true),
+      leaseExpiresAt: v.number(),
+      attempt: v.number(), // Claim token - pass it back to renewLease, appendOutput and submitResult
       command: v.object({
         _id: v.id("commandQueue"),
+        kind: v.optional(commandKindValidator),
         command: v.string(),
+        argv: v.optional(v.array(v.string())),
+        cwd: v.optional(v.string()),
+        env: v.optional(v.record(v.string(), v.string())),
+        shell: v.optional(commandShellValidator),
+        file: v.optional(relayFileValidator),
+        stdin: v.optional(v.string()),
+        stdinUrl: v.optional(v.string()),
+        outputLimit: v.optional(outputLimitValidator),
+        executionProfile: v.optional(executionProfileValidator),
         targetType: targetTypeValidator,
         targetHost: v.optional(v.string()),
         targetPort: v.optional(v.number()),
         targetUsername: v.optional(v.string()),
+        jumpHosts: v.optional(v.array(jumpHostValidator)),
         timeoutMs: v.number(),
       }),
     }),
@@ -128,22 +243,40 @@ export const claimCommand = mutation({
       return { success: false as const, error: "Command is not pending" };
     }
 
-    await ctx.db.patch(args.commandId, {
-      status: "claimed",
-      claimedBy: args.assignmentId,
-      claimedAt: Date.now(),
-      updatedAt: Date.now(),
-    });
+    // A delayed command can't be claimed early, even by ID
+    if (cmd.notBefore !== undefined && cmd.notBefore > Date.now()) {
+      return { success: false as const, error: "Command is not due yet" };
+    }
+
+    const { leaseExpiresAt, attempt } = await grantLease(
+      ctx,
+      cmd,
+      args.assignmentId,
+      args.leaseDurationMs ?? DEFAULT_LEASE_DURATION_MS
+    );
 
     return {
       success: true as const,
+      leaseExpiresAt,
+      attempt,
       command: {
         _id: cmd._id,
+        kind: cmd.kind,
         command: cmd.command,
+        argv: cmd.argv,
+        cwd: cmd.cwd,
+        env: cmd.env,
+        shell: cmd.shell,
+        file: await fileForRelay(ctx, cmd),
+        stdin: cmd.stdin,
+        stdinUrl: await stdinUrlForRelay(ctx, cmd),
+        outputLimit: cmd.outputLimit,
+        executionProfile: cmd.executionProfile,
         targetType: cmd.targetType,
         targetHost: cmd.targetHost,
         targetPort: cmd.targetPort,
         targetUsername: cmd.targetUsername,
+        jumpHosts: cmd.jumpHosts,
         timeoutMs: cmd.timeoutMs,
       },
     };
@@ -151,42 +284,232 @@ export const claimCommand = mutation({
 });
 
 /**
- * Update partial output during command execution (for streaming)
+ * Renew the lease on a claimed command while it is executing
  */
-export const updatePartialOutput = mutation({
+export const renewLease = mutation({
   args: {
     commandId: v.id("commandQueue"),
-    partialOutput: v.optional(v.string()),
-    partialStderr: v.optional(v.string()),
+    assignmentId: v.string(),
+    attempt: v.number(), // Claim attempt returned by claimCommand
+    leaseDurationMs: v.optional(v.number()),
   },
-  returns: v.object({
-    success: v.boolean(),
-  }),
+  returns: v.union(
+    v.object({
+      success: v.literal(true),
+      leaseExpiresAt: v.number(),
+      cancelRequested: v.boolean(), // Relay should stop the command and submit its partial output
+    }),
+    v.object({
+      success: v.literal(false),
+      error: v.string(),
+    })
+  ),
   handler: async (ctx, args) => {
     const cmd = await ctx.db.get(args.commandId);
     if (!cmd) {
-      return { success: false };
+      return { success: false as const, error: "Command not found" };
     }
 
-    // Only update if command is still executing
     if (cmd.status !== "claimed" && cmd.status !== "executing") {
-      return { success: false };
+      return { success: false as const, error: "Command is not claimed" };
     }
 
-    const updates: Record<string, unknown> = {
-      status: "executing",
-      updatedAt: Date.now(),
+    if (cmd.claimedBy !== args.assignmentId) {
+      return { success: false as const, error: "Lease is held by another relay" };
+    }
+
+    // The same relay may have claimed the command again after this run lost it
+    if (cmd.attempts !== args.attempt) {
+      return { success: false as const, error: "Lease belongs to a later claim" };
+    }
+
+    const now = Date.now();
+    const leaseExpiresAt = now + (args.leaseDurationMs ?? DEFAULT_LEASE_DURATION_MS);
+
+    await ctx.db.patch(args.commandId, {
+      leaseExpiresAt,
+      updatedAt: now,
+    });
+
+    return {
+      success: true as const,
+      leaseExpiresAt,
+      cancelRequested: cmd.cancelRequestedAt !== undefined,
     };
+  },
+});
+
+/**
+ * Get claimed commands on a machine that have been asked to cancel.
+ * Relays in subscription mode watch this to stop running commands.
+ */
+export const getCancelRequests = query({
+  args: {
+    machineId: v.string(),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("commandQueue"),
+      cancelRequestedAt: v.number(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const requests = [];
+
+    for (const status of ["claimed", "executing"] as const) {
+      const commands = await ctx.db
+        .query("commandQueue")
+        .withIndex("by_machineId_status", (q) =>
+          q.eq("machineId", args.machineId).eq("status", status)
+        )
+        .collect();
+
+      for (const c of commands) {
+        if (c.cancelRequestedAt !== undefined) {
+          requests.push({ _id: c._id, cancelRequestedAt: c.cancelRequestedAt });
+        }
+      }
+    }
+
+    return requests;
+  },
+});
+
+/**
+ * Append output chunks while a command runs. The relay numbers the chunks of
+ * each stream from 1; chunks already stored are skipped, so a failed send can
+ * simply be retried. Returns the last seq stored for each stream.
+ */
+export const appendOutput = mutation({
+  args: {
+    commandId: v.id("commandQueue"),
+    assignmentId: v.string(), // Sending relay - rejected if it no longer holds the lease
+    attempt: v.number(), // Claim attempt returned by claimCommand
+    chunks: v.array(
+      v.object({
+        stream: outputStreamValidator,
+        seq: v.number(),
+        data: v.string(),
+      })
+    ),
+  },
+  returns: v.union(
+    v.object({
+      success: v.literal(true),
+      stdoutSeq: v.number(),
+      stderrSeq: v.number(),
+    }),
+    v.object({
+      success: v.literal(false),
+      error: v.string(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const cmd = await ctx.db.get(args.commandId);
+    if (!cmd) {
+      return { success: false as const, error: "Command not found" };
+    }
+
+    // Only accept output while the command is running
+    if (cmd.status !== "claimed" && cmd.status !== "executing") {
+      return { success: false as const, error: "Command is not running" };
+    }
 
-    if (args.partialOutput !== undefined) {
-      updates.partialOutput = args.partialOutput;
+    if (!holdsLease(cmd, args.assignmentId, args.attempt)) {
+      return { success: false as const, error: "Lease is held by another claim" };
     }
-    if (args.partialStderr !== undefined) {
-      updates.partialStderr = args.partialStderr;
+
+    if (args.chunks.some((chunk) => chunk.data.length > MAX_OUTPUT_CHUNK_CHARS)) {
+      return { success: false as const, error: `Output chunks are limited to ${MAX_OUTPUT_CHUNK_CHARS} characters` };
     }
 
-    await ctx.db.patch(args.commandId, updates);
-    return { success: true };
+    const seqs = await appendOutputChunks(ctx, cmd, args.chunks);
+    await ctx.db.patch(args.commandId, { status: "executing", updatedAt: Date.now() });
+    return { success: true as const, ...seqs };
+  },
+});
+
+/**
+ * Get a URL to upload one chunk of the file a claimed file_pull command reads.
+ * POST the chunk to the URL; the response JSON holds its storageId.
+ */
+export const generateFileUploadUrl = mutation({
+  args: {
+    commandId: v.id("commandQueue"),
+    assignmentId: v.string(),
+    attempt: v.number(), // Claim attempt returned by claimCommand
+  },
+  returns: v.union(
+    v.object({
+      success: v.literal(true),
+      uploadUrl: v.string(),
+    }),
+    v.object({
+      success: v.literal(false),
+      error: v.string(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const cmd = await ctx.db.get(args.commandId);
+    if (!cmd) {
+      return { success: false as const, error: "Command not found" };
+    }
+
+    if (cmd.kind !== "file_pull") {
+      return { success: false as const, error: "Command is not a file_pull" };
+    }
+
+    if (cmd.status !== "claimed" && cmd.status !== "executing") {
+      return { success: false as const, error: "Command is not claimed" };
+    }
+
+    if (!holdsLease(cmd, args.assignmentId, args.attempt)) {
+      return { success: false as const, error: "Lease is held by another claim" };
+    }
+
+    return { success: true as const, uploadUrl: await ctx.storage.generateUploadUrl() };
+  },
+});
+
+/**
+ * Get a URL to upload the output of a claimed command that is too large to
+ * submit inline. POST the output to the URL; the response JSON holds its storageId.
+ */
+export const generateOutputUploadUrl = mutation({
+  args: {
+    commandId: v.id("commandQueue"),
+    assignmentId: v.string(),
+    attempt: v.number(), // Claim attempt returned by claimCommand
+  },
+  returns: v.union(
+    v.object({
+      success: v.literal(true),
+      uploadUrl: v.string(),
+    }),
+    v.object({
+      success: v.literal(false),
+      error: v.string(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const cmd = await ctx.db.get(args.commandId);
+    if (!cmd) {
+      return { success: false as const, error: "Command not found" };
+    }
+
+    if ((cmd.kind ?? "exec") !== "exec") {
+      return { success: false as const, error: "Command does not produce output" };
+    }
+
+    if (cmd.status !== "claimed" && cmd.status !== "executing") {
+      return { success: false as const, error: "Command is not claimed" };
+    }
+
+    if (!holdsLease(cmd, args.assignmentId, args.attempt)) {
+      return { success: false as const, error: "Lease is held by another claim" };
+    }
+
+    return { success: true as const, uploadUrl: await ctx.storage.generateUploadUrl() };
   },
 });
 
@@ -196,12 +519,25 @@ export const updatePartialOutput = mutation({
 export const submitResult = mutation({
   args: {
     commandId: v.id("commandQueue"),
+    assignmentId: v.string(), // Submitting relay - rejected if it no longer holds the lease
+    attempt: v.number(), // Claim attempt returned by claimCommand
     success: v.boolean(),
     output: v.optional(v.string()),
     stderr: v.optional(v.string()),
     exitCode: v.optional(v.number()),
+    signal: v.optional(v.string()), // Signal that ended the process - exitCode is -1 then
     error: v.optional(v.string()),
     durationMs: v.optional(v.number()),
+    timedOut: v.optional(v.boolean()), // Relay killed the command after timeoutMs
+    errorCode: v.optional(commandErrorCodeValidator), // Relay refused to run the command
+    authMethod: v.optional(v.string()), // SSH authentication method that succeeded
+    file: v.optional(pulledFileValidator), // Contents a file_pull command uploaded
+    outputFile: v.optional(storedOutputValidator), // Whole stdout, when output only holds a preview
+    stderrFile: v.optional(storedOutputValidator), // Whole stderr, when stderr only holds a preview
+    outputBytes: v.optional(v.number()), // Bytes of stdout the command produced, kept or not
+    stderrBytes: v.optional(v.number()), // Bytes of stderr the command produced, kept or not
+    outputTruncated: v.optional(v.boolean()), // output only holds what the output limit kept
+    stderrTruncated: v.optional(v.boolean()), // stderr only holds what the output limit kept
   },
   returns: v.object({
     success: v.boolean(),
@@ -212,23 +548,378 @@ export const submitResult = mutation({
       return { success: false };
     }
 
+    // A run whose lease expired must not overwrite the command's new claim
+    if (!holdsLease(cmd, args.assignmentId, args.attempt)) {
+      return { success: false };
+    }
+
+    // A finished command keeps its result - only a server-side timeout
+    // still takes the late output below
+    if (cmd.status !== "timeout" && isFinishedStatus(cmd.status)) {
+      return { success: false };
+    }
+
+    // Output the relay didn't get to stream becomes the last chunks - a preview or
+    // truncated output doesn't continue what was streamed
+    await flushOutputTail(ctx, cmd, {
+      output: args.outputFile || args.outputTruncated ? undefined : args.output,
+      stderr: args.stderrFile || args.stderrTruncated ? undefined : args.stderr,
+    });
+
     const now = Date.now();
 
+    // Only keep pulled contents that made it into storage intact
+    let fileError: string | undefined;
+    if (args.file) {
+      if (cmd.kind !== "file_pull" || cmd.status === "timeout" || cmd.cancelRequestedAt !== undefined) {
+        fileError = "Command does not take a pulled file";
+      } else {
+        for (const [i, chunk] of args.file.chunks.entries()) {
+          const stored = await ctx.db.system.get(chunk.storageId);
+          if (!stored || stored.size !== chunk.size || stored.sha256 !== chunk.sha256) {
+            fileError = `Chunk ${i + 1} of the pulled file does not match file storage`;
+            break;
+          }
+        }
+      }
+      if (fileError) {
+        await deleteFileChunks(ctx, args.file.chunks);
+      }
+    }
+
+    // Only point at offloaded output that made it into storage intact
+    const storedOutput = [
+      { name: "stdout", file: args.outputFile },
+      { name: "stderr", file: args.stderrFile },
+    ];
+    let outputError: string | undefined;
+    for (const { name, file } of storedOutput) {
+      if (!file) continue;
+      const stored = await ctx.db.system.get(file.storageId);
+      if (!stored || stored.size !== file.size || stored.sha256 !== file.sha256) {
+        outputError = `Stored ${name} does not match file storage`;
+        break;
+      }
+    }
+    if (outputError) {
+      await deleteFileChunks(ctx, storedOutput.flatMap(({ file }) => (file ? [file] : [])));
+    }
+    const outputFiles = outputError ? {} : { outputFile: args.outputFile, stderrFile: args.stderrFile };
+    const outputSizes = {
+      outputBytes: args.outputBytes,
+      stderrBytes: args.stderrBytes,
+      outputTruncated: args.outputTruncated,
+      stderrTruncated: args.stderrTruncated,
+    };
+
+    // The server-side deadline already fired - keep the late output but not the status
+    if (cmd.status === "timeout") {
+      await ctx.db.patch(args.commandId, {
+        output: args.output,
+        stderr: args.stderr,
+        ...outputFiles,
+        ...outputSizes,
+        exitCode: args.exitCode,
+        signal: args.signal,
+        durationMs: args.durationMs,
+        updatedAt: now,
+      });
+      return { success: true };
+    }
+
+    // The relay stopped the command because it was asked to cancel
+    if (cmd.cancelRequestedAt !== undefined) {
+      await ctx.db.patch(args.commandId, {
+        status: "cancelled",
+        leaseExpiresAt: undefined,
+        output: args.output,
+        stderr: args.stderr,
+        ...outputFiles,
+        ...outputSizes,
+        exitCode: args.exitCode,
+        signal: args.signal,
+        error: "Command cancelled",
+        authMethod: args.authMethod,
+        durationMs: args.durationMs,
+        completedAt: now,
+        updatedAt: now,
+      });
+      await afterCommandFinished(ctx, cmd);
+      return { success: true };
+    }
+
+    const storageError = fileError ?? outputError;
+    if (storageError) {
+      await ctx.db.patch(args.commandId, {
+        status: "failed",
+        leaseExpiresAt: undefined,
+        output: args.output,
+        stderr: args.stderr,
+        ...outputFiles,
+        ...outputSizes,
+        exitCode: args.exitCode,
+        signal: args.signal,
+        error: storageError,
+        authMethod: args.authMethod,
+        durationMs: args.durationMs,
+        completedAt: now,
+        updatedAt: now,
+      });
+      await afterCommandFinished(ctx, cmd);
+      return { success: true };
+    }
+
     await ctx.db.patch(args.commandId, {
-      status: args.success ? "completed" : "failed",
+      status: args.timedOut ? "timeout" : args.success ? "completed" : "failed",
+      timeoutPhase: args.timedOut ? "executing" : undefined,
+      leaseExpiresAt: undefined,
       output: args.output,
       stderr: args.stderr,
+      ...outputFiles,
+      ...outputSizes,
       exitCode: args.exitCode,
+      signal: args.signal,
       error: args.error,
+      errorCode: args.errorCode,
+      authMethod: args.authMethod,
+      fileResult: args.file,
       durationMs: args.durationMs,
       completedAt: now,
       updatedAt: now,
     });
+    await afterCommandFinished(ctx, cmd);
+
+    return { success: true };
+  },
+});
+
+/**
+ * Get terminal sessions waiting for a relay on a machine
+ */
+export const getPendingSessions = query({
+  args: {
+    machineId: v.string(),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("terminalSessions"),
+      targetType: targetTypeValidator,
+      targetHost: v.optional(v.string()),
+      targetPort: v.optional(v.number()),
+      targetUsername: v.optional(v.string()),
+      jumpHosts: v.optional(v.array(jumpHostValidator)),
+      command: v.optional(v.string()),
+      cols: v.number(),
+      rows: v.number(),
+      idleTimeoutMs: v.number(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const sessions = await ctx.db
+      .query("terminalSessions")
+      .withIndex("by_machineId_status", (q) => q.eq("machineId", args.machineId).eq("status", "pending"))
+      .take(10);
+
+    return sessions.map((s) => ({
+      _id: s._id,
+      targetType: s.targetType,
+      targetHost: s.targetHost,
+      targetPort: s.targetPort,
+      targetUsername: s.targetUsername,
+      jumpHosts: s.jumpHosts,
+      command: s.command,
+      cols: s.cols,
+      rows: s.rows,
+      idleTimeoutMs: s.idleTimeoutMs,
+    }));
+  },
+});
+
+/**
+ * Claim a pending terminal session (atomic operation).
+ * The relay must keep syncing the session or it is closed after a minute.
+ */
+export const claimSession = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    assignmentId: v.string(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      return { success: false, error: "Session not found" };
+    }
+
+    if (session.status !== "pending") {
+      return { success: false, error: "Session is not pending" };
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.sessionId, {
+      status: "open",
+      claimedBy: args.assignmentId,
+      openedAt: now,
+      relaySeenAt: now,
+      lastActivityAt: now,
+      updatedAt: now,
+    });
+    await scheduleSessionCheck(ctx, args.sessionId, now + SESSION_RELAY_TIMEOUT_MS);
 
     return { success: true };
   },
 });
 
+/**
+ * Input events waiting for a session's terminal, and whether it should close.
+ * Relays in subscription mode watch this for low-latency input.
+ */
+export const getSessionInput = query({
+  args: {
+    sessionId: v.id("terminalSessions"),
+  },
+  returns: v.object({
+    events: v.array(sessionInputEventValidator),
+    closeRequested: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.status !== "open") {
+      return { events: [], closeRequested: true };
+    }
+
+    return {
+      events: await listSessionInput(ctx, args.sessionId),
+      closeRequested: session.closeRequestedAt !== undefined,
+    };
+  },
+});
+
+/**
+ * Exchange data for an open session: append terminal output, drop input
+ * events the relay has applied, and return the ones still waiting
+ */
+export const syncSession = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    assignmentId: v.string(),
+    output: v.optional(v.string()), // Terminal output since the last sync
+    appliedInputSeq: v.optional(v.number()), // Last input event written to the terminal
+    authMethod: v.optional(v.string()), // SSH authentication method that succeeded
+  },
+  returns: v.union(
+    v.object({
+      success: v.literal(true),
+      events: v.array(sessionInputEventValidator),
+      closeRequested: v.boolean(),
+    }),
+    v.object({
+      success: v.literal(false),
+      error: v.string(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      return { success: false as const, error: "Session not found" };
+    }
+
+    if (session.status !== "open") {
+      return { success: false as const, error: "Session is not open" };
+    }
+
+    if (session.claimedBy !== args.assignmentId) {
+      return { success: false as const, error: "Session is held by another relay" };
+    }
+
+    const now = Date.now();
+    const updates: Partial<typeof session> = { relaySeenAt: now, updatedAt: now };
+    if (args.output) {
+      updates.outputSeq = session.outputSeq + 1;
+      updates.lastActivityAt = now;
+      await ctx.db.insert("terminalOutput", {
+        sessionId: args.sessionId,
+        seq: updates.outputSeq,
+        data: args.output,
+        createdAt: now,
+      });
+    }
+    if (args.authMethod !== undefined) {
+      updates.authMethod = args.authMethod;
+    }
+    await ctx.db.patch(args.sessionId, updates);
+
+    if (args.appliedInputSeq !== undefined) {
+      const applied = await ctx.db
+        .query("terminalInput")
+        .withIndex("by_sessionId_seq", (q) =>
+          q.eq("sessionId", args.sessionId).lte("seq", args.appliedInputSeq!)
+        )
+        .collect();
+      for (const event of applied) {
+        await ctx.db.delete(event._id);
+      }
+    }
+
+    return {
+      success: true as const,
+      events: await listSessionInput(ctx, args.sessionId),
+      closeRequested: session.closeRequestedAt !== undefined,
+    };
+  },
+});
+
+/**
+ * Report that a session's terminal ended, with its last output
+ */
+export const reportSessionClosed = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    assignmentId: v.string(),
+    closeReason: sessionCloseReasonValidator,
+    output: v.optional(v.string()), // Output not yet synced
+    exitCode: v.optional(v.number()),
+    error: v.optional(v.string()),
+    errorCode: v.optional(commandErrorCodeValidator), // Relay refused to open the session
+    authMethod: v.optional(v.string()),
+  },
+  returns: v.object({
+    success: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.status !== "open" || session.claimedBy !== args.assignmentId) {
+      return { success: false };
+    }
+
+    const now = Date.now();
+    if (args.output) {
+      await ctx.db.insert("terminalOutput", {
+        sessionId: args.sessionId,
+        seq: session.outputSeq + 1,
+        data: args.output,
+        createdAt: now,
+      });
+      await ctx.db.patch(args.sessionId, { outputSeq: session.outputSeq + 1 });
+    }
+    if (args.authMethod !== undefined) {
+      await ctx.db.patch(args.sessionId, { authMethod: args.authMethod });
+    }
+
+    await closeSessionRecord(ctx, session, {
+      // The shell exits because it was asked to close - report it as closed from the center
+      closeReason: session.closeRequestedAt !== undefined && args.closeReason === "exited" ? "closed" : args.closeReason,
+      exitCode: args.exitCode,
+      error: args.error,
+      errorCode: args.errorCode,
+    });
+    return { success: true };
+  },
+});
+
 /**
  * Send heartbeat from relay to update last seen
  */
@@ -282,6 +973,9 @@ export const reportFullStatus = mutation({
     hostname: v.optional(v.string()),
     platform: v.optional(v.string()),
     credentials: v.array(credentialInventoryItemValidator),
+    commandPolicyVersion: v.optional(v.string()), // Version of the command policy the relay enforces
+    sshTargets: v.optional(v.array(sshTargetValidator)), // Omitted when no SSH target registry was pushed
+    hostKeys: v.optional(v.array(hostKeyReportValidator)), // Known SSH host keys (omitted by older relays)
   },
   returns: v.object({
     success: v.boolean(),
@@ -304,6 +998,7 @@ export const reportFullStatus = mutation({
         version: args.version,
         hostname: args.hostname,
         platform: args.platform,
+        commandPolicyVersion: args.commandPolicyVersion,
         lastHeartbeatAt: now,
         updatedAt: now,
       });
@@ -315,6 +1010,7 @@ export const reportFullStatus = mutation({
         version: args.version,
         hostname: args.hostname,
         platform: args.platform,
+        commandPolicyVersion: args.commandPolicyVersion,
         lastHeartbeatAt: now,
         createdAt: now,
         updatedAt: now,
@@ -362,6 +1058,54 @@ export const reportFullStatus = mutation({
       }
     }
 
+    // Replace the SSH target registry snapshot
+    const existingTargets = await ctx.db
+      .query("relaySshTargets")
+      .withIndex("by_relayId", (q) => q.eq("relayId", args.relayId))
+      .collect();
+    for (const target of existingTargets) {
+      await ctx.db.delete(target._id);
+    }
+    for (const target of args.sshTargets ?? []) {
+      await ctx.db.insert("relaySshTargets", {
+        relayId: args.relayId,
+        host: target.host,
+        port: target.port,
+        username: target.username,
+        credentialName: target.credentialName,
+        hostKeyFingerprint: target.hostKeyFingerprint,
+        forwardAgent: target.forwardAgent,
+        jumpHosts: target.jumpHosts,
+        reportedAt: now,
+      });
+    }
+
+    // Replace the known host key snapshot
+    if (args.hostKeys) {
+      const existingKeys = await ctx.db
+        .query("sshHostKeys")
+        .withIndex("by_relayId", (q) => q.eq("relayId", args.relayId))
+        .collect();
+      for (const key of existingKeys) {
+        await ctx.db.delete(key._id);
+      }
+      for (const key of args.hostKeys) {
+        await ctx.db.insert("sshHostKeys", {
+          relayId: args.relayId,
+          host: key.host,
+          port: key.port,
+          keyType: key.keyType,
+          fingerprint: key.fingerprint,
+          source: key.source,
+          firstSeenAt: key.firstSeenAt,
+          lastSeenAt: key.lastSeenAt,
+          rejectedFingerprint: key.rejectedFingerprint,
+          rejectedAt: key.rejectedAt,
+          reportedAt: now,
+        });
+      }
+    }
+
     // Count pending config pushes for this relay
     const pendingPushes = await ctx.db
       .query("configPushQueue")
@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { createRelayTestConvex, type RelayTestConvex } from "./test.setup";
-import { createMockCommand } from "./test.helpers";
+import { createMockCommand, type MockCommand } from "./test.helpers";
 import { api } from "./_generated/api";
+import { IDEMPOTENCY_WINDOW_MS } from "./commands";
 
 describe("rpc", () => {
   let t: RelayTestConvex;
@@ -142,6 +143,111 @@ describe("rpc", () => {
       expect(result.success).toBe(false);
       expect(result.error).toBe("SSH target requires targetHost and targetUsername");
     });
+
+    it("queues stdin with the command and rejects missing stored stdin", async () => {
+      const queued = await t.mutation(api.rpc.queueRpcCommand, {
+        machineId: "machine-1",
+        command: "psql -f -",
+        targetType: "local",
+        stdin: "select 1;\n",
+        createdBy: "user-1",
+      });
+      const storageId = await t.run(async (ctx) => {
+        const id = await ctx.storage.store(new Blob(["gone"]));
+        await ctx.storage.delete(id);
+        return id;
+      });
+      const missing = await t.mutation(api.rpc.queueRpcCommand, {
+        machineId: "machine-1",
+        command: "psql -f -",
+        targetType: "local",
+        stdinStorageId: storageId,
+        createdBy: "user-1",
+      });
+
+      const cmd = await t.query(api.commands.get, { id: queued.commandId! });
+      expect(cmd?.stdin).toBe("select 1;\n");
+      expect(missing).toEqual({ success: false, error: `File ${storageId} not found in storage` });
+    });
+
+    it("queues a command string for the chosen shell", async () => {
+      const result = await t.mutation(api.rpc.queueRpcCommand, {
+        machineId: "machine-1",
+        command: "shopt -s globstar; ls **/*.log",
+        shell: "bash",
+        cwd: "/var/log",
+        targetType: "local",
+        createdBy: "user-1",
+      });
+      const invalid = await t.mutation(api.rpc.queueRpcCommand, {
+        machineId: "machine-1",
+        argv: ["ls"],
+        shell: "bash",
+        targetType: "local",
+        createdBy: "user-1",
+      });
+
+      const cmd = await t.query(api.commands.get, { id: result.commandId! });
+      expect(cmd).toMatchObject({ command: "shopt -s globstar; ls **/*.log", shell: "bash", cwd: "/var/log" });
+      expect(cmd?.argv).toBeUndefined();
+      expect(invalid).toEqual({
+        success: false,
+        error: "shell only applies to command strings - argv runs without a shell",
+      });
+    });
+
+    it("returns the command already queued with the same idempotency key", async () => {
+      const restart = {
+        machineId: "machine-1",
+        command: "systemctl restart nginx",
+        targetType: "local" as const,
+        idempotencyKey: "restart-nginx-42",
+        createdBy: "user-1",
+      };
+
+      const first = await t.mutation(api.rpc.queueRpcCommand, restart);
+      const running = await t.mutation(api.rpc.queueRpcCommand, restart);
+      await t.mutation(api.commands.complete, {
+        id: first.commandId!,
+        success: true,
+        output: "restarted\n",
+        stderr: "",
+        exitCode: 0,
+      });
+      const second = await t.mutation(api.rpc.queueRpcCommand, restart);
+
+      expect(running).toEqual({ success: true, commandId: first.commandId, existing: true, status: "pending" });
+      expect(second).toEqual({
+        success: true,
+        commandId: first.commandId,
+        existing: true,
+        status: "completed",
+        output: "restarted\n",
+        stderr: "",
+        exitCode: 0,
+      });
+      expect(await t.query(api.commands.listRecent, { machineId: "machine-1" })).toHaveLength(1);
+
+      for (const changed of [
+        { command: "reboot" },
+        { env: { SYSTEMD_LOG_LEVEL: "debug" } },
+        { cwd: "/tmp" },
+        { stdin: "y\n" },
+        { targetType: "ssh" as const, targetHost: "web-1", targetUsername: "deploy" },
+      ]) {
+        const reused = await t.mutation(api.rpc.queueRpcCommand, { ...restart, ...changed });
+        expect(reused).toEqual({
+          success: false,
+          error: "Idempotency key restart-nginx-42 was already used for a different command",
+        });
+      }
+
+      // After the window the key queues a new command
+      vi.advanceTimersByTime(IDEMPOTENCY_WINDOW_MS + 1);
+      const later = await t.mutation(api.rpc.queueRpcCommand, restart);
+      expect(later.existing).toBeUndefined();
+      expect(later.commandId).not.toBe(first.commandId);
+    });
   });
 
   describe("getCommandResult", () => {
@@ -293,7 +399,42 @@ describe("rpc", () => {
     });
   });
 
+  describe("stored output", () => {
+    it("serves output moved to file storage until it is deleted", async () => {
+      const cmd = await createMockCommand(t, { status: "completed" });
+      const storageId = await t.run(async (ctx) => ctx.storage.store(new Blob(["x".repeat(1000)])));
+      await t.run(async (ctx) => {
+        const stored = await ctx.db.system.get(storageId);
+        await ctx.db.patch(cmd._id, {
+          output: "x".repeat(10),
+          outputFile: { storageId, size: 1000, sha256: stored!.sha256 },
+          exitCode: 0,
+        });
+      });
+
+      const result = await t.query(api.rpc.getCommandResult, { commandId: cmd._id });
+      expect(result).toMatchObject({ found: true, output: "x".repeat(10), outputFile: { storageId, size: 1000 } });
+      if (result.found) {
+        expect(result.outputFile?.url).toMatch(/^https:\/\//);
+        expect(result.stderrFile).toBeUndefined();
+      }
+
+      expect(await t.mutation(api.rpc.deleteStoredOutput, { commandId: cmd._id })).toEqual({ success: true });
+      expect(await t.mutation(api.rpc.deleteStoredOutput, { commandId: cmd._id })).toEqual({ success: false });
+      expect(await t.run(async (ctx) => ctx.db.system.get(storageId))).toBeNull();
+
+      const after = await t.query(api.rpc.getCommandResult, { commandId: cmd._id });
+      expect(after).toMatchObject({ found: true, output: "x".repeat(10) });
+      if (after.found) expect(after.outputFile).toBeUndefined();
+    });
+  });
+
   describe("getCommandStream", () => {
+    const append = (
+      commandId: MockCommand["_id"],
+      chunks: Array<{ stream: "stdout" | "stderr"; seq: number; data: string }>
+    ) => t.mutation(api.public.appendOutput, { commandId, assignmentId: "relay-1", attempt: 1, chunks });
+
     it("returns found: false for non-existent command", async () => {
       const cmd = await createMockCommand(t, { status: "pending" });
       await t.run(async (ctx) => {
@@ -307,18 +448,17 @@ describe("rpc", () => {
       expect(result.found).toBe(false);
     });
 
-    it("returns partial output for executing command", async () => {
+    it("returns streamed chunks for executing command", async () => {
       const cmd = await createMockCommand(t, {
         machineId: "machine-1",
         status: "executing",
+        claimedBy: "relay-1",
       });
-
-      await t.run(async (ctx) => {
-        await ctx.db.patch(cmd._id, {
-          partialOutput: "Processing line 1\nProcessing line 2\n",
-          partialStderr: "Warning: something\n",
-        });
-      });
+      await append(cmd._id, [
+        { stream: "stdout", seq: 1, data: "Processing line 1\n" },
+        { stream: "stdout", seq: 2, data: "Processing line 2\n" },
+        { stream: "stderr", seq: 1, data: "Warning: something\n" },
+      ]);
 
       const result = await t.query(api.rpc.getCommandStream, {
         commandId: cmd._id,
@@ -327,66 +467,67 @@ describe("rpc", () => {
       expect(result.found).toBe(true);
       if (result.found) {
         expect(result.status).toBe("executing");
-        expect(result.partialOutput).toBe("Processing line 1\nProcessing line 2\n");
-        expect(result.partialStderr).toBe("Warning: something\n");
+        expect(result.stdout).toEqual([
+          { seq: 1, data: "Processing line 1\n" },
+          { seq: 2, data: "Processing line 2\n" },
+        ]);
+        expect(result.stderr).toEqual([{ seq: 1, data: "Warning: something\n" }]);
         expect(result.done).toBe(false);
-        expect(result.output).toBeUndefined();
+        expect(result.exitCode).toBeUndefined();
       }
     });
 
-    it("returns partial output with offset", async () => {
+    it("returns only chunks after the cursor of each stream", async () => {
       const cmd = await createMockCommand(t, {
         machineId: "machine-1",
         status: "executing",
+        claimedBy: "relay-1",
       });
+      await append(cmd._id, [
+        { stream: "stdout", seq: 1, data: "Line 1\n" },
+        { stream: "stdout", seq: 2, data: "Line 2\n" },
+        { stream: "stderr", seq: 1, data: "Warning\n" },
+      ]);
 
-      await t.run(async (ctx) => {
-        await ctx.db.patch(cmd._id, {
-          partialOutput: "Line 1\nLine 2\nLine 3\n",
-        });
-      });
-
-      // Request output starting from offset 7 (after "Line 1\n")
       const result = await t.query(api.rpc.getCommandStream, {
         commandId: cmd._id,
-        outputOffset: 7,
+        afterStdoutSeq: 1,
+        afterStderrSeq: 1,
       });
 
       expect(result.found).toBe(true);
       if (result.found) {
-        expect(result.partialOutput).toBe("Line 2\nLine 3\n");
-        expect(result.done).toBe(false);
+        expect(result.stdout).toEqual([{ seq: 2, data: "Line 2\n" }]);
+        expect(result.stderr).toEqual([]);
       }
     });
 
-    it("returns final output when command is completed", async () => {
+    it("is only done once the last page of a finished command was read", async () => {
       const cmd = await createMockCommand(t, {
         machineId: "machine-1",
-        status: "completed",
+        status: "executing",
+        claimedBy: "relay-1",
       });
-
-      await t.run(async (ctx) => {
-        await ctx.db.patch(cmd._id, {
-          output: "Final output\n",
-          stderr: "Final stderr\n",
-          exitCode: 0,
-          partialOutput: "Should be ignored",
-        });
+      await append(cmd._id, [
+        { stream: "stdout", seq: 1, data: "a" },
+        { stream: "stdout", seq: 2, data: "b" },
+      ]);
+      await t.mutation(api.commands.complete, {
+        id: cmd._id,
+        success: true,
+        output: "abc",
+        exitCode: 0,
       });
 
-      const result = await t.query(api.rpc.getCommandStream, {
+      const first = await t.query(api.rpc.getCommandStream, { commandId: cmd._id, limit: 2 });
+      const last = await t.query(api.rpc.getCommandStream, {
         commandId: cmd._id,
+        afterStdoutSeq: 2,
+        limit: 2,
       });
 
-      expect(result.found).toBe(true);
-      if (result.found) {
-        expect(result.status).toBe("completed");
-        expect(result.output).toBe("Final output\n");
-        expect(result.stderr).toBe("Final stderr\n");
-        expect(result.exitCode).toBe(0);
-        expect(result.done).toBe(true);
-        expect(result.partialOutput).toBeUndefined();
-      }
+      expect(first).toMatchObject({ status: "completed", stdout: [{ seq: 1 }, { seq: 2 }], done: false });
+      expect(last).toMatchObject({ stdout: [{ seq: 3, data: "c" }], exitCode: 0, done: true });
     });
 
     it("returns done: true for failed command", async () => {
@@ -438,7 +579,7 @@ describe("rpc", () => {
       }
     });
 
-    it("returns empty partial output for pending command", async () => {
+    it("returns no chunks for pending command", async () => {
       const cmd = await createMockCommand(t, {
         machineId: "machine-1",
         status: "pending",
@@ -452,11 +593,12 @@ describe("rpc", () => {
       if (result.found) {
         expect(result.status).toBe("pending");
         expect(result.done).toBe(false);
-        expect(result.partialOutput).toBeUndefined();
+        expect(result.stdout).toEqual([]);
+        expect(result.stderr).toEqual([]);
       }
     });
 
-    it("returns empty partial output for claimed command", async () => {
+    it("returns no chunks for claimed command", async () => {
       const cmd = await createMockCommand(t, {
         machineId: "machine-1",
         status: "claimed",
@@ -476,7 +618,7 @@ describe("rpc", () => {
   });
 
   describe("streaming workflow", () => {
-    it("simulates real-time streaming: queue -> claim -> stream updates -> complete", async () => {
+    it("simulates real-time streaming: queue -> claim -> stream chunks -> complete", async () => {
       // 1. Queue command
       const queueResult = await t.mutation(api.rpc.queueRpcCommand, {
         machineId: "stream-machine",
@@ -502,63 +644,60 @@ describe("rpc", () => {
         claimedBy: "relay-1",
       });
 
-      // 4. Relay sends first streaming update
-      await t.mutation(api.public.updatePartialOutput, {
+      // 4. Relay sends the first chunk
+      await t.mutation(api.public.appendOutput, {
         commandId,
-        partialOutput: "Step 1: Starting...\n",
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [{ stream: "stdout", seq: 1, data: "Step 1: Starting...\n" }],
       });
 
       streamResult = await t.query(api.rpc.getCommandStream, { commandId });
       if (streamResult.found) {
         expect(streamResult.status).toBe("executing");
-        expect(streamResult.partialOutput).toBe("Step 1: Starting...\n");
+        expect(streamResult.stdout).toEqual([{ seq: 1, data: "Step 1: Starting...\n" }]);
         expect(streamResult.done).toBe(false);
       }
 
-      // 5. Relay sends second streaming update
-      await t.mutation(api.public.updatePartialOutput, {
+      // 5. Relay sends only what is new; the client reads past its cursor
+      await t.mutation(api.public.appendOutput, {
         commandId,
-        partialOutput: "Step 1: Starting...\nStep 2: Processing...\n",
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [
+          { stream: "stdout", seq: 2, data: "Step 2: Processing...\n" },
+          { stream: "stderr", seq: 1, data: "Warning: deprecated API\n" },
+        ],
       });
 
-      // Client polls with offset to get only new content
-      streamResult = await t.query(api.rpc.getCommandStream, {
-        commandId,
-        outputOffset: 20, // Length of first message
-      });
+      streamResult = await t.query(api.rpc.getCommandStream, { commandId, afterStdoutSeq: 1 });
       if (streamResult.found) {
-        expect(streamResult.partialOutput).toBe("Step 2: Processing...\n");
+        expect(streamResult.stdout).toEqual([{ seq: 2, data: "Step 2: Processing...\n" }]);
+        expect(streamResult.stderr).toEqual([{ seq: 1, data: "Warning: deprecated API\n" }]);
       }
 
-      // 6. Relay sends third streaming update with stderr
-      await t.mutation(api.public.updatePartialOutput, {
-        commandId,
-        partialOutput: "Step 1: Starting...\nStep 2: Processing...\nStep 3: Finishing...\n",
-        partialStderr: "Warning: deprecated API\n",
-      });
-
-      streamResult = await t.query(api.rpc.getCommandStream, { commandId });
-      if (streamResult.found) {
-        expect(streamResult.partialStderr).toBe("Warning: deprecated API\n");
-      }
-
-      // 7. Relay completes command
+      // 6. Relay completes the command before streaming its last line
       await t.mutation(api.commands.complete, {
         id: commandId,
         success: true,
-        output: "Step 1: Starting...\nStep 2: Processing...\nStep 3: Finishing...\nDone!\n",
+        output: "Step 1: Starting...\nStep 2: Processing...\nDone!\n",
+        stderr: "Warning: deprecated API\n",
         exitCode: 0,
         durationMs: 5000,
       });
 
-      // 8. Client gets final result
-      streamResult = await t.query(api.rpc.getCommandStream, { commandId });
+      // 7. Client reads the rest and sees the command is done
+      streamResult = await t.query(api.rpc.getCommandStream, {
+        commandId,
+        afterStdoutSeq: 2,
+        afterStderrSeq: 1,
+      });
       if (streamResult.found) {
         expect(streamResult.status).toBe("completed");
+        expect(streamResult.stdout).toEqual([{ seq: 3, data: "Done!\n" }]);
+        expect(streamResult.stderr).toEqual([]);
         expect(streamResult.done).toBe(true);
-        expect(streamResult.output).toContain("Done!");
         expect(streamResult.exitCode).toBe(0);
-        expect(streamResult.partialOutput).toBeUndefined();
       }
     });
 
@@ -579,17 +718,21 @@ describe("rpc", () => {
         claimedBy: "relay-1",
       });
 
-      await t.mutation(api.public.updatePartialOutput, {
+      await t.mutation(api.public.appendOutput, {
         commandId,
-        partialOutput: "Starting...\n",
-        partialStderr: "Error: something went wrong\n",
+        assignmentId: "relay-1",
+        attempt: 1,
+        chunks: [
+          { stream: "stdout", seq: 1, data: "Starting...\n" },
+          { stream: "stderr", seq: 1, data: "Error: something went wrong\n" },
+        ],
       });
 
       // 3. Verify streaming state
       let streamResult = await t.query(api.rpc.getCommandStream, { commandId });
       if (streamResult.found) {
         expect(streamResult.status).toBe("executing");
-        expect(streamResult.partialStderr).toBe("Error: something went wrong\n");
+        expect(streamResult.stderr).toEqual([{ seq: 1, data: "Error: something went wrong\n" }]);
         expect(streamResult.done).toBe(false);
       }
 
@@ -604,12 +747,12 @@ describe("rpc", () => {
         durationMs: 500,
       });
 
-      // 5. Verify final failed state
-      streamResult = await t.query(api.rpc.getCommandStream, { commandId });
+      // 5. Verify final failed state - everything was already streamed
+      streamResult = await t.query(api.rpc.getCommandStream, { commandId, afterStdoutSeq: 1, afterStderrSeq: 1 });
       if (streamResult.found) {
         expect(streamResult.status).toBe("failed");
         expect(streamResult.done).toBe(true);
-        expect(streamResult.stderr).toBe("Error: something went wrong\n");
+        expect(streamResult.stdout).toEqual([]);
         expect(streamResult.exitCode).toBe(1);
       }
     });
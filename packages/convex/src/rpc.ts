@@ -1,6 +1,38 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { targetTypeValidator, commandStatusValidator } from "./schema";
+import {
+  targetTypeValidator,
+  commandStatusValidator,
+  timeoutPhaseValidator,
+  commandErrorCodeValidator,
+  jumpHostValidator,
+  commandShellValidator,
+  outputLimitValidator,
+  executionProfileValidator,
+} from "./schema";
+import {
+  findIdempotentCommand,
+  insertCommand,
+  invocationCommand,
+  isFinishedStatus,
+  validateCommand,
+} from "./commands";
+import { readOutputChunks, storedOutputResult } from "./output";
+import { deleteFileChunks } from "./files";
+
+// One numbered chunk of streamed output
+const outputChunkValidator = v.object({
+  seq: v.number(),
+  data: v.string(),
+});
+
+// Output moved to file storage, with a download URL (null once deleted)
+const storedOutputResultValidator = v.object({
+  storageId: v.id("_storage"),
+  url: v.union(v.string(), v.null()),
+  size: v.number(),
+  sha256: v.string(),
+});
 
 /**
  * Queue a command for RPC execution and return the command ID.
@@ -9,45 +41,59 @@ import { targetTypeValidator, commandStatusValidator } from "./schema";
 export const queueRpcCommand = mutation({
   args: {
     machineId: v.string(),
-    command: v.string(),
+    command: v.optional(v.string()), // Shell command - pass this or argv
+    argv: v.optional(v.array(v.string())), // Program and arguments, run without a shell
+    cwd: v.optional(v.string()), // Working directory
+    env: v.optional(v.record(v.string(), v.string())), // Extra environment variables
+    shell: v.optional(commandShellValidator), // Shell for command (default: sh locally, the login shell over SSH)
     targetType: targetTypeValidator,
     targetHost: v.optional(v.string()),
     targetPort: v.optional(v.number()),
     targetUsername: v.optional(v.string()),
+    jumpHosts: v.optional(v.array(jumpHostValidator)), // SSH hosts to tunnel through, in order
+    stdin: v.optional(v.string()), // Input piped to the command, then closed (up to 64 KB)
+    stdinStorageId: v.optional(v.id("_storage")), // Uploaded input, for larger inputs
+    outputLimit: v.optional(outputLimitValidator), // Cap on the output the relay keeps, per stream
+    executionProfile: v.optional(executionProfileValidator), // User, base directory, environment, limits and isolation (local only)
     timeoutMs: v.optional(v.number()),
+    queueTimeoutMs: v.optional(v.number()), // Max time to wait for a relay (default: 5 minutes)
+    maxAttempts: v.optional(v.number()), // Claims allowed before an expired lease fails the command
+    priority: v.optional(v.number()), // Higher runs first (default: 0)
+    notBefore: v.optional(v.number()), // Earliest time a relay may pick the command up
+    idempotencyKey: v.optional(v.string()), // Returns the command already queued with this key instead of a new one
     createdBy: v.string(),
   },
   returns: v.object({
     success: v.boolean(),
     commandId: v.optional(v.id("commandQueue")),
+    existing: v.optional(v.boolean()), // The idempotency key matched a command queued earlier
+    status: v.optional(commandStatusValidator), // Status of that earlier command
+    // Its result, once it has finished (output and stderr are previews if moved to file storage)
+    output: v.optional(v.string()),
+    stderr: v.optional(v.string()),
+    exitCode: v.optional(v.number()),
     error: v.optional(v.string()),
   }),
   handler: async (ctx, args) => {
-    // Validate SSH args
-    if (args.targetType === "ssh") {
-      if (!args.targetHost || !args.targetUsername) {
-        return {
-          success: false,
-          error: "SSH target requires targetHost and targetUsername",
-        };
-      }
+    const error = await validateCommand(ctx, args);
+    if (error) {
+      return { success: false, error };
     }
 
-    const now = Date.now();
+    const command = invocationCommand(args);
+    const existing = await findIdempotentCommand(ctx, { ...args, command });
+    if (existing && "error" in existing) {
+      return { success: false, error: existing.error };
+    }
+    if (existing) {
+      const { cmd } = existing;
+      const result = isFinishedStatus(cmd.status)
+        ? { output: cmd.output, stderr: cmd.stderr, exitCode: cmd.exitCode }
+        : {};
+      return { success: true, commandId: cmd._id, existing: true, status: cmd.status, ...result };
+    }
 
-    const commandId = await ctx.db.insert("commandQueue", {
-      machineId: args.machineId,
-      command: args.command,
-      targetType: args.targetType,
-      targetHost: args.targetHost,
-      targetPort: args.targetPort ?? 22,
-      targetUsername: args.targetUsername,
-      timeoutMs: args.timeoutMs ?? 30000,
-      status: "pending",
-      createdBy: args.createdBy,
-      createdAt: now,
-      updatedAt: now,
-    });
+    const commandId = await insertCommand(ctx, { ...args, command });
 
     return {
       success: true,
@@ -58,7 +104,9 @@ export const queueRpcCommand = mutation({
 
 /**
  * Get the result of an RPC command.
- * Poll this query until status is "completed", "failed", or "timeout".
+ * Poll this query until status is "completed", "failed", "timeout", or "cancelled".
+ * Output too large to keep inline is in outputFile / stderrFile; output and
+ * stderr then hold its first part as a preview.
  */
 export const getCommandResult = query({
   args: {
@@ -70,9 +118,19 @@ export const getCommandResult = query({
       status: commandStatusValidator,
       output: v.optional(v.string()),
       stderr: v.optional(v.string()),
+      outputFile: v.optional(storedOutputResultValidator),
+      stderrFile: v.optional(storedOutputResultValidator),
+      outputBytes: v.optional(v.number()),
+      stderrBytes: v.optional(v.number()),
+      outputTruncated: v.optional(v.boolean()),
+      stderrTruncated: v.optional(v.boolean()),
       exitCode: v.optional(v.number()),
+      signal: v.optional(v.string()),
       error: v.optional(v.string()),
+      errorCode: v.optional(commandErrorCodeValidator),
+      authMethod: v.optional(v.string()),
       durationMs: v.optional(v.number()),
+      timeoutPhase: v.optional(timeoutPhaseValidator),
     }),
     v.object({
       found: v.literal(false),
@@ -89,30 +147,42 @@ export const getCommandResult = query({
       status: cmd.status,
       output: cmd.output,
       stderr: cmd.stderr,
+      outputFile: await storedOutputResult(ctx, cmd.outputFile),
+      stderrFile: await storedOutputResult(ctx, cmd.stderrFile),
+      outputBytes: cmd.outputBytes,
+      stderrBytes: cmd.stderrBytes,
+      outputTruncated: cmd.outputTruncated,
+      stderrTruncated: cmd.stderrTruncated,
       exitCode: cmd.exitCode,
+      signal: cmd.signal,
       error: cmd.error,
+      errorCode: cmd.errorCode,
+      authMethod: cmd.authMethod,
       durationMs: cmd.durationMs,
+      timeoutPhase: cmd.timeoutPhase,
     };
   },
 });
 
 /**
- * Get streaming output for a command (includes partial output during execution).
- * Use this for real-time output streaming.
+ * Read a command's output as it streams in, as numbered chunks per stream.
+ * Pass the last seq received for each stream to get only what follows; keep
+ * reading until done, which is set once the command finished and every chunk
+ * has been returned.
  */
 export const getCommandStream = query({
   args: {
     commandId: v.id("commandQueue"),
-    outputOffset: v.optional(v.number()), // Only return output after this offset
+    afterStdoutSeq: v.optional(v.number()), // Last stdout seq already received (default: 0, from the start)
+    afterStderrSeq: v.optional(v.number()), // Last stderr seq already received (default: 0, from the start)
+    limit: v.optional(v.number()), // Max chunks per stream (default and max: 100)
   },
   returns: v.union(
     v.object({
       found: v.literal(true),
       status: commandStatusValidator,
-      partialOutput: v.optional(v.string()),
-      partialStderr: v.optional(v.string()),
-      output: v.optional(v.string()),
-      stderr: v.optional(v.string()),
+      stdout: v.array(outputChunkValidator),
+      stderr: v.array(outputChunkValidator),
       exitCode: v.optional(v.number()),
       error: v.optional(v.string()),
       done: v.boolean(),
@@ -127,41 +197,52 @@ export const getCommandStream = query({
       return { found: false as const };
     }
 
-    const isDone = cmd.status === "completed" || cmd.status === "failed" || cmd.status === "timeout";
-
-    // If command is done, return final output
-    if (isDone) {
-      return {
-        found: true as const,
-        status: cmd.status,
-        partialOutput: undefined,
-        partialStderr: undefined,
-        output: cmd.output,
-        stderr: cmd.stderr,
-        exitCode: cmd.exitCode,
-        error: cmd.error,
-        done: true,
-      };
-    }
+    const isDone =
+      cmd.status === "completed" ||
+      cmd.status === "failed" ||
+      cmd.status === "timeout" ||
+      cmd.status === "cancelled";
 
-    // Return partial output, optionally sliced from offset
-    let partialOutput = cmd.partialOutput;
-    let partialStderr = cmd.partialStderr;
-
-    if (args.outputOffset !== undefined && partialOutput) {
-      partialOutput = partialOutput.slice(args.outputOffset);
-    }
+    const limit = Math.max(1, Math.min(args.limit ?? 100, 100));
+    const stdout = await readOutputChunks(ctx, args.commandId, "stdout", args.afterStdoutSeq ?? 0, limit);
+    const stderr = await readOutputChunks(ctx, args.commandId, "stderr", args.afterStderrSeq ?? 0, limit);
 
     return {
       found: true as const,
       status: cmd.status,
-      partialOutput,
-      partialStderr,
-      output: undefined,
-      stderr: undefined,
-      exitCode: undefined,
-      error: undefined,
-      done: false,
+      stdout: stdout.chunks,
+      stderr: stderr.chunks,
+      exitCode: isDone ? cmd.exitCode : undefined,
+      error: isDone ? cmd.error : undefined,
+      done: isDone && !stdout.more && !stderr.more,
     };
   },
 });
+
+/**
+ * Delete a command's output that was moved to file storage, once it was
+ * downloaded. The preview in output / stderr stays.
+ */
+export const deleteStoredOutput = mutation({
+  args: {
+    commandId: v.id("commandQueue"),
+  },
+  returns: v.object({
+    success: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const cmd = await ctx.db.get(args.commandId);
+    const files = [cmd?.outputFile, cmd?.stderrFile].flatMap((file) => (file ? [file] : []));
+    if (files.length === 0) {
+      return { success: false };
+    }
+
+    await deleteFileChunks(ctx, files);
+    await ctx.db.patch(args.commandId, {
+      outputFile: undefined,
+      stderrFile: undefined,
+      updatedAt: Date.now(),
+    });
+    return { success: true };
+  },
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createRelayTestConvex, RelayTestConvex } from "./test.setup";
+import { api } from "./_generated/api";
+
+describe("schedules", () => {
+  let t: RelayTestConvex;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+    t = createRelayTestConvex();
+  });
+
+  afterEach(async () => {
+    // Recurring ticks reschedule themselves - stop them before draining the scheduler
+    const schedules = await t.query(api.schedules.list, {});
+    for (const schedule of schedules) {
+      await t.mutation(api.schedules.setEnabled, { id: schedule._id, enabled: false });
+    }
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+  });
+
+  const FIFTEEN_MINUTES = 15 * 60 * 1000;
+
+  const createDiskCheck = (extra: Record<string, unknown> = {}) =>
+    t.mutation(api.schedules.create, {
+      machineId: "machine-1",
+      name: "disk usage",
+      command: "df -h",
+      targetType: "local",
+      cron: "*/15 * * * *",
+      createdBy: "user-1",
+      ...extra,
+    });
+
+  const runDueTicks = async (ms: number) => {
+    vi.advanceTimersByTime(ms);
+    await t.finishInProgressScheduledFunctions();
+  };
+
+  describe("create", () => {
+    it("computes the next run from the cron expression", async () => {
+      const scheduleId = await createDiskCheck();
+
+      const schedule = await t.query(api.schedules.get, { id: scheduleId });
+      expect(schedule?.enabled).toBe(true);
+      expect(schedule?.overlapPolicy).toBe("skip");
+      expect(schedule?.nextRunAt).toBe(Date.now() + FIFTEEN_MINUTES);
+    });
+
+    it("supports fixed intervals", async () => {
+      const scheduleId = await createDiskCheck({ cron: undefined, intervalMs: 120000 });
+
+      const schedule = await t.query(api.schedules.get, { id: scheduleId });
+      expect(schedule?.nextRunAt).toBe(Date.now() + 120000);
+    });
+
+    it("requires exactly one of cron or intervalMs", async () => {
+      await expect(createDiskCheck({ intervalMs: 120000 })).rejects.toThrow(
+        "exactly one of cron or intervalMs"
+      );
+      await expect(createDiskCheck({ cron: undefined })).rejects.toThrow(
+        "exactly one of cron or intervalMs"
+      );
+    });
+
+    it("rejects invalid cron expressions", async () => {
+      await expect(createDiskCheck({ cron: "every 15 minutes" })).rejects.toThrow();
+    });
+  });
+
+  describe("runs", () => {
+    it("queues the command on each run and tracks last/next run", async () => {
+      const scheduleId = await createDiskCheck({ priority: 5 });
+
+      await runDueTicks(FIFTEEN_MINUTES);
+
+      const schedule = await t.query(api.schedules.get, { id: scheduleId });
+      expect(schedule?.lastRunAt).toBe(Date.now());
+      expect(schedule?.nextRunAt).toBe(Date.now() + FIFTEEN_MINUTES);
+      expect(schedule?.lastCommandId).toBeDefined();
+
+      const cmd = await t.query(api.commands.get, { id: schedule!.lastCommandId! });
+      expect(cmd?.command).toBe("df -h");
+      expect(cmd?.status).toBe("pending");
+      expect(cmd?.priority).toBe(5);
+      expect(cmd?.createdBy).toBe(`schedule:${scheduleId}`);
+    });
+
+    it("skips a run while the previous run is unfinished", async () => {
+      // Short interval so the first command is still waiting in the queue
+      const scheduleId = await createDiskCheck({ cron: undefined, intervalMs: 120000 });
+
+      await runDueTicks(120000);
+      await runDueTicks(120000);
+
+      const history = await t.query(api.schedules.history, { scheduleId });
+      expect(history.map((run) => run.outcome)).toEqual(["skipped", "queued"]);
+      expect(history[0].reason).toContain("is still pending");
+    });
+
+    it("queues overlapping runs when the policy allows it", async () => {
+      const scheduleId = await createDiskCheck({
+        cron: undefined,
+        intervalMs: 120000,
+        overlapPolicy: "allow",
+      });
+
+      await runDueTicks(120000);
+      await runDueTicks(120000);
+
+      const history = await t.query(api.schedules.history, { scheduleId });
+      expect(history.map((run) => run.outcome)).toEqual(["queued", "queued"]);
+      expect(history[0].commandId).not.toBe(history[1].commandId);
+    });
+
+    it("runs again once the previous command finished", async () => {
+      const scheduleId = await createDiskCheck();
+
+      await runDueTicks(FIFTEEN_MINUTES);
+      const first = await t.query(api.schedules.get, { id: scheduleId });
+      await t.mutation(api.commands.complete, {
+        id: first!.lastCommandId!,
+        success: true,
+        output: "ok",
+        exitCode: 0,
+      });
+
+      await runDueTicks(FIFTEEN_MINUTES);
+
+      const history = await t.query(api.schedules.history, { scheduleId });
+      expect(history.map((run) => run.outcome)).toEqual(["queued", "queued"]);
+      expect(history[1].commandStatus).toBe("completed");
+      expect(history[0].commandStatus).toBe("pending");
+    });
+  });
+
+  describe("setEnabled", () => {
+    it("stops runs while disabled and resumes from now", async () => {
+      const scheduleId = await createDiskCheck();
+
+      await t.mutation(api.schedules.setEnabled, { id: scheduleId, enabled: false });
+      await runDueTicks(FIFTEEN_MINUTES * 2);
+
+      let history = await t.query(api.schedules.history, { scheduleId });
+      expect(history).toHaveLength(0);
+      expect((await t.query(api.schedules.get, { id: scheduleId }))?.nextRunAt).toBeUndefined();
+
+      await t.mutation(api.schedules.setEnabled, { id: scheduleId, enabled: true });
+      await runDueTicks(FIFTEEN_MINUTES);
+
+      history = await t.query(api.schedules.history, { scheduleId });
+      expect(history).toHaveLength(1);
+    });
+  });
+
+  describe("remove", () => {
+    it("deletes the schedule and its history", async () => {
+      const scheduleId = await createDiskCheck();
+      await runDueTicks(FIFTEEN_MINUTES);
+
+      await t.mutation(api.schedules.remove, { id: scheduleId });
+
+      expect(await t.query(api.schedules.get, { id: scheduleId })).toBeNull();
+      expect(await t.query(api.schedules.history, { scheduleId })).toEqual([]);
+      await runDueTicks(FIFTEEN_MINUTES);
+    });
+  });
+});
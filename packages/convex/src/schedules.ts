@@ -0,0 +1,362 @@
+import { v } from "convex/values";
+import { mutation, query, internalMutation, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  commandStatusValidator,
+  overlapPolicyValidator,
+  scheduleRunOutcomeValidator,
+  targetTypeValidator,
+} from "./schema";
+import { insertCommand } from "./commands";
+import { nextCronTime, parseCron } from "./cron";
+
+// Shortest interval a schedule may run at
+export const MIN_SCHEDULE_INTERVAL_MS = 60000;
+
+const scheduleValidator = v.object({
+  _id: v.id("schedules"),
+  machineId: v.string(),
+  name: v.string(),
+  command: v.string(),
+  targetType: targetTypeValidator,
+  targetHost: v.optional(v.string()),
+  targetPort: v.optional(v.number()),
+  targetUsername: v.optional(v.string()),
+  timeoutMs: v.number(),
+  priority: v.optional(v.number()),
+  cron: v.optional(v.string()),
+  intervalMs: v.optional(v.number()),
+  overlapPolicy: overlapPolicyValidator,
+  enabled: v.boolean(),
+  nextRunAt: v.optional(v.number()),
+  lastRunAt: v.optional(v.number()),
+  lastCommandId: v.optional(v.id("commandQueue")),
+  createdBy: v.string(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+function toScheduleInfo(schedule: Doc<"schedules">) {
+  return {
+    _id: schedule._id,
+    machineId: schedule.machineId,
+    name: schedule.name,
+    command: schedule.command,
+    targetType: schedule.targetType,
+    targetHost: schedule.targetHost,
+    targetPort: schedule.targetPort,
+    targetUsername: schedule.targetUsername,
+    timeoutMs: schedule.timeoutMs,
+    priority: schedule.priority,
+    cron: schedule.cron,
+    intervalMs: schedule.intervalMs,
+    overlapPolicy: schedule.overlapPolicy,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.nextRunAt,
+    lastRunAt: schedule.lastRunAt,
+    lastCommandId: schedule.lastCommandId,
+    createdBy: schedule.createdBy,
+    createdAt: schedule.createdAt,
+    updatedAt: schedule.updatedAt,
+  };
+}
+
+/**
+ * Next run of a schedule strictly after `after`
+ */
+function computeNextRun(
+  schedule: Pick<Doc<"schedules">, "cron" | "intervalMs">,
+  after: number
+): number {
+  if (schedule.cron !== undefined) {
+    return nextCronTime(schedule.cron, after);
+  }
+  return after + schedule.intervalMs!;
+}
+
+/**
+ * Schedule the tick for a schedule's next run
+ */
+async function scheduleNextRun(
+  ctx: MutationCtx,
+  scheduleId: Id<"schedules">,
+  nextRunAt: number
+): Promise<void> {
+  await ctx.scheduler.runAt(nextRunAt, internal.schedules.runSchedule, {
+    scheduleId,
+    scheduledFor: nextRunAt,
+  });
+}
+
+/**
+ * Register a recurring command for a machine
+ */
+export const create = mutation({
+  args: {
+    machineId: v.string(),
+    name: v.string(),
+    command: v.string(),
+    targetType: targetTypeValidator,
+    targetHost: v.optional(v.string()),
+    targetPort: v.optional(v.number()),
+    targetUsername: v.optional(v.string()),
+    timeoutMs: v.optional(v.number()),
+    priority: v.optional(v.number()),
+    cron: v.optional(v.string()), // 5-field cron expression, evaluated in UTC
+    intervalMs: v.optional(v.number()), // Alternative to cron: run every intervalMs
+    overlapPolicy: v.optional(overlapPolicyValidator), // Default: skip
+    enabled: v.optional(v.boolean()), // Default: true
+    createdBy: v.string(),
+  },
+  returns: v.id("schedules"),
+  handler: async (ctx, args) => {
+    if (args.targetType === "ssh") {
+      if (!args.targetHost || !args.targetUsername) {
+        throw new Error("SSH target requires targetHost and targetUsername");
+      }
+    }
+
+    if ((args.cron === undefined) === (args.intervalMs === undefined)) {
+      throw new Error("Schedule requires exactly one of cron or intervalMs");
+    }
+    if (args.cron !== undefined) {
+      parseCron(args.cron); // Throws on invalid expressions
+    }
+    if (args.intervalMs !== undefined && args.intervalMs < MIN_SCHEDULE_INTERVAL_MS) {
+      throw new Error(`intervalMs must be at least ${MIN_SCHEDULE_INTERVAL_MS}ms`);
+    }
+
+    const now = Date.now();
+    const enabled = args.enabled ?? true;
+    const nextRunAt = enabled ? computeNextRun(args, now) : undefined;
+
+    const scheduleId = await ctx.db.insert("schedules", {
+      machineId: args.machineId,
+      name: args.name,
+      command: args.command,
+      targetType: args.targetType,
+      targetHost: args.targetHost,
+      targetPort: args.targetPort ?? 22,
+      targetUsername: args.targetUsername,
+      timeoutMs: args.timeoutMs ?? 30000,
+      priority: args.priority,
+      cron: args.cron,
+      intervalMs: args.intervalMs,
+      overlapPolicy: args.overlapPolicy ?? "skip",
+      enabled,
+      nextRunAt,
+      createdBy: args.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    if (nextRunAt !== undefined) {
+      await scheduleNextRun(ctx, scheduleId, nextRunAt);
+    }
+
+    return scheduleId;
+  },
+});
+
+/**
+ * Enable or disable a schedule.
+ * Enabling computes the next run from now; disabling drops the pending run.
+ */
+export const setEnabled = mutation({
+  args: {
+    id: v.id("schedules"),
+    enabled: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db.get(args.id);
+    if (!schedule) {
+      throw new Error("Schedule not found");
+    }
+    if (schedule.enabled === args.enabled) return null;
+
+    const now = Date.now();
+    if (args.enabled) {
+      const nextRunAt = computeNextRun(schedule, now);
+      await ctx.db.patch(args.id, { enabled: true, nextRunAt, updatedAt: now });
+      await scheduleNextRun(ctx, args.id, nextRunAt);
+    } else {
+      // The already scheduled tick sees the cleared nextRunAt and does nothing
+      await ctx.db.patch(args.id, { enabled: false, nextRunAt: undefined, updatedAt: now });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Delete a schedule and its run history.
+ * Commands it already queued are left alone.
+ */
+export const remove = mutation({
+  args: {
+    id: v.id("schedules"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const runs = await ctx.db
+      .query("scheduleRuns")
+      .withIndex("by_scheduleId", (q) => q.eq("scheduleId", args.id))
+      .collect();
+    for (const run of runs) {
+      await ctx.db.delete(run._id);
+    }
+
+    const schedule = await ctx.db.get(args.id);
+    if (schedule) {
+      await ctx.db.delete(args.id);
+    }
+    return null;
+  },
+});
+
+/**
+ * Get a schedule by ID
+ */
+export const get = query({
+  args: {
+    id: v.id("schedules"),
+  },
+  returns: v.union(scheduleValidator, v.null()),
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db.get(args.id);
+    return schedule ? toScheduleInfo(schedule) : null;
+  },
+});
+
+/**
+ * List schedules, optionally for a single machine
+ */
+export const list = query({
+  args: {
+    machineId: v.optional(v.string()),
+  },
+  returns: v.array(scheduleValidator),
+  handler: async (ctx, args) => {
+    const schedules = args.machineId
+      ? await ctx.db
+          .query("schedules")
+          .withIndex("by_machineId", (q) => q.eq("machineId", args.machineId!))
+          .collect()
+      : await ctx.db.query("schedules").collect();
+
+    return schedules.map(toScheduleInfo);
+  },
+});
+
+/**
+ * Recent runs of a schedule, newest first, with the status of each queued command
+ */
+export const history = query({
+  args: {
+    scheduleId: v.id("schedules"),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id("scheduleRuns"),
+      scheduledFor: v.number(),
+      outcome: scheduleRunOutcomeValidator,
+      commandId: v.optional(v.id("commandQueue")),
+      commandStatus: v.optional(commandStatusValidator),
+      reason: v.optional(v.string()),
+      createdAt: v.number(),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const runs = await ctx.db
+      .query("scheduleRuns")
+      .withIndex("by_scheduleId", (q) => q.eq("scheduleId", args.scheduleId))
+      .order("desc")
+      .take(args.limit ?? 50);
+
+    return await Promise.all(
+      runs.map(async (run) => {
+        const cmd = run.commandId ? await ctx.db.get(run.commandId) : null;
+        return {
+          _id: run._id,
+          scheduledFor: run.scheduledFor,
+          outcome: run.outcome,
+          commandId: run.commandId,
+          commandStatus: cmd?.status,
+          reason: run.reason,
+          createdAt: run.createdAt,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Scheduled tick. Queues the schedule's command (or records a skipped run
+ * when the previous run is unfinished and overlap is not allowed), then
+ * schedules the next tick.
+ */
+export const runSchedule = internalMutation({
+  args: {
+    scheduleId: v.id("schedules"),
+    scheduledFor: v.number(), // Run this tick was scheduled for
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const schedule = await ctx.db.get(args.scheduleId);
+    if (!schedule) return null;
+
+    // Ignore ticks for disabled schedules or runs that were rescheduled
+    if (!schedule.enabled || schedule.nextRunAt !== args.scheduledFor) return null;
+
+    const now = Date.now();
+    const previous = schedule.lastCommandId ? await ctx.db.get(schedule.lastCommandId) : null;
+    const previousRunning =
+      previous !== null &&
+      (previous.status === "pending" || previous.status === "claimed" || previous.status === "executing");
+
+    let lastCommandId = schedule.lastCommandId;
+    if (previousRunning && schedule.overlapPolicy === "skip") {
+      await ctx.db.insert("scheduleRuns", {
+        scheduleId: schedule._id,
+        scheduledFor: args.scheduledFor,
+        outcome: "skipped",
+        reason: `Previous run ${previous!._id} is still ${previous!.status}`,
+        createdAt: now,
+      });
+    } else {
+      lastCommandId = await insertCommand(ctx, {
+        machineId: schedule.machineId,
+        command: schedule.command,
+        targetType: schedule.targetType,
+        targetHost: schedule.targetHost,
+        targetPort: schedule.targetPort,
+        targetUsername: schedule.targetUsername,
+        timeoutMs: schedule.timeoutMs,
+        priority: schedule.priority,
+        createdBy: `schedule:${schedule._id}`,
+      });
+      await ctx.db.insert("scheduleRuns", {
+        scheduleId: schedule._id,
+        scheduledFor: args.scheduledFor,
+        outcome: "queued",
+        commandId: lastCommandId,
+        createdAt: now,
+      });
+    }
+
+    // Missed runs (e.g. after downtime) are not replayed - continue from now
+    const nextRunAt = computeNextRun(schedule, Math.max(args.scheduledFor, now));
+    await ctx.db.patch(schedule._id, {
+      lastRunAt: now,
+      lastCommandId,
+      nextRunAt,
+      updatedAt: now,
+    });
+    await scheduleNextRun(ctx, schedule._id, nextRunAt);
+
+    return null;
+  },
+});
@@ -8,7 +8,159 @@ export const commandStatusValidator = v.union(
   v.literal("executing"),
   v.literal("completed"),
   v.literal("failed"),
-  v.literal("timeout")
+  v.literal("timeout"),
+  v.literal("cancelled")
+);
+
+// Where a command was when it hit its server-side deadline
+export const timeoutPhaseValidator = v.union(
+  v.literal("queued"),
+  v.literal("executing")
+);
+
+// What a queued command does
+export const commandKindValidator = v.union(
+  v.literal("exec"), // Run a shell command
+  v.literal("file_push"), // Write a file from file storage to the target
+  v.literal("file_pull") // Read a file from the target into file storage
+);
+
+// Output stream of a command
+export const outputStreamValidator = v.union(
+  v.literal("stdout"),
+  v.literal("stderr")
+);
+
+// Shell that interprets a command string
+export const commandShellValidator = v.union(
+  v.literal("sh"),
+  v.literal("bash")
+);
+
+// Piece of a file held in Convex file storage
+export const fileChunkValidator = v.object({
+  storageId: v.id("_storage"),
+  size: v.number(),
+  sha256: v.string(), // Base64 SHA-256, as file storage records it
+});
+
+// File moved by a file_push or file_pull command
+export const fileTransferValidator = v.object({
+  path: v.string(), // Absolute path on the target
+  maxBytes: v.number(), // Largest file the command may move
+  mode: v.optional(v.number()), // Permission bits of the written file, e.g. 0o644
+  uid: v.optional(v.number()), // Owner of the written file
+  gid: v.optional(v.number()), // Group of the written file
+  chunks: v.optional(v.array(fileChunkValidator)), // Contents to push, in order
+  size: v.optional(v.number()), // Total size of the pushed contents
+  sha256: v.optional(v.string()), // Expected hex SHA-256 of the pushed file
+});
+
+// File a file_pull command stored
+export const pulledFileValidator = v.object({
+  chunks: v.array(fileChunkValidator),
+  size: v.number(),
+  sha256: v.string(), // Hex SHA-256 of the whole file
+});
+
+// Which part of a stream the relay keeps once it produced more than its cap
+export const outputRetentionValidator = v.union(
+  v.literal("head"), // The first maxBytes
+  v.literal("tail"), // The last maxBytes
+  v.literal("head_tail") // The first and last half of maxBytes
+);
+
+// Cap on the output a relay keeps of a command, per stream
+export const outputLimitValidator = v.object({
+  maxBytes: v.optional(v.number()), // Bytes kept per stream (default and max: the relay's --max-output)
+  keep: v.optional(outputRetentionValidator), // Default: head_tail
+  onLimit: v.optional(v.union(v.literal("truncate"), v.literal("kill"))), // Default: truncate - kill stops the command
+});
+
+// How a relay isolates a local command
+export const isolationValidator = v.union(
+  v.literal("none"),
+  v.literal("unshare"), // New PID, mount, IPC and UTS namespaces
+  v.literal("systemd-run") // A transient systemd scope
+);
+
+// How a relay runs a local command - it can only tighten the relay's own profile
+export const executionProfileValidator = v.object({
+  user: v.optional(v.string()), // Run as this user, by name or uid
+  group: v.optional(v.string()), // Run with this group, by name or gid
+  baseDir: v.optional(v.string()), // Directory the command starts in; cwd must stay inside it
+  scrubEnv: v.optional(v.boolean()), // Start from a minimal environment instead of the relay's
+  keepEnv: v.optional(v.array(v.string())), // Relay environment variables kept when scrubbing
+  cpuSeconds: v.optional(v.number()), // CPU time limit
+  memoryBytes: v.optional(v.number()), // Memory limit
+  openFiles: v.optional(v.number()), // Open file limit
+  maxOutputBytes: v.optional(v.number()), // Most stdout / stderr kept per stream
+  isolation: v.optional(isolationValidator),
+});
+
+// Command output too large to keep inline, moved to Convex file storage
+export const storedOutputValidator = v.object({
+  storageId: v.id("_storage"),
+  size: v.number(), // Bytes of UTF-8 output
+  sha256: v.string(), // Base64 SHA-256, as file storage records it
+});
+
+// Machine-readable reason a relay refused to run a command
+export const commandErrorCodeValidator = v.union(
+  v.literal("policy_denied"),
+  v.literal("ssh_target_denied"),
+  v.literal("host_key_rejected"),
+  v.literal("profile_rejected")
+);
+
+// What a schedule does when its previous run is still unfinished
+export const overlapPolicyValidator = v.union(
+  v.literal("skip"),
+  v.literal("allow")
+);
+
+// Outcome of a single schedule tick
+export const scheduleRunOutcomeValidator = v.union(
+  v.literal("queued"),
+  v.literal("skipped")
+);
+
+// Lifecycle of a command batch
+export const batchStatusValidator = v.union(
+  v.literal("running"),
+  v.literal("completed"), // Every machine's command completed
+  v.literal("failed"), // Every machine ran, at least one command did not complete
+  v.literal("stopped"), // A command failed and stopOnFailure skipped the rest
+  v.literal("cancelled")
+);
+
+// Lifecycle of a job
+export const jobStatusValidator = v.union(
+  v.literal("running"),
+  v.literal("completed"), // Every step completed
+  v.literal("failed"), // A step did not complete, or its templates could not be filled in
+  v.literal("cancelled")
+);
+
+// Lifecycle of an interactive terminal session
+export const sessionStatusValidator = v.union(
+  v.literal("pending"), // Waiting for a relay to open it
+  v.literal("open"),
+  v.literal("closed")
+);
+
+// Why a terminal session ended
+export const sessionCloseReasonValidator = v.union(
+  v.literal("exited"), // The shell or program exited
+  v.literal("closed"), // Closed from the center
+  v.literal("idle"), // No input or output for idleTimeoutMs
+  v.literal("error") // Could not be opened or the relay went away
+);
+
+// Event sent from the center to a session's terminal
+export const sessionInputKindValidator = v.union(
+  v.literal("data"), // Keystrokes / stdin
+  v.literal("resize")
 );
 
 // Target type for command execution
@@ -21,7 +173,11 @@ export const targetTypeValidator = v.union(
 export const capabilityValidator = v.union(
   v.literal("ssh"),
   v.literal("local_cmd"),
-  v.literal("perf_metrics")
+  v.literal("perf_metrics"),
+  v.literal("run_as_user"), // Local commands can run as another user
+  v.literal("rlimits"), // Local commands can get CPU, memory and open file limits
+  v.literal("unshare"), // Local commands can run in their own namespaces
+  v.literal("systemd_run") // Local commands can run in a transient systemd scope
 );
 
 // Credential types
@@ -42,7 +198,8 @@ export const configPushTypeValidator = v.union(
   v.literal("credential"),
   v.literal("ssh_targets"),
   v.literal("allowed_commands"),
-  v.literal("metrics_interval")
+  v.literal("metrics_interval"),
+  v.literal("host_keys")
 );
 
 // Config push status
@@ -67,6 +224,69 @@ export const metricsValidator = v.object({
   loadAvg15m: v.optional(v.number()),
 });
 
+// How a relay came to trust an SSH host key
+export const hostKeySourceValidator = v.union(
+  v.literal("tofu"), // Recorded on first connection
+  v.literal("pinned") // Pinned from the center or the SSH target registry
+);
+
+// Known host key as reported by a relay
+export const hostKeyReportValidator = v.object({
+  host: v.string(),
+  port: v.number(),
+  keyType: v.string(),
+  fingerprint: v.string(), // OpenSSH SHA256 fingerprint ("SHA256:...")
+  source: hostKeySourceValidator,
+  firstSeenAt: v.number(),
+  lastSeenAt: v.number(),
+  rejectedFingerprint: v.optional(v.string()), // Last non-matching key a server presented
+  rejectedAt: v.optional(v.number()),
+});
+
+// Host an SSH connection is tunnelled through on the way to its target
+export const jumpHostValidator = v.object({
+  host: v.string(),
+  port: v.optional(v.number()), // Default: 22
+  username: v.optional(v.string()),
+  credentialName: v.optional(v.string()), // Relay credential for this hop
+});
+
+// SSH target entry from a relay's target registry
+export const sshTargetValidator = v.object({
+  host: v.string(),
+  port: v.number(),
+  username: v.optional(v.string()), // Default username for commands that don't name one
+  credentialName: v.optional(v.string()), // Credential the relay authenticates with
+  hostKeyFingerprint: v.optional(v.string()), // Pinned host key ("SHA256:...")
+  forwardAgent: v.optional(v.boolean()), // Relay forwards its ssh-agent to this target
+  jumpHosts: v.optional(v.array(jumpHostValidator)), // Reached through these hosts, in order
+});
+
+// One step of a job: a command on a machine. command, argv, cwd, env values
+// and stdin may use {{steps.<name>.output}}, .stderr and .exitCode of earlier steps
+export const jobStepValidator = v.object({
+  name: v.string(), // Unique within the job, used in templates
+  machineId: v.string(),
+  command: v.optional(v.string()),
+  argv: v.optional(v.array(v.string())),
+  cwd: v.optional(v.string()),
+  env: v.optional(v.record(v.string(), v.string())),
+  shell: v.optional(commandShellValidator),
+  targetType: targetTypeValidator,
+  targetHost: v.optional(v.string()),
+  targetPort: v.optional(v.number()),
+  targetUsername: v.optional(v.string()),
+  jumpHosts: v.optional(v.array(jumpHostValidator)),
+  stdin: v.optional(v.string()),
+  stdinStorageId: v.optional(v.id("_storage")),
+  outputLimit: v.optional(outputLimitValidator),
+  executionProfile: v.optional(executionProfileValidator),
+  timeoutMs: v.optional(v.number()),
+  queueTimeoutMs: v.optional(v.number()),
+  maxAttempts: v.optional(v.number()),
+  priority: v.optional(v.number()),
+});
+
 export const tables = {
   // Relay assignments - links API keys to machines
   relayAssignments: defineTable({
@@ -74,6 +294,7 @@ export const tables = {
     machineId: v.string(), // Reference to machine in main app
     name: v.string(), // Friendly name for the relay
     enabled: v.boolean(),
+    tags: v.optional(v.array(v.string())), // Labels for selecting relays in batches
     lastSeenAt: v.optional(v.number()),
     createdBy: v.string(),
     createdAt: v.number(),
@@ -91,6 +312,7 @@ export const tables = {
     version: v.optional(v.string()), // Relay binary version
     hostname: v.optional(v.string()), // Relay host machine name
     platform: v.optional(v.string()), // OS platform
+    commandPolicyVersion: v.optional(v.string()), // Command policy the relay enforces
     lastHeartbeatAt: v.number(),
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -112,6 +334,37 @@ export const tables = {
     .index("by_relayId_name", ["relayId", "credentialName"])
     .index("by_targetHost", ["targetHost"]),
 
+  // Relay SSH targets - the registry of SSH targets each relay accepts
+  relaySshTargets: defineTable({
+    relayId: v.string(), // Reference to relayAssignments._id
+    host: v.string(),
+    port: v.number(),
+    username: v.optional(v.string()),
+    credentialName: v.optional(v.string()),
+    hostKeyFingerprint: v.optional(v.string()),
+    forwardAgent: v.optional(v.boolean()),
+    jumpHosts: v.optional(v.array(jumpHostValidator)),
+    reportedAt: v.number(), // When relay reported this target
+  })
+    .index("by_relayId", ["relayId"]),
+
+  // SSH host keys - known hosts each relay reports from its encrypted store
+  sshHostKeys: defineTable({
+    relayId: v.string(), // Reference to relayAssignments._id
+    host: v.string(),
+    port: v.number(),
+    keyType: v.string(),
+    fingerprint: v.string(),
+    source: hostKeySourceValidator,
+    firstSeenAt: v.number(),
+    lastSeenAt: v.number(),
+    rejectedFingerprint: v.optional(v.string()),
+    rejectedAt: v.optional(v.number()),
+    reportedAt: v.number(), // When relay reported this key
+  })
+    .index("by_relayId", ["relayId"])
+    .index("by_relayId_host_port", ["relayId", "host", "port"]),
+
   // Shared credentials - backup copies for shared mode creds (encrypted)
   sharedCredentials: defineTable({
     name: v.string(), // Credential name
@@ -150,24 +403,68 @@ export const tables = {
     targetHost: v.optional(v.string()),
     targetPort: v.optional(v.number()),
     targetUsername: v.optional(v.string()),
+    jumpHosts: v.optional(v.array(jumpHostValidator)), // Hosts to tunnel through, in order
     // Command details
-    command: v.string(),
+    kind: v.optional(commandKindValidator), // Defaults to "exec"
+    command: v.string(), // Shell command, or "<kind> <path>" for file transfers
+    argv: v.optional(v.array(v.string())), // Program and arguments, run without a shell (command shows them quoted)
+    cwd: v.optional(v.string()), // Working directory
+    env: v.optional(v.record(v.string(), v.string())), // Extra environment variables
+    shell: v.optional(commandShellValidator), // Shell for command (default: sh locally, the login shell over SSH)
+    file: v.optional(fileTransferValidator), // Set for file_push and file_pull commands
+    stdin: v.optional(v.string()), // Input piped to the command, then closed
+    stdinStorageId: v.optional(v.id("_storage")), // Stored input, for inputs too large to inline
+    outputLimit: v.optional(outputLimitValidator), // Cap on the output the relay keeps
+    executionProfile: v.optional(executionProfileValidator), // User, base directory, environment, limits and isolation of a local command
     timeoutMs: v.number(), // Command timeout
+    queueTimeoutMs: v.optional(v.number()), // Max time to wait in the queue for a relay
+    deadlineAt: v.optional(v.number()), // Server-side deadline (queue wait + timeoutMs)
+    // Scheduling - relays pick up higher priorities first and skip commands before notBefore
+    priority: v.optional(v.number()),
+    notBefore: v.optional(v.number()),
+    eligibleAt: v.optional(v.number()), // When relays may pick the command up: notBefore, or when it was queued
     // Status tracking
     status: commandStatusValidator,
     claimedBy: v.optional(v.string()), // Relay assignment ID that claimed
     claimedAt: v.optional(v.number()),
-    // Streaming output support
-    partialOutput: v.optional(v.string()), // Incremental stdout during execution
-    partialStderr: v.optional(v.string()), // Incremental stderr during execution
-    outputOffset: v.optional(v.number()), // Last sent output offset for streaming
-    // Results
+    // Lease tracking - a claim is only valid while the relay keeps renewing it
+    leaseExpiresAt: v.optional(v.number()),
+    attempts: v.optional(v.number()), // Number of times the command has been claimed
+    maxAttempts: v.optional(v.number()), // Claims allowed before an expired lease fails the command
+    // Streaming output - the chunks live in commandOutput, numbered per stream
+    stdoutSeq: v.optional(v.number()), // Last stdout chunk stored
+    stderrSeq: v.optional(v.number()), // Last stderr chunk stored
+    stdoutStreamed: v.optional(v.number()), // Characters of stdout stored as chunks
+    stderrStreamed: v.optional(v.number()), // Characters of stderr stored as chunks
+    // Whole-buffer partial output from earlier versions - no longer written
+    partialOutput: v.optional(v.string()),
+    partialStderr: v.optional(v.string()),
+    outputOffset: v.optional(v.number()),
+    // Results - output and stderr only hold a preview when the whole stream is in outputFile / stderrFile
     output: v.optional(v.string()),
     stderr: v.optional(v.string()),
+    outputFile: v.optional(storedOutputValidator),
+    stderrFile: v.optional(storedOutputValidator),
+    outputBytes: v.optional(v.number()), // Bytes of stdout the command produced, kept or not
+    stderrBytes: v.optional(v.number()), // Bytes of stderr the command produced, kept or not
+    outputTruncated: v.optional(v.boolean()), // stdout went over the output limit - output is what was kept
+    stderrTruncated: v.optional(v.boolean()), // stderr went over the output limit - stderr is what was kept
     exitCode: v.optional(v.number()),
+    signal: v.optional(v.string()), // Signal that ended the process, e.g. "SIGKILL"
     error: v.optional(v.string()),
+    errorCode: v.optional(commandErrorCodeValidator), // Set when the relay refused to run the command
+    authMethod: v.optional(v.string()), // SSH authentication method that succeeded
+    fileResult: v.optional(pulledFileValidator), // File a completed file_pull command fetched
     durationMs: v.optional(v.number()),
     completedAt: v.optional(v.number()),
+    timeoutPhase: v.optional(timeoutPhaseValidator), // Set when status is "timeout"
+    // Cancellation - claimed commands stay claimed until the relay stops them
+    cancelRequestedAt: v.optional(v.number()),
+    cancelRequestedBy: v.optional(v.string()),
+    batchId: v.optional(v.id("commandBatches")), // Set when the command is one machine's run of a batch
+    idempotencyKey: v.optional(v.string()), // Queueing again with this key returns this command
+    jobId: v.optional(v.id("jobs")), // Set when the command is a step of a job
+    jobStep: v.optional(v.number()), // Index of the job step
     // Metadata
     createdBy: v.string(),
     createdAt: v.number(),
@@ -176,7 +473,168 @@ export const tables = {
     .index("by_machineId", ["machineId"])
     .index("by_status", ["status"])
     .index("by_machineId_status", ["machineId", "status"])
+    .index("by_machineId_status_priority_eligibleAt", ["machineId", "status", "priority", "eligibleAt"])
+    .index("by_createdAt", ["createdAt"])
+    .index("by_batchId", ["batchId"])
+    .index("by_jobId", ["jobId"])
+    .index("by_idempotencyKey", ["idempotencyKey"]),
+
+  // One command fanned out to many machines
+  commandBatches: defineTable({
+    name: v.optional(v.string()),
+    machineIds: v.array(v.string()), // Target machines, queued in this order
+    queuedCount: v.number(), // Machines whose command has been queued (a prefix of machineIds)
+    // Command template for each machine
+    command: v.optional(v.string()),
+    argv: v.optional(v.array(v.string())),
+    cwd: v.optional(v.string()),
+    env: v.optional(v.record(v.string(), v.string())),
+    shell: v.optional(commandShellValidator),
+    targetType: targetTypeValidator,
+    targetHost: v.optional(v.string()),
+    targetPort: v.optional(v.number()),
+    targetUsername: v.optional(v.string()),
+    jumpHosts: v.optional(v.array(jumpHostValidator)),
+    stdin: v.optional(v.string()),
+    stdinStorageId: v.optional(v.id("_storage")),
+    outputLimit: v.optional(outputLimitValidator),
+    executionProfile: v.optional(executionProfileValidator),
+    timeoutMs: v.optional(v.number()),
+    queueTimeoutMs: v.optional(v.number()),
+    maxAttempts: v.optional(v.number()),
+    priority: v.optional(v.number()),
+    // Rollout
+    maxConcurrency: v.optional(v.number()), // Machines running at once (default: all)
+    stopOnFailure: v.boolean(), // Queue no more machines once a command does not complete
+    status: batchStatusValidator,
+    completedAt: v.optional(v.number()),
+    cancelRequestedBy: v.optional(v.string()),
+    // Metadata
+    createdBy: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_status", ["status"])
     .index("by_createdAt", ["createdAt"]),
+
+  // Command output as the relay streams it, in order of seq within each stream
+  commandOutput: defineTable({
+    commandId: v.id("commandQueue"),
+    stream: outputStreamValidator,
+    seq: v.number(),
+    data: v.string(),
+    createdAt: v.number(),
+  }).index("by_commandId_stream_seq", ["commandId", "stream", "seq"]),
+
+  // Recurring commands - each run is queued into commandQueue
+  schedules: defineTable({
+    machineId: v.string(), // Target machine (relay assignment)
+    name: v.string(),
+    // Command template for each run
+    command: v.string(),
+    targetType: targetTypeValidator,
+    targetHost: v.optional(v.string()),
+    targetPort: v.optional(v.number()),
+    targetUsername: v.optional(v.string()),
+    timeoutMs: v.number(),
+    priority: v.optional(v.number()),
+    // Recurrence - exactly one of cron (5-field, UTC) or intervalMs
+    cron: v.optional(v.string()),
+    intervalMs: v.optional(v.number()),
+    overlapPolicy: overlapPolicyValidator,
+    enabled: v.boolean(),
+    // Run tracking
+    nextRunAt: v.optional(v.number()), // Unset while disabled
+    lastRunAt: v.optional(v.number()),
+    lastCommandId: v.optional(v.id("commandQueue")),
+    // Metadata
+    createdBy: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_machineId", ["machineId"])
+    .index("by_enabled", ["enabled"]),
+
+  // History of schedule ticks
+  scheduleRuns: defineTable({
+    scheduleId: v.id("schedules"),
+    scheduledFor: v.number(), // When the run was due
+    outcome: scheduleRunOutcomeValidator,
+    commandId: v.optional(v.id("commandQueue")), // Set when the run was queued
+    reason: v.optional(v.string()), // Why the run was skipped
+    createdAt: v.number(),
+  }).index("by_scheduleId", ["scheduleId"]),
+
+  // Ordered commands, each run once the previous one completed
+  jobs: defineTable({
+    name: v.optional(v.string()),
+    steps: v.array(jobStepValidator),
+    currentStep: v.number(), // Step running now, or the last one that ran
+    status: jobStatusValidator,
+    error: v.optional(v.string()), // Why the job failed
+    completedAt: v.optional(v.number()),
+    cancelRequestedBy: v.optional(v.string()),
+    // Metadata
+    createdBy: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_status", ["status"])
+    .index("by_createdAt", ["createdAt"]),
+
+  // Interactive terminal sessions (PTY) run by relays
+  terminalSessions: defineTable({
+    machineId: v.string(), // Target machine (relay assignment)
+    targetType: targetTypeValidator,
+    targetHost: v.optional(v.string()),
+    targetPort: v.optional(v.number()),
+    targetUsername: v.optional(v.string()),
+    jumpHosts: v.optional(v.array(jumpHostValidator)),
+    command: v.optional(v.string()), // Program to run instead of the login shell
+    cols: v.number(),
+    rows: v.number(),
+    idleTimeoutMs: v.number(), // Relay closes the session after this long without input or output
+    status: sessionStatusValidator,
+    claimedBy: v.optional(v.string()), // Relay assignment ID running the session
+    openedAt: v.optional(v.number()),
+    relaySeenAt: v.optional(v.number()), // Last time the relay synced the session
+    lastActivityAt: v.number(),
+    // Last sequence numbers handed out for output and input events
+    outputSeq: v.number(),
+    inputSeq: v.number(),
+    // Closing
+    closeRequestedAt: v.optional(v.number()),
+    closeRequestedBy: v.optional(v.string()),
+    closedAt: v.optional(v.number()),
+    closeReason: v.optional(sessionCloseReasonValidator),
+    exitCode: v.optional(v.number()),
+    error: v.optional(v.string()),
+    errorCode: v.optional(commandErrorCodeValidator),
+    authMethod: v.optional(v.string()),
+    // Metadata
+    createdBy: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_machineId_status", ["machineId", "status"]),
+
+  // Terminal output, in order of seq
+  terminalOutput: defineTable({
+    sessionId: v.id("terminalSessions"),
+    seq: v.number(),
+    data: v.string(),
+    createdAt: v.number(),
+  }).index("by_sessionId_seq", ["sessionId", "seq"]),
+
+  // Input events not yet applied by the relay, in order of seq
+  terminalInput: defineTable({
+    sessionId: v.id("terminalSessions"),
+    seq: v.number(),
+    kind: sessionInputKindValidator,
+    data: v.optional(v.string()), // For "data"
+    cols: v.optional(v.number()), // For "resize"
+    rows: v.optional(v.number()),
+    createdAt: v.number(),
+  }).index("by_sessionId_seq", ["sessionId", "seq"]),
 };
 
 const schema = defineSchema(tables);
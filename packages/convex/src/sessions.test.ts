@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createRelayTestConvex, RelayTestConvex } from "./test.setup";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+
+describe("sessions", () => {
+  let t: RelayTestConvex;
+  let assignmentId: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    t = createRelayTestConvex();
+    assignmentId = await t.run(async (ctx) =>
+      ctx.db.insert("relayAssignments", {
+        apiKeyId: "key-1",
+        machineId: "machine-1",
+        name: "Relay",
+        enabled: true,
+        createdBy: "test-user",
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+  });
+
+  const openSession = () =>
+    t.mutation(api.sessions.open, {
+      machineId: "machine-1",
+      targetType: "ssh",
+      targetHost: "appliance-1",
+      targetUsername: "admin",
+      cols: 120,
+      rows: 40,
+      createdBy: "test-user",
+    });
+
+  const openClaimed = async () => {
+    const sessionId = await openSession();
+    await t.mutation(api.public.claimSession, { sessionId, assignmentId });
+    return sessionId;
+  };
+
+  describe("open", () => {
+    it("queues the session for the machine's relay", async () => {
+      const sessionId = await openSession();
+
+      const session = await t.query(api.sessions.get, { sessionId });
+      expect(session).toMatchObject({ status: "pending", cols: 120, rows: 40, targetPort: 22, outputSeq: 0 });
+      expect(session?.idleTimeoutMs).toBe(15 * 60 * 1000);
+
+      const pending = await t.query(api.public.getPendingSessions, { machineId: "machine-1" });
+      expect(pending.map((s) => s._id)).toEqual([sessionId]);
+    });
+
+    it("rejects bad sizes, idle timeouts and SSH targets", async () => {
+      const open = (options: { cols?: number; idleTimeoutMs?: number; targetHost?: string }) =>
+        t.mutation(api.sessions.open, {
+          machineId: "machine-1",
+          targetType: "ssh",
+          targetHost: "appliance-1",
+          targetUsername: "admin",
+          createdBy: "test-user",
+          ...options,
+        });
+
+      await expect(open({ cols: 0 })).rejects.toThrow("cols must be between 1 and 1000");
+      await expect(open({ idleTimeoutMs: 10 })).rejects.toThrow("idleTimeoutMs must be at least 1000");
+      await expect(open({ targetHost: "" })).rejects.toThrow("SSH target requires targetHost and targetUsername");
+    });
+
+    it("closes sessions no relay claims in time", async () => {
+      const sessionId = await openSession();
+
+      vi.advanceTimersByTime(60 * 1000);
+      await t.finishInProgressScheduledFunctions();
+
+      const session = await t.query(api.sessions.get, { sessionId });
+      expect(session?.status).toBe("closed");
+      expect(session?.closeReason).toBe("error");
+      expect(session?.error).toBe("No relay opened the session in time");
+    });
+  });
+
+  describe("claimSession", () => {
+    it("opens the session for one relay only", async () => {
+      const sessionId = await openSession();
+
+      const first = await t.mutation(api.public.claimSession, { sessionId, assignmentId });
+      const second = await t.mutation(api.public.claimSession, { sessionId, assignmentId: "other-relay" });
+
+      expect(first).toEqual({ success: true });
+      expect(second).toEqual({ success: false, error: "Session is not pending" });
+      expect((await t.query(api.sessions.get, { sessionId }))?.claimedBy).toBe(assignmentId);
+      expect(await t.query(api.public.getPendingSessions, { machineId: "machine-1" })).toEqual([]);
+    });
+  });
+
+  describe("syncSession", () => {
+    let sessionId: Id<"terminalSessions">;
+
+    beforeEach(async () => {
+      sessionId = await openClaimed();
+    });
+
+    it("appends output with increasing sequence numbers", async () => {
+      await t.mutation(api.public.syncSession, { sessionId, assignmentId, output: "$ " });
+      await t.mutation(api.public.syncSession, { sessionId, assignmentId });
+      await t.mutation(api.public.syncSession, { sessionId, assignmentId, output: "ls\r\n" });
+
+      const all = await t.query(api.sessions.readOutput, { sessionId });
+      expect(all).toEqual({
+        status: "open",
+        chunks: [
+          { seq: 1, data: "$ " },
+          { seq: 2, data: "ls\r\n" },
+        ],
+      });
+
+      const after = await t.query(api.sessions.readOutput, { sessionId, afterSeq: 1 });
+      expect(after.chunks).toEqual([{ seq: 2, data: "ls\r\n" }]);
+    });
+
+    it("hands input to the relay until it is applied", async () => {
+      await t.mutation(api.sessions.write, { sessionId, data: "ls\r" });
+      await t.mutation(api.sessions.resize, { sessionId, cols: 100, rows: 30 });
+
+      const first = await t.mutation(api.public.syncSession, { sessionId, assignmentId });
+      expect(first).toEqual({
+        success: true,
+        closeRequested: false,
+        events: [
+          { seq: 1, kind: "data", data: "ls\r" },
+          { seq: 2, kind: "resize", cols: 100, rows: 30 },
+        ],
+      });
+
+      const second = await t.mutation(api.public.syncSession, { sessionId, assignmentId, appliedInputSeq: 1 });
+      expect(second.success && second.events.map((e) => e.seq)).toEqual([2]);
+
+      const session = await t.query(api.sessions.get, { sessionId });
+      expect(session).toMatchObject({ cols: 100, rows: 30 });
+    });
+
+    it("refuses to resize local terminals", async () => {
+      const local = await t.mutation(api.sessions.open, {
+        machineId: "machine-1",
+        targetType: "local",
+        createdBy: "test-user",
+      });
+
+      expect(await t.mutation(api.sessions.resize, { sessionId: local, cols: 100, rows: 30 })).toEqual({
+        success: false,
+        error: "Local terminals can't be resized",
+      });
+      expect(await t.query(api.sessions.get, { sessionId: local })).toMatchObject({ cols: 80, rows: 24 });
+    });
+
+    it("refuses relays that don't hold the session", async () => {
+      const result = await t.mutation(api.public.syncSession, {
+        sessionId,
+        assignmentId: "other-relay",
+        output: "stolen",
+      });
+
+      expect(result).toEqual({ success: false, error: "Session is held by another relay" });
+      expect((await t.query(api.sessions.readOutput, { sessionId })).chunks).toEqual([]);
+    });
+
+    it("closes the session when the relay stops syncing", async () => {
+      vi.advanceTimersByTime(30 * 1000);
+      await t.mutation(api.public.syncSession, { sessionId, assignmentId });
+
+      vi.advanceTimersByTime(30 * 1000);
+      await t.finishInProgressScheduledFunctions();
+      expect((await t.query(api.sessions.get, { sessionId }))?.status).toBe("open");
+
+      vi.advanceTimersByTime(30 * 1000);
+      await t.finishInProgressScheduledFunctions();
+      const session = await t.query(api.sessions.get, { sessionId });
+      expect(session?.status).toBe("closed");
+      expect(session?.error).toBe("Relay stopped responding");
+    });
+  });
+
+  describe("close", () => {
+    it("closes pending sessions immediately", async () => {
+      const sessionId = await openSession();
+
+      const result = await t.mutation(api.sessions.close, { sessionId, closedBy: "test-user" });
+
+      expect(result).toEqual({ success: true, status: "closed" });
+      expect(await t.query(api.sessions.get, { sessionId })).toMatchObject({
+        status: "closed",
+        closeReason: "closed",
+        closeRequestedBy: "test-user",
+      });
+    });
+
+    it("asks the relay to end open sessions and records the final output", async () => {
+      const sessionId = await openClaimed();
+      await t.mutation(api.sessions.write, { sessionId, data: "never applied" });
+
+      await t.mutation(api.sessions.close, { sessionId, closedBy: "test-user" });
+      const input = await t.query(api.public.getSessionInput, { sessionId });
+      expect(input.closeRequested).toBe(true);
+
+      await t.mutation(api.public.reportSessionClosed, {
+        sessionId,
+        assignmentId,
+        closeReason: "exited",
+        output: "logout\r\n",
+        exitCode: 0,
+      });
+
+      const session = await t.query(api.sessions.get, { sessionId });
+      expect(session).toMatchObject({ status: "closed", closeReason: "closed", exitCode: 0, outputSeq: 1 });
+      expect((await t.query(api.sessions.readOutput, { sessionId })).chunks).toEqual([{ seq: 1, data: "logout\r\n" }]);
+      expect(await t.mutation(api.sessions.write, { sessionId, data: "x" })).toEqual({
+        success: false,
+        error: "Session is closed",
+      });
+      expect(await t.run(async (ctx) => ctx.db.query("terminalInput").collect())).toEqual([]);
+    });
+  });
+
+  describe("remove", () => {
+    it("deletes closed sessions with their output", async () => {
+      const sessionId = await openClaimed();
+      await t.mutation(api.public.syncSession, { sessionId, assignmentId, output: "hello" });
+
+      expect(await t.mutation(api.sessions.remove, { sessionId })).toEqual({
+        success: false,
+        error: "Session is still running",
+      });
+
+      await t.mutation(api.public.reportSessionClosed, { sessionId, assignmentId, closeReason: "exited", exitCode: 0 });
+      expect(await t.mutation(api.sessions.remove, { sessionId })).toEqual({ success: true });
+      expect(await t.query(api.sessions.get, { sessionId })).toBeNull();
+      expect(await t.run(async (ctx) => ctx.db.query("terminalOutput").collect())).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,490 @@
+import { v } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  targetTypeValidator,
+  jumpHostValidator,
+  sessionStatusValidator,
+  sessionCloseReasonValidator,
+  sessionInputKindValidator,
+  commandErrorCodeValidator,
+} from "./schema";
+import { validateJumpHosts } from "./commands";
+
+// Close sessions after this long without input or output unless the caller sets idleTimeoutMs
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+// How long a session may wait for a relay to open it
+export const SESSION_OPEN_TIMEOUT_MS = 60 * 1000;
+
+// An open session whose relay hasn't synced for this long is considered gone
+export const SESSION_RELAY_TIMEOUT_MS = 60 * 1000;
+
+const sessionValidator = v.object({
+  _id: v.id("terminalSessions"),
+  machineId: v.string(),
+  targetType: targetTypeValidator,
+  targetHost: v.optional(v.string()),
+  targetPort: v.optional(v.number()),
+  targetUsername: v.optional(v.string()),
+  jumpHosts: v.optional(v.array(jumpHostValidator)),
+  command: v.optional(v.string()),
+  cols: v.number(),
+  rows: v.number(),
+  idleTimeoutMs: v.number(),
+  status: sessionStatusValidator,
+  claimedBy: v.optional(v.string()),
+  openedAt: v.optional(v.number()),
+  lastActivityAt: v.number(),
+  outputSeq: v.number(),
+  closeRequestedAt: v.optional(v.number()),
+  closeRequestedBy: v.optional(v.string()),
+  closedAt: v.optional(v.number()),
+  closeReason: v.optional(sessionCloseReasonValidator),
+  exitCode: v.optional(v.number()),
+  error: v.optional(v.string()),
+  errorCode: v.optional(commandErrorCodeValidator),
+  authMethod: v.optional(v.string()),
+  createdBy: v.string(),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
+// Input event as relays receive it
+export const sessionInputEventValidator = v.object({
+  seq: v.number(),
+  kind: sessionInputKindValidator,
+  data: v.optional(v.string()),
+  cols: v.optional(v.number()),
+  rows: v.optional(v.number()),
+});
+
+/**
+ * Why a terminal size is invalid, or null if it is fine
+ */
+function validateSize(cols: number, rows: number): string | null {
+  for (const [name, value] of [["cols", cols], ["rows", rows]] as const) {
+    if (!Number.isInteger(value) || value < 1 || value > 1000) {
+      return `${name} must be between 1 and 1000`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Schedule the next liveness check of a session
+ */
+export async function scheduleSessionCheck(
+  ctx: MutationCtx,
+  sessionId: Id<"terminalSessions">,
+  at: number
+): Promise<void> {
+  await ctx.scheduler.runAt(at, internal.sessions.checkSession, { sessionId });
+}
+
+/**
+ * Input events the relay has not applied yet, oldest first
+ */
+export async function listSessionInput(
+  ctx: QueryCtx,
+  sessionId: Id<"terminalSessions">
+) {
+  const events = await ctx.db
+    .query("terminalInput")
+    .withIndex("by_sessionId_seq", (q) => q.eq("sessionId", sessionId))
+    .order("asc")
+    .take(100);
+
+  return events.map((e) => ({
+    seq: e.seq,
+    kind: e.kind,
+    data: e.data,
+    cols: e.cols,
+    rows: e.rows,
+  }));
+}
+
+/**
+ * Mark a session closed and drop input the relay will never apply
+ */
+export async function closeSessionRecord(
+  ctx: MutationCtx,
+  session: Doc<"terminalSessions">,
+  result: {
+    closeReason: "exited" | "closed" | "idle" | "error";
+    exitCode?: number;
+    error?: string;
+    errorCode?: Doc<"terminalSessions">["errorCode"];
+  }
+): Promise<void> {
+  const now = Date.now();
+  await ctx.db.patch(session._id, {
+    ...result,
+    status: "closed",
+    closedAt: now,
+    updatedAt: now,
+  });
+
+  const pendingInput = await ctx.db
+    .query("terminalInput")
+    .withIndex("by_sessionId_seq", (q) => q.eq("sessionId", session._id))
+    .collect();
+  for (const event of pendingInput) {
+    await ctx.db.delete(event._id);
+  }
+}
+
+/**
+ * Queue an input event for a session that is still running
+ */
+async function queueInput(
+  ctx: MutationCtx,
+  sessionId: Id<"terminalSessions">,
+  event: { kind: "data" | "resize"; data?: string; cols?: number; rows?: number }
+): Promise<{ success: boolean; error?: string }> {
+  const session = await ctx.db.get(sessionId);
+  if (!session) {
+    return { success: false, error: "Session not found" };
+  }
+  if (session.status === "closed") {
+    return { success: false, error: "Session is closed" };
+  }
+
+  const now = Date.now();
+  const seq = session.inputSeq + 1;
+  await ctx.db.insert("terminalInput", { sessionId, seq, ...event, createdAt: now });
+  await ctx.db.patch(sessionId, {
+    inputSeq: seq,
+    lastActivityAt: now,
+    updatedAt: now,
+    ...(event.kind === "resize" ? { cols: event.cols, rows: event.rows } : {}),
+  });
+  return { success: true };
+}
+
+/**
+ * Open an interactive terminal session on a machine, locally or on an SSH target.
+ * The relay runs the login shell (or `command`) in a PTY of the given size.
+ */
+export const open = mutation({
+  args: {
+    machineId: v.string(),
+    targetType: targetTypeValidator,
+    targetHost: v.optional(v.string()),
+    targetPort: v.optional(v.number()),
+    targetUsername: v.optional(v.string()),
+    jumpHosts: v.optional(v.array(jumpHostValidator)), // SSH hosts to tunnel through, in order
+    command: v.optional(v.string()), // Program to run instead of the login shell
+    cols: v.optional(v.number()), // Terminal width (default: 80)
+    rows: v.optional(v.number()), // Terminal height (default: 24)
+    idleTimeoutMs: v.optional(v.number()), // Close after this long without input or output (default: 15 minutes)
+    createdBy: v.string(),
+  },
+  returns: v.id("terminalSessions"),
+  handler: async (ctx, args) => {
+    if (args.targetType === "ssh" && (!args.targetHost || !args.targetUsername)) {
+      throw new Error("SSH target requires targetHost and targetUsername");
+    }
+    const jumpHostsError = validateJumpHosts(args);
+    if (jumpHostsError) {
+      throw new Error(jumpHostsError);
+    }
+    const cols = args.cols ?? 80;
+    const rows = args.rows ?? 24;
+    const sizeError = validateSize(cols, rows);
+    if (sizeError) {
+      throw new Error(sizeError);
+    }
+    if (args.idleTimeoutMs !== undefined && (!Number.isInteger(args.idleTimeoutMs) || args.idleTimeoutMs < 1000)) {
+      throw new Error("idleTimeoutMs must be at least 1000");
+    }
+
+    const now = Date.now();
+    const sessionId = await ctx.db.insert("terminalSessions", {
+      machineId: args.machineId,
+      targetType: args.targetType,
+      targetHost: args.targetHost,
+      targetPort: args.targetType === "ssh" ? args.targetPort ?? 22 : undefined,
+      targetUsername: args.targetUsername,
+      jumpHosts: args.jumpHosts,
+      command: args.command,
+      cols,
+      rows,
+      idleTimeoutMs: args.idleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+      status: "pending",
+      lastActivityAt: now,
+      outputSeq: 0,
+      inputSeq: 0,
+      createdBy: args.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await scheduleSessionCheck(ctx, sessionId, now + SESSION_OPEN_TIMEOUT_MS);
+    return sessionId;
+  },
+});
+
+/**
+ * Send keystrokes (or any stdin data) to a session
+ */
+export const write = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    data: v.string(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    return await queueInput(ctx, args.sessionId, { kind: "data", data: args.data });
+  },
+});
+
+/**
+ * Change a session's terminal size. Only SSH terminals can be resized - local
+ * ones run in a PTY whose size is fixed when it starts.
+ */
+export const resize = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    cols: v.number(),
+    rows: v.number(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const sizeError = validateSize(args.cols, args.rows);
+    if (sizeError) {
+      return { success: false, error: sizeError };
+    }
+    const session = await ctx.db.get(args.sessionId);
+    if (session?.targetType === "local") {
+      return { success: false, error: "Local terminals can't be resized" };
+    }
+    return await queueInput(ctx, args.sessionId, { kind: "resize", cols: args.cols, rows: args.rows });
+  },
+});
+
+/**
+ * Close a session. Pending sessions close immediately; open ones are
+ * flagged so the relay ends the shell and reports the final output.
+ */
+export const close = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    closedBy: v.string(),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    status: v.optional(sessionStatusValidator),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      return { success: false, error: "Session not found" };
+    }
+
+    if (session.status === "closed") {
+      return { success: false, status: session.status, error: "Session already closed" };
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.sessionId, {
+      closeRequestedAt: session.closeRequestedAt ?? now,
+      closeRequestedBy: session.closeRequestedBy ?? args.closedBy,
+      updatedAt: now,
+    });
+
+    if (session.status === "pending") {
+      await closeSessionRecord(ctx, session, { closeReason: "closed" });
+      return { success: true, status: "closed" as const };
+    }
+    return { success: true, status: session.status };
+  },
+});
+
+/**
+ * Get a session by ID
+ */
+export const get = query({
+  args: {
+    sessionId: v.id("terminalSessions"),
+  },
+  returns: v.union(sessionValidator, v.null()),
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) return null;
+
+    return {
+      _id: session._id,
+      machineId: session.machineId,
+      targetType: session.targetType,
+      targetHost: session.targetHost,
+      targetPort: session.targetPort,
+      targetUsername: session.targetUsername,
+      jumpHosts: session.jumpHosts,
+      command: session.command,
+      cols: session.cols,
+      rows: session.rows,
+      idleTimeoutMs: session.idleTimeoutMs,
+      status: session.status,
+      claimedBy: session.claimedBy,
+      openedAt: session.openedAt,
+      lastActivityAt: session.lastActivityAt,
+      outputSeq: session.outputSeq,
+      closeRequestedAt: session.closeRequestedAt,
+      closeRequestedBy: session.closeRequestedBy,
+      closedAt: session.closedAt,
+      closeReason: session.closeReason,
+      exitCode: session.exitCode,
+      error: session.error,
+      errorCode: session.errorCode,
+      authMethod: session.authMethod,
+      createdBy: session.createdBy,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+    };
+  },
+});
+
+/**
+ * Terminal output after a sequence number, oldest first.
+ * A web terminal subscribes with the last seq it rendered to receive new output.
+ */
+export const readOutput = query({
+  args: {
+    sessionId: v.id("terminalSessions"),
+    afterSeq: v.optional(v.number()), // Last seq already received (default: 0, from the start)
+    limit: v.optional(v.number()), // Max chunks to return (default and max: 100)
+  },
+  returns: v.object({
+    status: v.union(sessionStatusValidator, v.null()), // null if the session doesn't exist
+    chunks: v.array(
+      v.object({
+        seq: v.number(),
+        data: v.string(),
+      })
+    ),
+  }),
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      return { status: null, chunks: [] };
+    }
+
+    const chunks = await ctx.db
+      .query("terminalOutput")
+      .withIndex("by_sessionId_seq", (q) =>
+        q.eq("sessionId", args.sessionId).gt("seq", args.afterSeq ?? 0)
+      )
+      .order("asc")
+      .take(Math.max(1, Math.min(args.limit ?? 100, 100)));
+
+    return {
+      status: session.status,
+      chunks: chunks.map((c) => ({ seq: c.seq, data: c.data })),
+    };
+  },
+});
+
+/**
+ * List a machine's sessions that are waiting or open
+ */
+export const listActive = query({
+  args: {
+    machineId: v.string(),
+  },
+  returns: v.array(sessionValidator),
+  handler: async (ctx, args) => {
+    const sessions = [];
+    for (const status of ["pending", "open"] as const) {
+      sessions.push(
+        ...(await ctx.db
+          .query("terminalSessions")
+          .withIndex("by_machineId_status", (q) => q.eq("machineId", args.machineId).eq("status", status))
+          .collect())
+      );
+    }
+
+    return sessions.map(({ relaySeenAt: _relaySeenAt, inputSeq: _inputSeq, _creationTime, ...session }) => session);
+  },
+});
+
+/**
+ * Delete a closed session together with its output
+ */
+export const remove = mutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+  },
+  returns: v.object({
+    success: v.boolean(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) {
+      return { success: false, error: "Session not found" };
+    }
+    if (session.status !== "closed") {
+      return { success: false, error: "Session is still running" };
+    }
+
+    const output = await ctx.db
+      .query("terminalOutput")
+      .withIndex("by_sessionId_seq", (q) => q.eq("sessionId", args.sessionId))
+      .collect();
+    for (const chunk of output) {
+      await ctx.db.delete(chunk._id);
+    }
+    await ctx.db.delete(args.sessionId);
+    return { success: true };
+  },
+});
+
+/**
+ * Scheduled liveness check. Closes sessions no relay picked up in time and
+ * open sessions whose relay stopped syncing; otherwise checks again later.
+ */
+export const checkSession = internalMutation({
+  args: {
+    sessionId: v.id("terminalSessions"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.status === "closed") return null;
+
+    if (session.status === "pending") {
+      await closeSessionRecord(ctx, session, {
+        closeReason: "error",
+        error: "No relay opened the session in time",
+      });
+      return null;
+    }
+
+    const relayDeadline = (session.relaySeenAt ?? session.openedAt ?? session.createdAt) + SESSION_RELAY_TIMEOUT_MS;
+    if (Date.now() >= relayDeadline) {
+      await closeSessionRecord(ctx, session, {
+        closeReason: "error",
+        error: "Relay stopped responding",
+      });
+      return null;
+    }
+
+    await scheduleSessionCheck(ctx, session._id, relayDeadline);
+    return null;
+  },
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createRelayTestConvex, RelayTestConvex } from "./test.setup";
+import { createMockRelayAssignment } from "./test.helpers";
+import { api } from "./_generated/api";
+
+describe("sshTargets", () => {
+  let t: RelayTestConvex;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    t = createRelayTestConvex();
+  });
+
+  afterEach(async () => {
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+  });
+
+  const reportTargets = (relayId: string, sshTargets?: Array<{ host: string; port: number; username?: string }>) =>
+    t.mutation(api.public.reportFullStatus, {
+      relayId,
+      capabilities: ["ssh"],
+      credentials: [],
+      sshTargets,
+    });
+
+  describe("listForRelay", () => {
+    it("returns the targets from the latest status report", async () => {
+      await reportTargets("relay-1", [
+        { host: "web1.internal", port: 22, username: "deploy" },
+        { host: "db1.internal", port: 2222 },
+      ]);
+
+      const targets = await t.query(api.sshTargets.listForRelay, { relayId: "relay-1" });
+      expect(targets.map((target) => `${target.host}:${target.port}`)).toEqual([
+        "db1.internal:2222",
+        "web1.internal:22",
+      ]);
+      expect(targets[1].username).toBe("deploy");
+    });
+
+    it("replaces targets on each report and clears them without a registry", async () => {
+      await reportTargets("relay-1", [{ host: "web1.internal", port: 22 }]);
+      await reportTargets("relay-1", [{ host: "web2.internal", port: 22 }]);
+
+      let targets = await t.query(api.sshTargets.listForRelay, { relayId: "relay-1" });
+      expect(targets.map((target) => target.host)).toEqual(["web2.internal"]);
+
+      await reportTargets("relay-1");
+      targets = await t.query(api.sshTargets.listForRelay, { relayId: "relay-1" });
+      expect(targets).toEqual([]);
+    });
+  });
+
+  describe("listForMachine", () => {
+    it("combines the targets of the machine's enabled relays", async () => {
+      const relayA = await createMockRelayAssignment(t, { apiKeyId: "key-a", machineId: "machine-1" });
+      const relayB = await createMockRelayAssignment(t, { apiKeyId: "key-b", machineId: "machine-1" });
+      const disabled = await createMockRelayAssignment(t, {
+        apiKeyId: "key-c",
+        machineId: "machine-1",
+        enabled: false,
+      });
+      const other = await createMockRelayAssignment(t, { apiKeyId: "key-d", machineId: "machine-2" });
+
+      await reportTargets(relayA._id, [{ host: "web1.internal", port: 22 }]);
+      await reportTargets(relayB._id, [{ host: "db1.internal", port: 22 }]);
+      await reportTargets(disabled._id, [{ host: "old.internal", port: 22 }]);
+      await reportTargets(other._id, [{ host: "other.internal", port: 22 }]);
+
+      const targets = await t.query(api.sshTargets.listForMachine, { machineId: "machine-1" });
+      expect(targets.map((target) => [target.host, target.relayId])).toEqual([
+        ["db1.internal", relayB._id],
+        ["web1.internal", relayA._id],
+      ]);
+    });
+  });
+});
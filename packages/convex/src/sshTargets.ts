@@ -0,0 +1,85 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { jumpHostValidator } from "./schema";
+
+const relaySshTargetValidator = v.object({
+  relayId: v.string(),
+  host: v.string(),
+  port: v.number(),
+  username: v.optional(v.string()),
+  credentialName: v.optional(v.string()),
+  hostKeyFingerprint: v.optional(v.string()),
+  forwardAgent: v.optional(v.boolean()),
+  jumpHosts: v.optional(v.array(jumpHostValidator)),
+  reportedAt: v.number(),
+});
+
+/**
+ * SSH targets a relay accepts, as last reported by the relay.
+ * Empty if the relay has no SSH target registry.
+ */
+export const listForRelay = query({
+  args: {
+    relayId: v.string(),
+  },
+  returns: v.array(relaySshTargetValidator),
+  handler: async (ctx, args) => {
+    const targets = await ctx.db
+      .query("relaySshTargets")
+      .withIndex("by_relayId", (q) => q.eq("relayId", args.relayId))
+      .collect();
+
+    return targets
+      .map((t) => ({
+        relayId: t.relayId,
+        host: t.host,
+        port: t.port,
+        username: t.username,
+        credentialName: t.credentialName,
+        hostKeyFingerprint: t.hostKeyFingerprint,
+        forwardAgent: t.forwardAgent,
+        jumpHosts: t.jumpHosts,
+        reportedAt: t.reportedAt,
+      }))
+      .sort((a, b) => a.host.localeCompare(b.host) || a.port - b.port);
+  },
+});
+
+/**
+ * SSH targets accepted by the enabled relays of a machine, for target pickers
+ */
+export const listForMachine = query({
+  args: {
+    machineId: v.string(),
+  },
+  returns: v.array(relaySshTargetValidator),
+  handler: async (ctx, args) => {
+    const assignments = await ctx.db
+      .query("relayAssignments")
+      .withIndex("by_machineId", (q) => q.eq("machineId", args.machineId))
+      .collect();
+
+    const result = [];
+    for (const assignment of assignments.filter((a) => a.enabled)) {
+      const targets = await ctx.db
+        .query("relaySshTargets")
+        .withIndex("by_relayId", (q) => q.eq("relayId", assignment._id))
+        .collect();
+      for (const t of targets) {
+        result.push({
+          relayId: t.relayId,
+          host: t.host,
+          port: t.port,
+          username: t.username,
+          credentialName: t.credentialName,
+          hostKeyFingerprint: t.hostKeyFingerprint,
+          forwardAgent: t.forwardAgent,
+          jumpHosts: t.jumpHosts,
+          reportedAt: t.reportedAt,
+        });
+      }
+    }
+
+    return result.sort((a, b) => a.host.localeCompare(b.host) || a.port - b.port);
+  },
+});
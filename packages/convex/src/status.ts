@@ -74,6 +74,7 @@ export const getByRelayId = query({
       version: v.optional(v.string()),
       hostname: v.optional(v.string()),
       platform: v.optional(v.string()),
+      commandPolicyVersion: v.optional(v.string()),
       lastHeartbeatAt: v.number(),
       createdAt: v.number(),
       updatedAt: v.number(),
@@ -96,6 +97,7 @@ export const getByRelayId = query({
       version: status.version,
       hostname: status.hostname,
       platform: status.platform,
+      commandPolicyVersion: status.commandPolicyVersion,
       lastHeartbeatAt: status.lastHeartbeatAt,
       createdAt: status.createdAt,
       updatedAt: status.updatedAt,
@@ -117,6 +119,7 @@ export const listAll = query({
       version: v.optional(v.string()),
       hostname: v.optional(v.string()),
       platform: v.optional(v.string()),
+      commandPolicyVersion: v.optional(v.string()),
       lastHeartbeatAt: v.number(),
       isOnline: v.boolean(),
     })
@@ -134,6 +137,7 @@ export const listAll = query({
       version: s.version,
       hostname: s.hostname,
       platform: s.platform,
+      commandPolicyVersion: s.commandPolicyVersion,
       lastHeartbeatAt: s.lastHeartbeatAt,
       isOnline: now - s.lastHeartbeatAt < ONLINE_THRESHOLD_MS,
     }));
@@ -8,7 +8,8 @@ export type CommandStatus =
   | "executing"
   | "completed"
   | "failed"
-  | "timeout";
+  | "timeout"
+  | "cancelled";
 export type TargetType = "local" | "ssh";
 export type Capability = "ssh" | "local_cmd" | "perf_metrics";
 export type CredentialType = "ssh_key" | "password" | "api_key";
@@ -138,6 +139,7 @@ export async function createMockCommand(
       status,
       claimedBy: options.claimedBy,
       claimedAt: options.claimedAt,
+      attempts: options.claimedBy !== undefined ? 1 : undefined, // Claimed commands quote attempt 1
       createdBy,
       createdAt: now,
       updatedAt: now,
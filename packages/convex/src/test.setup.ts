@@ -77,7 +77,7 @@ export interface CreateCommandOptions {
   targetPort?: number;
   targetUsername?: string;
   timeoutMs?: number;
-  status?: "pending" | "claimed" | "executing" | "completed" | "failed" | "timeout";
+  status?: "pending" | "claimed" | "executing" | "completed" | "failed" | "timeout" | "cancelled";
   createdBy?: string;
 }
 
@@ -92,7 +92,7 @@ export async function createTestCommand(
   machineId: string;
   command: string;
   targetType: "local" | "ssh";
-  status: "pending" | "claimed" | "executing" | "completed" | "failed" | "timeout";
+  status: "pending" | "claimed" | "executing" | "completed" | "failed" | "timeout" | "cancelled";
 }> {
   const now = Date.now();
   const command = options.command ?? "echo test";
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createRelayTestConvex, RelayTestConvex } from "./test.setup";
+import { api } from "./_generated/api";
+import { DEFAULT_QUEUE_TIMEOUT_MS } from "./timeouts";
+
+describe("timeouts", () => {
+  let t: RelayTestConvex;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    t = createRelayTestConvex();
+  });
+
+  afterEach(async () => {
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    vi.useRealTimers();
+  });
+
+  describe("queue", () => {
+    it("records the server-side deadline", async () => {
+      const commandId = await t.mutation(api.commands.queue, {
+        machineId: "machine-1",
+        command: "echo hello",
+        targetType: "local",
+        timeoutMs: 10000,
+        createdBy: "user-1",
+      });
+
+      const cmd = await t.run(async (ctx) => ctx.db.get(commandId));
+      expect(cmd?.queueTimeoutMs).toBe(DEFAULT_QUEUE_TIMEOUT_MS);
+      expect(cmd?.deadlineAt).toBe(Date.now() + DEFAULT_QUEUE_TIMEOUT_MS + 10000);
+    });
+  });
+
+  describe("enforceDeadline", () => {
+    it("times out commands that never left the queue", async () => {
+      const result = await t.mutation(api.rpc.queueRpcCommand, {
+        machineId: "offline-machine",
+        command: "uptime",
+        targetType: "local",
+        timeoutMs: 1000,
+        queueTimeoutMs: 5000,
+        createdBy: "user-1",
+      });
+      const commandId = result.commandId!;
+
+      vi.advanceTimersByTime(6000);
+      await t.finishInProgressScheduledFunctions();
+
+      const status = await t.query(api.rpc.getCommandResult, { commandId });
+      expect(status.found).toBe(true);
+      if (status.found) {
+        expect(status.status).toBe("timeout");
+        expect(status.timeoutPhase).toBe("queued");
+        expect(status.error).toBe("Command timed out waiting in the queue for a relay");
+      }
+    });
+
+    it("times out commands that are still executing", async () => {
+      const result = await t.mutation(api.rpc.queueRpcCommand, {
+        machineId: "slow-machine",
+        command: "sleep 100",
+        targetType: "local",
+        timeoutMs: 1000,
+        queueTimeoutMs: 5000,
+        createdBy: "user-1",
+      });
+      const commandId = result.commandId!;
+
+      await t.mutation(api.public.claimCommand, {
+        commandId,
+        assignmentId: "relay-1",
+        leaseDurationMs: 60000,
+      });
+
+      vi.advanceTimersByTime(6000);
+      await t.finishInProgressScheduledFunctions();
+
+      const cmd = await t.run(async (ctx) => ctx.db.get(commandId));
+      expect(cmd?.status).toBe("timeout");
+      expect(cmd?.timeoutPhase).toBe("executing");
+      expect(cmd?.error).toBe("Command did not finish within 1000ms");
+      expect(cmd?.leaseExpiresAt).toBeUndefined();
+    });
+
+    it("leaves completed commands alone", async () => {
+      const result = await t.mutation(api.rpc.queueRpcCommand, {
+        machineId: "fast-machine",
+        command: "echo done",
+        targetType: "local",
+        timeoutMs: 1000,
+        queueTimeoutMs: 5000,
+        createdBy: "user-1",
+      });
+      const commandId = result.commandId!;
+
+      await t.mutation(api.public.claimCommand, { commandId, assignmentId: "relay-1" });
+      await t.mutation(api.public.submitResult, {
+        commandId,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: true,
+        output: "done",
+        exitCode: 0,
+      });
+
+      vi.advanceTimersByTime(6000);
+      await t.finishInProgressScheduledFunctions();
+
+      const cmd = await t.run(async (ctx) => ctx.db.get(commandId));
+      expect(cmd?.status).toBe("completed");
+      expect(cmd?.timeoutPhase).toBeUndefined();
+    });
+  });
+
+  describe("submitResult", () => {
+    it("records relay-side timeouts as timeout status", async () => {
+      const result = await t.mutation(api.rpc.queueRpcCommand, {
+        machineId: "machine-1",
+        command: "sleep 100",
+        targetType: "local",
+        createdBy: "user-1",
+      });
+      const commandId = result.commandId!;
+
+      await t.mutation(api.public.claimCommand, { commandId, assignmentId: "relay-1" });
+      await t.mutation(api.public.submitResult, {
+        commandId,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: false,
+        error: "Command timed out",
+        timedOut: true,
+      });
+
+      const cmd = await t.run(async (ctx) => ctx.db.get(commandId));
+      expect(cmd?.status).toBe("timeout");
+      expect(cmd?.timeoutPhase).toBe("executing");
+    });
+
+    it("keeps late output without reviving a timed out command", async () => {
+      const result = await t.mutation(api.rpc.queueRpcCommand, {
+        machineId: "machine-1",
+        command: "sleep 100",
+        targetType: "local",
+        timeoutMs: 1000,
+        queueTimeoutMs: 1000,
+        createdBy: "user-1",
+      });
+      const commandId = result.commandId!;
+
+      await t.mutation(api.public.claimCommand, { commandId, assignmentId: "relay-1" });
+      vi.advanceTimersByTime(3000);
+      await t.finishInProgressScheduledFunctions();
+
+      await t.mutation(api.public.submitResult, {
+        commandId,
+        assignmentId: "relay-1",
+        attempt: 1,
+        success: true,
+        output: "late output",
+        exitCode: 0,
+      });
+
+      const cmd = await t.run(async (ctx) => ctx.db.get(commandId));
+      expect(cmd?.status).toBe("timeout");
+      expect(cmd?.output).toBe("late output");
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { v } from "convex/values";
+import { internalMutation, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { afterCommandFinished } from "./commands";
+
+// How long a command may wait in the queue for a relay before its execution budget starts
+export const DEFAULT_QUEUE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Schedule the server-side deadline for a newly queued command.
+ * The deadline covers the queue wait plus the command's own timeout.
+ */
+export async function scheduleDeadline(
+  ctx: MutationCtx,
+  commandId: Id<"commandQueue">,
+  deadlineAt: number
+): Promise<void> {
+  await ctx.scheduler.runAt(deadlineAt, internal.timeouts.enforceDeadline, {
+    commandId,
+  });
+}
+
+/**
+ * Scheduled deadline check. Moves commands that are still unfinished to
+ * "timeout", recording whether they were stuck in the queue or executing.
+ */
+export const enforceDeadline = internalMutation({
+  args: {
+    commandId: v.id("commandQueue"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const cmd = await ctx.db.get(args.commandId);
+    if (!cmd) return null;
+
+    const now = Date.now();
+
+    if (cmd.status === "pending") {
+      await ctx.db.patch(cmd._id, {
+        status: "timeout",
+        timeoutPhase: "queued",
+        error: "Command timed out waiting in the queue for a relay",
+        completedAt: now,
+        updatedAt: now,
+      });
+    } else if (cmd.status === "claimed" || cmd.status === "executing") {
+      await ctx.db.patch(cmd._id, {
+        status: "timeout",
+        timeoutPhase: "executing",
+        leaseExpiresAt: undefined,
+        error: `Command did not finish within ${cmd.timeoutMs}ms`,
+        completedAt: now,
+        updatedAt: now,
+      });
+    } else {
+      return null;
+    }
+
+    await afterCommandFinished(ctx, cmd);
+    return null;
+  },
+});
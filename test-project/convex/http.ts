@@ -36,6 +36,22 @@ http.route({
   }),
 });
 
+http.route({
+  path: "/relay/commands/lease",
+  method: "OPTIONS",
+  handler: httpAction(async () => {
+    return new Response(null, { status: 204, headers: relayCorsHeaders });
+  }),
+});
+
+http.route({
+  path: "/relay/commands/output",
+  method: "OPTIONS",
+  handler: httpAction(async () => {
+    return new Response(null, { status: 204, headers: relayCorsHeaders });
+  }),
+});
+
 http.route({
   path: "/relay/commands/result",
   method: "OPTIONS",
@@ -44,6 +60,54 @@ http.route({
   }),
 });
 
+http.route({
+  path: "/relay/files/upload-url",
+  method: "OPTIONS",
+  handler: httpAction(async () => {
+    return new Response(null, { status: 204, headers: relayCorsHeaders });
+  }),
+});
+
+http.route({
+  path: "/relay/commands/output-upload-url",
+  method: "OPTIONS",
+  handler: httpAction(async () => {
+    return new Response(null, { status: 204, headers: relayCorsHeaders });
+  }),
+});
+
+http.route({
+  path: "/relay/sessions",
+  method: "OPTIONS",
+  handler: httpAction(async () => {
+    return new Response(null, { status: 204, headers: relayCorsHeaders });
+  }),
+});
+
+http.route({
+  path: "/relay/sessions/claim",
+  method: "OPTIONS",
+  handler: httpAction(async () => {
+    return new Response(null, { status: 204, headers: relayCorsHeaders });
+  }),
+});
+
+http.route({
+  path: "/relay/sessions/sync",
+  method: "OPTIONS",
+  handler: httpAction(async () => {
+    return new Response(null, { status: 204, headers: relayCorsHeaders });
+  }),
+});
+
+http.route({
+  path: "/relay/sessions/closed",
+  method: "OPTIONS",
+  handler: httpAction(async () => {
+    return new Response(null, { status: 204, headers: relayCorsHeaders });
+  }),
+});
+
 http.route({
   path: "/relay/heartbeat",
   method: "OPTIONS",
@@ -118,7 +182,7 @@ http.route({
 
 /**
  * Get pending commands for relay's machine
- * GET /relay/commands
+ * GET /relay/commands?limit=<n>
  * Header: X-API-Key: <api-key>
  */
 http.route({
@@ -144,9 +208,11 @@ http.route({
       );
     }
 
-    // Get pending commands
+    // Get pending commands, up to the relay's free execution slots
+    const limit = parseInt(new URL(request.url).searchParams.get("limit") ?? "", 10);
     const commands = await ctx.runQuery(components.remoteCmdRelay.public.getPendingCommands, {
       machineId: assignment.machineId,
+      limit: Number.isNaN(limit) ? undefined : limit,
     });
 
     return new Response(
@@ -160,7 +226,7 @@ http.route({
  * Claim a command for execution
  * POST /relay/commands/claim
  * Header: X-API-Key: <api-key>
- * Body: { commandId: string }
+ * Body: { commandId: string, leaseDurationMs?: number }
  */
 http.route({
   path: "/relay/commands/claim",
@@ -169,7 +235,7 @@ http.route({
     const apiKey = request.headers.get("X-API-Key");
 
     const body = await request.json();
-    const { commandId } = body as { commandId: string };
+    const { commandId, leaseDurationMs } = body as { commandId: string; leaseDurationMs?: number };
 
     if (!commandId) {
       return new Response(
@@ -199,6 +265,7 @@ http.route({
     const result = await ctx.runMutation(components.remoteCmdRelay.public.claimCommand, {
       commandId: commandId as Id<"commandQueue">,
       assignmentId: assignment.assignmentId,
+      leaseDurationMs,
     });
 
     return new Response(
@@ -208,11 +275,123 @@ http.route({
   }),
 });
 
+/**
+ * Renew the lease on a claimed command
+ * POST /relay/commands/lease
+ * Header: X-API-Key: <api-key>
+ * Body: { commandId: string, attempt: number, leaseDurationMs?: number }
+ */
+http.route({
+  path: "/relay/commands/lease",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const apiKey = request.headers.get("X-API-Key");
+
+    const body = await request.json();
+    const { commandId, attempt, leaseDurationMs } = body as {
+      commandId: string;
+      attempt: number;
+      leaseDurationMs?: number;
+    };
+
+    if (!commandId || typeof attempt !== "number") {
+      return new Response(
+        JSON.stringify({ error: "commandId and attempt are required" }),
+        { status: 400, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const verification = await verifyRelayApiKey(ctx, apiKey);
+    if (!verification.valid) {
+      return verification.response;
+    }
+
+    const assignment = await ctx.runQuery(components.remoteCmdRelay.public.verifyRelay, {
+      apiKeyId: verification.apiKeyId,
+    });
+
+    if (!assignment.valid) {
+      return new Response(
+        JSON.stringify({ error: assignment.error }),
+        { status: 403, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const result = await ctx.runMutation(components.remoteCmdRelay.public.renewLease, {
+      commandId: commandId as Id<"commandQueue">,
+      assignmentId: assignment.assignmentId,
+      attempt,
+      leaseDurationMs,
+    });
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+    );
+  }),
+});
+
+/**
+ * Append output chunks of a running command
+ * POST /relay/commands/output
+ * Header: X-API-Key: <api-key>
+ * Body: { commandId: string, attempt: number, chunks: { stream: "stdout" | "stderr", seq: number, data: string }[] }
+ */
+http.route({
+  path: "/relay/commands/output",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const apiKey = request.headers.get("X-API-Key");
+
+    const body = await request.json();
+    const { commandId, attempt, chunks } = body as {
+      commandId: string;
+      attempt: number;
+      chunks: { stream: "stdout" | "stderr"; seq: number; data: string }[];
+    };
+
+    if (!commandId || typeof attempt !== "number" || !Array.isArray(chunks)) {
+      return new Response(
+        JSON.stringify({ error: "commandId, attempt and chunks are required" }),
+        { status: 400, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const verification = await verifyRelayApiKey(ctx, apiKey);
+    if (!verification.valid) {
+      return verification.response;
+    }
+
+    const assignment = await ctx.runQuery(components.remoteCmdRelay.public.verifyRelay, {
+      apiKeyId: verification.apiKeyId,
+    });
+
+    if (!assignment.valid) {
+      return new Response(
+        JSON.stringify({ error: assignment.error }),
+        { status: 403, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const result = await ctx.runMutation(components.remoteCmdRelay.public.appendOutput, {
+      commandId: commandId as Id<"commandQueue">,
+      assignmentId: assignment.assignmentId,
+      attempt,
+      chunks,
+    });
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+    );
+  }),
+});
+
 /**
  * Submit command execution result
  * POST /relay/commands/result
  * Header: X-API-Key: <api-key>
- * Body: { commandId, success, output?, stderr?, exitCode?, error?, durationMs? }
+ * Body: { commandId, attempt, success, output?, stderr?, exitCode?, signal?, error?, durationMs?, timedOut?, errorCode?, authMethod?, file?, outputFile?, stderrFile?, outputBytes?, stderrBytes?, outputTruncated?, stderrTruncated? }
  */
 http.route({
   path: "/relay/commands/result",
@@ -221,19 +400,35 @@ http.route({
     const apiKey = request.headers.get("X-API-Key");
 
     const body = await request.json();
-    const { commandId, success, output, stderr, exitCode, error, durationMs } = body as {
+    const { commandId, attempt, success, output, stderr, exitCode, signal, error, durationMs, timedOut, errorCode, authMethod, file, outputFile, stderrFile, outputBytes, stderrBytes, outputTruncated, stderrTruncated } = body as {
       commandId: string;
+      attempt: number;
       success: boolean;
       output?: string;
       stderr?: string;
       exitCode?: number;
+      signal?: string;
       error?: string;
       durationMs?: number;
+      timedOut?: boolean;
+      errorCode?: "policy_denied" | "ssh_target_denied" | "host_key_rejected" | "profile_rejected";
+      authMethod?: string;
+      file?: {
+        chunks: Array<{ storageId: string; size: number; sha256: string }>;
+        size: number;
+        sha256: string;
+      };
+      outputFile?: { storageId: string; size: number; sha256: string };
+      stderrFile?: { storageId: string; size: number; sha256: string };
+      outputBytes?: number;
+      stderrBytes?: number;
+      outputTruncated?: boolean;
+      stderrTruncated?: boolean;
     };
 
-    if (!commandId || typeof success !== "boolean") {
+    if (!commandId || typeof attempt !== "number" || typeof success !== "boolean") {
       return new Response(
-        JSON.stringify({ error: "commandId and success are required" }),
+        JSON.stringify({ error: "commandId, attempt and success are required" }),
         { status: 400, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -243,15 +438,354 @@ http.route({
       return verification.response;
     }
 
+    const assignment = await ctx.runQuery(components.remoteCmdRelay.public.verifyRelay, {
+      apiKeyId: verification.apiKeyId,
+    });
+
+    if (!assignment.valid) {
+      return new Response(
+        JSON.stringify({ error: assignment.error }),
+        { status: 403, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Submit result
     const result = await ctx.runMutation(components.remoteCmdRelay.public.submitResult, {
       commandId: commandId as Id<"commandQueue">,
+      assignmentId: assignment.assignmentId,
+      attempt,
       success,
       output,
       stderr,
       exitCode,
+      signal,
       error,
       durationMs,
+      timedOut,
+      errorCode,
+      authMethod,
+      file: file && {
+        ...file,
+        chunks: file.chunks.map((c) => ({ ...c, storageId: c.storageId as Id<"_storage"> })),
+      },
+      outputFile: outputFile && { ...outputFile, storageId: outputFile.storageId as Id<"_storage"> },
+      stderrFile: stderrFile && { ...stderrFile, storageId: stderrFile.storageId as Id<"_storage"> },
+      outputBytes,
+      stderrBytes,
+      outputTruncated,
+      stderrTruncated,
+    });
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+    );
+  }),
+});
+
+/**
+ * Get an upload URL for one chunk of a file_pull the relay is running
+ * POST /relay/files/upload-url
+ * Header: X-API-Key: <api-key>
+ * Body: { commandId: string, attempt: number }
+ */
+http.route({
+  path: "/relay/files/upload-url",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const apiKey = request.headers.get("X-API-Key");
+
+    const body = await request.json();
+    const { commandId, attempt } = body as { commandId: string; attempt: number };
+
+    if (!commandId || typeof attempt !== "number") {
+      return new Response(
+        JSON.stringify({ error: "commandId and attempt are required" }),
+        { status: 400, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const verification = await verifyRelayApiKey(ctx, apiKey);
+    if (!verification.valid) {
+      return verification.response;
+    }
+
+    const assignment = await ctx.runQuery(components.remoteCmdRelay.public.verifyRelay, {
+      apiKeyId: verification.apiKeyId,
+    });
+
+    if (!assignment.valid) {
+      return new Response(
+        JSON.stringify({ error: assignment.error }),
+        { status: 403, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const result = await ctx.runMutation(components.remoteCmdRelay.public.generateFileUploadUrl, {
+      commandId: commandId as Id<"commandQueue">,
+      assignmentId: assignment.assignmentId,
+      attempt,
+    });
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+    );
+  }),
+});
+
+/**
+ * Get an upload URL for output of a running command too large to submit inline
+ * POST /relay/commands/output-upload-url
+ * Header: X-API-Key: <api-key>
+ * Body: { commandId: string, attempt: number }
+ */
+http.route({
+  path: "/relay/commands/output-upload-url",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const apiKey = request.headers.get("X-API-Key");
+
+    const body = await request.json();
+    const { commandId, attempt } = body as { commandId: string; attempt: number };
+
+    if (!commandId || typeof attempt !== "number") {
+      return new Response(
+        JSON.stringify({ error: "commandId and attempt are required" }),
+        { status: 400, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const verification = await verifyRelayApiKey(ctx, apiKey);
+    if (!verification.valid) {
+      return verification.response;
+    }
+
+    const assignment = await ctx.runQuery(components.remoteCmdRelay.public.verifyRelay, {
+      apiKeyId: verification.apiKeyId,
+    });
+
+    if (!assignment.valid) {
+      return new Response(
+        JSON.stringify({ error: assignment.error }),
+        { status: 403, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const result = await ctx.runMutation(components.remoteCmdRelay.public.generateOutputUploadUrl, {
+      commandId: commandId as Id<"commandQueue">,
+      assignmentId: assignment.assignmentId,
+      attempt,
+    });
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+    );
+  }),
+});
+
+/**
+ * Get terminal sessions waiting for a relay
+ * GET /relay/sessions
+ * Header: X-API-Key: <api-key>
+ */
+http.route({
+  path: "/relay/sessions",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    const apiKey = request.headers.get("X-API-Key");
+
+    const verification = await verifyRelayApiKey(ctx, apiKey);
+    if (!verification.valid) {
+      return verification.response;
+    }
+
+    const assignment = await ctx.runQuery(components.remoteCmdRelay.public.verifyRelay, {
+      apiKeyId: verification.apiKeyId,
+    });
+
+    if (!assignment.valid) {
+      return new Response(
+        JSON.stringify({ error: assignment.error }),
+        { status: 403, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const sessions = await ctx.runQuery(components.remoteCmdRelay.public.getPendingSessions, {
+      machineId: assignment.machineId,
+    });
+
+    return new Response(
+      JSON.stringify({ sessions }),
+      { status: 200, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+    );
+  }),
+});
+
+/**
+ * Claim a terminal session and open it
+ * POST /relay/sessions/claim
+ * Header: X-API-Key: <api-key>
+ * Body: { sessionId: string }
+ */
+http.route({
+  path: "/relay/sessions/claim",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const apiKey = request.headers.get("X-API-Key");
+
+    const body = await request.json();
+    const { sessionId } = body as { sessionId: string };
+
+    if (!sessionId) {
+      return new Response(
+        JSON.stringify({ error: "sessionId is required" }),
+        { status: 400, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const verification = await verifyRelayApiKey(ctx, apiKey);
+    if (!verification.valid) {
+      return verification.response;
+    }
+
+    const assignment = await ctx.runQuery(components.remoteCmdRelay.public.verifyRelay, {
+      apiKeyId: verification.apiKeyId,
+    });
+
+    if (!assignment.valid) {
+      return new Response(
+        JSON.stringify({ error: assignment.error }),
+        { status: 403, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const result = await ctx.runMutation(components.remoteCmdRelay.public.claimSession, {
+      sessionId: sessionId as Id<"terminalSessions">,
+      assignmentId: assignment.assignmentId,
+    });
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+    );
+  }),
+});
+
+/**
+ * Send terminal output and applied input for an open session, returning waiting input
+ * POST /relay/sessions/sync
+ * Header: X-API-Key: <api-key>
+ * Body: { sessionId: string, output?: string, appliedInputSeq?: number, authMethod?: string }
+ */
+http.route({
+  path: "/relay/sessions/sync",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const apiKey = request.headers.get("X-API-Key");
+
+    const body = await request.json();
+    const { sessionId, output, appliedInputSeq, authMethod } = body as {
+      sessionId: string;
+      output?: string;
+      appliedInputSeq?: number;
+      authMethod?: string;
+    };
+
+    if (!sessionId) {
+      return new Response(
+        JSON.stringify({ error: "sessionId is required" }),
+        { status: 400, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const verification = await verifyRelayApiKey(ctx, apiKey);
+    if (!verification.valid) {
+      return verification.response;
+    }
+
+    const assignment = await ctx.runQuery(components.remoteCmdRelay.public.verifyRelay, {
+      apiKeyId: verification.apiKeyId,
+    });
+
+    if (!assignment.valid) {
+      return new Response(
+        JSON.stringify({ error: assignment.error }),
+        { status: 403, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const result = await ctx.runMutation(components.remoteCmdRelay.public.syncSession, {
+      sessionId: sessionId as Id<"terminalSessions">,
+      assignmentId: assignment.assignmentId,
+      output,
+      appliedInputSeq,
+      authMethod,
+    });
+
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+    );
+  }),
+});
+
+/**
+ * Report that a terminal session ended
+ * POST /relay/sessions/closed
+ * Header: X-API-Key: <api-key>
+ * Body: { sessionId: string, closeReason: string, output?, exitCode?, error?, errorCode?, authMethod? }
+ */
+http.route({
+  path: "/relay/sessions/closed",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const apiKey = request.headers.get("X-API-Key");
+
+    const body = await request.json();
+    const { sessionId, closeReason, output, exitCode, error, errorCode, authMethod } = body as {
+      sessionId: string;
+      closeReason: "exited" | "closed" | "idle" | "error";
+      output?: string;
+      exitCode?: number;
+      error?: string;
+      errorCode?: "policy_denied" | "ssh_target_denied" | "host_key_rejected" | "profile_rejected";
+      authMethod?: string;
+    };
+
+    if (!sessionId) {
+      return new Response(
+        JSON.stringify({ error: "sessionId is required" }),
+        { status: 400, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const verification = await verifyRelayApiKey(ctx, apiKey);
+    if (!verification.valid) {
+      return verification.response;
+    }
+
+    const assignment = await ctx.runQuery(components.remoteCmdRelay.public.verifyRelay, {
+      apiKeyId: verification.apiKeyId,
+    });
+
+    if (!assignment.valid) {
+      return new Response(
+        JSON.stringify({ error: assignment.error }),
+        { status: 403, headers: { ...relayCorsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const result = await ctx.runMutation(components.remoteCmdRelay.public.reportSessionClosed, {
+      sessionId: sessionId as Id<"terminalSessions">,
+      assignmentId: assignment.assignmentId,
+      closeReason,
+      output,
+      exitCode,
+      error,
+      errorCode,
+      authMethod,
     });
 
     return new Response(
@@ -265,7 +799,7 @@ http.route({
  * Report full relay status (capabilities, metrics, credentials)
  * POST /relay/status
  * Header: X-API-Key: <api-key>
- * Body: { relayId, capabilities, metrics?, version?, hostname?, platform?, credentials }
+ * Body: { relayId, capabilities, metrics?, version?, hostname?, platform?, credentials, commandPolicyVersion?, sshTargets?, hostKeys? }
  */
 http.route({
   path: "/relay/status",
@@ -274,7 +808,7 @@ http.route({
     const apiKey = request.headers.get("X-API-Key");
 
     const body = await request.json();
-    const { relayId, capabilities, metrics, version, hostname, platform, credentials } = body as {
+    const { relayId, capabilities, metrics, version, hostname, platform, credentials, commandPolicyVersion, sshTargets, hostKeys } = body as {
       relayId: string;
       capabilities: string[];
       metrics?: {
@@ -299,6 +833,27 @@ http.route({
         storageMode: string;
         lastUpdatedAt: number;
       }>;
+      commandPolicyVersion?: string;
+      sshTargets?: Array<{
+        host: string;
+        port: number;
+        username?: string;
+        credentialName?: string;
+        hostKeyFingerprint?: string;
+        forwardAgent?: boolean;
+        jumpHosts?: Array<{ host: string; port?: number; username?: string; credentialName?: string }>;
+      }>;
+      hostKeys?: Array<{
+        host: string;
+        port: number;
+        keyType: string;
+        fingerprint: string;
+        source: "tofu" | "pinned";
+        firstSeenAt: number;
+        lastSeenAt: number;
+        rejectedFingerprint?: string;
+        rejectedAt?: number;
+      }>;
     };
 
     if (!relayId || !capabilities || !credentials) {
@@ -326,6 +881,9 @@ http.route({
         credentialType: c.credentialType as "ssh_key" | "password" | "api_key",
         storageMode: c.storageMode as "relay_only" | "shared",
       })),
+      commandPolicyVersion,
+      sshTargets,
+      hostKeys,
     });
 
     return new Response(